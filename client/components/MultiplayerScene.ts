@@ -1,23 +1,55 @@
 import * as THREE from 'three';
-import { MovementEvent, PlayerState } from '../network/SocketManager';
+import { MatchPlayerStats } from '../network/Messages';
+import { MovementEvent, PlayerDeath, PlayerHit, PlayerState, SessionState } from '../network/SocketManager';
+import {
+  DEFAULT_SERVER_URL,
+  normalizeServerUrl,
+  readServerEndpointSources,
+  readServerPresets,
+  resolveServerEndpoint
+} from '../network/ServerEndpoint';
 import { PlayerIdInput } from './PlayerIdInput';
+import { getAircraftDefinition } from './aircraft/AircraftDefinitions';
+import {
+  Loadout,
+  createAircraft,
+  disposeAircraft,
+  loadStoredLoadout,
+  normalizeLoadout,
+  sameLoadout,
+  storeLoadout
+} from './assets/Loadout';
 import { ModelCache } from './assets/ModelCache';
+import { MatchController, MatchPhase, MatchResult } from './match/MatchController';
 import { Environment } from './environment/Environment';
 import { InputManager } from './input/InputManager';
+import { ClientPrediction } from './network/ClientPrediction';
 import { NetworkManager } from './network/NetworkManager';
+import { ServerClock } from './network/ServerClock';
 import { StateSync } from './network/StateSync';
 import { RemotePlayerManager } from './players/RemotePlayerManager';
+import { AircraftCollisionDetector } from './physics/AircraftCollision';
+import { FixedTimestep } from './physics/FixedTimestep';
 import { FlightPhysics } from './physics/FlightPhysics';
 import { GameHud } from './ui/GameHud';
 import { GameOverOverlay } from './ui/GameOverOverlay';
+import { HangarScreen } from './ui/HangarScreen';
 import { MainMenu } from './ui/MainMenu';
+import { MatchResultsOverlay } from './ui/MatchResultsOverlay';
+import { RANKINGS_PAGE_SIZE, RankingsScreen } from './ui/RankingsScreen';
+import { Scoreboard } from './ui/Scoreboard';
+import { FlareSystem } from './weapons/FlareSystem';
+import { leadPoint } from './weapons/GunBallistics';
+import { MissileSystem } from './weapons/MissileSystem';
 import { WeaponSystem } from './weapons/WeaponSystem';
-import { createStylizedJet, enableShadows } from './assets/PlaneFactory';
+import { enableShadows } from './assets/PlaneFactory';
 
 export interface SceneDebugSnapshot {
   speed: number;
   position: THREE.Vector3;
   activeKeys: Set<string>;
+  /** 마지막으로 시뮬레이션한 틱 (= 서버로 보내는 입력 시퀀스) */
+  tick: number;
 }
 
 export class MultiplayerScene {
@@ -25,23 +57,53 @@ export class MultiplayerScene {
   private readonly camera: THREE.PerspectiveCamera;
   private readonly renderer: THREE.WebGLRenderer;
   private readonly modelCache = new ModelCache();
+  private readonly serverClock = new ServerClock();
   private readonly remotePlayers: RemotePlayerManager;
   private readonly weaponSystem: WeaponSystem;
+  private readonly missileSystem: MissileSystem;
+  private readonly flareSystem: FlareSystem;
   private readonly inputManager: InputManager;
   private readonly flightPhysics: FlightPhysics;
+  private readonly prediction: ClientPrediction;
+  private readonly timestep = new FixedTimestep({ tickRate: 60, maxTicksPerFrame: 5 });
+  /**
+   * 시뮬레이션이 움직이는 내 기체 - 화면의 localPlane은 직전/현재 틱 사이를 보간해 따라간다.
+   * 예측/재조정, StateSync 전송은 모두 이 값 기준이다.
+   */
+  private readonly simBody = new THREE.Object3D();
+  private readonly previousSimPosition = new THREE.Vector3();
+  private readonly previousSimQuaternion = new THREE.Quaternion();
+  /** 이번 추락을 이미 처리했다 (리스폰 때 풀린다) */
+  private crashHandled = false;
+  private readonly collisionDetector = new AircraftCollisionDetector();
   private readonly environment: Environment;
   private readonly networkManager: NetworkManager;
   private readonly stateSync: StateSync;
+  private readonly matchController: MatchController;
+  private readonly scoreboard = new Scoreboard();
 
   private localPlane: THREE.Group | null = null;
+  /** 격납고에서 고른 기체/도색 - 접속할 때 서버로 보낸다 */
+  private loadout: Loadout = loadStoredLoadout();
+  private localPlaneVersion = 0;
   private playerIdInput: PlayerIdInput | null = null;
   private mainMenu: MainMenu | null = null;
   private gameOverOverlay: GameOverOverlay | null = null;
-  private kills = 0;
-  private deaths = 0;
+  private matchResults: MatchResultsOverlay | null = null;
+  private rankingsScreen: RankingsScreen | null = null;
+  private hangarScreen: HangarScreen | null = null;
+  private rankingsTimeout: number | null = null;
+  private readonly rankingsTimeoutMs = 5000;
+  private engageBannerUntil = 0;
+  /** HUD 점수 - 서버 통계(match-stats, welcome 상태)로만 바뀐다 */
+  private localScore = { kills: 0, deaths: 0, score: 0 };
+  private statsPollTimer: number | null = null;
+  private lastStatsRequest = 0;
+  private readonly statsPollMs = 5000;
+  private readonly scoreboardPollMs = 1000;
   private lastFrameTime = performance.now();
-  private health = 100;
-  private readonly maxHealth = 100;
+  private health: number;
+  private maxHealth: number;
   private readonly lerpFactor = 0.5;
   private firstPersonUntil = 0;
   private firstPersonStart = 0;
@@ -50,6 +112,7 @@ export class MultiplayerScene {
   private readonly defaultFov = 75;
   private readonly firstPersonFov = 65;
   private readonly cockpitOffset = new THREE.Vector3(0, 0.25, -1.2);
+  private readonly spawnPosition = new THREE.Vector3(0, 10, 0);
   private shootShakeEnd = 0;
   private readonly shootShakeDuration = 200;
   private readonly shakeAmplitude = 0.02;
@@ -58,6 +121,9 @@ export class MultiplayerScene {
   private readonly _scratchOffset = new THREE.Vector3();
   private readonly _scratchTarget = new THREE.Vector3();
   private readonly _scratchJitter = new THREE.Vector3();
+  private readonly _scratchProjection = new THREE.Vector3();
+  private readonly _scratchVelocity = new THREE.Vector3();
+  private readonly _scratchTargetVelocity = new THREE.Vector3();
 
   constructor(canvas: HTMLCanvasElement, private readonly hud: GameHud) {
     this.scene = new THREE.Scene();
@@ -73,40 +139,53 @@ export class MultiplayerScene {
     this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
     this.renderer.toneMappingExposure = 1.4;
 
-    this.remotePlayers = new RemotePlayerManager(this.scene, this.modelCache);
+    this.remotePlayers = new RemotePlayerManager(this.scene, this.modelCache, this.serverClock, {
+      interpolationDelayMs: 100,
+      maxExtrapolationMs: 250
+    });
+    const aircraft = getAircraftDefinition(this.loadout.airframe);
+    this.maxHealth = aircraft.health;
+    this.health = aircraft.health;
     this.inputManager = new InputManager(canvas);
-    this.flightPhysics = new FlightPhysics();
+    this.inputManager.setDefinition(aircraft);
+    this.flightPhysics = new FlightPhysics(aircraft);
+    this.prediction = new ClientPrediction(this.flightPhysics);
     this.environment = new Environment(this.scene);
+    this.flightPhysics.setGround(this.environment.getHeightmap());
 
     this.weaponSystem = new WeaponSystem(
       this.scene,
       this.camera,
-      this.remotePlayers.getPlayerMap(),
-      (targetId, damage, hitPoint, distance) => {
-        this.networkManager.sendHit(parseInt(targetId, 10), damage, hitPoint.toArray(), distance);
-      }
-    );
-
-    this.networkManager = new NetworkManager({
-      onPlayerJoin: (id, state) => void this.remotePlayers.addPlayer(id, state),
-      onPlayerUpdate: (id, state) => this.remotePlayers.updatePlayer(id, state),
-      onPlayerLeave: (id) => this.remotePlayers.removePlayer(id),
-      onAllPlayers: (players) => {
-        Object.entries(players).forEach(([id, state]) => {
-          if (id !== this.networkManager.getPlayerId()?.toString()) {
-            void this.remotePlayers.addPlayer(id, state);
-          }
+      (origin, direction, weaponId) => {
+        this.networkManager.sendShot({
+          weaponId,
+          origin: origin.toArray(),
+          direction: direction.toArray(),
+          clientTime: this.remotePlayers.getRenderTime(),
+          snapshotSequence: this.networkManager.getLastSnapshotSequence()
         });
       },
-      onPlayerMovement: (id, event) => this.handleRemotePlayerMovement(id, event),
-      onPlayerHit: (attackerId, victimId, damage, victimHealth) =>
-        this.handlePlayerHit(attackerId, victimId, damage, victimHealth),
-      onPlayerDeath: (victimId, attackerId, respawnPosition) =>
-        this.handlePlayerDeath(victimId, attackerId, respawnPosition),
-      onDisconnected: () => {
-        this.hud.setPlayerId(undefined, true);
-      }
+      aircraft
+    );
+
+    this.missileSystem = new MissileSystem(this.scene, ({ origin, direction, targetId }) => {
+      this.networkManager.sendMissileLaunch(
+        origin.toArray(),
+        direction.toArray(),
+        targetId === null ? null : Number(targetId)
+      );
+    });
+
+    this.flareSystem = new FlareSystem(this.scene, (origin) => this.networkManager.sendFlare(origin.toArray()));
+
+    this.networkManager = new NetworkManager();
+    this.matchController = new MatchController({
+      now: () => this.serverClock.now(),
+      onPhaseChange: (phase, previous) => this.handleMatchPhaseChange(phase, previous),
+      onResults: (result, returnInMs) => this.showMatchResults(result, returnInMs),
+      onReturnToLobby: () => this.returnToLobby()
     });
+    this.bindNetworkEvents();
 
     this.stateSync = new StateSync({
       positionThreshold: 0.1,
@@ -123,10 +202,24 @@ export class MultiplayerScene {
       onRespawn: () => this.respawnLocalPlayer(),
       onMainMenu: () => window.location.reload()
     });
+    this.matchResults = new MatchResultsOverlay({
+      onReturnToLobby: () => this.matchController.returnToLobby()
+    });
+    this.rankingsScreen = new RankingsScreen({
+      onPageRequest: (page) => this.loadRankingsPage(page),
+      onClose: () => this.clearRankingsTimeout()
+    });
+    this.hangarScreen = new HangarScreen({
+      modelCache: this.modelCache,
+      onSave: (loadout) => this.applyLoadout(loadout)
+    });
     this.showMainMenu();
     this.hud.updateHealth(this.health, this.maxHealth);
     this.hud.updateWeapon(this.weaponSystem.getStatus());
+    this.hud.updateMissiles(this.missileSystem.getStatus());
+    this.hud.updateFlares(this.flareSystem.getStatus());
     this.refreshScore();
+    this.statsPollTimer = window.setInterval(() => this.pollMatchStats(), 250);
 
     window.addEventListener('resize', this.onResize);
   }
@@ -142,12 +235,17 @@ export class MultiplayerScene {
     this.lastFrameTime = now;
     const perfHeavy = deltaTime * 1000 > 50;
 
-    this.updatePhysics(deltaTime, localPlane);
-    this.weaponSystem.update(deltaTime);
+    this.timestep.advance(deltaTime, (step, tick) => this.simulateTick(step, tick));
+    this.interpolateLocalPlane(localPlane);
+    this.remotePlayers.update(deltaTime);
+    this.updateMatchHud(now);
 
     const inputState = this.inputManager.getCurrentInputState();
-    this.stateSync.update(localPlane, inputState, this.flightPhysics.getCurrentSpeed());
     this.hud.updateWeapon(this.weaponSystem.getStatus());
+    this.hud.updateMissiles(this.missileSystem.getStatus());
+    this.hud.updateFlares(this.flareSystem.getStatus());
+    this.hud.setStallWarning(this.flightPhysics.isStalled());
+    this.hud.setAltitudeWarning(this.flightPhysics.isLowAltitude());
 
     // keep the key light + its shadow frustum following the aircraft
     const sun = this.environment.getLighting().getSunLight();
@@ -168,6 +266,8 @@ export class MultiplayerScene {
     } else {
       this.updateThirdPersonCamera(perfHeavy, localPlane);
     }
+    this.updateLockBox();
+    this.updateLeadPip();
 
     this.renderer.render(this.scene, this.camera);
   };
@@ -176,12 +276,22 @@ export class MultiplayerScene {
     return {
       speed: this.flightPhysics.getSpeed(),
       position: this.localPlane ? this.localPlane.position.clone() : new THREE.Vector3(),
-      activeKeys: this.inputManager.getActiveKeys()
+      activeKeys: this.inputManager.getActiveKeys(),
+      tick: this.timestep.getTick()
     };
   }
 
+  /** 시뮬레이션 틱 번호 - 입력 시퀀스로 서버에 전송되고 state-ack로 돌아온다 */
+  public getSimulationTick(): number {
+    return this.timestep.getTick();
+  }
+
   public dispose(): void {
     window.removeEventListener('resize', this.onResize);
+    if (this.statsPollTimer !== null) {
+      window.clearInterval(this.statsPollTimer);
+      this.statsPollTimer = null;
+    }
 
     this.playerIdInput?.dispose();
     this.playerIdInput = null;
@@ -192,15 +302,27 @@ export class MultiplayerScene {
     this.gameOverOverlay?.dispose();
     this.gameOverOverlay = null;
 
+    this.matchResults?.dispose();
+    this.matchResults = null;
+
+    this.clearRankingsTimeout();
+    this.rankingsScreen?.dispose();
+    this.rankingsScreen = null;
+    this.hangarScreen?.dispose();
+    this.hangarScreen = null;
+    this.matchController.dispose();
+
     this.stateSync.dispose();
     this.networkManager.disconnect();
     this.weaponSystem.dispose();
+    this.missileSystem.dispose();
+    this.flareSystem.dispose();
     this.inputManager.dispose();
     this.remotePlayers.dispose();
 
     if (this.localPlane) {
       this.scene.remove(this.localPlane);
-      this.disposeLocalPlane(this.localPlane);
+      disposeAircraft(this.localPlane);
       this.localPlane = null;
     }
 
@@ -210,11 +332,11 @@ export class MultiplayerScene {
 
   private bindSystems(): void {
     this.inputManager.setOnShootCallback(() => {
-      if (!this.localPlane) {
+      if (!this.localPlane || !this.matchController.allowsCombat()) {
         return;
       }
 
-      const didShoot = this.weaponSystem.shoot(this.localPlane);
+      const didShoot = this.weaponSystem.shoot(this.localPlane, this.flightPhysics.getVelocity(this._scratchVelocity));
       if (!didShoot) {
         return;
       }
@@ -226,11 +348,41 @@ export class MultiplayerScene {
     });
 
     this.inputManager.setOnReloadCallback(() => {
-      this.weaponSystem.reload();
+      if (this.weaponSystem.reload()) {
+        this.networkManager.sendReload(this.weaponSystem.getActiveWeapon().id);
+      }
+    });
+
+    this.inputManager.setOnWeaponSwitchCallback(() => {
+      this.weaponSystem.switchWeapon();
+      this.hud.updateWeapon(this.weaponSystem.getStatus());
+    });
+
+    this.inputManager.setOnSecondaryFireCallback(() => {
+      if (!this.localPlane || !this.canLockOn()) {
+        return;
+      }
+
+      this.missileSystem.launch(this.simBody);
     });
 
-    this.stateSync.setStateChangeCallback((state) => {
-      this.networkManager.sendState(state);
+    this.inputManager.setOnCountermeasureCallback(() => {
+      if (!this.localPlane || !this.canLockOn()) {
+        return;
+      }
+
+      this.flareSystem.dispense(this.simBody);
+    });
+
+    this.inputManager.setOnScoreboardCallback((visible) => {
+      this.scoreboard.setVisible(visible);
+      if (visible) {
+        this.requestMatchStats();
+      }
+    });
+
+    this.stateSync.setStateChangeCallback((state, sequence) => {
+      this.networkManager.sendState(state, sequence);
     });
 
     this.stateSync.setMovementEventCallback((event) => {
@@ -243,25 +395,96 @@ export class MultiplayerScene {
     await this.environment.initialize();
   }
 
+  /** 현재 loadout으로 내 기체를 만든다. 이미 있으면 위치/자세를 이어받아 교체한다 */
   private async loadLocalPlane(): Promise<void> {
-    try {
-      this.localPlane = await this.modelCache.createJetInstance();
-    } catch (error) {
-      console.error('Error loading plane model:', error);
-      this.localPlane = createStylizedJet();
-      this.localPlane.userData.isFallbackPlane = true;
+    const version = ++this.localPlaneVersion;
+    const plane = await createAircraft(this.modelCache, this.loadout);
+    if (version !== this.localPlaneVersion) {
+      disposeAircraft(plane);
+      return;
+    }
+
+    const previous = this.localPlane;
+    if (previous) {
+      plane.position.copy(previous.position);
+      plane.quaternion.copy(previous.quaternion);
+      this.scene.remove(previous);
+      disposeAircraft(previous);
+    }
+
+    enableShadows(plane);
+    this.localPlane = plane;
+    this.scene.add(plane);
+  }
+
+  private applyLoadout(loadout: Loadout): void {
+    storeLoadout(loadout);
+    if (sameLoadout(loadout, this.loadout)) {
+      return;
     }
 
-    enableShadows(this.localPlane);
-    this.scene.add(this.localPlane);
+    console.log(`🛩️ Loadout: ${loadout.airframe} / ${loadout.livery}`);
+    const airframeChanged = loadout.airframe !== this.loadout.airframe;
+    this.loadout = loadout;
+    if (airframeChanged) {
+      this.applyAircraftDefinition();
+    }
+    void this.loadLocalPlane();
+  }
+
+  /** 비행 모델/선회율/무장/체력을 현재 loadout의 기체 정의로 맞춘다 (격납고는 로비에서만 열린다) */
+  private applyAircraftDefinition(): void {
+    const aircraft = getAircraftDefinition(this.loadout.airframe);
+    this.flightPhysics.setDefinition(aircraft);
+    this.inputManager.setDefinition(aircraft);
+    this.weaponSystem.setDefinition(aircraft);
+    this.maxHealth = aircraft.health;
+    this.health = aircraft.health;
+    this.hud.updateHealth(this.health, this.maxHealth);
+    this.hud.updateWeapon(this.weaponSystem.getStatus());
   }
 
   private showMainMenu(): void {
     this.mainMenu = new MainMenu({
-      onStart: () => this.showPlayerIdInput()
+      onStart: () => this.showPlayerIdInput(),
+      onRankings: () => this.openRankings(),
+      onHangar: () => this.hangarScreen?.show(this.loadout)
     });
   }
 
+  private openRankings(): void {
+    this.rankingsScreen?.show();
+    this.loadRankingsPage(0);
+  }
+
+  /** 랭킹은 게임 서버 소켓으로만 조회된다 - 연결 전이면 바로 오류 상태를 보여준다 */
+  private loadRankingsPage(page: number): void {
+    const screen = this.rankingsScreen;
+    if (!screen) {
+      return;
+    }
+
+    this.clearRankingsTimeout();
+    if (!this.networkManager.isConnected()) {
+      screen.setError('서버에 연결되어 있지 않습니다 · 게임에 입장하면 불러올 수 있습니다');
+      return;
+    }
+
+    screen.setLoading(page);
+    this.networkManager.requestRankings(page, RANKINGS_PAGE_SIZE);
+    this.rankingsTimeout = window.setTimeout(() => {
+      this.rankingsTimeout = null;
+      screen.setError('랭킹 응답 시간이 초과되었습니다');
+    }, this.rankingsTimeoutMs);
+  }
+
+  private clearRankingsTimeout(): void {
+    if (this.rankingsTimeout !== null) {
+      window.clearTimeout(this.rankingsTimeout);
+      this.rankingsTimeout = null;
+    }
+  }
+
   private enterPlayingState(): void {
     document.body.classList.remove('state-boot', 'state-menu', 'state-login');
     document.body.classList.add('state-playing');
@@ -269,14 +492,58 @@ export class MultiplayerScene {
   }
 
   private refreshScore(): void {
-    this.hud.updateScore(this.kills, this.deaths, this.kills * 100);
+    const { kills, deaths, score } = this.localScore;
+    this.hud.updateScore(kills, deaths, score);
+  }
+
+  /** 스코어보드가 열려 있으면 자주, 아니면 HUD 점수용으로 가끔 서버 통계를 요청한다 */
+  private pollMatchStats(): void {
+    if (!this.networkManager.isConnected()) {
+      return;
+    }
+
+    const interval = this.scoreboard.isVisible() ? this.scoreboardPollMs : this.statsPollMs;
+    if (performance.now() - this.lastStatsRequest >= interval) {
+      this.requestMatchStats();
+    }
+  }
+
+  private requestMatchStats(): void {
+    this.lastStatsRequest = performance.now();
+    this.networkManager.requestMatchStats();
+  }
+
+  private applyMatchStats(stats: MatchPlayerStats[]): void {
+    const localPlayerId = this.networkManager.getPlayerId();
+    this.scoreboard.render(stats, localPlayerId);
+
+    const local = stats.find((entry) => entry.playerId === localPlayerId);
+    if (!local) {
+      return;
+    }
+
+    this.localScore = { kills: local.kills, deaths: local.deaths, score: local.score };
+    this.refreshScore();
+    this.gameOverOverlay?.updateStats(this.localScore);
   }
 
   private showPlayerIdInput(): void {
+    const sources = readServerEndpointSources();
+    let serverUrl = DEFAULT_SERVER_URL;
+    try {
+      serverUrl = resolveServerEndpoint(sources).url;
+    } catch (error) {
+      // 잘못된 ?server= / VITE_WS_URL은 기본값으로 두고 화면에서 고치게 한다
+      console.error('Invalid server endpoint:', error);
+    }
+
     this.playerIdInput = new PlayerIdInput({
-      onAuthentication: async (username: string) => {
+      serverUrl,
+      serverPresets: readServerPresets(),
+      normalizeServerUrl: (raw) => normalizeServerUrl(raw, sources.secure),
+      onAuthentication: async (username: string, serverUrl: string) => {
         try {
-          await this.networkManager.connect(username);
+          await this.networkManager.connect(username, serverUrl, this.loadout);
           this.hud.setPlayerId(this.networkManager.getPlayerId() ?? undefined);
           this.hud.ensureCrosshair();
           this.enterPlayingState();
@@ -299,11 +566,166 @@ export class MultiplayerScene {
     });
   }
 
-  private updatePhysics(deltaTime: number, localPlane: THREE.Group): void {
-    const targetRotation = this.inputManager.updateRotation();
+  /** 고정 틱 한 번: 입력 → 비행 예측 → 무장 → 상태 전송. 화면 주사율과 무관하다 */
+  private simulateTick(step: number, tick: number): void {
+    this.previousSimPosition.copy(this.simBody.position);
+    this.previousSimQuaternion.copy(this.simBody.quaternion);
+
+    const targetRotation = this.inputManager.updateRotation(step);
     const inputState = this.inputManager.getCurrentInputState();
+    this.prediction.applyInput(tick, step, inputState, targetRotation, this.simBody);
+    this.checkAircraftCollision(step, tick);
+    this.weaponSystem.update(step, this.remotePlayers.getCollisionBodies());
+    this.missileSystem.update(
+      step,
+      this.canLockOn() ? this.simBody : null,
+      this.remotePlayers.getPlayerMap(),
+      (playerId) => this.resolveMissileTarget(playerId),
+      (flareId) => this.flareSystem.getFlareObject(flareId)
+    );
+    this.flareSystem.update(step);
+    if (this.flightPhysics.isCrashed() && !this.crashHandled) {
+      this.handleLocalCrash();
+    }
+
+    this.stateSync.update(this.simBody, inputState, this.flightPhysics.getCurrentSpeed(), tick);
+  }
+
+  /**
+   * 원격 기체와의 공중 충돌 - 서로 떨어뜨리고 튕겨 낸 뒤 서버에 보고한다.
+   * 피해는 서버가 양쪽에 player-hit으로, 격추는 player-death(cause: collision)로 알린다.
+   */
+  private checkAircraftCollision(step: number, tick: number): void {
+    if (this.flightPhysics.isCrashed() || this.health <= 0) {
+      return;
+    }
 
-    this.flightPhysics.updatePhysics(deltaTime, inputState, targetRotation, localPlane);
+    const contact = this.collisionDetector.detect(
+      this.previousSimPosition,
+      this.simBody.position,
+      this.flightPhysics.getDefinition().collisionRadius,
+      this.remotePlayers.getCollisionBodies(),
+      tick,
+      step
+    );
+    if (!contact) {
+      return;
+    }
+
+    console.log(`💥 Mid-air collision with Player ${contact.id} (${Math.round(contact.closingSpeed)} u/s)`);
+    this.simBody.position.copy(contact.otherPosition).addScaledVector(contact.normal, contact.distance);
+    this.flightPhysics.collide(contact.normal);
+    this.prediction.recaptureLatest(this.simBody);
+
+    if (this.networkManager.isConnected()) {
+      this.networkManager.sendCollision(Number(contact.id), this.simBody.position.toArray());
+    }
+  }
+
+  /** 라운드 밖이나 추락/격추 상태에서는 락온도 발사도 (플레어 사출도) 하지 않는다 */
+  private canLockOn(): boolean {
+    return this.matchController.allowsCombat() &&
+      this.networkManager.isConnected() &&
+      !this.flightPhysics.isCrashed() &&
+      this.health > 0;
+  }
+
+  /** 미사일 목표 - 내 기체면 화면의 내 기체, 아니면 원격 기체 */
+  private resolveMissileTarget(playerId: string): THREE.Object3D | null {
+    if (playerId === this.networkManager.getPlayerId()?.toString()) {
+      return this.localPlane;
+    }
+    return this.remotePlayers.getPlayerMap().get(playerId) ?? null;
+  }
+
+  /** 추적 중인 기체를 화면 좌표로 옮겨 락온 박스를 그린다 (카메라 뒤면 숨긴다) */
+  private updateLockBox(): void {
+    const lock = this.missileSystem.getStatus().lock;
+    const target = lock.targetId ? this.remotePlayers.getPlayerMap().get(lock.targetId) : undefined;
+    if (!target) {
+      this.hud.updateLockBox(null);
+      return;
+    }
+
+    const projected = this._scratchProjection.copy(target.position).project(this.camera);
+    if (projected.z > 1) {
+      this.hud.updateLockBox(null);
+      return;
+    }
+
+    this.hud.updateLockBox({
+      x: (projected.x + 1) / 2 * window.innerWidth,
+      y: (1 - projected.y) / 2 * window.innerHeight,
+      progress: lock.progress,
+      locked: lock.locked
+    });
+  }
+
+  /**
+   * 탄도 기관포의 리드 핍 - 추적 중인 기체가 지금 속도로 날아간다고 보고 탄이 만나는 지점을
+   * 화면에 그린다. 탄은 카메라 위치에서 화면 중앙으로 나가므로 카메라 기준으로 푼다.
+   */
+  private updateLeadPip(): void {
+    const targetId = this.missileSystem.getStatus().lock.targetId;
+    const target = targetId ? this.remotePlayers.getPlayerMap().get(targetId) : undefined;
+    if (
+      this.weaponSystem.getGunMode() !== 'ballistic' ||
+      !targetId ||
+      !target ||
+      !this.canLockOn() ||
+      !this.remotePlayers.getVelocity(targetId, this._scratchTargetVelocity)
+    ) {
+      this.hud.updateLeadPip(null);
+      return;
+    }
+
+    const lead = leadPoint(
+      this.camera.position,
+      this.flightPhysics.getVelocity(this._scratchVelocity),
+      target.position,
+      this._scratchTargetVelocity,
+      this.weaponSystem.getActiveWeapon().range
+    );
+    const projected = lead ? this._scratchProjection.copy(lead.point).project(this.camera) : null;
+    if (!projected || projected.z > 1) {
+      this.hud.updateLeadPip(null);
+      return;
+    }
+
+    this.hud.updateLeadPip({
+      x: (projected.x + 1) / 2 * window.innerWidth,
+      y: (1 - projected.y) / 2 * window.innerHeight
+    });
+  }
+
+  /** 직전 틱과 현재 틱 사이를 남은 누적 시간 비율만큼 보간해 그린다 */
+  private interpolateLocalPlane(localPlane: THREE.Object3D): void {
+    const alpha = this.timestep.getAlpha();
+    localPlane.position.lerpVectors(this.previousSimPosition, this.simBody.position, alpha);
+    localPlane.quaternion.slerpQuaternions(this.previousSimQuaternion, this.simBody.quaternion, alpha);
+  }
+
+  /** 리스폰 지점에 정지 상태로 - 추락 상태도 풀린다 */
+  private resetLocalFlight(): void {
+    this.teleportLocalPlane(this.spawnPosition);
+    this.flightPhysics.reset();
+    // respawn is a teleport: inputs predicted before it must not be replayed
+    this.prediction.reset();
+    this.collisionDetector.reset();
+    this.crashHandled = false;
+  }
+
+  /** 순간이동(리스폰/로비 복귀) - 보간 없이 시뮬레이션과 화면 기체를 함께 옮긴다 */
+  private teleportLocalPlane(position: THREE.Vector3): void {
+    this.simBody.position.copy(position);
+    this.simBody.quaternion.identity();
+    this.previousSimPosition.copy(this.simBody.position);
+    this.previousSimQuaternion.copy(this.simBody.quaternion);
+    this.timestep.reset();
+    if (this.localPlane) {
+      this.localPlane.position.copy(position);
+      this.localPlane.quaternion.identity();
+    }
   }
 
   private updateFirstPersonCamera(
@@ -374,13 +796,169 @@ export class MultiplayerScene {
     this.camera.updateProjectionMatrix();
   }
 
-  private handleRemotePlayerMovement(id: string, event: MovementEvent): void {
-    this.remotePlayers.handleMovement(id, event);
+  private bindNetworkEvents(): void {
+    const events = this.networkManager.events;
+    const isLocal = (id: string) => id === this.networkManager.getPlayerId()?.toString();
+
+    events.on('player-joined', ({ id, state, loadout }) => {
+      if (loadout) {
+        this.remotePlayers.setLoadout(id, normalizeLoadout(loadout));
+      }
+      void this.remotePlayers.addPlayer(id, state);
+    });
+    events.on('player-update', ({ id, state, serverTime }) => this.remotePlayers.updatePlayer(id, state, serverTime));
+    events.on('player-left', ({ id }) => this.remotePlayers.removePlayer(id));
+    events.on('all-players', (players) => {
+      Object.entries(players).forEach(([id, state]) => {
+        if (!isLocal(id)) {
+          void this.remotePlayers.addPlayer(id, state);
+        }
+      });
+    });
+    events.on('loadouts', (loadouts) => {
+      Object.entries(loadouts).forEach(([id, loadout]) => {
+        if (!isLocal(id)) {
+          this.remotePlayers.setLoadout(id, normalizeLoadout(loadout));
+        }
+      });
+    });
+    events.on('terrain', ({ seed }) => {
+      console.log(`🏔️ Terrain seed ${seed}`);
+      this.flightPhysics.setGround(this.environment.setTerrainSeed(seed));
+    });
+    events.on('gun-mode', ({ ballistic }) => {
+      console.log(`🔫 Gun mode: ${ballistic ? 'ballistic' : 'hitscan'}`);
+      this.weaponSystem.setGunMode(ballistic ? 'ballistic' : 'hitscan');
+    });
+    events.on('player-movement', ({ id, event, serverTime }) => this.handleRemotePlayerMovement(id, event, serverTime));
+    events.on('player-hit', (hit) => this.handlePlayerHit(hit));
+    events.on('player-death', (death) => this.handlePlayerDeath(death));
+    events.on('missile-launched', ({ serverTime, ...launch }) => {
+      this.missileSystem.spawn(
+        { ...launch, ageSeconds: Math.max(0, this.serverClock.now() - serverTime) / 1000 },
+        (playerId) => this.resolveMissileTarget(playerId)
+      );
+    });
+    events.on('missile-detonated', ({ missileId, position }) => this.missileSystem.detonate(missileId, position));
+    events.on('flare-dispensed', ({ serverTime, flareId, playerId, position, velocity }) => {
+      this.flareSystem.spawn({
+        flareId,
+        ownerId: playerId,
+        position,
+        velocity,
+        ageSeconds: Math.max(0, this.serverClock.now() - serverTime) / 1000
+      });
+    });
+    events.on('missile-decoyed', ({ missileId, flareId }) => {
+      console.log(`🎇 Missile ${missileId} decoyed by flare ${flareId}`);
+      this.missileSystem.decoy(missileId, flareId);
+    });
+    events.on('player-reload-complete', ({ id, weaponId, ammo }) => {
+      if (isLocal(id)) {
+        this.weaponSystem.syncAmmo(weaponId, ammo);
+      }
+    });
+    events.on('disconnected', () => this.hud.setPlayerId(undefined, true));
+    events.on('session', (session) => this.applySessionState(session));
+    events.on('connection-state', (change) => {
+      console.log(`📶 Connection ${change.from} → ${change.to}${change.reason ? ` (${change.reason})` : ''}`);
+      this.hud.setConnectionState(change);
+      if (change.to === 'connected') {
+        this.hud.setPlayerId(this.networkManager.getPlayerId() ?? undefined);
+      }
+    });
+    events.on('state-ack', (ack) => {
+      this.prediction.reconcile(ack, this.simBody);
+    });
+    events.on('server-error', ({ message }) => this.hud.showError(message));
+    events.on('match-started', (schedule) => this.matchController.start(schedule));
+    events.on('match-ended', ({ matchId, reason, standings }) => this.matchController.end({ matchId, reason, standings }));
+    events.on('match-stats', (stats) => this.applyMatchStats(stats));
+    events.on('global-rankings', (page) => {
+      this.clearRankingsTimeout();
+      this.rankingsScreen?.setPage(page, this.networkManager.getUsername());
+    });
+  }
+
+  private updateMatchHud(now: number): void {
+    this.matchController.update();
+    const phase = this.matchController.getPhase();
+    const remainingMs = this.matchController.getRemainingMs();
+    this.hud.updateMatchClock(phase, remainingMs);
+
+    if (phase === 'countdown') {
+      this.hud.setMatchBanner(String(Math.max(1, Math.ceil(remainingMs / 1000))), 'ROUND STARTS', true);
+    } else if (this.engageBannerUntil && now >= this.engageBannerUntil) {
+      this.engageBannerUntil = 0;
+      this.hud.setMatchBanner(null);
+    }
   }
 
-  private handlePlayerHit(attackerId: string, victimId: string, damage: number, victimHealth: number): void {
+  private handleMatchPhaseChange(phase: MatchPhase, previous: MatchPhase): void {
+    switch (phase) {
+      case 'warmup':
+        this.hud.setMatchBanner('WARMUP', '사격 판정 없음 · 기체를 점검하세요');
+        break;
+      case 'live':
+        if (previous === 'countdown' || previous === 'warmup') {
+          this.hud.setMatchBanner('ENGAGE', 'ROUND START');
+          this.engageBannerUntil = performance.now() + 1500;
+        } else {
+          this.hud.setMatchBanner(null); // 진행 중인 라운드에 입장
+        }
+        break;
+      case 'countdown':
+        break; // 숫자는 updateMatchHud가 매 프레임 갱신
+      default:
+        this.engageBannerUntil = 0;
+        this.hud.setMatchBanner(null);
+    }
+  }
+
+  private showMatchResults(result: MatchResult, returnInMs: number): void {
+    this.gameOverOverlay?.hide();
+    document.exitPointerLock?.();
+    this.scoreboard.setVisible(false);
+    this.matchResults?.show(result, this.networkManager.getPlayerId(), returnInMs);
+  }
+
+  /** 결과 화면 뒤 로비(메인 메뉴)로 - 연결을 끊고, 다시 입장하면 새 매치에 들어간다 */
+  private returnToLobby(): void {
+    console.log('🏠 Returning to lobby');
+    this.matchResults?.hide();
+    this.networkManager.disconnect();
+    this.remotePlayers.clear();
+    this.missileSystem.clear();
+    this.missileSystem.refill();
+    this.flareSystem.clear();
+    this.flareSystem.refill();
+    this.resetLocalFlight();
+
+    this.localScore = { kills: 0, deaths: 0, score: 0 };
+    this.scoreboard.setVisible(false);
+    this.scoreboard.clear();
+    this.health = this.maxHealth;
+    this.hud.updateHealth(this.health, this.maxHealth);
+    this.refreshScore();
+    this.hud.setMatchBanner(null);
+    this.hud.setPlayerId(undefined);
+
+    document.body.classList.remove('state-playing');
+    this.showMainMenu();
+  }
+
+  private handleRemotePlayerMovement(id: string, event: MovementEvent, serverTime?: number): void {
+    this.remotePlayers.handleMovement(id, event, serverTime);
+  }
+
+  private handlePlayerHit({ attackerId, victimId, damage, victimHealth, position }: PlayerHit): void {
     console.log(`Player ${attackerId} hit Player ${victimId} for ${damage} damage`);
 
+    // 서버가 확정한 명중만 히트 마커로 표시
+    if (position && attackerId === this.networkManager.getPlayerId()?.toString()) {
+      this.weaponSystem.confirmHit(new THREE.Vector3().fromArray(position));
+    }
+
     if (victimId === this.networkManager.getPlayerId()?.toString()) {
       this.health = Math.max(0, Math.min(this.maxHealth, victimHealth));
       this.hud.updateHealth(this.health, this.maxHealth);
@@ -394,35 +972,73 @@ export class MultiplayerScene {
     this.remotePlayers.showHitEffect(victimId);
   }
 
-  private handlePlayerDeath(victimId: string, attackerId: string, respawnPosition: number[]): void {
-    console.log(`Player ${victimId} was killed by Player ${attackerId}`);
+  /** welcome의 서버 상태로 점수/체력/탄약을 맞춘다 - 재접속 후 로컬 값이 어긋나지 않도록 */
+  private applySessionState(session: SessionState): void {
+    console.log(`🧾 Session state (${session.resumed ? 'resumed' : 'new'}): K${session.kills}/D${session.deaths} HP${session.health}`);
 
+    // 점수는 welcome에 없으므로 이어서 요청한 match-stats가 채운다
+    this.localScore = { ...this.localScore, kills: session.kills, deaths: session.deaths };
+    this.maxHealth = session.maxHealth;
+    this.health = Math.max(0, Math.min(this.maxHealth, session.health));
+    this.hud.updateHealth(this.health, this.maxHealth);
+    this.refreshScore();
+    this.weaponSystem.syncWeapons(session.weapons);
+    this.requestMatchStats();
+  }
+
+  private handlePlayerDeath({ victimId, attackerId, cause, respawnPosition }: PlayerDeath): void {
+    console.log(cause === 'crash'
+      ? `Player ${victimId} crashed into terrain`
+      : cause === 'collision'
+        ? `Player ${victimId} went down in a collision with Player ${attackerId}`
+        : cause === 'missile'
+          ? `Player ${victimId} was shot down by a missile from Player ${attackerId}`
+          : `Player ${victimId} was killed by Player ${attackerId}`);
+
+    // 킬/데스는 서버가 기록한 뒤 브로드캐스트하므로 바로 다시 받아온다
     const localId = this.networkManager.getPlayerId()?.toString();
-    if (attackerId === localId && victimId !== localId) {
-      this.kills++;
-      this.refreshScore();
+    if (victimId === localId && cause === 'collision') {
+      // 지형 추락처럼 리스폰까지 멈춘다 (게임 오버 화면은 체력 0 player-hit에서 이미 떴다)
+      this.flightPhysics.crash();
+      this.crashHandled = true;
+    }
+    if (attackerId === localId || victimId === localId || this.scoreboard.isVisible()) {
+      this.requestMatchStats();
     }
 
     this.remotePlayers.respawnPlayer(victimId, respawnPosition);
   }
 
+  /** 표시 중인 점수는 player-death 뒤 도착하는 match-stats가 갱신한다 */
   private handleLocalPlayerDeath(attackerId?: string): void {
-    this.deaths++;
-    this.refreshScore();
     this.gameOverOverlay?.show({
       killedBy: attackerId ? `PILOT_${attackerId}` : 'UNKNOWN',
-      kills: this.kills,
-      deaths: this.deaths,
-      score: this.kills * 100
+      ...this.localScore
     });
   }
 
-  private respawnLocalPlayer(): void {
-    if (this.localPlane) {
-      this.localPlane.position.set(0, 10, 0);
-      this.localPlane.quaternion.set(0, 0, 0, 1);
+  /**
+   * 지형 충돌 - 기체는 리스폰까지 그 자리에 멈춘다. 서버에 보고하면 데스가 기록되고
+   * player-death(cause: crash)가 모두에게 간다. 접속 전(메인 메뉴)이면 그냥 제자리로.
+   */
+  private handleLocalCrash(): void {
+    this.crashHandled = true;
+    console.log('💥 Crashed into terrain');
+
+    if (!this.networkManager.isConnected()) {
+      this.resetLocalFlight();
+      return;
     }
 
+    this.networkManager.sendCrash(this.simBody.position.toArray());
+    this.gameOverOverlay?.show({ killedBy: 'TERRAIN', ...this.localScore });
+  }
+
+  private respawnLocalPlayer(): void {
+    this.resetLocalFlight();
+    this.missileSystem.refill();
+    this.flareSystem.refill();
+
     this.health = this.maxHealth;
     this.hud.updateHealth(this.health, this.maxHealth);
     this.enterPlayingState();
@@ -433,25 +1049,4 @@ export class MultiplayerScene {
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
   };
-
-  private disposeLocalPlane(localPlane: THREE.Group): void {
-    localPlane.traverse((child) => {
-      if (!(child instanceof THREE.Mesh) || !child.material) {
-        return;
-      }
-
-      // GLB instances share template geometry (do not dispose); procedural and
-      // afterburner meshes own unique geometry and must be released.
-      if (localPlane.userData.isFallbackPlane || child.userData.disposable) {
-        child.geometry.dispose();
-      }
-
-      if (Array.isArray(child.material)) {
-        child.material.forEach((material) => material.dispose());
-        return;
-      }
-
-      child.material.dispose();
-    });
-  }
 }
@@ -14,8 +14,14 @@ export interface PlayerAuthenticationResult {
 }
 
 export interface PlayerIdInputOptions {
-  onAuthentication: (username: string) => Promise<PlayerAuthenticationResult>;
+  onAuthentication: (username: string, serverUrl: string) => Promise<PlayerAuthenticationResult>;
   onError: (error: Error) => void;
+  /** Server picker initial value (already resolved from ?server= / VITE_WS_URL). */
+  serverUrl: string;
+  /** Suggestions offered by the server picker. */
+  serverPresets?: string[];
+  /** Normalizes the picked address; throws with a user-facing message when invalid. */
+  normalizeServerUrl: (raw: string) => string;
 }
 
 const C = {
@@ -36,6 +42,7 @@ export class PlayerIdInput {
   private container!: HTMLDivElement;
   private card!: HTMLDivElement;
   private usernameInput!: HTMLInputElement;
+  private serverInput!: HTMLInputElement;
   private submitButton!: HTMLButtonElement;
   private errorMessage!: HTMLDivElement;
   private loadingHint!: HTMLDivElement;
@@ -81,6 +88,42 @@ export class PlayerIdInput {
     return chips;
   }
 
+  /** SERVER field: free-form address with the configured presets as suggestions. */
+  private createServerPicker(): HTMLDivElement {
+    const wrap = document.createElement('div');
+    wrap.style.cssText = 'margin-bottom:18px;';
+
+    const label = document.createElement('label');
+    label.textContent = 'SERVER';
+    label.style.cssText = `display:block;color:${C.primary};font-family:${C.fontMono};font-size:11px;letter-spacing:.2em;margin-bottom:8px;`;
+    wrap.appendChild(label);
+
+    const presets = document.createElement('datalist');
+    presets.id = 'server-presets';
+    [this.options.serverUrl, ...(this.options.serverPresets ?? [])]
+      .filter((url, index, all) => all.indexOf(url) === index)
+      .forEach((url) => {
+        const option = document.createElement('option');
+        option.value = url;
+        presets.appendChild(option);
+      });
+    wrap.appendChild(presets);
+
+    this.serverInput = document.createElement('input');
+    this.serverInput.type = 'text';
+    this.serverInput.value = this.options.serverUrl;
+    this.serverInput.setAttribute('list', presets.id);
+    this.serverInput.autocomplete = 'off';
+    this.serverInput.spellcheck = false;
+    this.serverInput.style.cssText = `
+      width:100%;box-sizing:border-box;background:rgba(17,26,43,.5);border:1px solid rgba(51,153,255,.2);
+      color:${C.text2};padding:9px 12px;font-family:${C.fontMono};font-size:12px;outline:none;
+    `;
+    wrap.appendChild(this.serverInput);
+
+    return wrap;
+  }
+
   /** Creates the authentication UI elements */
   private createUI(): void {
     document.body.classList.add('state-login');
@@ -154,6 +197,8 @@ export class PlayerIdInput {
     inputWrap.appendChild(underline);
     this.card.appendChild(inputWrap);
 
+    this.card.appendChild(this.createServerPicker());
+
     this.usernameInput.addEventListener('focus', () => {
       underline.style.opacity = '1';
       underline.style.boxShadow = '0 0 8px rgba(51,153,255,.8)';
@@ -221,6 +266,16 @@ export class PlayerIdInput {
       this.hideError();
     }, { signal: this.abortController.signal });
 
+    this.serverInput.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        this.submitAuthentication();
+      }
+    }, { signal: this.abortController.signal });
+
+    this.serverInput.addEventListener('input', () => {
+      this.hideError();
+    }, { signal: this.abortController.signal });
+
     this.submitButton.addEventListener('click', () => {
       this.submitAuthentication();
     }, { signal: this.abortController.signal });
@@ -247,8 +302,17 @@ export class PlayerIdInput {
         return;
       }
 
+      let serverUrl: string;
+      try {
+        serverUrl = this.options.normalizeServerUrl(this.serverInput.value);
+      } catch (error) {
+        this.showError((error as Error).message);
+        this.serverInput.focus();
+        return;
+      }
+
       // Attempt authentication
-      const result = await this.options.onAuthentication(username);
+      const result = await this.options.onAuthentication(username, serverUrl);
 
       if (result.success) {
         this.hide();
@@ -332,6 +396,7 @@ export class PlayerIdInput {
   private setLoading(isLoading: boolean): void {
     this.submitButton.disabled = isLoading;
     this.usernameInput.disabled = isLoading;
+    this.serverInput.disabled = isLoading;
 
     if (isLoading) {
       this.submitButton.innerHTML = '<span>연결 중...</span>';
@@ -0,0 +1,12 @@
+/**
+ * 기체 정의는 shared/AircraftDefinitions.js 하나를 서버(server/game/AircraftTypes.js)와 함께 읽는다.
+ * FlightPhysics(질량/추력/속력), InputManager(선회/롤 속도), WeaponSystem(무장), 체력 HUD가 쓴다.
+ */
+export {
+  AIRCRAFT_DEFINITIONS,
+  AIRCRAFT_IDS,
+  DEFAULT_AIRCRAFT_TYPE,
+  getAircraftDefinition,
+  isAircraftTypeId
+} from '../../../shared/AircraftDefinitions.js';
+export type { AircraftDefinition, AircraftModelAsset, AircraftTypeId } from '../../../shared/AircraftDefinitions.js';
@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import type { PlayerLoadout } from '../../network/Messages';
+import { AIRCRAFT_DEFINITIONS, AircraftTypeId, DEFAULT_AIRCRAFT_TYPE, getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { ModelCache } from './ModelCache';
+import { createStylizedJet } from './PlaneFactory';
+
+/**
+ * Hangar loadout: which aircraft type a pilot flies (see AircraftDefinitions)
+ * and its paint scheme. The ids are mirrored in server/game/Loadouts.js, which
+ * replaces anything else with the defaults.
+ *
+ * Livery roles: GLB materials are matched by name (Body / Fuselage), procedural
+ * jet materials carry `userData.liveryRole` ('body' | 'accent').
+ */
+/** null이면 모델 원래 색을 그대로 둔다 (stock) */
+export interface Livery {
+  id: string;
+  name: string;
+  body: number | null;
+  accent: number | null;
+}
+
+export interface Loadout {
+  airframe: AircraftTypeId;
+  livery: string;
+}
+
+export const LIVERIES: readonly Livery[] = [
+  { id: 'stock', name: 'STOCK', body: null, accent: null },
+  { id: 'navy', name: 'NAVY', body: 0x223047, accent: 0x3399ff },
+  { id: 'crimson', name: 'CRIMSON', body: 0x5a1a1f, accent: 0xff4444 },
+  { id: 'desert', name: 'DESERT', body: 0x8a7350, accent: 0xffc107 },
+  { id: 'arctic', name: 'ARCTIC', body: 0xc8d3de, accent: 0x66ccff },
+  { id: 'olive', name: 'OLIVE', body: 0x3d4a2a, accent: 0x4caf50 },
+  { id: 'phantom', name: 'PHANTOM', body: 0x16161c, accent: 0xff44ff }
+];
+
+export const DEFAULT_LOADOUT: Loadout = { airframe: DEFAULT_AIRCRAFT_TYPE, livery: 'stock' };
+
+const STORAGE_KEY = 'dogfight.loadout';
+
+export function getLivery(id: string): Livery {
+  return LIVERIES.find((livery) => livery.id === id) ?? LIVERIES[0];
+}
+
+/** 알 수 없는 기체/도색은 기본값으로 (저장된 값이나 서버가 보낸 값 모두) */
+export function normalizeLoadout(value: Partial<PlayerLoadout> | null | undefined): Loadout {
+  const airframe = AIRCRAFT_DEFINITIONS.find((option) => option.id === value?.airframe)?.id ?? DEFAULT_LOADOUT.airframe;
+  const livery = LIVERIES.find((option) => option.id === value?.livery)?.id ?? DEFAULT_LOADOUT.livery;
+  return { airframe, livery };
+}
+
+export function sameLoadout(a: Loadout, b: Loadout): boolean {
+  return a.airframe === b.airframe && a.livery === b.livery;
+}
+
+export function loadStoredLoadout(): Loadout {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return normalizeLoadout(raw ? JSON.parse(raw) : null);
+  } catch {
+    return { ...DEFAULT_LOADOUT };
+  }
+}
+
+export function storeLoadout(loadout: Loadout): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(loadout));
+  } catch (error) {
+    console.warn('Could not persist loadout:', error);
+  }
+}
+
+export function applyLivery(aircraft: THREE.Object3D, liveryId: string): void {
+  const livery = getLivery(liveryId);
+
+  aircraft.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.material || child.userData.isAfterburner) {
+      return;
+    }
+
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    materials.forEach((material) => {
+      if (!(material instanceof THREE.MeshStandardMaterial || material instanceof THREE.MeshPhongMaterial)) {
+        return;
+      }
+
+      const role = material.userData.liveryRole
+        ?? (material.name.includes('Body') || material.name.includes('Fuselage') ? 'body' : null);
+      if (role === 'body' && livery.body !== null) {
+        material.color.setHex(livery.body);
+      } else if (role === 'accent' && livery.accent !== null) {
+        material.emissive.setHex(livery.accent);
+      }
+    });
+  });
+}
+
+/**
+ * Builds the aircraft model referenced by the loadout's definition. If the GLB
+ * cannot be loaded the procedural jet is used instead and flagged `isFallbackPlane`.
+ */
+export async function createAircraft(modelCache: ModelCache, loadout: Loadout): Promise<THREE.Group> {
+  const { model } = getAircraftDefinition(loadout.airframe);
+  let aircraft: THREE.Group;
+  if (model.asset === 'jet') {
+    try {
+      aircraft = await modelCache.createJetInstance();
+    } catch (error) {
+      console.error('Error loading plane model:', error);
+      aircraft = createStylizedJet();
+      aircraft.userData.isFallbackPlane = true;
+    }
+  } else {
+    aircraft = createStylizedJet();
+  }
+
+  aircraft.scale.multiplyScalar(model.scale);
+  applyLivery(aircraft, loadout.livery);
+  aircraft.userData.loadout = loadout;
+  return aircraft;
+}
+
+/** createAircraft 결과 해제 - GLB 인스턴스는 템플릿 지오메트리를 공유하므로 재질만 해제한다 */
+export function disposeAircraft(aircraft: THREE.Object3D): void {
+  aircraft.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.material) {
+      return;
+    }
+
+    if (aircraft.userData.isFallbackPlane || child.userData.disposable) {
+      child.geometry.dispose();
+    }
+
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    materials.forEach((material) => material.dispose());
+  });
+}
@@ -6,6 +6,9 @@ import * as THREE from 'three';
  *  - createStylizedJet(): a delta-wing fighter built from primitives, used as the
  *    fallback when Jet.glb fails to load (and as a preview model).
  *  - enableShadows(): make an arbitrary model (e.g. the GLB) cast/receive shadows.
+ *  - createAfterburnerGlow(): additive exhaust plume attached behind a jet's nozzle.
+ *
+ * Paintable materials are tagged with `userData.liveryRole` for Loadout.applyLivery.
  *
  * Convention: aircraft face -Z (matching FlightPhysics' forward vector).
  */
@@ -58,6 +61,7 @@ export function createStylizedJet(): THREE.Group {
     metalness: 0.9,
     roughness: 0.5
   });
+  bodyMat.userData.liveryRole = 'body';
   const accentMat = new THREE.MeshStandardMaterial({
     color: COLORS.bodyDark,
     emissive: COLORS.accent,
@@ -66,12 +70,14 @@ export function createStylizedJet(): THREE.Group {
     roughness: 0.3,
     side: THREE.DoubleSide
   });
+  accentMat.userData.liveryRole = 'accent';
   const wingMat = new THREE.MeshStandardMaterial({
     color: COLORS.body,
     metalness: 0.8,
     roughness: 0.45,
     side: THREE.DoubleSide
   });
+  wingMat.userData.liveryRole = 'body';
   const glassMat = new THREE.MeshStandardMaterial({
     color: COLORS.glass,
     emissive: 0x113355,
@@ -147,10 +153,38 @@ export function createStylizedJet(): THREE.Group {
   return jet;
 }
 
+/**
+ * Additive cyan exhaust plume pointing down +Z (behind the nozzle). Its scale and
+ * opacity are driven at runtime from the throttle input; it is excluded from
+ * raycasts so it never counts as a hit on the aircraft.
+ */
+export function createAfterburnerGlow(): THREE.Mesh {
+  const geometry = new THREE.ConeGeometry(0.16, 1.4, 12, 1, true);
+  geometry.rotateX(Math.PI / 2); // apex -> +Z
+  geometry.translate(0, 0, 0.7); // base sits at the origin (nozzle exit)
+
+  const material = new THREE.MeshBasicMaterial({
+    color: COLORS.accentBright,
+    transparent: true,
+    opacity: 0,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    side: THREE.DoubleSide
+  });
+
+  const glow = new THREE.Mesh(geometry, material);
+  glow.position.z = 1.6;
+  glow.castShadow = false;
+  glow.raycast = () => {};
+  glow.userData.disposable = true;
+  glow.userData.isAfterburner = true;
+  return glow;
+}
+
 /** Make every mesh in a model cast and receive shadows (used for the GLB jet). */
 export function enableShadows(root: THREE.Object3D): void {
   root.traverse((child) => {
-    if (child instanceof THREE.Mesh) {
+    if (child instanceof THREE.Mesh && !child.userData.isAfterburner) {
       child.castShadow = true;
       child.receiveShadow = true;
     }
@@ -4,9 +4,8 @@ import * as THREE from 'three';
  * In-game atmosphere for the "Modern Military HUD" art direction:
  *  - a gradient sky dome (deep navy zenith -> cyan-tinted horizon glow)
  *  - distance fog so the world melts into the horizon
- *  - a dark ground plane with a glowing cyan "tactical" grid baked into its
- *    emissive map (replaces the old RGB debug axes / gray grid)
  *  - a sprinkle of stars in the upper hemisphere
+ * The ground itself is the seeded heightmap terrain (see Terrain).
  */
 export class Background {
   private readonly scene: THREE.Scene;
@@ -26,7 +25,6 @@ export class Background {
     this.scene.fog = new THREE.Fog(horizon.getHex(), 60, 1400);
 
     this.createSky();
-    this.createGround();
     this.createStars();
   }
 
@@ -72,60 +70,6 @@ export class Background {
     this.disposables.push(geometry, material);
   }
 
-  private createGround(): void {
-    const gridTexture = this.makeGridTexture();
-    const repeats = Math.round(this.worldSize / 25); // ~25u cells
-    gridTexture.repeat.set(repeats, repeats);
-
-    const geometry = new THREE.PlaneGeometry(this.worldSize, this.worldSize);
-    const material = new THREE.MeshStandardMaterial({
-      color: 0x0a1622,
-      metalness: 0.25,
-      roughness: 0.9,
-      emissive: 0x3fa9ff,
-      emissiveMap: gridTexture,
-      emissiveIntensity: 0.85
-    });
-
-    const ground = new THREE.Mesh(geometry, material);
-    ground.rotation.x = -Math.PI / 2;
-    ground.receiveShadow = true;
-    this.scene.add(ground);
-    this.disposables.push(geometry, material, gridTexture);
-  }
-
-  /** A single grid cell (bright cell borders on black) tiled across the ground. */
-  private makeGridTexture(): THREE.CanvasTexture {
-    const size = 128;
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(0, 0, size, size);
-      // bright cell border + dim inner cross for a denser tactical feel
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 3;
-      ctx.strokeRect(0, 0, size, size);
-      ctx.strokeStyle = 'rgba(255,255,255,0.25)';
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(size / 2, 0);
-      ctx.lineTo(size / 2, size);
-      ctx.moveTo(0, size / 2);
-      ctx.lineTo(size, size / 2);
-      ctx.stroke();
-    }
-
-    const texture = new THREE.CanvasTexture(canvas);
-    texture.wrapS = THREE.RepeatWrapping;
-    texture.wrapT = THREE.RepeatWrapping;
-    texture.anisotropy = 8;
-    return texture;
-  }
-
   private createStars(): void {
     const count = 1200;
     const positions = new Float32Array(count * 3);
@@ -1,20 +1,28 @@
 import * as THREE from 'three';
 import { Lighting } from './Lighting';
 import { Background } from './Background';
+import { Terrain } from './Terrain';
+import { DEFAULT_TERRAIN_SEED, TerrainHeightmap } from './TerrainHeightmap';
 
 export class Environment {
   private scene: THREE.Scene;
   private background: Background;
   private lighting: Lighting;
+  private terrain: Terrain;
+  private heightmap = new TerrainHeightmap(DEFAULT_TERRAIN_SEED);
+  private initialized = false;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
     this.background = new Background(scene);
     this.lighting = new Lighting(scene);    
+    this.terrain = new Terrain(scene);
   }
 
   public async initialize(): Promise<void> {
     await this.background.initialize();
+    this.terrain.build(this.heightmap);
+    this.initialized = true;
 
     // 조명 설정 (Lighting의 cool/moody 기본값 사용)
     this.lighting.initialize({
@@ -23,8 +31,20 @@ export class Environment {
     });
   }
 
+  /** 서버가 알린 시드로 지형을 바꾼다. 같은 시드면 그대로 둔다 */
+  public setTerrainSeed(seed: number): TerrainHeightmap {
+    if (seed !== this.heightmap.seed) {
+      this.heightmap = new TerrainHeightmap(seed);
+      if (this.initialized) {
+        this.terrain.build(this.heightmap);
+      }
+    }
+    return this.heightmap;
+  }
+
   public dispose(): void {
     this.background.dispose();
+    this.terrain.dispose();
   }
 
 
@@ -35,4 +55,9 @@ export class Environment {
   public getLighting(): Lighting {
     return this.lighting;
   }
-}
\ No newline at end of file
+
+  /** 충돌/고도 계산용 높이맵 (지형 메시와 같은 시드) */
+  public getHeightmap(): TerrainHeightmap {
+    return this.heightmap;
+  }
+}
@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { TerrainHeightmap } from './TerrainHeightmap';
+
+/**
+ * Ground mesh displaced by the seeded heightmap, keeping the dark "tactical"
+ * look of the old flat grid: a cyan cell grid baked into the emissive map,
+ * with vertex colours shading valleys darker than ridges.
+ *
+ * Collision does not read this mesh - FlightPhysics samples the heightmap
+ * directly, so the mesh resolution only affects visuals.
+ */
+export class Terrain {
+  private readonly scene: THREE.Scene;
+  private readonly worldSize: number;
+  private readonly segments: number;
+  private readonly gridTexture: THREE.CanvasTexture;
+  private readonly material: THREE.MeshStandardMaterial;
+  private mesh: THREE.Mesh | null = null;
+
+  constructor(scene: THREE.Scene, worldSize = 4000, segments = 256) {
+    this.scene = scene;
+    this.worldSize = worldSize;
+    this.segments = segments;
+
+    this.gridTexture = this.makeGridTexture();
+    const repeats = Math.round(worldSize / 25); // ~25u cells
+    this.gridTexture.repeat.set(repeats, repeats);
+
+    this.material = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      vertexColors: true,
+      metalness: 0.25,
+      roughness: 0.9,
+      emissive: 0x3fa9ff,
+      emissiveMap: this.gridTexture,
+      emissiveIntensity: 0.85
+    });
+  }
+
+  /** 높이맵으로 지형 메시를 (다시) 만든다 - 시드가 바뀌면 이전 메시는 버린다 */
+  public build(heightmap: TerrainHeightmap): void {
+    this.removeMesh();
+
+    const geometry = new THREE.PlaneGeometry(this.worldSize, this.worldSize, this.segments, this.segments);
+    geometry.rotateX(-Math.PI / 2);
+
+    const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const colors = new Float32Array(position.count * 3);
+    const low = new THREE.Color(0x0a1622);
+    const high = new THREE.Color(0x24364a);
+    const color = new THREE.Color();
+    let maxHeight = 1;
+
+    for (let i = 0; i < position.count; i++) {
+      const height = heightmap.heightAt(position.getX(i), position.getZ(i));
+      position.setY(i, height);
+      maxHeight = Math.max(maxHeight, height);
+    }
+
+    for (let i = 0; i < position.count; i++) {
+      color.lerpColors(low, high, position.getY(i) / maxHeight);
+      color.toArray(colors, i * 3);
+    }
+
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    geometry.computeVertexNormals();
+
+    this.mesh = new THREE.Mesh(geometry, this.material);
+    this.mesh.receiveShadow = true;
+    this.scene.add(this.mesh);
+  }
+
+  public dispose(): void {
+    this.removeMesh();
+    this.material.dispose();
+    this.gridTexture.dispose();
+  }
+
+  private removeMesh(): void {
+    if (!this.mesh) {
+      return;
+    }
+
+    this.scene.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    this.mesh = null;
+  }
+
+  /** A single grid cell (bright cell borders on black) tiled across the ground. */
+  private makeGridTexture(): THREE.CanvasTexture {
+    const size = 128;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, size, size);
+      // bright cell border + dim inner cross for a denser tactical feel
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(0, 0, size, size);
+      ctx.strokeStyle = 'rgba(255,255,255,0.25)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(size / 2, 0);
+      ctx.lineTo(size / 2, size);
+      ctx.moveTo(0, size / 2);
+      ctx.lineTo(size, size / 2);
+      ctx.stroke();
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.anisotropy = 8;
+    return texture;
+  }
+}
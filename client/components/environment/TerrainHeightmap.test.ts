@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { TerrainHeightmap } from './TerrainHeightmap';
+
+const SAMPLES: Array<[number, number]> = [
+  [0, 0],
+  [150, -120],
+  [900, 400],
+  [-1500, 1730],
+  [1999, -1999]
+];
+
+describe('TerrainHeightmap', () => {
+  it('is deterministic for a seed', () => {
+    const a = new TerrainHeightmap(42);
+    const b = new TerrainHeightmap(42);
+    SAMPLES.forEach(([x, z]) => expect(a.heightAt(x, z)).toBe(b.heightAt(x, z)));
+  });
+
+  it('changes with the seed', () => {
+    const a = new TerrainHeightmap(42);
+    const b = new TerrainHeightmap(43);
+    expect(SAMPLES.some(([x, z]) => a.heightAt(x, z) !== b.heightAt(x, z))).toBe(true);
+  });
+
+  it('keeps the spawn area flat and the rest within bounds', () => {
+    const terrain = new TerrainHeightmap(7);
+    expect(terrain.heightAt(0, 0)).toBe(0);
+    expect(terrain.heightAt(150, -120)).toBe(0);
+
+    let highest = 0;
+    for (let x = -2000; x <= 2000; x += 50) {
+      for (let z = -2000; z <= 2000; z += 50) {
+        const height = terrain.heightAt(x, z);
+        expect(height).toBeGreaterThanOrEqual(0);
+        expect(height).toBeLessThanOrEqual(280);
+        highest = Math.max(highest, height);
+      }
+    }
+    expect(highest).toBeGreaterThan(60);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * 시드 높이맵은 shared/TerrainHeightmap.js 하나를 서버(server/game/Terrain.js, 추락 검증)와 함께 쓴다.
+ * 시드는 서버가 welcome으로 알린다.
+ */
+export { TerrainHeightmap } from '../../../shared/TerrainHeightmap.js';
+
+/** 서버가 시드를 알리기 전(메인 메뉴)에 쓰는 지형 */
+export const DEFAULT_TERRAIN_SEED = 1;
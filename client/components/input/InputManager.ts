@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { AircraftDefinition, DEFAULT_AIRCRAFT_TYPE, getAircraftDefinition } from '../aircraft/AircraftDefinitions';
 
 export interface InputState {
   forward: boolean;
@@ -20,14 +21,21 @@ export class InputManager {
   private targetYaw = 0;
   private targetRoll = 0;
   
-  // 롤 관성
+  // 롤 관성 (rad/s) - 최대 롤 속도까지 rollSpoolTime 초에 걸쳐 붙는다
   private rollSpeed = 0;
-  private readonly rollAccel = 0.001;
-  private readonly rollFriction = 0.95;
+  private readonly rollSpoolTime = 1;
+  private readonly rollFriction = 0.95; // 60fps 프레임당 감쇠
+
+  // 선회율/롤 속도는 현재 기체 정의에서 읽는다
+  private definition: AircraftDefinition = getAircraftDefinition(DEFAULT_AIRCRAFT_TYPE);
   
   // 이벤트 콜백
   private onShootCallback?: () => void;
   private onReloadCallback?: () => void;
+  private onWeaponSwitchCallback?: () => void;
+  private onSecondaryFireCallback?: () => void;
+  private onCountermeasureCallback?: () => void;
+  private onScoreboardCallback?: (visible: boolean) => void;
 
   constructor(canvas: HTMLCanvasElement) {
     this.initPointerLock(canvas);
@@ -54,16 +62,46 @@ export class InputManager {
       signal: this.abortController.signal
     });
 
-    // 스페이스 키로 사격, R키로 재장전
+    // 스페이스 키로 사격, R키로 재장전, Q키로 무장 전환, F키로 미사일, C키로 플레어
     document.addEventListener('keydown', (event) => {
       if (this.isPointerLocked) {
         if (this.onShootCallback && event.code === 'Space') {
           this.onShootCallback();
         } else if (this.onReloadCallback && event.code === 'KeyR') {
           this.onReloadCallback();
+        } else if (this.onWeaponSwitchCallback && event.code === 'KeyQ') {
+          this.onWeaponSwitchCallback();
+        } else if (this.onSecondaryFireCallback && event.code === 'KeyF') {
+          this.onSecondaryFireCallback();
+        } else if (this.onCountermeasureCallback && event.code === 'KeyC') {
+          this.onCountermeasureCallback();
         }
       }
     }, { signal: this.abortController.signal });
+
+    // Tab을 누르고 있는 동안 스코어보드 (브라우저 포커스 이동은 막는다)
+    document.addEventListener('keydown', (event) => {
+      if (event.code !== 'Tab' || !this.isPointerLocked || !this.onScoreboardCallback) {
+        return;
+      }
+      event.preventDefault();
+      if (!event.repeat) {
+        this.onScoreboardCallback(true);
+      }
+    }, { signal: this.abortController.signal });
+    document.addEventListener('keyup', (event) => {
+      if (event.code === 'Tab') {
+        this.onScoreboardCallback?.(false);
+      }
+    }, { signal: this.abortController.signal });
+    // 누른 채로 창을 벗어나면 keyup이 오지 않는다
+    window.addEventListener('blur', () => this.onScoreboardCallback?.(false), {
+      signal: this.abortController.signal
+    });
+  }
+
+  public setDefinition(definition: AircraftDefinition) {
+    this.definition = definition;
   }
 
   public setOnShootCallback(callback: () => void) {
@@ -74,6 +112,22 @@ export class InputManager {
     this.onReloadCallback = callback;
   }
 
+  public setOnWeaponSwitchCallback(callback: () => void) {
+    this.onWeaponSwitchCallback = callback;
+  }
+
+  public setOnSecondaryFireCallback(callback: () => void) {
+    this.onSecondaryFireCallback = callback;
+  }
+
+  public setOnCountermeasureCallback(callback: () => void) {
+    this.onCountermeasureCallback = callback;
+  }
+
+  public setOnScoreboardCallback(callback: (visible: boolean) => void) {
+    this.onScoreboardCallback = callback;
+  }
+
   public getCurrentInputState(): InputState {
     return {
       forward: this.keys.has('KeyW'),
@@ -86,29 +140,35 @@ export class InputManager {
     };
   }
 
-  public updateRotation(): { pitch: number; yaw: number; roll: number } {
+  public updateRotation(deltaTime: number): { pitch: number; yaw: number; roll: number } {
+    const { turnRate, rollRate } = this.definition;
+    const frames = deltaTime * 60;
+
     // 롤 관성 적용
+    const rollAccel = (rollRate / this.rollSpoolTime) * deltaTime;
     if (this.keys.has('KeyA')) {
-      this.rollSpeed += this.rollAccel;
+      this.rollSpeed = Math.min(rollRate, this.rollSpeed + rollAccel);
     } else if (this.keys.has('KeyD')) {
-      this.rollSpeed -= this.rollAccel;
+      this.rollSpeed = Math.max(-rollRate, this.rollSpeed - rollAccel);
     } else {
-      this.rollSpeed *= this.rollFriction;
+      this.rollSpeed *= Math.pow(this.rollFriction, frames);
       // 롤 입력이 없고, 롤 속도가 거의 0이면 targetRoll을 0으로 서서히 복원
-      if (Math.abs(this.rollSpeed) < 0.0001) {
-        this.targetRoll = THREE.MathUtils.lerp(this.targetRoll, 0, 0.1);
+      if (Math.abs(this.rollSpeed) < 0.006) {
+        this.targetRoll = THREE.MathUtils.lerp(this.targetRoll, 0, 1 - Math.pow(0.9, frames));
         if (Math.abs(this.targetRoll) < 0.001) this.targetRoll = 0;
       }
     }
-    this.targetRoll += this.rollSpeed;
+    this.targetRoll += this.rollSpeed * deltaTime;
+
+    const turn = turnRate * deltaTime;
 
     // 요 (키보드 화살표)
-    if (this.keys.has('ArrowLeft')) this.targetYaw += 0.03;
-    if (this.keys.has('ArrowRight')) this.targetYaw -= 0.03;
+    if (this.keys.has('ArrowLeft')) this.targetYaw += turn;
+    if (this.keys.has('ArrowRight')) this.targetYaw -= turn;
 
     // 피치 (키보드 화살표)
-    if (this.keys.has('ArrowUp')) this.targetPitch -= 0.03;
-    if (this.keys.has('ArrowDown')) this.targetPitch += 0.03;
+    if (this.keys.has('ArrowUp')) this.targetPitch -= turn;
+    if (this.keys.has('ArrowDown')) this.targetPitch += turn;
 
     return {
       pitch: this.targetPitch,
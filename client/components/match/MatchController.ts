@@ -0,0 +1,151 @@
+import { MatchEndReason, MatchSchedule, MatchStanding } from '../../network/Messages';
+
+/**
+ * idle(매치 정보 없음) → warmup → countdown(워밍업 마지막 몇 초) → live → ended → (결과 화면 후) 로비
+ * 시각은 모두 서버 기준이라 ServerClock.now()로 판정한다. 라운드 종료는 서버의 match-ended가 확정한다.
+ */
+export type MatchPhase = 'idle' | 'warmup' | 'countdown' | 'live' | 'ended';
+
+export interface MatchResult {
+  matchId: number;
+  reason: MatchEndReason;
+  standings: MatchStanding[];
+}
+
+export interface MatchControllerOptions {
+  /** 서버 시각 추정 (ms) */
+  now: () => number;
+  onPhaseChange: (phase: MatchPhase, previous: MatchPhase) => void;
+  onResults: (result: MatchResult, returnInMs: number) => void;
+  onReturnToLobby: () => void;
+  countdownMs?: number;
+  resultsMs?: number;
+}
+
+/** 남은 시간을 mm:ss로 (초 단위 올림) */
+export function formatMatchClock(remainingMs: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+export class MatchController {
+  private phase: MatchPhase = 'idle';
+  private schedule: MatchSchedule | null = null;
+  private lobbyTimer: number | null = null;
+  private readonly countdownMs: number;
+  private readonly resultsMs: number;
+
+  constructor(private readonly options: MatchControllerOptions) {
+    this.countdownMs = options.countdownMs ?? 5000;
+    this.resultsMs = options.resultsMs ?? 15000;
+  }
+
+  public getPhase(): MatchPhase {
+    return this.phase;
+  }
+
+  public getSchedule(): MatchSchedule | null {
+    return this.schedule;
+  }
+
+  /** 현재 단계가 끝날 때까지 남은 시간 (warmup/countdown은 라운드 시작까지, live는 라운드 종료까지) */
+  public getRemainingMs(): number {
+    if (!this.schedule) {
+      return 0;
+    }
+
+    const now = this.options.now();
+    switch (this.phase) {
+      case 'warmup':
+      case 'countdown':
+        return Math.max(0, this.schedule.liveAt - now);
+      case 'live':
+        return Math.max(0, this.schedule.endsAt - now);
+      default:
+        return 0;
+    }
+  }
+
+  /** 서버는 워밍업 중 사격을 판정하지 않으므로 로컬에서도 막는다. 매치 정보가 없으면 제한하지 않는다. */
+  public allowsCombat(): boolean {
+    return this.phase === 'live' || this.phase === 'idle';
+  }
+
+  /** match-started 또는 welcome의 시간표 */
+  public start(schedule: MatchSchedule): void {
+    if (this.phase === 'ended') {
+      return; // 결과 화면 중 다음 매치 알림은 무시 - 로비를 거쳐 새로 입장한다
+    }
+
+    this.schedule = schedule;
+    this.update();
+  }
+
+  public end(result: MatchResult): void {
+    if (this.phase === 'ended' || (this.schedule && this.schedule.matchId !== result.matchId)) {
+      return;
+    }
+
+    this.setPhase('ended');
+    this.options.onResults(result, this.resultsMs);
+    this.clearLobbyTimer();
+    this.lobbyTimer = window.setTimeout(() => {
+      this.lobbyTimer = null;
+      this.returnToLobby();
+    }, this.resultsMs);
+  }
+
+  /** 매 프레임 호출 - 시간표에 따라 단계를 넘긴다 */
+  public update(): void {
+    if (!this.schedule || this.phase === 'ended') {
+      return;
+    }
+
+    const now = this.options.now();
+    let next: MatchPhase;
+    if (now >= this.schedule.liveAt) {
+      next = 'live'; // endsAt이 지나도 match-ended가 올 때까지 live (시계는 00:00)
+    } else if (now >= this.schedule.liveAt - this.countdownMs) {
+      next = 'countdown';
+    } else {
+      next = 'warmup';
+    }
+    this.setPhase(next);
+  }
+
+  /** 결과 화면의 버튼 또는 타이머로 로비 복귀 */
+  public returnToLobby(): void {
+    this.reset();
+    this.options.onReturnToLobby();
+  }
+
+  public reset(): void {
+    this.clearLobbyTimer();
+    this.schedule = null;
+    this.setPhase('idle');
+  }
+
+  public dispose(): void {
+    this.clearLobbyTimer();
+  }
+
+  private setPhase(phase: MatchPhase): void {
+    if (phase === this.phase) {
+      return;
+    }
+
+    const previous = this.phase;
+    this.phase = phase;
+    console.log(`🏁 Match phase ${previous} → ${phase}`);
+    this.options.onPhaseChange(phase, previous);
+  }
+
+  private clearLobbyTimer(): void {
+    if (this.lobbyTimer !== null) {
+      window.clearTimeout(this.lobbyTimer);
+      this.lobbyTimer = null;
+    }
+  }
+}
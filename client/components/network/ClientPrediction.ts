@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { StateAck } from '../../network/SocketManager';
+import { InputManager, InputState } from '../input/InputManager';
+import { FlightPhysics } from '../physics/FlightPhysics';
+import { FlightSnapshot } from '../physics/types';
+
+type TargetRotation = ReturnType<InputManager['updateRotation']>;
+
+export interface PredictionConfig {
+  /** Server/client disagreement (units) tolerated before rewinding and replaying. */
+  positionTolerance: number;
+  /** Upper bound on unacknowledged inputs kept for replay (~2s at 60Hz). */
+  maxPendingInputs: number;
+}
+
+interface PendingInput {
+  sequence: number;
+  deltaTime: number;
+  input: InputState;
+  targetRotation: TargetRotation;
+  /** Predicted result of applying this input, used to compare against the server. */
+  result: FlightSnapshot;
+}
+
+/**
+ * Client-side prediction for the local plane.
+ *
+ * Every simulated tick is tagged with its tick number (FixedTimestep), which
+ * doubles as the input sequence sent to the server, and kept until the server
+ * acknowledges it. When a `state-ack` arrives, the
+ * predicted state for that sequence is compared with the authoritative one; on
+ * disagreement the simulation is rewound to the server state and all newer
+ * inputs are replayed through FlightPhysics.
+ */
+export class ClientPrediction {
+  private readonly config: PredictionConfig;
+  private pending: PendingInput[] = [];
+  private sequence = 0;
+  private corrections = 0;
+  // During packet loss every input can need a correction - log a summary at most every 5s.
+  private readonly logIntervalMs = 5000;
+  private lastLogTime = 0;
+  private correctionsSinceLog = 0;
+  private readonly _serverPosition = new THREE.Vector3();
+
+  constructor(private readonly physics: FlightPhysics, config: Partial<PredictionConfig> = {}) {
+    this.config = {
+      positionTolerance: 0.5,
+      maxPendingInputs: 120,
+      ...config
+    };
+  }
+
+  /** Simulates one tick of local input and records it for possible replay. */
+  public applyInput(
+    tick: number,
+    deltaTime: number,
+    input: InputState,
+    targetRotation: TargetRotation,
+    aircraft: THREE.Object3D
+  ): number {
+    this.physics.updatePhysics(deltaTime, input, targetRotation, aircraft);
+
+    this.sequence = tick;
+    this.pending.push({
+      sequence: this.sequence,
+      deltaTime,
+      input: { ...input },
+      targetRotation: { ...targetRotation },
+      result: this.physics.captureSnapshot(aircraft)
+    });
+
+    if (this.pending.length > this.config.maxPendingInputs) {
+      this.pending.splice(0, this.pending.length - this.config.maxPendingInputs);
+    }
+
+    return this.sequence;
+  }
+
+  /**
+   * Re-records the latest predicted result after something outside the input
+   * path moved the aircraft (a mid-air collision bounce), so reconciling against
+   * this tick compares with what actually happened.
+   */
+  public recaptureLatest(aircraft: THREE.Object3D): void {
+    const latest = this.pending[this.pending.length - 1];
+    if (latest) {
+      latest.result = this.physics.captureSnapshot(aircraft);
+    }
+  }
+
+  /**
+   * Applies an authoritative server acknowledgement.
+   * Returns true when the local plane had to be corrected.
+   */
+  public reconcile(ack: StateAck, aircraft: THREE.Object3D): boolean {
+    const ackedIndex = this.pending.findIndex((entry) => entry.sequence === ack.sequence);
+    if (ackedIndex === -1) {
+      // Already reconciled past this input (or it was trimmed) - just drop older entries.
+      this.pending = this.pending.filter((entry) => entry.sequence > ack.sequence);
+      return false;
+    }
+
+    const acked = this.pending[ackedIndex];
+    this.pending = this.pending.slice(ackedIndex + 1);
+
+    this._serverPosition.fromArray(ack.position);
+    const error = acked.result.position.distanceTo(this._serverPosition);
+    if (error <= this.config.positionTolerance) {
+      return false;
+    }
+
+    // Rewind: keep our own integrator state for that input, but take the
+    // server's position as the truth, then replay everything it hasn't seen yet.
+    this.physics.restoreSnapshot({ ...acked.result, position: this._serverPosition.clone() }, aircraft);
+    for (const entry of this.pending) {
+      this.physics.updatePhysics(entry.deltaTime, entry.input, entry.targetRotation, aircraft);
+      entry.result = this.physics.captureSnapshot(aircraft);
+    }
+
+    this.corrections++;
+    this.correctionsSinceLog++;
+    const now = Date.now();
+    if (!this.lastLogTime || now - this.lastLogTime > this.logIntervalMs) {
+      console.log(`🔁 Reconciled input #${ack.sequence} (error ${error.toFixed(2)}), replayed ${this.pending.length} inputs - ${this.correctionsSinceLog} corrections since last log`);
+      this.correctionsSinceLog = 0;
+      this.lastLogTime = now;
+    }
+    return true;
+  }
+
+  public getLastSequence(): number {
+    return this.sequence;
+  }
+
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  public getCorrectionCount(): number {
+    return this.corrections;
+  }
+
+  /** Drops all unacknowledged inputs, e.g. after a respawn teleport. */
+  public reset(): void {
+    this.pending = [];
+  }
+}
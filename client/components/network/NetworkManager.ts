@@ -1,113 +1,76 @@
-import { SocketManager, PlayerState, MovementEvent, DisconnectCallback } from '../../network/SocketManager';
-
-export interface NetworkEventHandlers {
-  onPlayerJoin: (id: string, state: PlayerState) => void;
-  onPlayerUpdate: (id: string, state: PlayerState) => void;
-  onPlayerLeave: (id: string) => void;
-  onAllPlayers: (players: Record<string, PlayerState>) => void;
-  onPlayerMovement: (id: string, event: MovementEvent) => void;
-  onPlayerHit: (attackerId: string, victimId: string, damage: number, victimHealth: number) => void;
-  onPlayerDeath: (victimId: string, attackerId: string, respawnPosition: number[]) => void;
-  onDisconnected?: DisconnectCallback;
-}
+import { ConnectionState } from '../../network/ConnectionStateMachine';
+import { DEFAULT_SERVER_URL } from '../../network/ServerEndpoint';
+import type { PlayerLoadout } from '../../network/Messages';
+import { SocketManager, PlayerState, MovementEvent, ShotEvent, SocketEvents } from '../../network/SocketManager';
+import { TypedEmitter } from '../../network/TypedEmitter';
 
 export class NetworkManager {
+  /** 소켓이 바뀌어도 유지되는 이벤트 채널. 현재 소켓의 이벤트가 그대로 흘러온다. */
+  public readonly events = new TypedEmitter<SocketEvents>();
+
   private socket: SocketManager | null = null;
-  private handlers: NetworkEventHandlers;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000; // 1초
+  private unpipe: (() => void) | null = null;
+  private readonly connectTimeoutMs = 10000; // 10초
+  private serverUrl = DEFAULT_SERVER_URL;
 
-  constructor(handlers: NetworkEventHandlers) {
-    this.handlers = handlers;
-  }
+  /** 연결 상태 기계가 connected(welcome 수신)에 도달하면 resolve, failed면 reject */
+  public async connect(username: string, serverUrl: string = this.serverUrl, loadout: PlayerLoadout | null = null): Promise<void> {
+    console.log('🔌 Connecting to server with username:', username, serverUrl);
+    this.serverUrl = serverUrl;
+    this.disconnect(); // 이전 시도의 소켓이 재연결을 이어가지 않도록
+
+    const socket = new SocketManager();
+    this.socket = socket;
+    this.unpipe = socket.events.pipe(this.events);
 
-  public async connect(username: string): Promise<void> {
-    console.log('🔌 Connecting to server with username:', username);
-    
     return new Promise((resolve, reject) => {
-      let isResolved = false;
-      
-      this.socket = new SocketManager(
-        this.handlers.onPlayerJoin,
-        this.handlers.onPlayerUpdate,
-        this.handlers.onPlayerLeave,
-        (players) => {
-          this.handlers.onAllPlayers(players);
-          if (!isResolved) {
-            isResolved = true;
-            resolve(); // 연결 성공
-          }
-        },
-        this.handlers.onPlayerMovement,
-        this.handlers.onPlayerHit,
-        this.handlers.onPlayerDeath,
-        this.handlers.onDisconnected
-      );
-
-      // 연결 성공 감지
-      const checkConnection = () => {
-        if (this.socket?.isConnected() && this.socket?.getPlayerId()) {
-          console.log('🎯 Socket connected successfully with Player ID:', this.socket.getPlayerId());
-          this.reconnectAttempts = 0; // 성공 시 재연결 시도 횟수 리셋
-          if (!isResolved) {
-            isResolved = true;
-            resolve();
+      const settle = (error?: Error) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        if (error) {
+          if (this.socket === socket) {
+            this.disconnect();
+          } else {
+            socket.disconnect();
           }
-        } else if (!isResolved) {
-          setTimeout(checkConnection, 100);
+          reject(error);
+        } else {
+          console.log('🎯 Socket connected successfully with Player ID:', socket.getPlayerId());
+          resolve();
         }
       };
 
-      try {
-        this.socket.connectWithUsername(username);
-        
-        // 연결 확인 시작
-        setTimeout(checkConnection, 100);
-        
-        // 연결 타임아웃 설정
-        setTimeout(() => {
-          if (!this.socket?.isConnected() || !this.socket?.getPlayerId()) {
-            if (!isResolved) {
-              isResolved = true;
-              reject(new Error('서버 연결 시간이 초과되었습니다.'));
-            }
-          }
-        }, 10000); // 10초 타임아웃
-        
-      } catch (error) {
-        if (!isResolved) {
-          isResolved = true;
-          reject(error);
+      const unsubscribe = socket.events.on('connection-state', (change) => {
+        if (change.to === 'connected') {
+          settle();
+        } else if (change.to === 'failed') {
+          settle(new Error(change.reason ?? '서버 연결에 실패했습니다.'));
+        } else if (change.to === 'idle') {
+          settle(new Error('연결이 취소되었습니다.'));
         }
-      }
-    });
-  }
-
-  public async reconnect(username: string): Promise<void> {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      throw new Error('최대 재연결 시도 횟수를 초과했습니다.');
-    }
+      });
 
-    this.reconnectAttempts++;
-    console.log(`🔄 Reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}`);
+      const timeout = setTimeout(() => {
+        settle(new Error('서버 연결 시간이 초과되었습니다.'));
+      }, this.connectTimeoutMs);
 
-    // 재연결 지연
-    await new Promise(resolve => setTimeout(resolve, this.reconnectDelay * this.reconnectAttempts));
-    
-    return this.connect(username);
+      socket.connectWithUsername(username, serverUrl, loadout);
+    });
   }
 
   public disconnect(): void {
     if (this.socket) {
+      // idle 전이까지는 구독자에게 전달한 뒤 파이프를 끊는다
       this.socket.disconnect();
+      this.unpipe?.();
+      this.unpipe = null;
       this.socket = null;
     }
   }
 
-  public sendState(state: PlayerState): void {
+  public sendState(state: PlayerState, sequence: number): void {
     if (this.socket && this.socket.isConnected()) {
-      this.socket.sendState(state);
+      this.socket.sendState(state, sequence);
     } else {
       console.warn('Cannot send state: not connected to server');
     }
@@ -122,22 +85,62 @@ export class NetworkManager {
     }
   }
 
-  public sendHit(targetId: number, damage: number, hitPoint: number[], distance: number): void {
+  public sendShot(shot: ShotEvent): void {
     if (this.socket && this.socket.isConnected()) {
-      this.socket.sendHit(targetId, damage, hitPoint, distance);
+      this.socket.sendShot(shot);
     } else {
-      console.warn('Cannot send hit event: not connected to server');
+      console.warn('Cannot send shot: not connected to server');
     }
   }
 
+  public sendReload(weaponId: string): void {
+    this.socket?.sendReload(weaponId);
+  }
+
+  public sendCrash(position: number[]): void {
+    this.socket?.sendCrash(position);
+  }
+
+  public sendCollision(otherId: number, position: number[]): void {
+    this.socket?.sendCollision(otherId, position);
+  }
+
+  public sendMissileLaunch(origin: number[], direction: number[], targetId: number | null): void {
+    this.socket?.sendMissileLaunch(origin, direction, targetId);
+  }
+
+  public sendFlare(position: number[]): void {
+    this.socket?.sendFlare(position);
+  }
+
+  public requestMatchStats(): void {
+    this.socket?.requestMatchStats();
+  }
+
+  public requestRankings(page = 0, pageSize = 10): void {
+    this.socket?.requestRankings(page, pageSize);
+  }
+
+  public getLastSnapshotSequence(): number | null {
+    return this.socket?.getLastSnapshotSequence() ?? null;
+  }
+
   public isConnected(): boolean {
     return this.socket?.isConnected() ?? false;
   }
 
+  public getConnectionState(): ConnectionState {
+    return this.socket?.getConnectionState() ?? 'idle';
+  }
+
   public getPlayerId(): number | null {
     return this.socket?.getPlayerId() ?? null;
   }
 
+  public getUsername(): string | null {
+    return this.socket?.getUsername() ?? null;
+  }
+
   public getSocketId(): string | null {
     return this.socket?.getSocketId() ?? null;
   }
@@ -0,0 +1,49 @@
+/**
+ * Estimates the server's wall clock on top of performance.now().
+ *
+ * Binary packet headers only carry the low 32 bits of the server's Date.now()
+ * (see BinaryProtocol.createStateUpdateBuffer), so timestamps are unwrapped
+ * against the current estimate before use. The offset follows the lowest-latency
+ * sample seen (packets can only arrive late, never early) and slowly relaxes so
+ * clock drift and route changes are absorbed.
+ */
+const UINT32_RANGE = 0x100000000;
+const SERVER_TIMESTAMP_MODULO = 0xffffffff;
+
+export class ServerClock {
+  private offset: number | null = null;
+  private readonly relaxRate = 0.02;
+
+  /** Feeds a server timestamp (full or 32-bit wrapped) and returns it unwrapped. */
+  public observe(serverTime: number): number {
+    const unwrapped = this.unwrap(serverTime);
+    const sample = unwrapped - performance.now();
+
+    if (this.offset === null || sample > this.offset) {
+      this.offset = sample;
+    } else {
+      this.offset += (sample - this.offset) * this.relaxRate;
+    }
+
+    return unwrapped;
+  }
+
+  /** Current server time estimate in milliseconds. */
+  public now(): number {
+    return performance.now() + (this.offset ?? Date.now() - performance.now());
+  }
+
+  public isSynchronized(): boolean {
+    return this.offset !== null;
+  }
+
+  private unwrap(serverTime: number): number {
+    if (serverTime >= UINT32_RANGE) {
+      return serverTime; // already a full Date.now() value (JSON messages)
+    }
+
+    const reference = this.now();
+    const wraps = Math.round((reference - serverTime) / SERVER_TIMESTAMP_MODULO);
+    return serverTime + wraps * SERVER_TIMESTAMP_MODULO;
+  }
+}
@@ -24,7 +24,7 @@ export class StateSync {
     down: false
   };
 
-  private onStateChange?: (state: PlayerState) => void;
+  private onStateChange?: (state: PlayerState, sequence: number) => void;
   private onMovementEvent?: (event: MovementEvent) => void;
 
   constructor(config: Partial<SyncConfig> = {}) {
@@ -37,7 +37,7 @@ export class StateSync {
     };
   }
 
-  public setStateChangeCallback(callback: (state: PlayerState) => void): void {
+  public setStateChangeCallback(callback: (state: PlayerState, sequence: number) => void): void {
     this.onStateChange = callback;
   }
 
@@ -45,21 +45,26 @@ export class StateSync {
     this.onMovementEvent = callback;
   }
 
+  /**
+   * 고정 틱마다 호출된다.
+   * @param sequence 이 상태를 만든 시뮬레이션 틱 (= ClientPrediction 입력 시퀀스). 서버가 ack로 되돌려준다.
+   */
   public update(
-    localPlane: THREE.Group,
+    localPlane: THREE.Object3D,
     inputState: InputState,
-    speed: number
+    speed: number,
+    sequence: number
   ): void {
     const now = performance.now();
 
     // 위치/회전 변경 체크
-    this.checkPositionChange(localPlane, now);
+    this.checkPositionChange(localPlane, now, sequence);
     
     // 입력 상태 변경 체크
     this.checkInputChange(localPlane, inputState, speed, now);
   }
 
-  private checkPositionChange(localPlane: THREE.Group, now: number): void {
+  private checkPositionChange(localPlane: THREE.Object3D, now: number, sequence: number): void {
     const positionChanged = localPlane.position.distanceTo(this.lastPosition) > this.config.positionThreshold;
     const rotationChanged = localPlane.quaternion.angleTo(this.lastRotation) > this.config.rotationThreshold;
     const timePassed = now - this.lastUpdateTime > this.config.updateInterval;
@@ -74,13 +79,13 @@ export class StateSync {
         this.onStateChange({
           position: localPlane.position.toArray(),
           rotation: localPlane.quaternion.toArray()
-        });
+        }, sequence);
       }
     }
   }
 
   private checkInputChange(
-    localPlane: THREE.Group, 
+    localPlane: THREE.Object3D,
     inputState: InputState, 
     speed: number, 
     now: number
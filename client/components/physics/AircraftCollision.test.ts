@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { AircraftCollisionDetector, CollisionBody } from './AircraftCollision';
+
+const STEP = 1 / 60;
+const RADIUS = 2.4;
+
+function body(id: string, x: number, y: number, z: number): CollisionBody {
+  return { id, position: new THREE.Vector3(x, y, z), radius: RADIUS };
+}
+
+describe('AircraftCollisionDetector', () => {
+  it('catches a head-on pass that tunnels through in a single tick', () => {
+    const detector = new AircraftCollisionDetector();
+    const other = body('7', 0, 100, -10);
+    detector.detect(new THREE.Vector3(0, 100, 0), new THREE.Vector3(0, 100, 0), RADIUS, [other], 1, STEP);
+
+    // 둘 다 500 units/s - 한 틱에 8 units씩, 끝 위치는 서로 지나쳐 있다
+    other.position.set(0, 100, -2);
+    const contact = detector.detect(
+      new THREE.Vector3(0, 100, 0), new THREE.Vector3(0, 100, -8), RADIUS, [other], 2, STEP
+    );
+
+    expect(contact?.id).toBe('7');
+    expect(contact?.normal.z).toBeCloseTo(1);
+    expect(contact?.closingSpeed).toBeCloseTo(960);
+  });
+
+  it('ignores near misses, slow contact and teleports', () => {
+    const detector = new AircraftCollisionDetector();
+    const passing = body('1', 10, 100, -10);
+    const parked = body('2', 0, 10, 0);
+    const respawned = body('3', 0, 300, -500);
+    const start = new THREE.Vector3(0, 10, 2);
+    detector.detect(start, start, RADIUS, [passing, parked, respawned], 1, STEP);
+
+    passing.position.set(10, 100, 10);
+    respawned.position.set(0, 10, 0); // 리스폰 지점으로 순간이동
+    const contact = detector.detect(
+      start, new THREE.Vector3(0, 10, 1.9), RADIUS, [passing, parked, respawned], 2, STEP
+    );
+    expect(contact).toBeNull();
+  });
+
+  it('reports the same pair once per cooldown', () => {
+    const detector = new AircraftCollisionDetector({ cooldownTicks: 60 });
+    const other = body('7', 0, 100, -3);
+    const start = new THREE.Vector3(0, 100, 3);
+    const end = new THREE.Vector3(0, 100, -1);
+
+    detector.detect(start, start, RADIUS, [other], 1, STEP);
+    expect(detector.detect(start, end, RADIUS, [other], 2, STEP)).not.toBeNull();
+    expect(detector.detect(start, end, RADIUS, [other], 3, STEP)).toBeNull();
+    expect(detector.detect(start, end, RADIUS, [other], 62, STEP)).not.toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+
+/** 충돌 판정에 쓰는 기체 구 - 원격 기체는 화면에 그리는 보간 위치 그대로 */
+export interface CollisionBody {
+  id: string;
+  position: THREE.Vector3;
+  radius: number;
+}
+
+export interface AircraftContact {
+  id: string;
+  /** 상대 → 내 기체 방향 (단위 벡터) */
+  normal: THREE.Vector3;
+  /** 이번 틱 끝의 상대 중심 - 내 기체를 여기서 normal 방향으로 밀어낸다 */
+  otherPosition: THREE.Vector3;
+  /** 두 반지름 합 (units) */
+  distance: number;
+  /** 법선 방향으로 서로 다가오던 속력 (units/s) */
+  closingSpeed: number;
+}
+
+export interface CollisionConfig {
+  /** 같은 상대와의 충돌을 다시 보지 않는 틱 수 (튕겨 나가는 동안) */
+  cooldownTicks: number;
+  /** 이보다 느리게 닿으면 무시 (units/s) - 리스폰 지점에 함께 떠 있는 기체끼리 */
+  minClosingSpeed: number;
+  /** 한 틱에 이보다 많이 움직인 상대는 순간이동(리스폰)으로 보고 쓸고 지나간 구간을 보지 않는다 */
+  maxStepDistance: number;
+}
+
+const DEFAULT_COLLISION_CONFIG: CollisionConfig = {
+  cooldownTicks: 60,
+  minClosingSpeed: 20,
+  maxStepDistance: 50
+};
+
+/**
+ * 상대 위치 offset에서 relativeMotion만큼 움직이는 동안 거리가 radius 이하가 되는
+ * 첫 시점 (0..1). 처음부터 겹쳐 있으면 0, 닿지 않으면 null.
+ */
+export function sweptSphereTime(offset: THREE.Vector3, relativeMotion: THREE.Vector3, radius: number): number | null {
+  const c = offset.lengthSq() - radius * radius;
+  if (c <= 0) {
+    return 0;
+  }
+
+  const a = relativeMotion.lengthSq();
+  if (a < 1e-9) {
+    return null;
+  }
+
+  const b = 2 * offset.dot(relativeMotion);
+  const discriminant = b * b - 4 * a * c;
+  if (b >= 0 || discriminant < 0) {
+    return null; // 멀어지는 중이거나 스쳐 지나간다
+  }
+
+  const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return time <= 1 ? time : null;
+}
+
+/**
+ * 내 기체와 원격 기체 사이의 공중 충돌 감지 (구 대 구).
+ *
+ * 60Hz 틱 한 번에 기체가 8 units 넘게 움직이므로 끝 위치끼리만 비교하면 정면으로
+ * 스쳐 지나가 버린다. 그래서 직전 틱부터 이번 틱까지 두 기체가 쓸고 간 구간을
+ * 상대 운동으로 바꿔 가장 먼저 닿는 상대를 찾는다. 원격 기체의 직전 위치는 여기서 기억한다.
+ */
+export class AircraftCollisionDetector {
+  private readonly config: CollisionConfig;
+  private readonly previous = new Map<string, THREE.Vector3>();
+  private readonly cooldownUntil = new Map<string, number>();
+  private readonly seen = new Set<string>();
+  private readonly _offset = new THREE.Vector3();
+  private readonly _motion = new THREE.Vector3();
+  private readonly _otherMotion = new THREE.Vector3();
+  private readonly _normal = new THREE.Vector3();
+
+  constructor(config: Partial<CollisionConfig> = {}) {
+    this.config = { ...DEFAULT_COLLISION_CONFIG, ...config };
+  }
+
+  /**
+   * 이번 틱(localStart → localEnd)에 처음 닿은 원격 기체. 닿은 상대는 cooldownTicks 동안 다시 보고하지 않는다.
+   * @param stepSeconds 틱 길이 - 접근 속력 계산용
+   */
+  public detect(
+    localStart: THREE.Vector3,
+    localEnd: THREE.Vector3,
+    localRadius: number,
+    others: Iterable<CollisionBody>,
+    tick: number,
+    stepSeconds: number
+  ): AircraftContact | null {
+    let contact: AircraftContact | null = null;
+    let earliest = Infinity;
+    this.seen.clear();
+
+    for (const other of others) {
+      this.seen.add(other.id);
+      const previous = this.previous.get(other.id);
+      const otherStart = previous && previous.distanceTo(other.position) <= this.config.maxStepDistance
+        ? previous
+        : other.position;
+
+      const offset = this._offset.subVectors(localStart, otherStart);
+      const otherMotion = this._otherMotion.subVectors(other.position, otherStart);
+      const motion = this._motion.subVectors(localEnd, localStart).sub(otherMotion);
+      const distance = localRadius + other.radius;
+      const time = sweptSphereTime(offset, motion, distance);
+
+      if (previous) {
+        previous.copy(other.position);
+      } else {
+        this.previous.set(other.id, other.position.clone());
+      }
+
+      if (time === null || time >= earliest || (this.cooldownUntil.get(other.id) ?? -Infinity) > tick) {
+        continue;
+      }
+
+      const normal = this._normal.copy(offset).addScaledVector(motion, time);
+      if (normal.lengthSq() < 1e-9) {
+        normal.copy(motion).negate(); // 중심이 겹쳤다 - 들어온 반대 방향으로
+      }
+      if (normal.lengthSq() < 1e-9) {
+        continue;
+      }
+      normal.normalize();
+
+      const closingSpeed = -motion.dot(normal) / stepSeconds;
+      if (closingSpeed < this.config.minClosingSpeed) {
+        continue;
+      }
+
+      earliest = time;
+      contact = {
+        id: other.id,
+        normal: normal.clone(),
+        otherPosition: other.position.clone(),
+        distance,
+        closingSpeed
+      };
+    }
+
+    // 나간 플레이어
+    this.previous.forEach((_, id) => {
+      if (!this.seen.has(id)) {
+        this.previous.delete(id);
+        this.cooldownUntil.delete(id);
+      }
+    });
+
+    if (contact) {
+      this.cooldownUntil.set(contact.id, tick + this.config.cooldownTicks);
+    }
+    return contact;
+  }
+
+  /** 내 기체가 순간이동(리스폰/로비 복귀)했다 - 기억한 위치와 쿨다운을 버린다 */
+  public reset(): void {
+    this.previous.clear();
+    this.cooldownUntil.clear();
+  }
+}
@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { FixedTimestep } from './FixedTimestep';
+import { FlightPhysics } from './FlightPhysics';
+
+const LEVEL = { pitch: 0, yaw: 0, roll: 0 };
+const THRUST = { forward: true, backward: false, left: false, right: false, up: false, down: false, shoot: false };
+
+const TICKS = 180;
+
+/** refreshRate Hz 모니터로 TICKS 틱(3초)만큼 최대 추력 비행 */
+function flyAtRefreshRate(refreshRate: number) {
+  const timestep = new FixedTimestep();
+  const physics = new FlightPhysics(getAircraftDefinition('fighter'));
+  const aircraft = new THREE.Object3D();
+  aircraft.position.set(0, 500, 0);
+
+  let frames = 0;
+  while (timestep.getTick() < TICKS) {
+    frames++;
+    timestep.advance(1 / refreshRate, (step, tick) => {
+      if (tick <= TICKS) physics.updatePhysics(step, THRUST, LEVEL, aircraft);
+    });
+  }
+
+  return { frames, physics, aircraft };
+}
+
+describe('FixedTimestep', () => {
+  it('runs whole ticks and carries the remainder as the interpolation alpha', () => {
+    const timestep = new FixedTimestep({ tickRate: 60 });
+    const ticks: number[] = [];
+
+    expect(timestep.advance(0.01, (_, tick) => ticks.push(tick))).toBe(0);
+    expect(timestep.getAlpha()).toBeCloseTo(0.6);
+
+    expect(timestep.advance(0.03, (_, tick) => ticks.push(tick))).toBe(2);
+    expect(ticks).toEqual([1, 2]);
+    expect(timestep.getTick()).toBe(2);
+    expect(timestep.getAlpha()).toBeCloseTo(0.4);
+  });
+
+  it('drops backlog beyond maxTicksPerFrame', () => {
+    const timestep = new FixedTimestep({ tickRate: 60, maxTicksPerFrame: 5 });
+    expect(timestep.advance(2, () => undefined)).toBe(5);
+    expect(timestep.advance(0, () => undefined)).toBe(0);
+    expect(timestep.getTick()).toBe(5);
+  });
+
+  it('keeps the tick counter increasing across reset', () => {
+    const timestep = new FixedTimestep();
+    timestep.advance(0.05, () => undefined);
+    const tick = timestep.getTick();
+    timestep.reset();
+    expect(timestep.getAlpha()).toBe(0);
+    timestep.advance(1 / 60, () => undefined);
+    expect(timestep.getTick()).toBe(tick + 1);
+  });
+
+  it('makes acceleration independent of the refresh rate', () => {
+    const at30 = flyAtRefreshRate(30);
+    const at144 = flyAtRefreshRate(144);
+
+    expect(at30.frames).toBeLessThan(at144.frames);
+    expect(at30.physics.getCurrentSpeed()).toBe(at144.physics.getCurrentSpeed());
+    expect(at30.aircraft.position.toArray()).toEqual(at144.aircraft.position.toArray());
+  });
+});
@@ -0,0 +1,79 @@
+export interface FixedTimestepConfig {
+  /** 초당 시뮬레이션 틱 수 */
+  tickRate: number;
+  /** 한 프레임에 따라잡는 최대 틱 수 - 넘치는 시간은 버린다 (탭 전환/디버거 정지 뒤 폭주 방지) */
+  maxTicksPerFrame: number;
+}
+
+/**
+ * Fixed-tick accumulator that decouples simulation from the render rate.
+ *
+ * Each rendered frame feeds its wall-clock delta into `advance`, which runs the
+ * step callback zero or more times with a constant `stepSeconds`. The leftover
+ * fraction of a tick is exposed as `getAlpha()` so the renderer can
+ * interpolate between the previous and current simulated states.
+ *
+ * The tick counter only ever increases (even across `reset`), so it can be used
+ * as a monotonically increasing sequence number on the wire.
+ */
+export class FixedTimestep {
+  private readonly config: FixedTimestepConfig;
+  private readonly stepSeconds: number;
+  private accumulator = 0;
+  private tick = 0;
+
+  constructor(config: Partial<FixedTimestepConfig> = {}) {
+    this.config = {
+      tickRate: 60,
+      maxTicksPerFrame: 5,
+      ...config
+    };
+    this.stepSeconds = 1 / this.config.tickRate;
+  }
+
+  /**
+   * Adds one frame's elapsed time and runs every whole tick that fits.
+   * Returns the number of ticks simulated this frame.
+   */
+  public advance(frameSeconds: number, step: (stepSeconds: number, tick: number) => void): number {
+    if (!Number.isFinite(frameSeconds) || frameSeconds <= 0) {
+      return 0;
+    }
+
+    const maxBacklog = this.stepSeconds * this.config.maxTicksPerFrame;
+    this.accumulator = Math.min(this.accumulator + frameSeconds, maxBacklog);
+
+    let ticks = 0;
+    while (this.accumulator >= this.stepSeconds) {
+      this.accumulator -= this.stepSeconds;
+      this.tick++;
+      ticks++;
+      step(this.stepSeconds, this.tick);
+    }
+
+    return ticks;
+  }
+
+  /** 마지막 틱 이후 지난 시간 비율 (0..1) - 렌더 보간용 */
+  public getAlpha(): number {
+    return this.accumulator / this.stepSeconds;
+  }
+
+  /** 지금까지 시뮬레이션한 마지막 틱 번호 */
+  public getTick(): number {
+    return this.tick;
+  }
+
+  public getStepSeconds(): number {
+    return this.stepSeconds;
+  }
+
+  public getTickRate(): number {
+    return this.config.tickRate;
+  }
+
+  /** 남은 누적 시간만 버린다. 틱 번호는 계속 증가한다 */
+  public reset(): void {
+    this.accumulator = 0;
+  }
+}
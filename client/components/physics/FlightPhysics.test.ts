@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { InputState } from '../input/InputManager';
+import { FlightPhysics } from './FlightPhysics';
+
+const STEP = 1 / 60;
+const LEVEL = { pitch: 0, yaw: 0, roll: 0 };
+
+const input = (overrides: Partial<InputState> = {}): InputState => ({
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  shoot: false,
+  ...overrides
+});
+
+function fly(
+  physics: FlightPhysics,
+  aircraft: THREE.Object3D,
+  seconds: number,
+  state: InputState,
+  target: (t: number) => typeof LEVEL = () => LEVEL
+): void {
+  const steps = Math.round(seconds / STEP);
+  for (let i = 0; i < steps; i++) {
+    physics.updatePhysics(STEP, state, target(i * STEP), aircraft);
+  }
+}
+
+/** 고도 500에서 최대 추력으로 수평 비행에 들어간 상태 */
+function cruising(type = 'fighter'): { physics: FlightPhysics; aircraft: THREE.Object3D } {
+  const physics = new FlightPhysics(getAircraftDefinition(type));
+  const aircraft = new THREE.Object3D();
+  aircraft.position.set(0, 500, 0);
+  fly(physics, aircraft, 20, input({ forward: true }));
+  return { physics, aircraft };
+}
+
+describe('FlightPhysics', () => {
+  it('settles near the definition top speed at full throttle', () => {
+    const { physics } = cruising();
+    const speed = physics.getSpeed();
+    expect(speed).toBeGreaterThan(450);
+    expect(speed).toBeLessThan(520);
+    expect(physics.isStalled()).toBe(false);
+  });
+
+  it('is deterministic for a fixed timestep', () => {
+    const a = cruising();
+    const b = cruising();
+    const manoeuvre = (t: number) => ({ pitch: 0.3 * t, yaw: 0.2 * t, roll: 0.5 });
+    fly(a.physics, a.aircraft, 3, input({ forward: true }), manoeuvre);
+    fly(b.physics, b.aircraft, 3, input({ forward: true }), manoeuvre);
+
+    expect(a.aircraft.position.toArray()).toEqual(b.aircraft.position.toArray());
+    expect(a.physics.getPhysicsState().velocity.toArray()).toEqual(b.physics.getPhysicsState().velocity.toArray());
+  });
+
+  it('bleeds speed in a sustained hard turn compared to level flight', () => {
+    const level = cruising();
+    const turning = cruising();
+    fly(level.physics, level.aircraft, 3, input({ forward: true }));
+    fly(turning.physics, turning.aircraft, 3, input({ forward: true }), (t) => ({ pitch: 0, yaw: 1.2 * t, roll: 0 }));
+
+    expect(turning.physics.getSpeed()).toBeLessThan(level.physics.getSpeed() - 20);
+  });
+
+  it('stalls and loses altitude below stall speed', () => {
+    const physics = new FlightPhysics(getAircraftDefinition('fighter'));
+    const aircraft = new THREE.Object3D();
+    aircraft.position.set(0, 500, 0);
+    fly(physics, aircraft, 2, input());
+
+    expect(physics.isStalled()).toBe(true);
+    expect(aircraft.position.y).toBeLessThan(500);
+    expect(physics.getPhysicsState().velocity.y).toBeLessThan(0);
+  });
+
+  it('settles onto flat ground from the spawn height without crashing', () => {
+    const physics = new FlightPhysics(getAircraftDefinition('fighter'));
+    const aircraft = new THREE.Object3D();
+    aircraft.position.set(0, 10, 0);
+    fly(physics, aircraft, 2, input());
+
+    expect(physics.isCrashed()).toBe(false);
+    expect(aircraft.position.y).toBe(2);
+    expect(physics.isLowAltitude()).toBe(false);
+  });
+
+  it('crashes into terrain in a dive, warning first, and stays put until reset', () => {
+    const { physics, aircraft } = cruising();
+    physics.setGround({ heightAt: () => 100 });
+
+    let warned = false;
+    for (let i = 0; i < 600 && !physics.isCrashed(); i++) {
+      physics.updatePhysics(STEP, input({ forward: true }), { pitch: -0.8, yaw: 0, roll: 0 }, aircraft);
+      warned ||= physics.isLowAltitude();
+    }
+
+    expect(warned).toBe(true);
+    expect(physics.isCrashed()).toBe(true);
+    expect(aircraft.position.y).toBe(102);
+
+    const wreck = aircraft.position.clone();
+    fly(physics, aircraft, 1, input({ forward: true }));
+    expect(aircraft.position.toArray()).toEqual(wreck.toArray());
+
+    physics.reset();
+    expect(physics.isCrashed()).toBe(false);
+  });
+
+  it('restores a captured snapshot exactly', () => {
+    const { physics, aircraft } = cruising();
+    const snapshot = physics.captureSnapshot(aircraft);
+    fly(physics, aircraft, 1, input({ forward: true }), () => ({ pitch: 0.2, yaw: 0.1, roll: 0 }));
+    const expected = aircraft.position.clone();
+
+    physics.restoreSnapshot(snapshot, aircraft);
+    fly(physics, aircraft, 1, input({ forward: true }), () => ({ pitch: 0.2, yaw: 0.1, roll: 0 }));
+    expect(aircraft.position.toArray()).toEqual(expected.toArray());
+  });
+});
@@ -1,7 +1,62 @@
 import * as THREE from 'three';
-import { PhysicsState } from './types';
+import { FlightSnapshot, GroundSampler, PhysicsState } from './types';
 import { InputState } from '../input/InputManager';
+import { AircraftDefinition, DEFAULT_AIRCRAFT_TYPE, getAircraftDefinition } from '../aircraft/AircraftDefinitions';
 
+/** 중력 가속도 (units/s²) - 게임 속도 스케일에 맞춘 값 */
+const GRAVITY = 40;
+
+/** 받음각이 이 값을 넘으면 양력이 무너진다 (rad) */
+const CRITICAL_AOA = 0.35;
+/** 실속 후 남는 양력 비율 */
+const POST_STALL_LIFT = 0.35;
+/** 동체 옆면이 만드는 측력 - 양력 기울기 대비 */
+const SIDE_FORCE_RATIO = 0.6;
+/** 유도 항력 계수: 양력 × |CL| 비율만큼 속도를 깎는다 (급선회 에너지 손실) */
+const INDUCED_DRAG = 0.12;
+/** 급강하 한계 속력 (최대 속력 배수) - 서버 MovementValidator.diveAllowance와 같은 값 */
+const NEVER_EXCEED_RATIO = 1.2;
+/** 스로틀 0→1에 걸리는 시간 (s) */
+const THROTTLE_SPOOL_TIME = 1.5;
+/** 실속 시 기수가 떨어지는 속도 (rad/s)와 최대 각 */
+const STALL_PITCH_RATE = 0.8;
+const STALL_PITCH_MAX = 0.6;
+/** 속도가 실속 속도보다 낮을 때 남는 최소 조종 권한 */
+const MIN_CONTROL_AUTHORITY = 0.25;
+/** 지면 위 최소 높이 - 기체 중심이 땅에 묻히지 않게 */
+const MIN_ALTITUDE = 2;
+/** 지면 법선 방향으로 이보다 빠르게 닿으면 추락 (units/s) - 리스폰 높이(10)에서 떨어지는 속도보다 크다 */
+const CRASH_IMPACT_SPEED = 35;
+/** 실속 속도 이상으로 날며 기수가 지면 쪽으로 이 비율(sin, 약 15°)보다 박힌 채 닿아도 추락 */
+const CRASH_NOSE_DOWN = 0.26;
+/** 지면 법선을 구하는 유한 차분 간격 (units) */
+const GROUND_SAMPLE_STEP = 2;
+/** 저고도 경고: 강하 중 이 높이 아래이거나, 지금 강하율로 이 시간 안에 지면에 닿을 때 */
+const LOW_ALTITUDE = 40;
+const PULL_UP_SECONDS = 4;
+/** 공중 충돌: 상대 쪽으로 향하던 속도를 이 비율만큼 되튕기고, 전체 속력은 이만큼만 남긴다 */
+const COLLISION_RESTITUTION = 0.3;
+const COLLISION_SPEED_KEPT = 0.7;
+
+const FORWARD = new THREE.Vector3(0, 0, -1);
+const UP = new THREE.Vector3(0, 1, 0);
+const RIGHT = new THREE.Vector3(1, 0, 0);
+
+/**
+ * 로컬 기체 비행 모델 (아케이드 + 공기역학).
+ *
+ * 자세는 입력이 주는 목표 각을 기체 응답만큼 따라가고, 속도 벡터는 힘으로 적분한다:
+ * 추력(스로틀 × 추력/질량), 항력(속력² + 유도 항력), 양력(속력² × 받음각),
+ * 측력(옆미끄럼각), 중력. 실속 속도보다 느리거나 받음각이 임계를 넘으면 실속 -
+ * 양력이 줄고 기수가 떨어진다. 양력/항력 계수는 기체 정의에서 유도한다:
+ * 최대 추력일 때 수평 최고 속력이 maxSpeed, 실속 속도에서 최대 양력이 중력과 같다.
+ *
+ * 지면(지형 높이맵)에 세게 닿으면 추락 - reset() 전까지 더 움직이지 않는다.
+ * 완만하게 닿으면 지면을 따라 미끄러진다 (리스폰 직후 평지 착지 포함).
+ *
+ * 상태는 전부 이 객체와 기체 transform에 있고 시간/난수를 쓰지 않으므로
+ * 같은 입력과 같은 deltaTime이면 항상 같은 결과가 나온다 (고정 틱/서버 실행 대비).
+ */
 export class FlightPhysics {
   private physics: PhysicsState = {
     velocity: new THREE.Vector3(),
@@ -10,76 +65,339 @@ export class FlightPhysics {
     drag: 0
   };
 
-  private speed = 0;
-  private readonly minSpeed = 0;
-  // private readonly maxSpeed = 500;
-  private readonly maxSpeed = 500;
-  // private readonly accel = 5;
-  private readonly accel = 10;
-  // private readonly decel = 3;
-  private readonly decel = 3;
+  private throttle = 0;
+  private stalled = false;
+  private crashed = false;
+  private grounded = false;
+  /** 지면 위 높이 (units) */
+  private groundClearance = Infinity;
+  private ground: GroundSampler | null = null;
+  /** 실속으로 떨어진 기수 각 (rad, 음수 = 기수 내림) */
+  private stallPitch = 0;
 
   // 회전 값들
   private pitch = 0;
   private yaw = 0;
   private roll = 0;
-  private readonly lerpFactor = 0.5;
+
+  // 프레임마다 새로 만들지 않도록 미리 할당
+  private readonly _euler = new THREE.Euler(0, 0, 0, 'YXZ');
+  private readonly _forward = new THREE.Vector3();
+  private readonly _up = new THREE.Vector3();
+  private readonly _right = new THREE.Vector3();
+  private readonly _flowDir = new THREE.Vector3();
+  private readonly _liftDir = new THREE.Vector3();
+  private readonly _sideDir = new THREE.Vector3();
+  private readonly _accel = new THREE.Vector3();
+  private readonly _inverse = new THREE.Quaternion();
+  private readonly _local = new THREE.Vector3();
+  private readonly _groundNormal = new THREE.Vector3();
+
+  constructor(private definition: AircraftDefinition = getAircraftDefinition(DEFAULT_AIRCRAFT_TYPE)) {}
+
+  /** 기체를 바꾼다. 현재 속력은 새 급강하 한계로 잘린다. */
+  public setDefinition(definition: AircraftDefinition): void {
+    this.definition = definition;
+    this.physics.velocity.clampLength(0, definition.maxSpeed * NEVER_EXCEED_RATIO);
+  }
+
+  public getDefinition(): AircraftDefinition {
+    return this.definition;
+  }
+
+  /** 충돌에 쓸 지형. null이면 y = 0 평지 */
+  public setGround(ground: GroundSampler | null): void {
+    this.ground = ground;
+  }
+
+  /** 리스폰/로비 복귀 시 정지 상태로 (자세 목표는 InputManager가 가진다) */
+  public reset(): void {
+    this.physics.velocity.set(0, 0, 0);
+    this.physics.angularVelocity.set(0, 0, 0);
+    this.physics.lift = 0;
+    this.physics.drag = 0;
+    this.throttle = 0;
+    this.stalled = false;
+    this.stallPitch = 0;
+    this.crashed = false;
+    this.grounded = false;
+    this.groundClearance = Infinity;
+  }
+
+  /**
+   * 다른 기체와 부딪혔다: 상대 쪽으로 향하던 속도 성분을 되튕기고 속력을 깎는다.
+   * @param normal 상대 → 내 기체 방향 단위 벡터
+   */
+  public collide(normal: THREE.Vector3): void {
+    const velocity = this.physics.velocity;
+    const approach = -velocity.dot(normal);
+    if (approach > 0) {
+      velocity.addScaledVector(normal, approach * (1 + COLLISION_RESTITUTION));
+    }
+    velocity.multiplyScalar(COLLISION_SPEED_KEPT);
+  }
+
+  /** 공중 충돌로 격추됐다 - 지형 추락처럼 reset()까지 그 자리에 멈춘다 */
+  public crash(): void {
+    this.crashed = true;
+    this.physics.velocity.set(0, 0, 0);
+  }
 
   public updatePhysics(
-    deltaTime: number, 
-    inputState: InputState, 
+    deltaTime: number,
+    inputState: InputState,
     targetRotation: { pitch: number; yaw: number; roll: number },
-    aircraft: THREE.Group
+    aircraft: THREE.Object3D
   ) {
-    // 속도 업데이트
-    this.updateSpeed(inputState);
-    
-    // 회전 보간
-    this.pitch = THREE.MathUtils.lerp(this.pitch, targetRotation.pitch, this.lerpFactor);
-    this.yaw = THREE.MathUtils.lerp(this.yaw, targetRotation.yaw, this.lerpFactor);
-    this.roll = THREE.MathUtils.lerp(this.roll, targetRotation.roll, this.lerpFactor);
-    
-    // 속도 보간
-    this.physics.velocity.z = THREE.MathUtils.lerp(this.physics.velocity.z, this.speed, 0.1);
-
-    // 회전 적용
-    const rotation = new THREE.Euler(this.pitch, this.yaw, this.roll, 'YXZ');
-    aircraft.quaternion.setFromEuler(rotation);
-
-    // 이동 적용
-    const direction = new THREE.Vector3(0, 0, -1).applyQuaternion(aircraft.quaternion);
-    aircraft.position.add(direction.multiplyScalar(this.physics.velocity.z * deltaTime));
-
-    // Y축 하한선 제한 (예: y >= 2)
-    if (aircraft.position.y < 2) {
-      aircraft.position.y = 2;
+    if (deltaTime <= 0 || this.crashed) {
+      return;
     }
+
+    this.updateThrottle(deltaTime, inputState);
+    this.updateAttitude(deltaTime, targetRotation, aircraft);
+    this.integrate(deltaTime, inputState, aircraft);
   }
 
-  private updateSpeed(inputState: InputState) {
+  private updateThrottle(deltaTime: number, inputState: InputState): void {
+    const step = deltaTime / THROTTLE_SPOOL_TIME;
     if (inputState.forward) {
-      this.speed += this.accel;
-      if (this.speed > this.maxSpeed) this.speed = this.maxSpeed;
+      this.throttle = Math.min(1, this.throttle + step);
     } else if (inputState.backward) {
-      this.speed -= this.decel;
-      if (this.speed < this.minSpeed) this.speed = this.minSpeed;
-    } else {
-      const friction = 0.99;
-      this.speed *= friction;
-      if (Math.abs(this.speed) < 0.01) this.speed = 0;
+      this.throttle = Math.max(0, this.throttle - step);
     }
   }
 
+  /** 목표 자세를 따라간다. 느릴수록 조종면이 덜 듣고, 실속 중에는 기수가 떨어진다. */
+  private updateAttitude(
+    deltaTime: number,
+    targetRotation: { pitch: number; yaw: number; roll: number },
+    aircraft: THREE.Object3D
+  ): void {
+    const { response, stallSpeed } = this.definition;
+    const airspeed = this.physics.velocity.length();
+    const authority = THREE.MathUtils.clamp(airspeed / stallSpeed, MIN_CONTROL_AUTHORITY, 1);
+    // 60fps 프레임당 lerp 비율을 deltaTime에 맞게 환산
+    const alpha = 1 - Math.pow(1 - response * authority, deltaTime * 60);
+
+    const previousPitch = this.pitch + this.stallPitch;
+    const previousYaw = this.yaw;
+    const previousRoll = this.roll;
+
+    this.pitch = THREE.MathUtils.lerp(this.pitch, targetRotation.pitch, alpha);
+    this.yaw = THREE.MathUtils.lerp(this.yaw, targetRotation.yaw, alpha);
+    this.roll = THREE.MathUtils.lerp(this.roll, targetRotation.roll, alpha);
+
+    const stallStep = STALL_PITCH_RATE * deltaTime;
+    this.stallPitch = this.stalled
+      ? Math.max(-STALL_PITCH_MAX, this.stallPitch - stallStep)
+      : Math.min(0, this.stallPitch + stallStep);
+
+    const pitch = this.pitch + this.stallPitch;
+    this.physics.angularVelocity.set(
+      (pitch - previousPitch) / deltaTime,
+      (this.yaw - previousYaw) / deltaTime,
+      (this.roll - previousRoll) / deltaTime
+    );
+
+    this._euler.set(pitch, this.yaw, this.roll, 'YXZ');
+    aircraft.quaternion.setFromEuler(this._euler);
+  }
+
+  private integrate(deltaTime: number, inputState: InputState, aircraft: THREE.Object3D): void {
+    const { thrust, mass, brake, maxSpeed, stallSpeed } = this.definition;
+    const velocity = this.physics.velocity;
+    const forward = this._forward.copy(FORWARD).applyQuaternion(aircraft.quaternion);
+    const up = this._up.copy(UP).applyQuaternion(aircraft.quaternion);
+    const right = this._right.copy(RIGHT).applyQuaternion(aircraft.quaternion);
+
+    const thrustAccel = thrust / mass;
+    // 최대 추력 = 항력일 때 최고 속력이 maxSpeed, 실속 속도 × 최대 양력 = 중력
+    const dragCoefficient = thrustAccel / (maxSpeed * maxSpeed);
+    const liftCoefficient = GRAVITY / (stallSpeed * stallSpeed);
+
+    const accel = this._accel.copy(forward).multiplyScalar(this.throttle * thrustAccel);
+    accel.y -= GRAVITY;
+
+    const airspeed = velocity.length();
+    let liftAccel = 0;
+    let dragAccel = 0;
+    let aoa = 0;
+
+    if (airspeed > 1e-3) {
+      const flow = this._flowDir.copy(velocity).divideScalar(airspeed);
+      const dynamic = airspeed * airspeed;
+
+      // 기체 좌표계의 상대풍: 받음각(위아래), 옆미끄럼각(좌우)
+      const local = this._local.copy(velocity).applyQuaternion(this._inverse.copy(aircraft.quaternion).invert());
+      aoa = Math.atan2(-local.y, -local.z);
+      const sideslip = Math.atan2(local.x, -local.z);
+
+      const liftCl = this.liftCurve(aoa);
+      const sideCl = this.liftCurve(sideslip) * SIDE_FORCE_RATIO;
+
+      // 양력은 속도에 수직, 기체 위쪽 성분 방향
+      const liftDir = this._liftDir.copy(up).addScaledVector(flow, -up.dot(flow));
+      if (liftDir.lengthSq() > 1e-6) {
+        liftAccel = liftCoefficient * dynamic * liftCl;
+        accel.addScaledVector(liftDir.normalize(), liftAccel);
+      }
+
+      // 측력은 속도를 기수 쪽으로 돌려 옆미끄럼을 없앤다
+      const sideDir = this._sideDir.copy(right).addScaledVector(flow, -right.dot(flow));
+      const sideAccel = liftCoefficient * dynamic * sideCl;
+      if (sideDir.lengthSq() > 1e-6) {
+        accel.addScaledVector(sideDir.normalize(), -sideAccel);
+      }
+
+      const induced = INDUCED_DRAG * (Math.abs(liftAccel * liftCl) + Math.abs(sideAccel * sideCl));
+      const airbrake = inputState.backward ? brake : 0;
+      dragAccel = dragCoefficient * dynamic + induced + airbrake;
+      // 항력이 한 스텝에 속도를 뒤집지 않게
+      accel.addScaledVector(flow, -Math.min(dragAccel, airspeed / deltaTime));
+    }
+
+    this.physics.lift = liftAccel;
+    this.physics.drag = dragAccel;
+
+    // semi-implicit Euler: 속도 먼저, 새 속도로 위치
+    velocity.addScaledVector(accel, deltaTime);
+    velocity.clampLength(0, maxSpeed * NEVER_EXCEED_RATIO);
+    aircraft.position.addScaledVector(velocity, deltaTime);
+
+    this.resolveGround(aircraft, forward);
+
+    // 바닥에 닿아 있으면(이륙 전 포함) 실속으로 보지 않는다
+    this.stalled = !this.grounded && !this.crashed && (airspeed < stallSpeed || Math.abs(aoa) > CRITICAL_AOA);
+  }
+
+  /**
+   * 지면 아래로 내려가면 지면 위로 올린다. 법선 방향 충돌 속도가 크거나 기수를 박은 채 닿으면
+   * 추락, 아니면 지면을 따라 미끄러진다.
+   */
+  private resolveGround(aircraft: THREE.Object3D, forward: THREE.Vector3): void {
+    const { x, z } = aircraft.position;
+    const groundHeight = this.groundHeightAt(x, z);
+    this.groundClearance = aircraft.position.y - groundHeight;
+    this.grounded = this.groundClearance <= MIN_ALTITUDE;
+    if (!this.grounded) {
+      return;
+    }
+
+    const velocity = this.physics.velocity;
+    const normal = this.groundNormalAt(x, z);
+    const impact = -velocity.dot(normal);
+    aircraft.position.y = groundHeight + MIN_ALTITUDE;
+    this.groundClearance = MIN_ALTITUDE;
+
+    // 리스폰 직후 실속으로 떨어지는 경우(느림)는 기수가 숙어 있어도 착지로 본다
+    const noseIntoGround = -forward.dot(normal) > CRASH_NOSE_DOWN && velocity.length() > this.definition.stallSpeed;
+    if (impact > CRASH_IMPACT_SPEED || noseIntoGround) {
+      this.crashed = true;
+      velocity.set(0, 0, 0);
+    } else if (impact > 0) {
+      velocity.addScaledVector(normal, impact);
+    }
+  }
+
+  private groundHeightAt(x: number, z: number): number {
+    return this.ground ? this.ground.heightAt(x, z) : 0;
+  }
+
+  private groundNormalAt(x: number, z: number): THREE.Vector3 {
+    if (!this.ground) {
+      return this._groundNormal.copy(UP);
+    }
+
+    const step = GROUND_SAMPLE_STEP;
+    const dx = this.ground.heightAt(x + step, z) - this.ground.heightAt(x - step, z);
+    const dz = this.ground.heightAt(x, z + step) - this.ground.heightAt(x, z - step);
+    return this._groundNormal.set(-dx, 2 * step, -dz).normalize();
+  }
+
+  /** 받음각 → 양력 계수 비율 (-1..1). 임계각을 넘으면 실속으로 양력이 꺾인다. */
+  private liftCurve(angle: number): number {
+    const ratio = THREE.MathUtils.clamp(angle / CRITICAL_AOA, -1, 1);
+    return Math.abs(angle) > CRITICAL_AOA ? ratio * POST_STALL_LIFT : ratio;
+  }
+
   public getSpeed(): number {
     return this.physics.velocity.length();
   }
 
+  /** 기체 속도 (units/s)를 out에 복사한다 - 탄도 기관포의 탄이 물려받는다 */
+  public getVelocity(out: THREE.Vector3): THREE.Vector3 {
+    return out.copy(this.physics.velocity);
+  }
+
   public getPhysicsState(): PhysicsState {
-    return { ...this.physics };
+    return {
+      velocity: this.physics.velocity.clone(),
+      angularVelocity: this.physics.angularVelocity.clone(),
+      lift: this.physics.lift,
+      drag: this.physics.drag
+    };
   }
 
+  /** 대기 속력 (units/s) - HUD 표시용 */
   public getCurrentSpeed(): number {
-    return this.speed;
+    return this.physics.velocity.length();
+  }
+
+  public getThrottle(): number {
+    return this.throttle;
   }
-}
 
+  public isStalled(): boolean {
+    return this.stalled;
+  }
+
+  /** 지형에 충돌했거나 공중 충돌로 격추됐다 - reset()까지 기체가 멈춰 있다 */
+  public isCrashed(): boolean {
+    return this.crashed;
+  }
+
+  /** 지면 위 높이 (units) */
+  public getGroundClearance(): number {
+    return this.groundClearance;
+  }
+
+  /** 저고도 경고 (PULL UP): 강하 중인데 지면 가까이이거나 지금 강하율로 곧 지면에 닿는다. 착지/이륙 중에는 끈다 */
+  public isLowAltitude(): boolean {
+    const sinkRate = -this.physics.velocity.y;
+    if (this.grounded || this.crashed || sinkRate <= 0) {
+      return false;
+    }
+
+    return this.groundClearance < LOW_ALTITUDE || this.groundClearance / sinkRate < PULL_UP_SECONDS;
+  }
+
+  /** Captures the aircraft transform and internal integrator state after a step. */
+  public captureSnapshot(aircraft: THREE.Object3D): FlightSnapshot {
+    return {
+      position: aircraft.position.clone(),
+      quaternion: aircraft.quaternion.clone(),
+      velocity: this.physics.velocity.clone(),
+      throttle: this.throttle,
+      stalled: this.stalled,
+      stallPitch: this.stallPitch,
+      crashed: this.crashed,
+      pitch: this.pitch,
+      yaw: this.yaw,
+      roll: this.roll
+    };
+  }
+
+  /** Rewinds the aircraft and integrator to a previously captured snapshot. */
+  public restoreSnapshot(snapshot: FlightSnapshot, aircraft: THREE.Object3D): void {
+    aircraft.position.copy(snapshot.position);
+    aircraft.quaternion.copy(snapshot.quaternion);
+    this.physics.velocity.copy(snapshot.velocity);
+    this.throttle = snapshot.throttle;
+    this.stalled = snapshot.stalled;
+    this.stallPitch = snapshot.stallPitch;
+    this.crashed = snapshot.crashed;
+    this.pitch = snapshot.pitch;
+    this.yaw = snapshot.yaw;
+    this.roll = snapshot.roll;
+  }
+}
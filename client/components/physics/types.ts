@@ -1,9 +1,33 @@
 import * as THREE from 'three';
 
 export interface PhysicsState {
+  /** 월드 좌표 속도 (units/s) */
   velocity: THREE.Vector3;
+  /** 자세 각속도 (rad/s): x = 피치, y = 요, z = 롤 */
   angularVelocity: THREE.Vector3;
+  /** 양력/항력 가속도 크기 (units/s²) */
   lift: number;
   drag: number;
 }
 
+/** 지면 높이 조회 (TerrainHeightmap) - 없으면 y = 0 평지 */
+export interface GroundSampler {
+  heightAt(x: number, z: number): number;
+}
+
+/**
+ * Everything needed to rewind the local simulation to a past input and replay
+ * from there (see ClientPrediction). Transform + FlightPhysics' internal state.
+ */
+export interface FlightSnapshot {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  velocity: THREE.Vector3;
+  throttle: number;
+  stalled: boolean;
+  stallPitch: number;
+  crashed: boolean;
+  pitch: number;
+  yaw: number;
+  roll: number;
+}
@@ -1,67 +1,159 @@
 import * as THREE from 'three';
-import { MovementEvent, PlayerState } from '../../network/SocketManager';
+import { MovementEvent, PlayerInputFlags, PlayerState } from '../../network/SocketManager';
+import { getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { DEFAULT_LOADOUT, Loadout, createAircraft, sameLoadout } from '../assets/Loadout';
 import { ModelCache } from '../assets/ModelCache';
-import { enableShadows } from '../assets/PlaneFactory';
+import { createAfterburnerGlow, enableShadows } from '../assets/PlaneFactory';
+import { ServerClock } from '../network/ServerClock';
+import { CollisionBody } from '../physics/AircraftCollision';
+import { DEFAULT_INTERPOLATION_CONFIG, InterpolationConfig, SnapshotBuffer } from './SnapshotBuffer';
+
+/** Visual-only state driven by the remote player's decoded input flags. */
+interface RemotePlaneCues {
+  afterburner: THREE.Mesh;
+  input: PlayerInputFlags | null;
+  throttle: number;
+  bank: number;
+}
+
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
 
 export class RemotePlayerManager {
   private readonly players = new Map<string, THREE.Group>();
+  private readonly buffers = new Map<string, SnapshotBuffer>();
+  private readonly cues = new Map<string, RemotePlaneCues>();
+  private readonly loadouts = new Map<string, Loadout>();
   private readonly timeouts = new Set<number>();
+  private readonly interpolation: InterpolationConfig;
+  private readonly maxCueBank = 0.18; // rad, aileron-style roll hint ahead of the snapshot stream
+  private readonly cueResponse = 8; // 1/s smoothing for throttle/bank cues
+  private readonly _bankQuaternion = new THREE.Quaternion();
 
   constructor(
     private readonly scene: THREE.Scene,
-    private readonly modelCache: ModelCache
-  ) {}
+    private readonly modelCache: ModelCache,
+    private readonly serverClock: ServerClock,
+    interpolation: Partial<InterpolationConfig> = {}
+  ) {
+    this.interpolation = { ...DEFAULT_INTERPOLATION_CONFIG, ...interpolation };
+  }
 
   public getPlayerMap(): Map<string, THREE.Group> {
     return this.players;
   }
 
+  /** 공중 충돌 판정용 - 화면에 그리는 위치와 각 기체 정의의 충돌 반지름 */
+  public getCollisionBodies(): CollisionBody[] {
+    return Array.from(this.players, ([id, mesh]) => ({
+      id,
+      position: mesh.position,
+      radius: getAircraftDefinition(this.getLoadout(id).airframe).collisionRadius
+    }));
+  }
+
+  /** 리드 계산용 - 원격 기체의 최신 속도 (units/s). 모르면 false */
+  public getVelocity(id: string, out: THREE.Vector3): boolean {
+    return this.buffers.get(id)?.latestVelocity(out) ?? false;
+  }
+
   public async addPlayer(id: string, state: PlayerState): Promise<void> {
     if (this.players.has(id)) {
       this.updatePlayer(id, state);
       return;
     }
 
-    try {
-      const mesh = await this.modelCache.createJetInstance();
-      if (this.players.has(id)) {
-        this.disposePlayerMesh(mesh);
-        return;
-      }
+    // start buffering right away so snapshots received while the model loads are kept
+    if (!this.buffers.has(id)) {
+      const buffer = new SnapshotBuffer(this.interpolation);
+      buffer.push(this.serverClock.now(), state.position, state.rotation);
+      this.buffers.set(id, buffer);
+    }
 
-      this.tintPlayer(mesh, id);
-      this.initializePlayerMesh(mesh, id, state);
+    const loadout = this.getLoadout(id);
+    const mesh = await createAircraft(this.modelCache, loadout);
+    // already added by a concurrent call, or left while the model was loading
+    if (this.players.has(id) || !this.buffers.has(id)) {
+      this.disposePlayerMesh(mesh);
       return;
-    } catch (error) {
-      console.error('Error loading remote player model:', error);
     }
 
-    const fallbackMesh = this.createBasicPlane(0xff4444);
-    fallbackMesh.userData.isFallbackPlane = true;
-    this.initializePlayerMesh(fallbackMesh, id, state);
+    this.initializePlayerMesh(mesh, id, state);
+
+    // the loadout arrived while the model was loading
+    if (!sameLoadout(loadout, this.getLoadout(id))) {
+      await this.rebuildPlayer(id);
+    }
   }
 
-  public updatePlayer(id: string, state: PlayerState, lerpFactor = 0.3): void {
-    const mesh = this.players.get(id);
-    if (!mesh) {
+  /**
+   * Records the airframe/livery a pilot chose in the hangar. An aircraft that is
+   * already in the scene is rebuilt with the new loadout.
+   */
+  public setLoadout(id: string, loadout: Loadout): void {
+    const previous = this.getLoadout(id);
+    this.loadouts.set(id, loadout);
+
+    if (this.players.has(id) && !sameLoadout(previous, loadout)) {
+      void this.rebuildPlayer(id);
+    }
+  }
+
+  /**
+   * Records a timestamped state for a remote player. Meshes are not moved here;
+   * `update()` samples the snapshot buffer once per frame.
+   * @param serverTime server timestamp of the sample (binary header or JSON), if known
+   */
+  public updatePlayer(id: string, state: PlayerState, serverTime?: number): void {
+    const buffer = this.buffers.get(id);
+    if (!buffer) {
       return;
     }
 
-    const targetPosition = new THREE.Vector3().fromArray(state.position);
-    const targetQuaternion = new THREE.Quaternion().fromArray(state.rotation);
+    const time = serverTime !== undefined ? this.serverClock.observe(serverTime) : this.serverClock.now();
+    buffer.push(time, state.position, state.rotation, state.velocity);
 
-    mesh.position.lerp(targetPosition, lerpFactor);
-    mesh.quaternion.slerp(targetQuaternion, lerpFactor);
+    const cues = this.cues.get(id);
+    if (cues && state.input) {
+      cues.input = state.input;
+    }
   }
 
-  public handleMovement(id: string, event: MovementEvent): void {
+  public handleMovement(id: string, event: MovementEvent, serverTime?: number): void {
     this.updatePlayer(id, {
       position: event.position,
-      rotation: event.rotation
-    }, 0.4);
+      rotation: event.rotation,
+      input: event.input
+    }, serverTime);
+  }
+
+  /**
+   * Moves every remote mesh to its interpolated (dead-reckoned) transform and
+   * eases the input-driven cues. Called once per rendered frame.
+   */
+  public update(deltaTime: number): void {
+    const renderTime = this.getRenderTime();
+    const blend = 1 - Math.exp(-this.cueResponse * deltaTime);
+
+    this.players.forEach((mesh, id) => {
+      this.buffers.get(id)?.sample(renderTime, mesh.position, mesh.quaternion);
+
+      const cues = this.cues.get(id);
+      if (cues) {
+        this.applyCues(mesh, cues, blend);
+      }
+    });
+  }
+
+  /** 원격 플레이어를 그리고 있는 서버 시각. 사격 시 서버가 이 시점으로 되감아 판정한다. */
+  public getRenderTime(): number {
+    return this.serverClock.now() - this.interpolation.interpolationDelayMs;
   }
 
   public removePlayer(id: string): void {
+    this.buffers.delete(id);
+    this.cues.delete(id);
+    this.loadouts.delete(id);
+
     const mesh = this.players.get(id);
     if (!mesh) {
       return;
@@ -80,6 +172,8 @@ export class RemotePlayerManager {
 
     mesh.position.fromArray(respawnPosition);
     mesh.quaternion.set(0, 0, 0, 1);
+    // teleport: never interpolate from the death location to the spawn point
+    this.buffers.get(id)?.reset(this.serverClock.now(), respawnPosition, [0, 0, 0, 1]);
   }
 
   public showHitEffect(id: string): void {
@@ -137,10 +231,34 @@ export class RemotePlayerManager {
     }, 200);
   }
 
+  /** Removes every remote aircraft (leaving a match). */
+  public clear(): void {
+    Array.from(this.players.keys()).forEach((id) => this.removePlayer(id));
+    this.buffers.clear();
+    this.cues.clear();
+    this.loadouts.clear();
+  }
+
   public dispose(): void {
     this.timeouts.forEach((id) => window.clearTimeout(id));
     this.timeouts.clear();
-    Array.from(this.players.keys()).forEach((id) => this.removePlayer(id));
+    this.clear();
+  }
+
+  /** Afterburner glow follows throttle; a small extra bank hints at roll input. */
+  private applyCues(mesh: THREE.Group, cues: RemotePlaneCues, blend: number): void {
+    const input = cues.input;
+    const targetThrottle = input?.forward ? 1 : input?.backward ? 0 : 0.35;
+    const targetBank = input?.left ? this.maxCueBank : input?.right ? -this.maxCueBank : 0;
+
+    cues.throttle += (targetThrottle - cues.throttle) * blend;
+    cues.bank += (targetBank - cues.bank) * blend;
+
+    const material = cues.afterburner.material as THREE.MeshBasicMaterial;
+    material.opacity = 0.1 + cues.throttle * 0.75;
+    cues.afterburner.scale.set(1, 1, 0.4 + cues.throttle * 1.2);
+
+    mesh.quaternion.multiply(this._bankQuaternion.setFromAxisAngle(Z_AXIS, cues.bank));
   }
 
   private scheduleTimeout(callback: () => void, delayMs: number): void {
@@ -151,39 +269,47 @@ export class RemotePlayerManager {
     this.timeouts.add(timeoutId);
   }
 
-  private initializePlayerMesh(mesh: THREE.Group, id: string, state: PlayerState): void {
-    enableShadows(mesh);
+  private getLoadout(id: string): Loadout {
+    return this.loadouts.get(id) ?? DEFAULT_LOADOUT;
+  }
 
+  private initializePlayerMesh(mesh: THREE.Group, id: string, state: PlayerState): void {
     mesh.position.fromArray(state.position);
     mesh.quaternion.fromArray(state.rotation);
+    this.attachPlayerMesh(mesh, id, state.input ?? null);
+  }
+
+  private attachPlayerMesh(mesh: THREE.Group, id: string, input: PlayerInputFlags | null): void {
+    enableShadows(mesh);
+
+    const afterburner = createAfterburnerGlow();
+    mesh.add(afterburner);
+    this.cues.set(id, { afterburner, input, throttle: 0, bank: 0 });
     this.addPlayerLabel(mesh, id);
 
     this.scene.add(mesh);
     this.players.set(id, mesh);
   }
 
-  private tintPlayer(mesh: THREE.Group, id: string): void {
-    const colors = [0xff4444, 0x44ff44, 0x4444ff, 0xffff44, 0xff44ff, 0x44ffff];
-    const color = colors[parseInt(id, 10) % colors.length];
+  /** Swaps a remote aircraft for one built from its current loadout, keeping its transform. */
+  private async rebuildPlayer(id: string): Promise<void> {
+    const loadout = this.getLoadout(id);
+    const mesh = await createAircraft(this.modelCache, loadout);
 
-    mesh.traverse((child) => {
-      if (!(child instanceof THREE.Mesh) || !child.material) {
-        return;
-      }
+    const previous = this.players.get(id);
+    // left meanwhile, or the loadout changed again (that rebuild wins)
+    if (!previous || !sameLoadout(loadout, this.getLoadout(id))) {
+      this.disposePlayerMesh(mesh);
+      return;
+    }
 
-      if (Array.isArray(child.material)) {
-        child.material.forEach((material) => {
-          if (material.name.includes('Body') || material.name.includes('Fuselage')) {
-            material.color.setHex(color);
-          }
-        });
-        return;
-      }
+    mesh.position.copy(previous.position);
+    mesh.quaternion.copy(previous.quaternion);
+    const input = this.cues.get(id)?.input ?? null;
 
-      if (child.material.name.includes('Body') || child.material.name.includes('Fuselage')) {
-        child.material.color.setHex(color);
-      }
-    });
+    this.scene.remove(previous);
+    this.disposePlayerMesh(previous);
+    this.attachPlayerMesh(mesh, id, input);
   }
 
   private addPlayerLabel(mesh: THREE.Group, id: string): void {
@@ -215,29 +341,6 @@ export class RemotePlayerManager {
     mesh.add(sprite);
   }
 
-  private createBasicPlane(color: number): THREE.Group {
-    const group = new THREE.Group();
-
-    const fuselageGeometry = new THREE.CylinderGeometry(0.2, 0.2, 3, 8);
-    const fuselageMaterial = new THREE.MeshPhongMaterial({ color });
-    const fuselage = new THREE.Mesh(fuselageGeometry, fuselageMaterial);
-    fuselage.rotation.x = Math.PI / 2;
-    group.add(fuselage);
-
-    const wingGeometry = new THREE.BoxGeometry(4, 0.1, 1);
-    const wingMaterial = new THREE.MeshPhongMaterial({ color });
-    const wings = new THREE.Mesh(wingGeometry, wingMaterial);
-    group.add(wings);
-
-    const tailGeometry = new THREE.BoxGeometry(1, 0.1, 0.5);
-    const tailMaterial = new THREE.MeshPhongMaterial({ color });
-    const tail = new THREE.Mesh(tailGeometry, tailMaterial);
-    tail.position.set(0, 0.2, -1.5);
-    group.add(tail);
-
-    return group;
-  }
-
   private disposePlayerMesh(mesh: THREE.Group): void {
     mesh.traverse((child) => {
       if (child instanceof THREE.Sprite) {
@@ -252,7 +355,7 @@ export class RemotePlayerManager {
         return;
       }
 
-      if (mesh.userData.isFallbackPlane) {
+      if (mesh.userData.isFallbackPlane || child.userData.disposable) {
         child.geometry.dispose();
       }
 
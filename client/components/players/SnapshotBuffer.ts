@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+
+export interface InterpolationConfig {
+  /** How far behind the estimated server time remote players are rendered (ms). */
+  interpolationDelayMs: number;
+  /** Longest a player is extrapolated past its newest snapshot before freezing (ms). */
+  maxExtrapolationMs: number;
+  /** Snapshots kept per player. */
+  capacity: number;
+}
+
+export const DEFAULT_INTERPOLATION_CONFIG: InterpolationConfig = {
+  interpolationDelayMs: 100,
+  maxExtrapolationMs: 250,
+  capacity: 32
+};
+
+interface Snapshot {
+  time: number;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  /** Server-reported velocity in units/s, when the packet carried one. */
+  velocity: THREE.Vector3 | null;
+}
+
+/**
+ * Timestamped transform history for one remote player.
+ *
+ * Rendering samples the buffer at `serverNow - interpolationDelay`, lerping
+ * position and slerping rotation between the two snapshots that bracket that
+ * time. When packets are late the newest snapshots are extrapolated for at most
+ * `maxExtrapolationMs`, after which the player holds position.
+ *
+ * Snapshots that carry a velocity (binary STATE_UPDATE) are dead-reckoned: the
+ * path between them is a cubic Hermite curve using both velocities as tangents,
+ * and extrapolation follows the newest velocity instead of a finite difference.
+ */
+export class SnapshotBuffer {
+  private readonly snapshots: Snapshot[] = [];
+  private readonly _velocity = new THREE.Vector3();
+  private readonly _tangent = new THREE.Vector3();
+
+  constructor(private readonly config: InterpolationConfig) {}
+
+  public push(time: number, position: number[], rotation: number[], velocity?: number[]): void {
+    const snapshot: Snapshot = {
+      time,
+      position: new THREE.Vector3().fromArray(position),
+      quaternion: new THREE.Quaternion().fromArray(rotation),
+      velocity: velocity ? new THREE.Vector3().fromArray(velocity) : null
+    };
+
+    // keep the buffer time-ordered; packets can arrive out of order
+    let index = this.snapshots.length;
+    while (index > 0 && this.snapshots[index - 1].time > time) {
+      index--;
+    }
+
+    if (index > 0 && this.snapshots[index - 1].time === time) {
+      this.snapshots[index - 1] = snapshot;
+    } else {
+      this.snapshots.splice(index, 0, snapshot);
+    }
+
+    if (this.snapshots.length > this.config.capacity) {
+      this.snapshots.splice(0, this.snapshots.length - this.config.capacity);
+    }
+  }
+
+  /** Forgets all history, e.g. after a respawn teleport. */
+  public reset(time: number, position: number[], rotation: number[]): void {
+    this.snapshots.length = 0;
+    this.push(time, position, rotation);
+  }
+
+  public isEmpty(): boolean {
+    return this.snapshots.length === 0;
+  }
+
+  /**
+   * Writes the interpolated transform at `renderTime` into the outputs.
+   * Returns false when there is nothing to sample yet.
+   */
+  public sample(renderTime: number, outPosition: THREE.Vector3, outQuaternion: THREE.Quaternion): boolean {
+    const snapshots = this.snapshots;
+    if (snapshots.length === 0) {
+      return false;
+    }
+
+    const oldest = snapshots[0];
+    if (renderTime <= oldest.time) {
+      outPosition.copy(oldest.position);
+      outQuaternion.copy(oldest.quaternion);
+      return true;
+    }
+
+    const newest = snapshots[snapshots.length - 1];
+    if (renderTime >= newest.time) {
+      this.extrapolate(renderTime, outPosition, outQuaternion);
+      return true;
+    }
+
+    for (let i = snapshots.length - 1; i > 0; i--) {
+      const from = snapshots[i - 1];
+      const to = snapshots[i];
+      if (renderTime < from.time) {
+        continue;
+      }
+
+      const span = Math.max(1, to.time - from.time);
+      const t = (renderTime - from.time) / span;
+      if (from.velocity && to.velocity) {
+        this.hermite(from, to, t, span / 1000, outPosition);
+      } else {
+        outPosition.copy(from.position).lerp(to.position, t);
+      }
+      outQuaternion.copy(from.quaternion).slerp(to.quaternion, t);
+      this.discardBefore(i - 1);
+      return true;
+    }
+
+    return true;
+  }
+
+  /**
+   * Writes the newest known velocity (units/s) into `out`: the server-reported one
+   * when present, otherwise the finite difference of the two newest snapshots.
+   * Returns false when there is not enough history.
+   */
+  public latestVelocity(out: THREE.Vector3): boolean {
+    const newest = this.snapshots[this.snapshots.length - 1];
+    if (!newest) {
+      return false;
+    }
+    if (newest.velocity) {
+      out.copy(newest.velocity);
+      return true;
+    }
+
+    const previous = this.snapshots[this.snapshots.length - 2];
+    const span = previous ? newest.time - previous.time : 0;
+    if (span <= 0) {
+      return false;
+    }
+    out.copy(newest.position).sub(previous.position).divideScalar(span / 1000);
+    return true;
+  }
+
+  private extrapolate(renderTime: number, outPosition: THREE.Vector3, outQuaternion: THREE.Quaternion): void {
+    const newest = this.snapshots[this.snapshots.length - 1];
+    outPosition.copy(newest.position);
+    outQuaternion.copy(newest.quaternion);
+
+    const ahead = Math.min(renderTime - newest.time, this.config.maxExtrapolationMs);
+    if (newest.velocity) {
+      outPosition.addScaledVector(newest.velocity, ahead / 1000);
+      return;
+    }
+
+    if (this.snapshots.length < 2) {
+      return;
+    }
+
+    const previous = this.snapshots[this.snapshots.length - 2];
+    const span = newest.time - previous.time;
+    if (span <= 0) {
+      return;
+    }
+
+    this._velocity.copy(newest.position).sub(previous.position).divideScalar(span);
+    outPosition.addScaledVector(this._velocity, ahead);
+  }
+
+  /** Cubic Hermite position between two snapshots; tangents are velocity * span (s). */
+  private hermite(from: Snapshot, to: Snapshot, t: number, spanSeconds: number, out: THREE.Vector3): void {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = t3 - 2 * t2 + t;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = t3 - t2;
+
+    out.copy(from.position).multiplyScalar(h00)
+      .addScaledVector(to.position, h01)
+      .addScaledVector(this._tangent.copy(from.velocity!).multiplyScalar(spanSeconds), h10)
+      .addScaledVector(this._tangent.copy(to.velocity!).multiplyScalar(spanSeconds), h11);
+  }
+
+  /** Snapshots older than the lower bracket can never be sampled again. */
+  private discardBefore(index: number): void {
+    if (index > 0) {
+      this.snapshots.splice(0, index);
+    }
+  }
+}
@@ -1,4 +1,8 @@
 import * as THREE from 'three';
+import { ConnectionStateChange } from '../../network/ConnectionStateMachine';
+import { MatchPhase, formatMatchClock } from '../match/MatchController';
+import { FlareStatus } from '../weapons/FlareSystem';
+import { MissileStatus } from '../weapons/MissileSystem';
 import { WeaponStatus } from '../weapons/WeaponSystem';
 
 const INPUT_TO_ELEMENT: Array<[string, string]> = [
@@ -12,6 +16,23 @@ const INPUT_TO_ELEMENT: Array<[string, string]> = [
   ['ArrowRight', 'right']
 ];
 
+const CONNECTION_LABELS: Record<ConnectionStateChange['to'], string> = {
+  idle: 'OFFLINE',
+  connecting: 'CONNECTING',
+  authenticating: 'AUTHENTICATING',
+  connected: 'ONLINE',
+  reconnecting: 'RECONNECTING',
+  failed: 'LINK FAILED'
+};
+
+const MATCH_PHASE_LABELS: Record<MatchPhase, string> = {
+  idle: 'TIME',
+  warmup: 'WARMUP',
+  countdown: 'WARMUP',
+  live: 'TIME',
+  ended: 'FINAL'
+};
+
 function requireElement<T extends HTMLElement>(id: string): T {
   const element = document.getElementById(id) as T | null;
   if (!element) {
@@ -40,6 +61,22 @@ export class GameHud {
   private readonly scoreKillsElement = document.getElementById('score-kills');
   private readonly scoreDeathsElement = document.getElementById('score-deaths');
   private readonly scoreValueElement = document.getElementById('score-value');
+  private readonly connectionDot = document.getElementById('connection-dot');
+  private readonly connectionStateElement = document.getElementById('connection-state');
+  private readonly matchPhaseElement = document.getElementById('match-phase');
+  private readonly matchClockElement = document.getElementById('match-clock');
+  private readonly matchBannerElement = document.getElementById('match-banner');
+  private readonly stallWarningElement = document.getElementById('stall-warning');
+  private readonly altitudeWarningElement = document.getElementById('altitude-warning');
+  private readonly missileCountElement = document.getElementById('missile-count');
+  private readonly flareCountElement = document.getElementById('flare-count');
+  private readonly weaponNameElement = document.getElementById('weapon-name');
+  private readonly weaponSlotElement = document.getElementById('weapon-slot');
+  private readonly heatStatusElement = document.getElementById('heat-status');
+  private readonly heatValueElement = document.getElementById('heat-value');
+  private readonly heatBarElement = document.getElementById('heat-bar');
+  private readonly lockBoxElement = document.getElementById('lock-box');
+  private readonly leadPipElement = document.getElementById('lead-pip');
   private readonly inputElements: Record<string, HTMLElement> = {};
 
   private eventsSent = 0;
@@ -50,6 +87,10 @@ export class GameHud {
   private lastPositionText = '';
   private lastActiveKeys: Set<string> | null = null;
   private lastWeaponState = '';
+  private lastMissileState = '';
+  private lastFlareState = '';
+  private lastMatchClock = '';
+  private lastMatchBanner = '';
 
   constructor() {
     INPUT_TO_ELEMENT.forEach(([, elementId]) => {
@@ -88,6 +129,73 @@ export class GameHud {
     this.playerIdElement.textContent = disconnected ? '연결 끊김' : '...';
   }
 
+  public setConnectionState(change: ConnectionStateChange): void {
+    if (this.connectionStateElement) {
+      const label = CONNECTION_LABELS[change.to];
+      this.connectionStateElement.textContent = change.to === 'reconnecting' ? `${label} ${change.attempt}` : label;
+      this.connectionStateElement.title = change.reason ?? '';
+    }
+
+    if (this.connectionDot) {
+      const pending = change.to === 'connecting' || change.to === 'authenticating' || change.to === 'reconnecting';
+      this.connectionDot.classList.toggle('caution', pending);
+      this.connectionDot.classList.toggle('danger', change.to === 'idle' || change.to === 'failed');
+    }
+  }
+
+  /** 매 프레임 호출 - 표시 문자열이 바뀔 때만 DOM을 건드린다 */
+  public updateMatchClock(phase: MatchPhase, remainingMs: number): void {
+    const text = phase === 'idle' ? '--:--' : formatMatchClock(remainingMs);
+    const key = `${phase}|${text}`;
+    if (key === this.lastMatchClock) {
+      return;
+    }
+    this.lastMatchClock = key;
+
+    if (this.matchPhaseElement) {
+      this.matchPhaseElement.textContent = MATCH_PHASE_LABELS[phase];
+    }
+    if (this.matchClockElement) {
+      this.matchClockElement.textContent = text;
+      // 라운드 마지막 30초는 경고색
+      this.matchClockElement.classList.toggle('caution', phase === 'live' && remainingMs <= 30000);
+    }
+  }
+
+  /** 화면 중앙 매치 안내 (워밍업/카운트다운/교전 시작). null이면 숨긴다. */
+  public setMatchBanner(title: string | null, subtitle = '', alert = false): void {
+    const key = title === null ? '' : `${title}|${subtitle}|${alert}`;
+    if (!this.matchBannerElement || key === this.lastMatchBanner) {
+      return;
+    }
+    this.lastMatchBanner = key;
+
+    if (title === null) {
+      this.matchBannerElement.classList.remove('visible', 'alert');
+      this.matchBannerElement.textContent = '';
+      return;
+    }
+
+    this.matchBannerElement.textContent = title;
+    if (subtitle) {
+      const sub = document.createElement('span');
+      sub.className = 'sub';
+      sub.textContent = subtitle;
+      this.matchBannerElement.appendChild(sub);
+    }
+    this.matchBannerElement.classList.add('visible');
+    this.matchBannerElement.classList.toggle('alert', alert);
+  }
+
+  /** 실속 경고 (크로스헤어 아래) */
+  public setStallWarning(stalled: boolean): void {
+    this.stallWarningElement?.classList.toggle('visible', stalled);
+  }
+
+  public setAltitudeWarning(low: boolean): void {
+    this.altitudeWarningElement?.classList.toggle('visible', low);
+  }
+
   public recordMovementEventSent(): void {
     this.eventsSent++;
     this.eventsSentElement.textContent = this.eventsSent.toString();
@@ -132,16 +240,26 @@ export class GameHud {
   }
 
   public updateWeapon(status: WeaponStatus): void {
-    const stateKey = `${status.ammo}|${status.isReloading}|${status.isReady}|${status.shotsFired}|${Math.round(status.cooldownRemaining / 100)}|${Math.round(status.reloadTimeRemaining / 100)}`;
+    const stateKey = `${status.weaponId}|${status.ammo}|${status.isReloading}|${status.isReady}|${status.shotsFired}|${Math.round(status.cooldownRemaining / 100)}|${Math.round(status.reloadTimeRemaining / 100)}|${status.overheated}|${Math.round(status.heat * 50)}`;
     if (stateKey === this.lastWeaponState) {
       return;
     }
     this.lastWeaponState = stateKey;
 
-    if (status.isReloading) {
+    if (this.weaponNameElement) {
+      this.weaponNameElement.textContent = status.weaponName;
+    }
+    if (this.weaponSlotElement) {
+      this.weaponSlotElement.textContent = `${status.weaponIndex + 1}/${status.weaponCount}`;
+    }
+
+    if (status.overheated) {
+      this.weaponStatus.textContent = 'Overheated';
+      this.weaponStatus.style.color = '#F44336';
+    } else if (status.isReloading) {
       this.weaponStatus.textContent = 'Reloading';
       this.weaponStatus.style.color = '#FFC107';
-    } else if (status.ammo === 0) {
+    } else if (status.feed === 'magazine' && status.ammo === 0) {
       this.weaponStatus.textContent = 'Empty - Press R';
       this.weaponStatus.style.color = '#F44336';
     } else if (!status.isReady) {
@@ -152,8 +270,11 @@ export class GameHud {
       this.weaponStatus.style.color = '#4CAF50';
     }
 
-    this.ammoCount.textContent = `${status.ammo}/${status.maxAmmo}`;
-    if (status.ammo === 0) {
+    // 벨트 급탄 무장은 탄약 제한이 없다 - 대신 아래 열 게이지
+    this.ammoCount.textContent = status.feed === 'heat' ? 'BELT' : `${status.ammo}/${status.maxAmmo}`;
+    if (status.feed === 'heat') {
+      this.ammoCount.style.color = status.overheated ? '#F44336' : '#4CAF50';
+    } else if (status.ammo === 0) {
       this.ammoCount.style.color = '#F44336';
     } else if (status.ammo <= 10) {
       this.ammoCount.style.color = '#FFC107';
@@ -173,9 +294,87 @@ export class GameHud {
       this.reloadStatus.style.display = 'none';
     }
 
+    this.updateHeat(status);
     this.shotsFiredElement.textContent = status.shotsFired.toString();
   }
 
+  /** 기관총 열 게이지 - 과열되면 빨갛게, 식어서 풀릴 때까지 유지 */
+  private updateHeat(status: WeaponStatus): void {
+    if (!this.heatStatusElement) {
+      return;
+    }
+
+    this.heatStatusElement.style.display = status.feed === 'heat' ? 'block' : 'none';
+    this.heatStatusElement.classList.toggle('overheated', status.overheated);
+    if (this.heatValueElement) {
+      this.heatValueElement.textContent = status.overheated ? 'OVERHEAT' : `${Math.round(status.heat * 100)}%`;
+    }
+    if (this.heatBarElement) {
+      this.heatBarElement.style.width = `${status.heat * 100}%`;
+    }
+  }
+
+  /** 미사일 잔량 (MSL 3/4) - 쿨다운 중에는 흐리게 */
+  public updateMissiles(status: MissileStatus): void {
+    const stateKey = `${status.missiles}|${status.cooldownRemaining > 0}`;
+    if (!this.missileCountElement || stateKey === this.lastMissileState) {
+      return;
+    }
+    this.lastMissileState = stateKey;
+
+    this.missileCountElement.textContent = `${status.missiles}/${status.maxMissiles}`;
+    this.missileCountElement.classList.toggle('empty', status.missiles === 0);
+    this.missileCountElement.classList.toggle('cooling', status.cooldownRemaining > 0);
+  }
+
+  /** 플레어 잔량 (탄약 옆) */
+  public updateFlares(status: FlareStatus): void {
+    const stateKey = `${status.flares}|${status.cooldownRemaining > 0}`;
+    if (!this.flareCountElement || stateKey === this.lastFlareState) {
+      return;
+    }
+    this.lastFlareState = stateKey;
+
+    this.flareCountElement.textContent = `${status.flares}/${status.maxFlares}`;
+    this.flareCountElement.classList.toggle('empty', status.flares === 0);
+    this.flareCountElement.classList.toggle('cooling', status.cooldownRemaining > 0);
+  }
+
+  /**
+   * 락온 박스 - 추적 중인 기체의 화면 위치(px)에 그린다. 진행도에 따라 크게 시작해 조여 들고,
+   * 락온이 확정되면 붉게 바뀌며 LOCK 표시. null이면 숨긴다.
+   */
+  public updateLockBox(lock: { x: number; y: number; progress: number; locked: boolean } | null): void {
+    const element = this.lockBoxElement;
+    if (!element) {
+      return;
+    }
+
+    element.classList.toggle('visible', lock !== null);
+    if (!lock) {
+      return;
+    }
+
+    const size = 96 - 56 * lock.progress;
+    element.style.width = `${size}px`;
+    element.style.height = `${size}px`;
+    element.style.transform = `translate(${lock.x - size / 2}px, ${lock.y - size / 2}px)`;
+    element.classList.toggle('locked', lock.locked);
+  }
+
+  /** 탄도 기관포 리드 핍 - 크로스헤어를 여기에 겹치면 추적 중인 기체에 맞는다 (px). null이면 숨긴다. */
+  public updateLeadPip(pip: { x: number; y: number } | null): void {
+    const element = this.leadPipElement;
+    if (!element) {
+      return;
+    }
+
+    element.classList.toggle('visible', pip !== null);
+    if (pip) {
+      element.style.transform = `translate(${pip.x}px, ${pip.y}px)`;
+    }
+  }
+
   public ensureCrosshair(): void {
     const element = this.crosshairElement ?? document.getElementById('crosshair');
     if (element) {
@@ -1,3 +1,12 @@
+import {
+  OVERLAY_COLORS,
+  createOverlayButton,
+  createOverlayContainer,
+  createOverlayDivider,
+  hideOverlay,
+  showOverlay
+} from './OverlayTheme';
+
 /**
  * Game-over / elimination overlay.
  * Visual design: "Modern Military HUD" game-over screen generated with Google Stitch
@@ -15,16 +24,7 @@ export interface GameOverOverlayOptions {
   onMainMenu: () => void;
 }
 
-const C = {
-  primary: '#3399FF',
-  bright: '#66CCFF',
-  danger: '#F44336',
-  text: '#E6F1FF',
-  secondary: '#8FA9C8',
-  muted: '#5A7290',
-  fontHead: "'Space Grotesk', 'Noto Sans KR', sans-serif",
-  fontMono: "'Space Mono', 'Noto Sans KR', monospace"
-};
+const C = OVERLAY_COLORS;
 
 export class GameOverOverlay {
   private readonly container: HTMLDivElement;
@@ -36,31 +36,7 @@ export class GameOverOverlay {
   private readonly abortController = new AbortController();
 
   constructor(private readonly options: GameOverOverlayOptions) {
-    this.container = document.createElement('div');
-    this.container.style.cssText = `
-      position:fixed;inset:0;z-index:1100;display:none;overflow:hidden;
-      background:#070B12;color:${C.text};font-family:${C.fontHead};
-      opacity:0;transition:opacity .35s ease;
-    `;
-
-    // backdrop: vignette + animated scanline + tactical grid
-    const bg = document.createElement('div');
-    bg.style.cssText = 'position:absolute;inset:0;z-index:0;';
-    bg.innerHTML = `
-      <div style="position:absolute;inset:0;background:radial-gradient(circle, transparent 20%, rgba(7,11,18,.9) 100%);"></div>
-      <div style="position:absolute;inset:0;opacity:.1;background-image:linear-gradient(rgba(51,153,255,.2) 1px,transparent 1px),linear-gradient(90deg,rgba(51,153,255,.2) 1px,transparent 1px);background-size:50px 50px;"></div>
-      <div style="position:absolute;top:0;left:0;width:100%;height:100%;background:linear-gradient(to bottom,transparent,rgba(51,153,255,.05) 50%,transparent);animation:scanMove 8s linear infinite;pointer-events:none;"></div>`;
-    this.container.appendChild(bg);
-
-    // top bar
-    const header = document.createElement('header');
-    header.style.cssText = `position:absolute;top:0;left:0;width:100%;z-index:30;height:60px;display:flex;align-items:center;justify-content:space-between;padding:0 32px;background:rgba(7,11,18,.8);backdrop-filter:blur(8px);border-bottom:1px solid rgba(51,153,255,.3);`;
-    header.innerHTML = `
-      <div style="font-weight:900;font-style:italic;letter-spacing:-.02em;color:${C.primary};text-shadow:0 0 12px rgba(51,153,255,.45);">DOGFIGHT</div>
-      <div style="font-family:${C.fontHead};font-size:13px;letter-spacing:.2em;color:${C.primary};text-transform:uppercase;">SERVER ONLINE // 24MS</div>`;
-    this.container.appendChild(header);
-
-    this.addCornerBrackets();
+    this.container = createOverlayContainer();
 
     // main content
     const main = document.createElement('main');
@@ -86,12 +62,7 @@ export class GameOverOverlay {
     main.appendChild(killCredit);
 
     // stats line
-    const divider = () => {
-      const d = document.createElement('div');
-      d.style.cssText = 'width:100%;max-width:560px;height:1px;background:linear-gradient(to right,transparent,rgba(51,153,255,.3),transparent);margin:0 auto;';
-      return d;
-    };
-    main.appendChild(divider());
+    main.appendChild(createOverlayDivider());
 
     const stats = document.createElement('div');
     stats.style.cssText = 'display:flex;flex-wrap:wrap;justify-content:center;gap:18px;margin:28px 0;';
@@ -117,27 +88,15 @@ export class GameOverOverlay {
     this.kdEl = tile('K / D', C.bright);
     this.scoreEl = tile('Score', C.primary, true);
     main.appendChild(stats);
-    main.appendChild(divider());
+    main.appendChild(createOverlayDivider());
 
     // buttons
     const buttons = document.createElement('div');
     buttons.style.cssText = 'display:flex;gap:24px;width:100%;max-width:460px;margin-top:56px;';
 
-    const respawnBtn = document.createElement('button');
-    respawnBtn.type = 'button';
-    respawnBtn.textContent = '재시작';
-    respawnBtn.style.cssText = `flex:1;padding:16px;background:${C.primary};color:#070B12;border:none;font-family:${C.fontHead};font-weight:700;font-size:16px;letter-spacing:.18em;text-transform:uppercase;cursor:pointer;box-shadow:0 0 12px rgba(51,153,255,.45);transition:all .2s;`;
-    respawnBtn.addEventListener('mouseenter', () => (respawnBtn.style.background = C.bright), { signal: this.abortController.signal });
-    respawnBtn.addEventListener('mouseleave', () => (respawnBtn.style.background = C.primary), { signal: this.abortController.signal });
-    respawnBtn.addEventListener('click', () => { this.hide(); this.options.onRespawn(); }, { signal: this.abortController.signal });
-
-    const menuBtn = document.createElement('button');
-    menuBtn.type = 'button';
-    menuBtn.textContent = '메인 메뉴';
-    menuBtn.style.cssText = `flex:1;padding:16px;background:transparent;color:${C.primary};border:1px solid rgba(51,153,255,.5);font-family:${C.fontHead};font-weight:700;font-size:16px;letter-spacing:.18em;text-transform:uppercase;cursor:pointer;transition:all .2s;`;
-    menuBtn.addEventListener('mouseenter', () => { menuBtn.style.background = 'rgba(51,153,255,.1)'; menuBtn.style.borderColor = C.primary; }, { signal: this.abortController.signal });
-    menuBtn.addEventListener('mouseleave', () => { menuBtn.style.background = 'transparent'; menuBtn.style.borderColor = 'rgba(51,153,255,.5)'; }, { signal: this.abortController.signal });
-    menuBtn.addEventListener('click', () => { this.hide(); this.options.onMainMenu(); }, { signal: this.abortController.signal });
+    const signal = this.abortController.signal;
+    const respawnBtn = createOverlayButton('재시작', 'primary', signal, () => { this.hide(); this.options.onRespawn(); });
+    const menuBtn = createOverlayButton('메인 메뉴', 'secondary', signal, () => { this.hide(); this.options.onMainMenu(); });
 
     buttons.appendChild(respawnBtn);
     buttons.appendChild(menuBtn);
@@ -164,41 +123,26 @@ export class GameOverOverlay {
     document.body.appendChild(this.container);
   }
 
-  private addCornerBrackets(): void {
-    const specs: Array<[string, string]> = [
-      ['top:40px;left:40px', 'border-right:none;border-bottom:none'],
-      ['top:40px;right:40px', 'border-left:none;border-bottom:none'],
-      ['bottom:40px;left:40px', 'border-right:none;border-top:none'],
-      ['bottom:40px;right:40px', 'border-left:none;border-top:none']
-    ];
-    specs.forEach(([pos, off]) => {
-      const b = document.createElement('div');
-      b.style.cssText = `position:absolute;width:40px;height:40px;border:2px solid rgba(51,153,255,.3);z-index:25;${pos};${off};`;
-      this.container.appendChild(b);
-    });
+  public show(stats: GameOverStats = {}): void {
+    this.killedByEl.textContent = stats.killedBy ?? 'UNKNOWN';
+    this.updateStats(stats);
+
+    showOverlay(this.container);
   }
 
-  public show(stats: GameOverStats = {}): void {
+  /** 표시 중에 서버 통계가 도착하면 숫자만 갱신한다 */
+  public updateStats(stats: Omit<GameOverStats, 'killedBy'>): void {
     const kills = stats.kills ?? 0;
     const deaths = stats.deaths ?? 0;
 
-    this.killedByEl.textContent = stats.killedBy ?? 'UNKNOWN';
     this.killsEl.textContent = String(kills).padStart(2, '0');
     this.deathsEl.textContent = String(deaths).padStart(2, '0');
     this.kdEl.textContent = (kills / Math.max(1, deaths)).toFixed(2);
     this.scoreEl.textContent = String(stats.score ?? 0);
-
-    this.container.style.display = 'block';
-    // force reflow so the opacity transition runs
-    void this.container.offsetWidth;
-    this.container.style.opacity = '1';
   }
 
   public hide(): void {
-    this.container.style.opacity = '0';
-    setTimeout(() => {
-      this.container.style.display = 'none';
-    }, 350);
+    hideOverlay(this.container);
   }
 
   public dispose(): void {
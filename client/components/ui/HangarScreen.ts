@@ -0,0 +1,290 @@
+import * as THREE from 'three';
+import { AIRCRAFT_DEFINITIONS, AircraftDefinition, getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import {
+  DEFAULT_LOADOUT,
+  LIVERIES,
+  Loadout,
+  createAircraft,
+  disposeAircraft,
+  sameLoadout
+} from '../assets/Loadout';
+import { ModelCache } from '../assets/ModelCache';
+import { getWeaponDefinition } from '../weapons/WeaponDefinitions';
+import {
+  OVERLAY_COLORS,
+  createOverlayButton,
+  createOverlayContainer,
+  createOverlayDivider,
+  hideOverlay,
+  showOverlay
+} from './OverlayTheme';
+
+/**
+ * Hangar screen opened from the main menu's 격납고 link.
+ * Shows a turntable preview of the selected airframe/livery; the scene stores
+ * the loadout on save and sends it with the next connection.
+ */
+export interface HangarScreenOptions {
+  modelCache: ModelCache;
+  onSave: (loadout: Loadout) => void;
+  onClose?: () => void;
+}
+
+const C = OVERLAY_COLORS;
+const TURNTABLE_SPEED = 0.5; // rad/s
+
+function formatStats(definition: AircraftDefinition): string {
+  const { maxSpeed, turnRate, health, weapons } = definition;
+  const guns = weapons.map((id) => {
+    const weapon = getWeaponDefinition(id);
+    const rpm = Math.round(60000 / weapon.cooldownMs);
+    const feed = weapon.feed.kind === 'magazine' ? `${weapon.feed.magazine} RDS` : 'BELT';
+    return `${weapon.name} ${weapon.damage} DMG × ${rpm} RPM · ${feed}`;
+  });
+  return `SPD ${maxSpeed} · TURN ${turnRate.toFixed(1)} RAD/S · HP ${health} · GUN ${guns.join(' / ')}`;
+}
+
+function toCssColor(hex: number | null): string {
+  return hex === null ? 'linear-gradient(135deg,#8FA9C8 50%,#5A7290 50%)' : `#${hex.toString(16).padStart(6, '0')}`;
+}
+
+export class HangarScreen {
+  private readonly container: HTMLDivElement;
+  private readonly canvas: HTMLCanvasElement;
+  private readonly nameEl: HTMLElement;
+  private readonly descriptionEl: HTMLElement;
+  private readonly statsEl: HTMLElement;
+  private readonly airframeButtons = new Map<string, HTMLButtonElement>();
+  private readonly liveryButtons = new Map<string, HTMLButtonElement>();
+  private readonly abortController = new AbortController();
+  private readonly scene = new THREE.Scene();
+  private readonly camera = new THREE.PerspectiveCamera(35, 1, 0.1, 100);
+  private readonly turntable = new THREE.Group();
+  private renderer: THREE.WebGLRenderer | null = null;
+  private preview: THREE.Group | null = null;
+  private previewVersion = 0;
+  private animationFrame: number | null = null;
+  private lastFrameTime = 0;
+  private selection: Loadout = { ...DEFAULT_LOADOUT };
+  private visible = false;
+
+  constructor(private readonly options: HangarScreenOptions) {
+    this.container = createOverlayContainer();
+
+    const main = document.createElement('main');
+    main.style.cssText = 'position:relative;z-index:10;height:100%;display:flex;flex-direction:column;align-items:center;justify-content:center;text-align:center;padding:0 24px;';
+
+    const eyebrow = document.createElement('div');
+    eyebrow.textContent = '● HANGAR // AIRFRAME & LIVERY';
+    eyebrow.style.cssText = `margin-bottom:16px;font-family:${C.fontMono};font-size:12px;letter-spacing:.2em;color:${C.bright};`;
+    main.appendChild(eyebrow);
+
+    const title = document.createElement('h1');
+    title.textContent = '격납고';
+    title.style.cssText = `margin:0 0 20px;font-family:${C.fontHead};font-weight:900;font-size:clamp(40px,6vw,72px);line-height:.9;letter-spacing:-.03em;color:${C.primary};text-transform:uppercase;text-shadow:0 0 20px rgba(51,153,255,.6);`;
+    main.appendChild(title);
+
+    main.appendChild(createOverlayDivider());
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = 640;
+    this.canvas.height = 300;
+    this.canvas.style.cssText = 'width:100%;max-width:640px;aspect-ratio:640/300;margin:16px 0 8px;';
+    main.appendChild(this.canvas);
+
+    this.nameEl = document.createElement('div');
+    this.nameEl.style.cssText = `font-family:${C.fontHead};font-weight:700;font-size:20px;letter-spacing:.18em;color:${C.text};`;
+    main.appendChild(this.nameEl);
+
+    this.descriptionEl = document.createElement('div');
+    this.descriptionEl.style.cssText = `min-height:18px;margin:6px 0 4px;font-family:${C.fontMono};font-size:11px;letter-spacing:.2em;text-transform:uppercase;color:${C.muted};`;
+    main.appendChild(this.descriptionEl);
+
+    this.statsEl = document.createElement('div');
+    this.statsEl.style.cssText = `min-height:18px;margin:0 0 20px;font-family:${C.fontMono};font-size:11px;letter-spacing:.12em;color:${C.secondary};`;
+    main.appendChild(this.statsEl);
+
+    main.appendChild(this.createPickerLabel('AIRFRAME'));
+    const airframeRow = this.createPickerRow();
+    AIRCRAFT_DEFINITIONS.forEach((airframe) => {
+      const button = this.createPickerButton(airframe.name, () => this.select({ ...this.selection, airframe: airframe.id }));
+      this.airframeButtons.set(airframe.id, button);
+      airframeRow.appendChild(button);
+    });
+    main.appendChild(airframeRow);
+
+    main.appendChild(this.createPickerLabel('LIVERY'));
+    const liveryRow = this.createPickerRow();
+    LIVERIES.forEach((livery) => {
+      const button = this.createPickerButton(livery.name, () => this.select({ ...this.selection, livery: livery.id }));
+      const swatch = document.createElement('span');
+      swatch.style.cssText = `display:inline-block;width:10px;height:10px;margin-right:8px;vertical-align:middle;background:${toCssColor(livery.body)};border:1px solid rgba(230,241,255,.4);`;
+      button.prepend(swatch);
+      this.liveryButtons.set(livery.id, button);
+      liveryRow.appendChild(button);
+    });
+    main.appendChild(liveryRow);
+
+    main.appendChild(createOverlayDivider());
+
+    const buttons = document.createElement('div');
+    buttons.style.cssText = 'display:flex;gap:24px;width:100%;max-width:560px;margin-top:24px;';
+    buttons.appendChild(createOverlayButton('저장', 'primary', this.abortController.signal, () => {
+      this.options.onSave({ ...this.selection });
+      this.close();
+    }));
+    buttons.appendChild(createOverlayButton('취소', 'secondary', this.abortController.signal, () => this.close()));
+    main.appendChild(buttons);
+    this.container.appendChild(main);
+
+    document.addEventListener('keydown', (event) => {
+      if (this.visible && event.code === 'Escape') {
+        this.close();
+      }
+    }, { signal: this.abortController.signal });
+
+    this.camera.position.set(4.5, 2, 6);
+    this.camera.lookAt(0, 0, 0);
+    this.scene.add(this.turntable);
+    this.scene.add(new THREE.HemisphereLight(0xcfe6ff, 0x1a2230, 1.6));
+    const key = new THREE.DirectionalLight(0xffffff, 2.2);
+    key.position.set(5, 8, 6);
+    this.scene.add(key);
+
+    document.body.appendChild(this.container);
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  /** Opens the hangar with the currently stored loadout selected. */
+  public show(loadout: Loadout): void {
+    this.visible = true;
+    this.selection = { ...loadout };
+    this.renderer ??= new THREE.WebGLRenderer({ canvas: this.canvas, antialias: true, alpha: true });
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    this.updateSelection();
+    void this.loadPreview();
+
+    showOverlay(this.container);
+    this.lastFrameTime = performance.now();
+    this.animationFrame ??= requestAnimationFrame((now) => this.animate(now));
+  }
+
+  public hide(): void {
+    this.visible = false;
+    hideOverlay(this.container);
+    this.stopAnimation();
+  }
+
+  public dispose(): void {
+    this.abortController.abort();
+    this.stopAnimation();
+    this.previewVersion++;
+    this.setPreview(null);
+    this.renderer?.dispose();
+    this.renderer = null;
+    if (this.container.parentNode) this.container.parentNode.removeChild(this.container);
+  }
+
+  private close(): void {
+    this.hide();
+    this.options.onClose?.();
+  }
+
+  private select(loadout: Loadout): void {
+    if (sameLoadout(loadout, this.selection)) {
+      return;
+    }
+
+    this.selection = loadout;
+    this.updateSelection();
+    void this.loadPreview();
+  }
+
+  /** 모델 로드 중 선택이 또 바뀌면 늦게 끝난 쪽은 버린다 */
+  private async loadPreview(): Promise<void> {
+    const version = ++this.previewVersion;
+    const aircraft = await createAircraft(this.options.modelCache, this.selection);
+    if (version !== this.previewVersion) {
+      disposeAircraft(aircraft);
+      return;
+    }
+
+    this.setPreview(aircraft);
+  }
+
+  private setPreview(aircraft: THREE.Group | null): void {
+    if (this.preview) {
+      this.turntable.remove(this.preview);
+      disposeAircraft(this.preview);
+    }
+
+    this.preview = aircraft;
+    if (aircraft) {
+      this.turntable.add(aircraft);
+    }
+  }
+
+  private animate(now: number): void {
+    const deltaTime = Math.min(0.1, (now - this.lastFrameTime) / 1000);
+    this.lastFrameTime = now;
+    this.turntable.rotation.y += TURNTABLE_SPEED * deltaTime;
+
+    if (this.renderer) {
+      const width = this.canvas.clientWidth || this.canvas.width;
+      const height = this.canvas.clientHeight || this.canvas.height;
+      this.renderer.setSize(width, height, false);
+      this.camera.aspect = width / height;
+      this.camera.updateProjectionMatrix();
+      this.renderer.render(this.scene, this.camera);
+    }
+
+    this.animationFrame = requestAnimationFrame((next) => this.animate(next));
+  }
+
+  private stopAnimation(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  private updateSelection(): void {
+    const airframe = getAircraftDefinition(this.selection.airframe);
+    const livery = LIVERIES.find((option) => option.id === this.selection.livery) ?? LIVERIES[0];
+    this.nameEl.textContent = `${airframe.name} · ${livery.name}`;
+    this.descriptionEl.textContent = airframe.role;
+    this.statsEl.textContent = formatStats(airframe);
+
+    this.airframeButtons.forEach((button, id) => this.setSelected(button, id === airframe.id));
+    this.liveryButtons.forEach((button, id) => this.setSelected(button, id === livery.id));
+  }
+
+  private createPickerLabel(text: string): HTMLDivElement {
+    const label = document.createElement('div');
+    label.textContent = text;
+    label.style.cssText = `margin-bottom:8px;font-family:${C.fontMono};font-size:10px;letter-spacing:.2em;color:${C.muted};`;
+    return label;
+  }
+
+  private createPickerRow(): HTMLDivElement {
+    const row = document.createElement('div');
+    row.style.cssText = 'display:flex;flex-wrap:wrap;justify-content:center;gap:8px;max-width:640px;margin-bottom:20px;';
+    return row;
+  }
+
+  private createPickerButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = createOverlayButton(label, 'secondary', this.abortController.signal, onClick);
+    button.style.cssText += 'flex:none;padding:8px 16px;font-size:12px;';
+    return button;
+  }
+
+  /** hover 스타일이 background/border를 되돌리므로 선택 표시는 글자색과 inset 그림자로 한다 */
+  private setSelected(button: HTMLButtonElement, selected: boolean): void {
+    button.style.color = selected ? C.text : C.primary;
+    button.style.boxShadow = selected ? `inset 0 0 0 2px ${C.primary}, 0 0 12px rgba(51,153,255,.45)` : 'none';
+  }
+}
@@ -5,6 +5,8 @@
  */
 export interface MainMenuOptions {
   onStart: () => void;
+  onRankings: () => void;
+  onHangar: () => void;
 }
 
 const C = {
@@ -113,14 +115,17 @@ export class MainMenu {
     nav.innerHTML = `
       <a data-action="start" style="cursor:pointer;">빠른 매치</a>
       <span style="width:4px;height:4px;border-radius:50%;background:${C.muted};"></span>
-      <a data-action="soon" style="cursor:pointer;">랭킹</a>
+      <a data-action="rankings" style="cursor:pointer;">랭킹</a>
       <span style="width:4px;height:4px;border-radius:50%;background:${C.muted};"></span>
-      <a data-action="soon" style="cursor:pointer;">격납고</a>`;
+      <a data-action="hangar" style="cursor:pointer;">격납고</a>`;
     nav.querySelectorAll('a').forEach((a) => {
       a.addEventListener('mouseenter', () => (a.style.color = C.bright), { signal: this.abortController.signal });
       a.addEventListener('mouseleave', () => (a.style.color = C.secondary), { signal: this.abortController.signal });
       a.addEventListener('click', () => {
-        if (a.getAttribute('data-action') === 'start') this.start();
+        const action = a.getAttribute('data-action');
+        if (action === 'start') this.start();
+        else if (action === 'rankings') this.options.onRankings();
+        else if (action === 'hangar') this.options.onHangar();
       }, { signal: this.abortController.signal });
     });
     actions.appendChild(nav);
@@ -0,0 +1,146 @@
+import { MatchResult } from '../match/MatchController';
+import {
+  OVERLAY_COLORS,
+  createOverlayButton,
+  createOverlayContainer,
+  createOverlayDivider,
+  hideOverlay,
+  showOverlay
+} from './OverlayTheme';
+
+/**
+ * End-of-match results screen: final standings from the server's match-ended
+ * payload, then an automatic return to the lobby. Shares the game-over styling.
+ */
+export interface MatchResultsOverlayOptions {
+  onReturnToLobby: () => void;
+}
+
+const C = OVERLAY_COLORS;
+
+const REASON_LABELS: Record<MatchResult['reason'], string> = {
+  'time-limit': 'TIME LIMIT REACHED',
+  empty: 'ALL PILOTS DISENGAGED',
+  shutdown: 'SERVER SHUTDOWN'
+};
+
+export class MatchResultsOverlay {
+  private readonly container: HTMLDivElement;
+  private readonly statusEl: HTMLElement;
+  private readonly winnerEl: HTMLElement;
+  private readonly tableBody: HTMLTableSectionElement;
+  private readonly returnEl: HTMLElement;
+  private readonly abortController = new AbortController();
+  private countdownInterval: number | null = null;
+
+  constructor(private readonly options: MatchResultsOverlayOptions) {
+    this.container = createOverlayContainer();
+
+    const main = document.createElement('main');
+    main.style.cssText = 'position:relative;z-index:10;height:100%;display:flex;flex-direction:column;align-items:center;justify-content:center;text-align:center;padding:0 24px;';
+
+    this.statusEl = document.createElement('div');
+    this.statusEl.style.cssText = `margin-bottom:16px;font-family:${C.fontMono};font-size:12px;letter-spacing:.2em;color:${C.bright};`;
+    main.appendChild(this.statusEl);
+
+    const title = document.createElement('h1');
+    title.textContent = '매치 종료';
+    title.style.cssText = `margin:0 0 8px;font-family:${C.fontHead};font-weight:900;font-size:clamp(48px,8vw,104px);line-height:.9;letter-spacing:-.03em;color:${C.primary};text-transform:uppercase;text-shadow:0 0 20px rgba(51,153,255,.6);`;
+    main.appendChild(title);
+
+    const winner = document.createElement('div');
+    winner.style.cssText = 'display:flex;align-items:center;gap:12px;margin-bottom:32px;';
+    winner.innerHTML = `<span style="color:${C.secondary};font-family:${C.fontMono};font-size:13px;letter-spacing:.2em;text-transform:uppercase;">Top Pilot</span>`;
+    this.winnerEl = document.createElement('span');
+    this.winnerEl.style.cssText = `color:${C.primary};font-family:${C.fontMono};font-weight:700;font-size:20px;background:rgba(51,153,255,.1);padding:4px 12px;border:1px solid rgba(51,153,255,.2);`;
+    winner.appendChild(this.winnerEl);
+    main.appendChild(winner);
+
+    main.appendChild(createOverlayDivider());
+
+    const table = document.createElement('table');
+    table.style.cssText = `width:100%;max-width:560px;margin:24px 0;border-collapse:collapse;font-family:${C.fontMono};font-size:14px;`;
+    const head = document.createElement('thead');
+    head.innerHTML = `
+      <tr style="color:${C.muted};font-size:10px;letter-spacing:.2em;text-transform:uppercase;">
+        <th style="padding:8px;text-align:left;">#</th>
+        <th style="padding:8px;text-align:left;">Pilot</th>
+        <th style="padding:8px;text-align:right;">Kills</th>
+        <th style="padding:8px;text-align:right;">Deaths</th>
+        <th style="padding:8px;text-align:right;">Score</th>
+      </tr>`;
+    table.appendChild(head);
+    this.tableBody = document.createElement('tbody');
+    table.appendChild(this.tableBody);
+    main.appendChild(table);
+
+    main.appendChild(createOverlayDivider());
+
+    this.returnEl = document.createElement('div');
+    this.returnEl.style.cssText = `margin-top:28px;font-family:${C.fontMono};font-size:11px;letter-spacing:.2em;text-transform:uppercase;color:${C.muted};`;
+    main.appendChild(this.returnEl);
+
+    const buttons = document.createElement('div');
+    buttons.style.cssText = 'display:flex;gap:24px;width:100%;max-width:300px;margin-top:24px;';
+    buttons.appendChild(createOverlayButton('로비로', 'primary', this.abortController.signal, () => {
+      this.hide();
+      this.options.onReturnToLobby();
+    }));
+    main.appendChild(buttons);
+    this.container.appendChild(main);
+
+    document.body.appendChild(this.container);
+  }
+
+  public show(result: MatchResult, localPlayerId: number | null, returnInMs: number): void {
+    this.statusEl.textContent = `● MATCH_${result.matchId} // ${REASON_LABELS[result.reason]}`;
+    this.winnerEl.textContent = result.standings[0]?.username ?? 'NONE';
+
+    this.tableBody.replaceChildren(...result.standings.map((standing, index) => {
+      const row = document.createElement('tr');
+      const isLocal = standing.playerId === localPlayerId;
+      row.style.cssText = `border-top:1px solid rgba(51,153,255,.12);color:${isLocal ? C.bright : C.text};${isLocal ? 'background:rgba(51,153,255,.08);' : ''}`;
+
+      const cells = [String(index + 1), standing.username, String(standing.kills), String(standing.deaths), String(standing.score)];
+      cells.forEach((value, column) => {
+        const cell = document.createElement('td');
+        cell.textContent = value;
+        cell.style.cssText = `padding:10px 8px;text-align:${column < 2 ? 'left' : 'right'};${column === 4 ? `color:${C.primary};font-weight:700;` : ''}`;
+        row.appendChild(cell);
+      });
+      return row;
+    }));
+
+    this.startCountdown(returnInMs);
+    showOverlay(this.container);
+  }
+
+  public hide(): void {
+    this.stopCountdown();
+    hideOverlay(this.container);
+  }
+
+  public dispose(): void {
+    this.stopCountdown();
+    this.abortController.abort();
+    if (this.container.parentNode) this.container.parentNode.removeChild(this.container);
+  }
+
+  private startCountdown(returnInMs: number): void {
+    this.stopCountdown();
+    const returnAt = performance.now() + returnInMs;
+    const render = () => {
+      const seconds = Math.max(0, Math.ceil((returnAt - performance.now()) / 1000));
+      this.returnEl.textContent = `RETURNING TO LOBBY IN ${seconds}S`;
+    };
+    render();
+    this.countdownInterval = window.setInterval(render, 250);
+  }
+
+  private stopCountdown(): void {
+    if (this.countdownInterval !== null) {
+      window.clearInterval(this.countdownInterval);
+      this.countdownInterval = null;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Full-screen overlay building blocks shared by the game-over and match-results
+ * screens ("Modern Military HUD", see docs/design/stitch-gameover.html).
+ */
+export const OVERLAY_COLORS = {
+  primary: '#3399FF',
+  bright: '#66CCFF',
+  danger: '#F44336',
+  text: '#E6F1FF',
+  secondary: '#8FA9C8',
+  muted: '#5A7290',
+  fontHead: "'Space Grotesk', 'Noto Sans KR', sans-serif",
+  fontMono: "'Space Mono', 'Noto Sans KR', monospace"
+};
+
+const C = OVERLAY_COLORS;
+
+/** Hidden, fading root container (call showOverlay/hideOverlay to toggle). */
+export function createOverlayContainer(): HTMLDivElement {
+  const container = document.createElement('div');
+  container.style.cssText = `
+    position:fixed;inset:0;z-index:1100;display:none;overflow:hidden;
+    background:#070B12;color:${C.text};font-family:${C.fontHead};
+    opacity:0;transition:opacity .35s ease;
+  `;
+
+  // backdrop: vignette + animated scanline + tactical grid
+  const bg = document.createElement('div');
+  bg.style.cssText = 'position:absolute;inset:0;z-index:0;';
+  bg.innerHTML = `
+    <div style="position:absolute;inset:0;background:radial-gradient(circle, transparent 20%, rgba(7,11,18,.9) 100%);"></div>
+    <div style="position:absolute;inset:0;opacity:.1;background-image:linear-gradient(rgba(51,153,255,.2) 1px,transparent 1px),linear-gradient(90deg,rgba(51,153,255,.2) 1px,transparent 1px);background-size:50px 50px;"></div>
+    <div style="position:absolute;top:0;left:0;width:100%;height:100%;background:linear-gradient(to bottom,transparent,rgba(51,153,255,.05) 50%,transparent);animation:scanMove 8s linear infinite;pointer-events:none;"></div>`;
+  container.appendChild(bg);
+
+  // top bar
+  const header = document.createElement('header');
+  header.style.cssText = `position:absolute;top:0;left:0;width:100%;z-index:30;height:60px;display:flex;align-items:center;justify-content:space-between;padding:0 32px;background:rgba(7,11,18,.8);backdrop-filter:blur(8px);border-bottom:1px solid rgba(51,153,255,.3);`;
+  header.innerHTML = `
+    <div style="font-weight:900;font-style:italic;letter-spacing:-.02em;color:${C.primary};text-shadow:0 0 12px rgba(51,153,255,.45);">DOGFIGHT</div>
+    <div style="font-family:${C.fontHead};font-size:13px;letter-spacing:.2em;color:${C.primary};text-transform:uppercase;">SERVER ONLINE // 24MS</div>`;
+  container.appendChild(header);
+
+  const specs: Array<[string, string]> = [
+    ['top:40px;left:40px', 'border-right:none;border-bottom:none'],
+    ['top:40px;right:40px', 'border-left:none;border-bottom:none'],
+    ['bottom:40px;left:40px', 'border-right:none;border-top:none'],
+    ['bottom:40px;right:40px', 'border-left:none;border-top:none']
+  ];
+  specs.forEach(([pos, off]) => {
+    const b = document.createElement('div');
+    b.style.cssText = `position:absolute;width:40px;height:40px;border:2px solid rgba(51,153,255,.3);z-index:25;${pos};${off};`;
+    container.appendChild(b);
+  });
+
+  return container;
+}
+
+export function createOverlayDivider(): HTMLDivElement {
+  const d = document.createElement('div');
+  d.style.cssText = 'width:100%;max-width:560px;height:1px;background:linear-gradient(to right,transparent,rgba(51,153,255,.3),transparent);margin:0 auto;';
+  return d;
+}
+
+/** Filled (primary) or outlined (secondary) action button with hover states. */
+export function createOverlayButton(
+  label: string,
+  variant: 'primary' | 'secondary',
+  signal: AbortSignal,
+  onClick: () => void
+): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+
+  if (variant === 'primary') {
+    button.style.cssText = `flex:1;padding:16px;background:${C.primary};color:#070B12;border:none;font-family:${C.fontHead};font-weight:700;font-size:16px;letter-spacing:.18em;text-transform:uppercase;cursor:pointer;box-shadow:0 0 12px rgba(51,153,255,.45);transition:all .2s;`;
+    button.addEventListener('mouseenter', () => (button.style.background = C.bright), { signal });
+    button.addEventListener('mouseleave', () => (button.style.background = C.primary), { signal });
+  } else {
+    button.style.cssText = `flex:1;padding:16px;background:transparent;color:${C.primary};border:1px solid rgba(51,153,255,.5);font-family:${C.fontHead};font-weight:700;font-size:16px;letter-spacing:.18em;text-transform:uppercase;cursor:pointer;transition:all .2s;`;
+    button.addEventListener('mouseenter', () => { button.style.background = 'rgba(51,153,255,.1)'; button.style.borderColor = C.primary; }, { signal });
+    button.addEventListener('mouseleave', () => { button.style.background = 'transparent'; button.style.borderColor = 'rgba(51,153,255,.5)'; }, { signal });
+  }
+
+  button.addEventListener('click', onClick, { signal });
+  return button;
+}
+
+export function showOverlay(container: HTMLElement): void {
+  container.style.display = 'block';
+  // force reflow so the opacity transition runs
+  void container.offsetWidth;
+  container.style.opacity = '1';
+}
+
+export function hideOverlay(container: HTMLElement): void {
+  container.style.opacity = '0';
+  setTimeout(() => {
+    container.style.display = 'none';
+  }, 350);
+}
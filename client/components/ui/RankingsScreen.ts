@@ -0,0 +1,210 @@
+import { GlobalRanking, RankingsPage } from '../../network/Messages';
+import {
+  OVERLAY_COLORS,
+  createOverlayButton,
+  createOverlayContainer,
+  createOverlayDivider,
+  hideOverlay,
+  showOverlay
+} from './OverlayTheme';
+
+/**
+ * Global rankings screen opened from the main menu's 랭킹 link.
+ * The scene requests pages over the socket; this screen only renders the
+ * loading / page / error states it is given.
+ */
+export interface RankingsScreenOptions {
+  onPageRequest: (page: number) => void;
+  onClose: () => void;
+}
+
+export const RANKINGS_PAGE_SIZE = 10;
+
+const C = OVERLAY_COLORS;
+
+function formatKd(ranking: GlobalRanking): string {
+  const kd = Number(ranking.kd_ratio);
+  return Number.isFinite(kd) ? kd.toFixed(2) : '-';
+}
+
+export class RankingsScreen {
+  private readonly container: HTMLDivElement;
+  private readonly statusEl: HTMLElement;
+  private readonly tableBody: HTMLTableSectionElement;
+  private readonly pageEl: HTMLElement;
+  private readonly prevButton: HTMLButtonElement;
+  private readonly nextButton: HTMLButtonElement;
+  private readonly retryButton: HTMLButtonElement;
+  private readonly abortController = new AbortController();
+  private page = 0;
+  private pageCount = 1;
+  private loading = false;
+  private visible = false;
+
+  constructor(private readonly options: RankingsScreenOptions) {
+    this.container = createOverlayContainer();
+
+    const main = document.createElement('main');
+    main.style.cssText = 'position:relative;z-index:10;height:100%;display:flex;flex-direction:column;align-items:center;justify-content:center;text-align:center;padding:0 24px;';
+
+    const eyebrow = document.createElement('div');
+    eyebrow.textContent = '● GLOBAL LEADERBOARD // ALL MATCHES';
+    eyebrow.style.cssText = `margin-bottom:16px;font-family:${C.fontMono};font-size:12px;letter-spacing:.2em;color:${C.bright};`;
+    main.appendChild(eyebrow);
+
+    const title = document.createElement('h1');
+    title.textContent = '랭킹';
+    title.style.cssText = `margin:0 0 28px;font-family:${C.fontHead};font-weight:900;font-size:clamp(48px,8vw,96px);line-height:.9;letter-spacing:-.03em;color:${C.primary};text-transform:uppercase;text-shadow:0 0 20px rgba(51,153,255,.6);`;
+    main.appendChild(title);
+
+    main.appendChild(createOverlayDivider());
+
+    const table = document.createElement('table');
+    table.style.cssText = `width:100%;max-width:640px;margin:20px 0 8px;border-collapse:collapse;font-family:${C.fontMono};font-size:14px;`;
+    const head = document.createElement('thead');
+    head.innerHTML = `
+      <tr style="color:${C.muted};font-size:10px;letter-spacing:.2em;text-transform:uppercase;">
+        <th style="padding:8px;text-align:left;">Rank</th>
+        <th style="padding:8px;text-align:left;">Pilot</th>
+        <th style="padding:8px;text-align:right;">Kills</th>
+        <th style="padding:8px;text-align:right;">Deaths</th>
+        <th style="padding:8px;text-align:right;">K/D</th>
+        <th style="padding:8px;text-align:right;">Total Score</th>
+      </tr>`;
+    table.appendChild(head);
+    this.tableBody = document.createElement('tbody');
+    table.appendChild(this.tableBody);
+    main.appendChild(table);
+
+    this.statusEl = document.createElement('div');
+    this.statusEl.style.cssText = `min-height:20px;margin:8px 0 16px;font-family:${C.fontMono};font-size:11px;letter-spacing:.2em;text-transform:uppercase;color:${C.muted};`;
+    main.appendChild(this.statusEl);
+
+    this.retryButton = createOverlayButton('다시 시도', 'secondary', this.abortController.signal, () => {
+      this.options.onPageRequest(this.page);
+    });
+    this.retryButton.style.cssText += 'flex:none;display:none;padding:10px 24px;font-size:13px;margin-bottom:16px;';
+    main.appendChild(this.retryButton);
+
+    main.appendChild(createOverlayDivider());
+
+    const pager = document.createElement('div');
+    pager.style.cssText = 'display:flex;align-items:center;gap:24px;width:100%;max-width:640px;margin-top:24px;';
+    this.prevButton = createOverlayButton('◀ 이전', 'secondary', this.abortController.signal, () => this.goTo(this.page - 1));
+    this.nextButton = createOverlayButton('다음 ▶', 'secondary', this.abortController.signal, () => this.goTo(this.page + 1));
+    this.pageEl = document.createElement('span');
+    this.pageEl.style.cssText = `flex:1;font-family:${C.fontMono};font-size:12px;letter-spacing:.2em;color:${C.secondary};`;
+    pager.append(this.prevButton, this.pageEl, this.nextButton);
+    main.appendChild(pager);
+
+    const buttons = document.createElement('div');
+    buttons.style.cssText = 'display:flex;gap:24px;width:100%;max-width:300px;margin-top:24px;';
+    buttons.appendChild(createOverlayButton('메인 메뉴', 'primary', this.abortController.signal, () => {
+      this.hide();
+      this.options.onClose();
+    }));
+    main.appendChild(buttons);
+    this.container.appendChild(main);
+
+    document.addEventListener('keydown', (event) => {
+      if (this.visible && event.code === 'Escape') {
+        this.hide();
+        this.options.onClose();
+      }
+    }, { signal: this.abortController.signal });
+
+    document.body.appendChild(this.container);
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public show(): void {
+    this.visible = true;
+    showOverlay(this.container);
+  }
+
+  public hide(): void {
+    this.visible = false;
+    hideOverlay(this.container);
+  }
+
+  public setLoading(page: number): void {
+    this.page = page;
+    this.loading = true;
+    this.setStatus(`LOADING PAGE ${page + 1}...`, C.muted);
+    this.retryButton.style.display = 'none';
+    this.updatePager();
+  }
+
+  public setPage(result: RankingsPage, localUsername: string | null): void {
+    this.page = result.page;
+    this.pageCount = Math.max(1, Math.ceil(result.total / Math.max(1, result.pageSize)));
+    this.loading = false;
+    this.retryButton.style.display = 'none';
+
+    this.tableBody.replaceChildren(...result.rankings.map((ranking) => this.createRow(ranking, localUsername)));
+    this.setStatus(result.total === 0 ? 'NO RANKED PILOTS YET' : `${result.total} RANKED PILOTS`, C.muted);
+    this.updatePager();
+  }
+
+  public setError(message: string): void {
+    this.loading = false;
+    this.tableBody.replaceChildren();
+    this.setStatus(message, C.danger);
+    this.retryButton.style.display = 'inline-block';
+    this.updatePager();
+  }
+
+  public dispose(): void {
+    this.abortController.abort();
+    if (this.container.parentNode) this.container.parentNode.removeChild(this.container);
+  }
+
+  private goTo(page: number): void {
+    if (this.loading || page < 0 || page >= this.pageCount) {
+      return;
+    }
+    this.options.onPageRequest(page);
+  }
+
+  private createRow(ranking: GlobalRanking, localUsername: string | null): HTMLTableRowElement {
+    const row = document.createElement('tr');
+    const isLocal = ranking.username === localUsername;
+    row.style.cssText = `border-top:1px solid rgba(51,153,255,.12);color:${isLocal ? C.bright : C.text};${isLocal ? 'background:rgba(51,153,255,.08);' : ''}`;
+
+    const cells = [
+      String(ranking.rank).padStart(2, '0'),
+      ranking.username,
+      String(ranking.total_kills),
+      String(ranking.total_deaths),
+      formatKd(ranking),
+      String(ranking.total_score)
+    ];
+    cells.forEach((value, column) => {
+      const cell = document.createElement('td');
+      cell.textContent = value;
+      cell.style.cssText = `padding:10px 8px;text-align:${column < 2 ? 'left' : 'right'};${column === 5 ? `color:${C.primary};font-weight:700;` : ''}`;
+      row.appendChild(cell);
+    });
+    return row;
+  }
+
+  private setStatus(text: string, color: string): void {
+    this.statusEl.textContent = text;
+    this.statusEl.style.color = color;
+  }
+
+  private updatePager(): void {
+    this.pageEl.textContent = `PAGE ${this.page + 1} / ${this.pageCount}`;
+    this.setEnabled(this.prevButton, !this.loading && this.page > 0);
+    this.setEnabled(this.nextButton, !this.loading && this.page < this.pageCount - 1);
+  }
+
+  private setEnabled(button: HTMLButtonElement, enabled: boolean): void {
+    button.disabled = !enabled;
+    button.style.opacity = enabled ? '1' : '.35';
+    button.style.cursor = enabled ? 'pointer' : 'default';
+  }
+}
@@ -0,0 +1,86 @@
+import { MatchPlayerStats } from '../../network/Messages';
+
+/** 핑 색 구분 기준 (ms) */
+const PING_OK_MS = 80;
+const PING_CAUTION_MS = 150;
+
+/** 점수 내림차순, 같으면 데스가 적은 순 (서버 match-ended 순위와 같은 기준) */
+export function sortScoreboard(stats: MatchPlayerStats[]): MatchPlayerStats[] {
+  return [...stats].sort((a, b) => b.score - a.score || a.deaths - b.deaths);
+}
+
+/**
+ * Tab을 누르고 있는 동안 보이는 스코어보드 (#hud-scoreboard).
+ * 서버 match-stats를 그대로 그릴 뿐 점수를 따로 세지 않는다.
+ */
+export class Scoreboard {
+  private readonly panel = document.getElementById('hud-scoreboard');
+  private readonly rowsElement = document.getElementById('scoreboard-rows');
+  private readonly statusElement = document.getElementById('scoreboard-status');
+  private visible = false;
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.panel?.classList.toggle('visible', visible);
+  }
+
+  public render(stats: MatchPlayerStats[], localPlayerId: number | null): void {
+    if (!this.rowsElement) {
+      return;
+    }
+
+    const rows = sortScoreboard(stats).map((entry, index) => {
+      const row = document.createElement('tr');
+      row.classList.toggle('local', entry.playerId === localPlayerId);
+      row.classList.toggle('offline', !entry.connected);
+
+      const cells: Array<[string, string?]> = [
+        [String(index + 1)],
+        [entry.username],
+        [String(entry.kills)],
+        [String(entry.deaths)],
+        [String(entry.score), 'score'],
+        this.formatPing(entry)
+      ];
+      cells.forEach(([text, className]) => {
+        const cell = document.createElement('td');
+        cell.textContent = text;
+        if (className) {
+          cell.className = className;
+        }
+        row.appendChild(cell);
+      });
+      return row;
+    });
+
+    this.rowsElement.replaceChildren(...rows);
+    this.setStatus(`${stats.filter((entry) => entry.connected).length} PILOTS ONLINE`);
+  }
+
+  public setStatus(text: string): void {
+    if (this.statusElement) {
+      this.statusElement.textContent = text;
+    }
+  }
+
+  public clear(): void {
+    this.rowsElement?.replaceChildren();
+    this.setStatus('HOLD TAB');
+  }
+
+  private formatPing(entry: MatchPlayerStats): [string, string?] {
+    if (!entry.connected) {
+      return ['OFFLINE'];
+    }
+    if (entry.ping === null) {
+      return ['--'];
+    }
+
+    const level = entry.ping < PING_OK_MS ? 'ping-ok' : entry.ping < PING_CAUTION_MS ? 'ping-caution' : 'ping-danger';
+    return [`${entry.ping}ms`, level];
+  }
+}
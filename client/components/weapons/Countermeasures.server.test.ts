@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { aircraftPlayerStats } from '../../../server/game/AircraftTypes.js';
+import { GameState } from '../../../server/game/GameState.js';
+import { DIVE_ALLOWANCE } from '../../../server/game/MovementValidator.js';
+import { launchFlare } from '../../../shared/Countermeasures.js';
+import { getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { FLARE } from './Countermeasures';
+
+// 서버(MissileSystem.handleFlare)는 GameState가 기록한 기체 속도로 플레어를 사출한다
+
+describe('Countermeasures (server)', () => {
+  it('does not let a reported speed throw flares past the aircraft maximum', () => {
+    const gameState = new GameState();
+    gameState.addPlayer(1, aircraftPlayerStats('interceptor'));
+    gameState.updatePlayerPosition(1, [0, 500, 0], [0, 0, 0, 1]);
+    gameState.updatePlayerInput(1, {}, 1e9);
+
+    const launcher = gameState.getPlayer(1);
+    const flare = launchFlare(launcher.position, launcher.velocity);
+    const maxSpeed = Math.hypot(getAircraftDefinition('interceptor').maxSpeed * DIVE_ALLOWANCE * FLARE.inheritVelocity, FLARE.ejectSpeed);
+    expect(Math.hypot(...flare.velocity)).toBeLessThanOrEqual(maxSpeed + 1e-6);
+  });
+});
@@ -0,0 +1,34 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { FLARE, FLARE_SEEKER, isFlareBurnedOut, isInSeekerCone, launchFlare, stepFlare } from './Countermeasures';
+
+const STEP = 1 / 60;
+
+describe('Countermeasures', () => {
+  it('drops a flare away from the aircraft until it burns out', () => {
+    const flare = launchFlare(new THREE.Vector3(0, 500, 0), new THREE.Vector3(0, 0, -400));
+    expect(flare.velocity.z).toBe(-400 * FLARE.inheritVelocity);
+    expect(flare.velocity.y).toBe(-FLARE.ejectSpeed);
+
+    let burnedOutAt = 0;
+    for (let t = 0; t < FLARE.burnSeconds + 1 && !burnedOutAt; t += STEP) {
+      stepFlare(flare, STEP);
+      if (isFlareBurnedOut(flare)) burnedOutAt = flare.age;
+    }
+
+    expect(burnedOutAt).toBeCloseTo(FLARE.burnSeconds, 1);
+    expect(flare.position.y).toBeLessThan(500 - FLARE.ejectSpeed);
+    // 저항으로 기체(-400)보다 훨씬 느려져 뒤로 처진다
+    expect(Math.abs(flare.velocity.z)).toBeLessThan(400 * FLARE.inheritVelocity * 0.1);
+  });
+
+  it('only decoys a seeker that is looking at the flare', () => {
+    const missile = new THREE.Vector3(0, 500, 0);
+    const heading = new THREE.Vector3(0, 0, -600);
+
+    expect(isInSeekerCone(missile, heading, new THREE.Vector3(0, 480, -800))).toBe(true);
+    expect(isInSeekerCone(missile, heading, new THREE.Vector3(0, 500, 800))).toBe(false);
+    expect(isInSeekerCone(missile, heading, new THREE.Vector3(800, 500, -200))).toBe(false);
+    expect(isInSeekerCone(missile, heading, new THREE.Vector3(0, 500, -FLARE_SEEKER.range - 10))).toBe(false);
+  });
+});
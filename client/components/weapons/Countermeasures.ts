@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import * as countermeasures from '../../../shared/Countermeasures.js';
+
+/**
+ * 플레어 탄도와 탐색기 판정은 shared/Countermeasures.js 하나를 서버(server/game/MissileSystem.js)와 함께 쓴다.
+ * 서버가 플레어를 떨어뜨리고 속은 미사일을 missile-decoyed로 알리며, 클라이언트는 같은 함수로 그리기만 한다.
+ * 여기서는 THREE.Vector3 상태를 배열로 넘겨 감싼다.
+ */
+export { FLARE, FLARE_SEEKER } from '../../../shared/Countermeasures.js';
+
+export interface FlareState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  /** 사출 후 경과 시간 (s) */
+  age: number;
+}
+
+/** 사출 상태: 기체 속도의 일부 + 아래로 ejectSpeed */
+export function launchFlare(origin: THREE.Vector3, launcherVelocity: THREE.Vector3): FlareState {
+  const state = countermeasures.launchFlare(origin.toArray(), launcherVelocity.toArray());
+  return {
+    position: new THREE.Vector3().fromArray(state.position),
+    velocity: new THREE.Vector3().fromArray(state.velocity),
+    age: state.age
+  };
+}
+
+/** 한 스텝 낙하 (제자리 수정) */
+export function stepFlare(state: FlareState, deltaTime: number): void {
+  const flight = { position: state.position.toArray(), velocity: state.velocity.toArray(), age: state.age };
+  countermeasures.stepFlare(flight, deltaTime);
+  state.position.fromArray(flight.position);
+  state.velocity.fromArray(flight.velocity);
+  state.age = flight.age;
+}
+
+export function isFlareBurnedOut(state: FlareState): boolean {
+  return countermeasures.isFlareBurnedOut(state);
+}
+
+/** 미사일 탐색기(진행 방향 원뿔) 안에 플레어가 보이는가 */
+export function isInSeekerCone(missilePosition: THREE.Vector3, missileVelocity: THREE.Vector3, flarePosition: THREE.Vector3): boolean {
+  return countermeasures.isInSeekerCone(missilePosition.toArray(), missileVelocity.toArray(), flarePosition.toArray());
+}
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { FlareState, isFlareBurnedOut, stepFlare } from './Countermeasures';
+
+const SPARK_POINTS = 32;
+const FADE_SECONDS = 0.8;
+
+/**
+ * 화면에 그리는 플레어 한 발: 서버 `flare-dispensed` 상태에서 같은 탄도 모델(Countermeasures)로
+ * 떨어뜨린다. 밝은 불꽃 + 지나온 자리에 남는 불티(Points). 연소가 끝나면 불티가 사라질 때까지 남긴다.
+ * 미사일이 이 플레어에 속으면 `getObject()`를 목표로 쫓는다.
+ */
+export class Flare {
+  public readonly id: string;
+  public readonly ownerId: string;
+  private readonly state: FlareState;
+  private readonly core: THREE.Mesh;
+  private readonly sparks: THREE.Points;
+  private readonly sparkPositions: Float32Array;
+  private readonly sparkColors: Float32Array;
+  private sparkCount = 0;
+  private fadeAge = 0;
+
+  constructor(
+    private readonly scene: THREE.Scene,
+    launch: { id: string; ownerId: string; state: FlareState }
+  ) {
+    this.id = launch.id;
+    this.ownerId = launch.ownerId;
+    this.state = launch.state;
+
+    this.core = new THREE.Mesh(
+      new THREE.SphereGeometry(0.6, 8, 6),
+      new THREE.MeshBasicMaterial({ color: 0xfff4d6, transparent: true, blending: THREE.AdditiveBlending })
+    );
+    this.core.position.copy(this.state.position);
+    this.scene.add(this.core);
+
+    this.sparkPositions = new Float32Array(SPARK_POINTS * 3);
+    this.sparkColors = new Float32Array(SPARK_POINTS * 3);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(this.sparkPositions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(this.sparkColors, 3));
+    geometry.setDrawRange(0, 0);
+    this.sparks = new THREE.Points(
+      geometry,
+      new THREE.PointsMaterial({
+        size: 1.4,
+        vertexColors: true,
+        transparent: true,
+        depthWrite: false,
+        blending: THREE.AdditiveBlending
+      })
+    );
+    this.sparks.frustumCulled = false;
+    this.scene.add(this.sparks);
+  }
+
+  /** 한 스텝 낙하. 불티까지 다 사라졌으면 false */
+  public update(deltaTime: number): boolean {
+    if (isFlareBurnedOut(this.state)) {
+      this.core.visible = false;
+      this.fadeAge += deltaTime;
+      (this.sparks.material as THREE.PointsMaterial).opacity = Math.max(0, 1 - this.fadeAge / FADE_SECONDS);
+      return this.fadeAge < FADE_SECONDS;
+    }
+
+    stepFlare(this.state, deltaTime);
+    this.core.position.copy(this.state.position);
+    // 타 들어가며 살짝 깜박인다
+    this.core.scale.setScalar(0.8 + Math.random() * 0.4);
+    this.pushSpark(this.state.position);
+    return true;
+  }
+
+  /** 미사일 유도용 - 연소가 끝났으면 null (더 이상 미사일을 끌지 못한다) */
+  public getObject(): THREE.Object3D | null {
+    return isFlareBurnedOut(this.state) ? null : this.core;
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.core);
+    this.core.geometry.dispose();
+    (this.core.material as THREE.Material).dispose();
+
+    this.scene.remove(this.sparks);
+    this.sparks.geometry.dispose();
+    (this.sparks.material as THREE.Material).dispose();
+  }
+
+  private pushSpark(position: THREE.Vector3): void {
+    this.sparkPositions.copyWithin(3, 0, (SPARK_POINTS - 1) * 3);
+    position.toArray(this.sparkPositions, 0);
+    this.sparkCount = Math.min(SPARK_POINTS, this.sparkCount + 1);
+
+    // 최근 불티일수록 밝게 (가산 혼합이라 검은색에 가까울수록 사라져 보인다)
+    for (let i = 0; i < this.sparkCount; i++) {
+      const heat = 1 - i / SPARK_POINTS;
+      this.sparkColors[i * 3] = heat;
+      this.sparkColors[i * 3 + 1] = heat * 0.7;
+      this.sparkColors[i * 3 + 2] = heat * 0.3;
+    }
+
+    const geometry = this.sparks.geometry;
+    (geometry.getAttribute('position') as THREE.BufferAttribute).needsUpdate = true;
+    (geometry.getAttribute('color') as THREE.BufferAttribute).needsUpdate = true;
+    geometry.setDrawRange(0, this.sparkCount);
+  }
+}
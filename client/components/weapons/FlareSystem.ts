@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import { FLARE } from './Countermeasures';
+import { Flare } from './Flare';
+
+export interface FlareStatus {
+  flares: number;
+  maxFlares: number;
+  cooldownRemaining: number;
+}
+
+/** 사출 요청 - 서버가 검증하고 flare-dispensed로 모두에게 알린다 */
+export type FlareDispenseCallback = (origin: THREE.Vector3) => void;
+
+/** 서버가 알린 사출 (flare-dispensed) */
+export interface FlareLaunch {
+  flareId: string;
+  ownerId: string;
+  position: number[];
+  velocity: number[];
+  /** 사출 후 이미 지난 시간 (s) - 그만큼 앞당겨 떨어뜨린다 */
+  ageSeconds: number;
+}
+
+const SPAWN_STEP = 1 / 60;
+const DISPENSE_OFFSET = new THREE.Vector3(0, -0.8, 1.5);
+
+/**
+ * 방어 수단 (플레어): 잔량/간격 관리, 사출 요청, 서버가 알린 플레어 표시.
+ * 미사일이 속는지는 서버가 판정한다 (missile-decoyed) - 여기서는 속은 미사일이 쫓을
+ * 플레어 오브젝트만 내준다.
+ */
+export class FlareSystem {
+  private readonly flares = new Map<string, Flare>();
+  private remaining: number = FLARE.count;
+  private lastDispenseTime = -Infinity;
+
+  constructor(private readonly scene: THREE.Scene, private readonly onDispense?: FlareDispenseCallback) {}
+
+  public dispense(aircraft: THREE.Object3D): boolean {
+    const now = performance.now();
+    if (this.remaining <= 0) {
+      console.log('🚫 Cannot dispense: no flares remaining');
+      return false;
+    }
+
+    if (now - this.lastDispenseTime < FLARE.cooldownMs) {
+      return false;
+    }
+
+    this.lastDispenseTime = now;
+    this.remaining--;
+    console.log(`🎇 Flare - ${this.remaining}/${FLARE.count} left`);
+
+    this.onDispense?.(DISPENSE_OFFSET.clone().applyQuaternion(aircraft.quaternion).add(aircraft.position));
+    return true;
+  }
+
+  public update(deltaTime: number): void {
+    this.flares.forEach((flare, id) => {
+      if (!flare.update(deltaTime)) {
+        flare.dispose();
+        this.flares.delete(id);
+      }
+    });
+  }
+
+  /** 서버가 알린 사출을 그린다 (내 플레어 포함) */
+  public spawn(launch: FlareLaunch): void {
+    if (this.flares.has(launch.flareId)) {
+      return;
+    }
+
+    const flare = new Flare(this.scene, {
+      id: launch.flareId,
+      ownerId: launch.ownerId,
+      state: {
+        position: new THREE.Vector3().fromArray(launch.position),
+        velocity: new THREE.Vector3().fromArray(launch.velocity),
+        age: 0
+      }
+    });
+    this.flares.set(launch.flareId, flare);
+
+    // 전송 지연만큼 앞당긴다
+    const catchUp = Math.min(launch.ageSeconds, FLARE.burnSeconds);
+    for (let elapsed = 0; elapsed + SPAWN_STEP <= catchUp; elapsed += SPAWN_STEP) {
+      flare.update(SPAWN_STEP);
+    }
+  }
+
+  /** 속은 미사일이 쫓을 플레어 (이미 꺼졌거나 모르는 플레어면 null) */
+  public getFlareObject(flareId: string): THREE.Object3D | null {
+    return this.flares.get(flareId)?.getObject() ?? null;
+  }
+
+  /** 리스폰 - 플레어를 다시 채운다 */
+  public refill(): void {
+    this.remaining = FLARE.count;
+    this.lastDispenseTime = -Infinity;
+  }
+
+  public getStatus(): FlareStatus {
+    return {
+      flares: this.remaining,
+      maxFlares: FLARE.count,
+      cooldownRemaining: Math.max(0, FLARE.cooldownMs - (performance.now() - this.lastDispenseTime))
+    };
+  }
+
+  /** 떨어지는 플레어를 모두 지운다 (로비 복귀) */
+  public clear(): void {
+    this.flares.forEach((flare) => flare.dispose());
+    this.flares.clear();
+  }
+
+  public dispose(): void {
+    this.clear();
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { aircraftPlayerStats } from '../../../server/game/AircraftTypes.js';
+import { GameState } from '../../../server/game/GameState.js';
+import { LagCompensation } from '../../../server/game/LagCompensation.js';
+import { DIVE_ALLOWANCE } from '../../../server/game/MovementValidator.js';
+import { launchRound } from '../../../shared/GunBallistics.js';
+import { getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { GUN_BALLISTICS } from './GunBallistics';
+
+// GUN_MODE=ballistic에서는 서버(CombatSystem.fireRound)가 GameState의 기체 속도로 탄을 띄우고 지연 보상 이력과 판정한다
+
+describe('GunBallistics (server)', () => {
+  it('does not let a reported speed push rounds past the aircraft maximum', () => {
+    const gameState = new GameState();
+    gameState.addPlayer(1, aircraftPlayerStats('interceptor'));
+    gameState.updatePlayerPosition(1, [0, 100, 0], [0, 0, 0, 1]);
+    gameState.updatePlayerInput(1, {}, 1e9);
+
+    const shooter = gameState.getPlayer(1);
+    const round = launchRound(shooter.position, [0, 0, -1], shooter.velocity, 600);
+    const maxSpeed = GUN_BALLISTICS.muzzleSpeed + getAircraftDefinition('interceptor').maxSpeed * DIVE_ALLOWANCE;
+    expect(Math.hypot(...round.velocity)).toBeLessThanOrEqual(maxSpeed + 1e-6);
+    expect(round.life).toBeCloseTo(600 / GUN_BALLISTICS.muzzleSpeed, 9);
+  });
+
+  it('uses the lag compensation hit radius', () => {
+    expect(new LagCompensation().hitRadius).toBe(GUN_BALLISTICS.hitRadius);
+  });
+});
@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { GUN_BALLISTICS, isRoundSpent, launchRound, leadPoint, stepRound, sweepRound } from './GunBallistics';
+
+const STEP = 1 / 60;
+
+/** 탄과 직선 비행하는 목표를 함께 움직여 처음 닿은 시각을 돌려준다 (못 맞히면 null) */
+function fire(
+  shooter: THREE.Vector3,
+  shooterVelocity: THREE.Vector3,
+  aim: THREE.Vector3,
+  targetStart: THREE.Vector3,
+  targetVelocity: THREE.Vector3
+): number | null {
+  const round = launchRound(shooter, aim.clone().sub(shooter), shooterVelocity);
+  const target = targetStart.clone();
+  const roundStart = new THREE.Vector3();
+  const targetPrevious = new THREE.Vector3();
+
+  while (!isRoundSpent(round)) {
+    roundStart.copy(round.position);
+    targetPrevious.copy(target);
+    stepRound(round, STEP);
+    target.addScaledVector(targetVelocity, STEP);
+    const fraction = sweepRound(roundStart, round.position, targetPrevious, target);
+    if (fraction !== null) {
+      return round.age - STEP + fraction * STEP;
+    }
+  }
+  return null;
+}
+
+describe('GunBallistics', () => {
+  it('inherits the shooter velocity and expires at the end of its range', () => {
+    const round = launchRound(new THREE.Vector3(0, 500, 0), new THREE.Vector3(0, 0, -2), new THREE.Vector3(0, 0, -400));
+    expect(round.velocity.z).toBe(-GUN_BALLISTICS.muzzleSpeed - 400);
+
+    while (!isRoundSpent(round)) {
+      stepRound(round, STEP);
+    }
+    expect(round.age).toBeCloseTo(GUN_BALLISTICS.lifeSeconds, 1);
+  });
+
+  it('hits a crossing target when aimed at the lead point but not at the target itself', () => {
+    const shooter = new THREE.Vector3(0, 500, 0);
+    const shooterVelocity = new THREE.Vector3(0, 0, -300);
+    const target = new THREE.Vector3(0, 520, -600);
+    const targetVelocity = new THREE.Vector3(350, 0, -200);
+
+    const lead = leadPoint(shooter, shooterVelocity, target, targetVelocity);
+    expect(lead).not.toBeNull();
+    const impact = fire(shooter, shooterVelocity, lead!.point, target, targetVelocity);
+    expect(impact).not.toBeNull();
+    expect(impact!).toBeCloseTo(lead!.time, 1);
+
+    expect(fire(shooter, shooterVelocity, target, target, targetVelocity)).toBeNull();
+  });
+
+  it('does not tunnel through a target in a single step', () => {
+    const hit = sweepRound(
+      new THREE.Vector3(0, 0, 10),
+      new THREE.Vector3(0, 0, -10),
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(1, 0, 0)
+    );
+    expect(hit).not.toBeNull();
+    expect(hit!).toBeGreaterThan(0.2);
+    expect(hit!).toBeLessThan(0.5);
+  });
+
+  it('has no lead solution beyond the gun range', () => {
+    const still = new THREE.Vector3();
+    const far = new THREE.Vector3(0, 0, -GUN_BALLISTICS.muzzleSpeed * GUN_BALLISTICS.lifeSeconds - 50);
+    expect(leadPoint(new THREE.Vector3(), still, far, still)).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import * as ballistics from '../../../shared/GunBallistics.js';
+import { GUN_BALLISTICS } from '../../../shared/GunBallistics.js';
+
+/**
+ * 탄도 기관포의 탄 비행과 쓸어 보기 판정은 shared/GunBallistics.js 하나를 서버(server/game/CombatSystem.js)와
+ * 함께 쓴다 - 서버가 GUN_MODE=ballistic(welcome.capabilities.ballisticGun)으로 돌면 서버가 명중을 정하고,
+ * 클라이언트는 같은 함수로 예광탄을 그린다. 여기서는 THREE.Vector3 상태를 감싸고 조준경 리드 핍을 계산한다.
+ */
+export { GUN_BALLISTICS };
+
+export type GunMode = 'hitscan' | 'ballistic';
+
+/** 직선 탄도 (중력/저항 없음) - 리드 계산이 닫힌 해로 정확하도록 */
+export interface RoundState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  /** 발사 후 경과 시간 (s) */
+  age: number;
+  /** 수명 (s) - 기체 기준 사거리 / muzzleSpeed */
+  life: number;
+}
+
+export interface LeadSolution {
+  /** 이 점을 조준하면 탄이 목표와 만난다 (월드 좌표) */
+  point: THREE.Vector3;
+  /** 탄 비행 시간 (s) */
+  time: number;
+}
+
+const _offset = new THREE.Vector3();
+const _relative = new THREE.Vector3();
+
+/** 발사 상태: 조준 방향으로 muzzleSpeed + 쏜 기체의 속도 */
+export function launchRound(
+  origin: THREE.Vector3,
+  direction: THREE.Vector3,
+  shooterVelocity: THREE.Vector3,
+  range: number = GUN_BALLISTICS.muzzleSpeed * GUN_BALLISTICS.lifeSeconds
+): RoundState {
+  const state = ballistics.launchRound(origin.toArray(), direction.toArray(), shooterVelocity.toArray(), range);
+  return {
+    position: new THREE.Vector3().fromArray(state.position),
+    velocity: new THREE.Vector3().fromArray(state.velocity),
+    age: state.age,
+    life: state.life
+  };
+}
+
+/** 한 스텝 비행 (제자리 수정) */
+export function stepRound(state: RoundState, deltaTime: number): void {
+  const flight = { position: state.position.toArray(), velocity: state.velocity.toArray(), age: state.age, life: state.life };
+  ballistics.stepRound(flight, deltaTime);
+  state.position.fromArray(flight.position);
+  state.age = flight.age;
+}
+
+export function isRoundSpent(state: RoundState): boolean {
+  return ballistics.isRoundSpent(state);
+}
+
+/** 이번 스텝에 탄(start → end)이 목표 구(targetStart → targetEnd)에 처음 닿는 비율 (0..1) */
+export function sweepRound(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  targetStart: THREE.Vector3,
+  targetEnd: THREE.Vector3,
+  radius: number = GUN_BALLISTICS.hitRadius
+): number | null {
+  return ballistics.sweepRound(start.toArray(), end.toArray(), targetStart.toArray(), targetEnd.toArray(), radius);
+}
+
+/**
+ * 등속 직선 비행하는 목표를 맞히려면 어디를 조준해야 하는가.
+ * 탄이 쏜 기체의 속도를 물려받으므로 쏜 기체 기준 상대 운동으로 |r + v·t| = muzzleSpeed·t 를 푼다.
+ * 무장 사거리(탄 수명) 밖이거나 따라잡을 수 없으면 null.
+ */
+export function leadPoint(
+  shooterPosition: THREE.Vector3,
+  shooterVelocity: THREE.Vector3,
+  targetPosition: THREE.Vector3,
+  targetVelocity: THREE.Vector3,
+  range: number = GUN_BALLISTICS.muzzleSpeed * GUN_BALLISTICS.lifeSeconds
+): LeadSolution | null {
+  const offset = _offset.subVectors(targetPosition, shooterPosition);
+  const relative = _relative.subVectors(targetVelocity, shooterVelocity);
+  const speed = GUN_BALLISTICS.muzzleSpeed;
+
+  const a = relative.lengthSq() - speed * speed;
+  const b = 2 * offset.dot(relative);
+  const c = offset.lengthSq();
+
+  let time: number;
+  if (Math.abs(a) < 1e-6) {
+    if (b >= 0) {
+      return null;
+    }
+    time = -c / b;
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) {
+      return null;
+    }
+    const root = Math.sqrt(discriminant);
+    const near = (-b - root) / (2 * a);
+    const far = (-b + root) / (2 * a);
+    time = near > 0 && (far <= 0 || near < far) ? near : far;
+  }
+
+  if (!(time > 0) || time > range / speed) {
+    return null;
+  }
+
+  return {
+    point: shooterPosition.clone().add(offset).addScaledVector(relative, time),
+    time
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { addShotHeat, coolHeat, createHeatState } from './GunHeat';
+import { getWeaponDefinition } from './WeaponDefinitions';
+import type { HeatFeed } from './GunHeat';
+
+const feed = getWeaponDefinition('machine-gun').feed as HeatFeed;
+/** server/game/CombatSystem.js의 overheatMargin */
+const SERVER_MARGIN = 0.1;
+
+/** 연사 간격마다 과열될 때까지 쏘고, 쏜 발 수와 과열 시각을 돌려준다 */
+function fireUntilOverheated(intervalMs: number, margin = 0): { shots: number; at: number } {
+  const state = createHeatState();
+  let now = 0;
+  let shots = 0;
+  while (!state.overheated && shots < 1000) {
+    addShotHeat(state, feed, now, margin);
+    shots++;
+    now += intervalMs;
+  }
+  return { shots, at: now - intervalMs };
+}
+
+describe('GunHeat', () => {
+  it('overheats under sustained fire but not when fired in short bursts', () => {
+    const sustained = fireUntilOverheated(getWeaponDefinition('machine-gun').cooldownMs);
+    expect(sustained.shots).toBeGreaterThan(30);
+    expect(sustained.shots).toBeLessThan(80);
+
+    // 식는 속도보다 느리게 쏘면 과열되지 않는다
+    const slowInterval = (feed.perShot / feed.coolPerSecond) * 1000 * 1.1;
+    expect(fireUntilOverheated(slowInterval).shots).toBe(1000);
+  });
+
+  it('stays locked out until it has cooled to the recovery point', () => {
+    const state = createHeatState();
+    let now = 0;
+    while (!state.overheated) {
+      addShotHeat(state, feed, now);
+      now += 50;
+    }
+    const lockedAt = state.updatedAt;
+    const recoverMs = ((1 - feed.recoverAt) / feed.coolPerSecond) * 1000;
+
+    expect(coolHeat(state, feed, lockedAt + recoverMs - 100).overheated).toBe(true);
+    expect(state.heat).toBeLessThan(0.5);
+    expect(coolHeat(state, feed, lockedAt + recoverMs + 1).overheated).toBe(false);
+    expect(coolHeat(state, feed, lockedAt + 60000).heat).toBe(0);
+  });
+
+  it('lets the server margin absorb bunched arrivals but not a faster fire rate', () => {
+    const interval = getWeaponDefinition('machine-gun').cooldownMs;
+    const client = fireUntilOverheated(interval);
+
+    // 클라이언트가 과열될 때까지 쏜 발이 처음 0.25초 동안 막혔다가 몰려 도착해도 서버는 잠그지 않는다
+    const server = createHeatState();
+    for (let i = 0; i < client.shots; i++) {
+      addShotHeat(server, feed, Math.max(i * interval, 250), SERVER_MARGIN);
+    }
+    expect(server.overheated).toBe(false);
+
+    // 연사 간격을 줄여 쏘면 여유가 있어도 클라이언트보다 먼저 과열된다
+    expect(fireUntilOverheated(interval * 0.8, SERVER_MARGIN).shots).toBeLessThan(client.shots);
+  });
+
+  it('locks the server for as long as the client once it overheats', () => {
+    const state = createHeatState();
+    let now = 0;
+    while (!state.overheated) {
+      addShotHeat(state, feed, now, SERVER_MARGIN);
+      now += 40;
+    }
+    expect(state.heat).toBe(1);
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * 기관총 과열 모델은 shared/GunHeat.js 하나를 서버(server/game/CombatSystem.js)와 함께 읽는다.
+ * WeaponSystem이 벨트 급탄 무장의 발사를 막고, HUD가 열 게이지를 그린다.
+ */
+export { addShotHeat, coolHeat, createHeatState } from '../../../shared/GunHeat.js';
+export type { HeatState } from '../../../shared/GunHeat.js';
+export type { HeatFeed } from './WeaponDefinitions';
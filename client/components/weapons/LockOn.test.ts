@@ -0,0 +1,82 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { isInLockCone } from '../../../shared/MissileGuidance.js';
+import { LockOn } from './LockOn';
+import { MISSILE_LOCK } from './MissileGuidance';
+
+const STEP = 1 / 60;
+
+function plane(x: number, y: number, z: number): THREE.Object3D {
+  const object = new THREE.Object3D();
+  object.position.set(x, y, z);
+  return object;
+}
+
+function hold(lock: LockOn, seconds: number, aircraft: THREE.Object3D, targets: Map<string, THREE.Object3D>) {
+  for (let t = 0; t < seconds; t += STEP) {
+    lock.update(STEP, aircraft, targets);
+  }
+  return lock.getState();
+}
+
+describe('LockOn', () => {
+  it('locks the target nearest the nose after holding it in the cone', () => {
+    const lock = new LockOn();
+    const aircraft = plane(0, 100, 0);
+    const targets = new Map([
+      ['3', plane(60, 100, -500)],
+      ['4', plane(5, 100, -800)],
+      ['5', plane(0, 100, 600)] // 뒤쪽
+    ]);
+
+    const seeking = hold(lock, MISSILE_LOCK.lockSeconds / 2, aircraft, targets);
+    expect(seeking.targetId).toBe('4');
+    expect(seeking.locked).toBe(false);
+    expect(seeking.progress).toBeGreaterThan(0.4);
+
+    expect(hold(lock, MISSILE_LOCK.lockSeconds / 2 + STEP * 2, aircraft, targets)).toEqual({
+      targetId: '4', progress: 1, locked: true
+    });
+  });
+
+  it('ignores targets outside the cone or beyond range and loses a lock that leaves', () => {
+    const lock = new LockOn();
+    const aircraft = plane(0, 100, 0);
+    const target = plane(0, 100, -MISSILE_LOCK.range - 10);
+    const targets = new Map([['7', target]]);
+
+    expect(hold(lock, 0.5, aircraft, targets).targetId).toBeNull();
+
+    target.position.set(0, 100, -400);
+    expect(hold(lock, MISSILE_LOCK.lockSeconds + 0.1, aircraft, targets).locked).toBe(true);
+
+    target.position.set(400, 100, -400); // 45° - 원뿔 밖
+    const lost = hold(lock, 0.1, aircraft, targets);
+    expect(lost.locked).toBe(false);
+    expect(hold(lock, MISSILE_LOCK.lockSeconds, aircraft, targets).targetId).toBeNull();
+  });
+
+  it('sees the same cone as the server lock check', () => {
+    // 서버(MissileSystem)는 shared isInLockCone으로 발사 요청의 락온을 다시 확인한다
+    const aircraft = plane(0, 100, 0);
+    aircraft.quaternion.setFromEuler(new THREE.Euler(0.1, 0.4, 0.2));
+    aircraft.updateMatrixWorld();
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(aircraft.quaternion);
+    const side = new THREE.Vector3(1, 0, 0).applyQuaternion(aircraft.quaternion);
+
+    const offsets = [
+      forward.clone().multiplyScalar(800),
+      forward.clone().multiplyScalar(800).addScaledVector(side, 800 * Math.tan(MISSILE_LOCK.cone * 0.8)),
+      forward.clone().multiplyScalar(800).addScaledVector(side, 800 * Math.tan(MISSILE_LOCK.cone * 1.2)),
+      forward.clone().multiplyScalar(MISSILE_LOCK.range + 50),
+      forward.clone().multiplyScalar(-300)
+    ];
+
+    offsets.forEach((offset) => {
+      const target = plane(0, 0, 0);
+      target.position.copy(aircraft.position).add(offset);
+      const clientLocks = new LockOn().update(STEP, aircraft, new Map([['7', target]])).targetId === '7';
+      expect(isInLockCone(aircraft.position.toArray(), aircraft.quaternion.toArray(), target.position.toArray())).toBe(clientLocks);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+import { MISSILE_LOCK } from './MissileGuidance';
+
+export interface LockState {
+  /** 추적 중인 기체 (없으면 null) */
+  targetId: string | null;
+  /** 0..1 - 1이면 락온 완료 */
+  progress: number;
+  locked: boolean;
+}
+
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+/**
+ * 미사일 락온: 기수 방향 원뿔(MISSILE_LOCK.cone) 안, 사거리 안에서 축에 가장 가까운 기체를
+ * 추적하고 lockSeconds 동안 원뿔 안에 잡아 두면 락온이 확정된다.
+ * 원뿔을 벗어나면 진행도가 두 배 빠르게 줄고, 다 떨어지거나 다른 기체로 바뀌면 처음부터.
+ */
+export class LockOn {
+  private state: LockState = { targetId: null, progress: 0, locked: false };
+  private readonly _forward = new THREE.Vector3();
+  private readonly _toTarget = new THREE.Vector3();
+
+  /**
+   * @param aircraft 내 기체 (위치/자세)
+   * @param targets 원격 기체 (playerId → 화면에 그리는 기체)
+   */
+  public update(deltaTime: number, aircraft: THREE.Object3D, targets: Map<string, THREE.Object3D>): LockState {
+    const forward = this._forward.copy(FORWARD).applyQuaternion(aircraft.quaternion);
+    let bestId: string | null = null;
+    let bestAngle: number = MISSILE_LOCK.cone;
+
+    targets.forEach((target, id) => {
+      const toTarget = this._toTarget.subVectors(target.position, aircraft.position);
+      const distance = toTarget.length();
+      if (distance < 1e-6 || distance > MISSILE_LOCK.range) {
+        return;
+      }
+
+      const angle = forward.angleTo(toTarget);
+      if (angle <= bestAngle) {
+        bestAngle = angle;
+        bestId = id;
+      }
+    });
+
+    const rate = deltaTime / MISSILE_LOCK.lockSeconds;
+    const current = this.state.targetId;
+
+    if (current && current !== bestId && targets.has(current) && this.state.progress > 0) {
+      // 잡고 있던 기체가 원뿔을 벗어났다 - 다른 기체가 들어와 있어도 먼저 놓친다
+      this.state.progress = Math.max(0, this.state.progress - rate * 2);
+      this.state.locked = false;
+      if (this.state.progress === 0) {
+        this.state.targetId = null;
+      }
+    } else if (bestId) {
+      const progress = bestId === current ? this.state.progress : 0;
+      this.state.targetId = bestId;
+      this.state.progress = Math.min(1, progress + rate);
+      this.state.locked = this.state.progress >= 1;
+    } else {
+      this.clear();
+    }
+
+    return this.getState();
+  }
+
+  public getState(): LockState {
+    return { ...this.state };
+  }
+
+  /** 발사/사망/리스폰 뒤 처음부터 */
+  public clear(): void {
+    this.state = { targetId: null, progress: 0, locked: false };
+  }
+}
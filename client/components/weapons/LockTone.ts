@@ -0,0 +1,73 @@
+export type LockToneMode = 'off' | 'seeking' | 'locked';
+
+const SEEKING_HZ = 900;
+const LOCKED_HZ = 1600;
+const VOLUME = 0.05;
+/** 추적음 on/off 주기 (ms) */
+const SEEKING_PULSE_MS = 160;
+
+/**
+ * 락온 신호음 (Web Audio). 추적 중에는 끊어지는 낮은 음, 락온이 확정되면 높은 연속음.
+ * AudioContext는 처음 소리가 필요할 때 만든다 - 포인터 락 클릭/키 입력 이후라 자동 재생 제한에 걸리지 않는다.
+ */
+export class LockTone {
+  private context: AudioContext | null = null;
+  private oscillator: OscillatorNode | null = null;
+  private gain: GainNode | null = null;
+  private mode: LockToneMode = 'off';
+
+  /** 매 틱 호출 - 추적음의 끊김도 여기서 만든다 */
+  public update(mode: LockToneMode, now = performance.now()): void {
+    if (mode === 'off' && this.mode === 'off') {
+      return;
+    }
+
+    if (!this.ensureNodes()) {
+      return;
+    }
+
+    const pulseOn = Math.floor(now / SEEKING_PULSE_MS) % 2 === 0;
+    const volume = mode === 'locked' || (mode === 'seeking' && pulseOn) ? VOLUME : 0;
+    const frequency = mode === 'locked' ? LOCKED_HZ : SEEKING_HZ;
+    const time = this.context!.currentTime;
+    this.gain!.gain.setTargetAtTime(volume, time, 0.01);
+    this.oscillator!.frequency.setTargetAtTime(frequency, time, 0.01);
+    this.mode = mode;
+  }
+
+  public dispose(): void {
+    this.oscillator?.stop();
+    this.oscillator = null;
+    this.gain = null;
+    void this.context?.close();
+    this.context = null;
+    this.mode = 'off';
+  }
+
+  private ensureNodes(): boolean {
+    if (this.context) {
+      return true;
+    }
+
+    const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) {
+      return false;
+    }
+
+    try {
+      this.context = new AudioContextClass();
+      this.gain = this.context.createGain();
+      this.gain.gain.value = 0;
+      this.gain.connect(this.context.destination);
+      this.oscillator = this.context.createOscillator();
+      this.oscillator.type = 'square';
+      this.oscillator.connect(this.gain);
+      this.oscillator.start();
+      return true;
+    } catch (error) {
+      console.warn('Lock tone unavailable:', error);
+      this.context = null;
+      return false;
+    }
+  }
+}
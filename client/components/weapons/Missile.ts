@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { GuidanceTarget, MissileState, isMissileSpent, stepMissile } from './MissileGuidance';
+
+const TRAIL_POINTS = 48;
+const EXPLOSION_SECONDS = 0.6;
+const EXPLOSION_RADIUS = 14;
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+/**
+ * 화면에 그리는 미사일 한 발: 서버 `missile-launched` 상태에서 같은 유도 모델(MissileGuidance)로
+ * 날리고, `missile-detonated`가 오면 그 위치에서 폭발한다. 명중 판정은 하지 않는다.
+ * 목표 속도는 화면의 목표 기체 위치 변화로 추정한다. 플레어에 속으면(`missile-decoyed`) 그 플레어를 쫓는다.
+ */
+export class Missile {
+  public readonly id: string;
+  public readonly ownerId: string;
+  public readonly targetId: string | null;
+  /** 미사일을 끌어간 플레어 - 있으면 targetId 대신 이것을 쫓는다 */
+  public decoyId: string | null = null;
+  private readonly state: MissileState;
+  private readonly body: THREE.Mesh;
+  private readonly trail: THREE.Line;
+  private readonly trailPositions: Float32Array;
+  private trailCount = 0;
+  private explosion: THREE.Mesh | null = null;
+  private explosionAge = 0;
+  private readonly target: GuidanceTarget = { position: new THREE.Vector3(), velocity: new THREE.Vector3() };
+  private hasTargetSample = false;
+  private readonly _direction = new THREE.Vector3();
+
+  constructor(
+    private readonly scene: THREE.Scene,
+    launch: { id: string; ownerId: string; targetId: string | null; state: MissileState }
+  ) {
+    this.id = launch.id;
+    this.ownerId = launch.ownerId;
+    this.targetId = launch.targetId;
+    this.state = launch.state;
+
+    this.body = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.12, 0.12, 1.6, 8).rotateX(Math.PI / 2),
+      new THREE.MeshBasicMaterial({ color: 0xdfe8f0 })
+    );
+    const flame = new THREE.Mesh(
+      new THREE.ConeGeometry(0.16, 0.9, 8).rotateX(-Math.PI / 2).translate(0, 0, 1.2),
+      new THREE.MeshBasicMaterial({ color: 0xffb347, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending })
+    );
+    this.body.add(flame);
+    this.body.position.copy(this.state.position);
+    this.scene.add(this.body);
+
+    this.trailPositions = new Float32Array(TRAIL_POINTS * 3);
+    const trailGeometry = new THREE.BufferGeometry();
+    trailGeometry.setAttribute('position', new THREE.BufferAttribute(this.trailPositions, 3));
+    trailGeometry.setDrawRange(0, 0);
+    this.trail = new THREE.Line(
+      trailGeometry,
+      new THREE.LineBasicMaterial({ color: 0xb0bec5, transparent: true, opacity: 0.55 })
+    );
+    this.trail.frustumCulled = false;
+    this.scene.add(this.trail);
+  }
+
+  /**
+   * 한 스텝 비행 (폭발 중이면 폭발 애니메이션). 끝났으면 false.
+   * @param target 화면에 그리는 목표 기체나 플레어 (없거나 사라졌으면 직진)
+   */
+  public update(deltaTime: number, target: THREE.Object3D | null): boolean {
+    if (this.explosion) {
+      return this.updateExplosion(deltaTime);
+    }
+
+    stepMissile(this.state, this.sampleTarget(deltaTime, target), deltaTime);
+    this.body.position.copy(this.state.position);
+    this.body.quaternion.setFromUnitVectors(FORWARD, this._direction.copy(this.state.velocity).normalize());
+    this.pushTrail(this.state.position);
+
+    // 서버도 같은 조건으로 자폭하고 missile-detonated를 보낸다
+    if (isMissileSpent(this.state)) {
+      this.detonate(this.state.position);
+    }
+    return true;
+  }
+
+  /** 폭발로 바꾼다 - 꼬리 연기는 폭발이 끝날 때까지 남긴다 */
+  public detonate(position: THREE.Vector3): void {
+    if (this.explosion) {
+      return;
+    }
+
+    this.scene.remove(this.body);
+    this.explosion = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xffa040, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending })
+    );
+    this.explosion.position.copy(position);
+    this.scene.add(this.explosion);
+  }
+
+  /** 플레어에 속았다 - 목표가 바뀌므로 속도 추정을 처음부터 */
+  public setDecoy(flareId: string): void {
+    this.decoyId = flareId;
+    this.hasTargetSample = false;
+  }
+
+  public getPosition(): THREE.Vector3 {
+    return this.state.position;
+  }
+
+  public dispose(): void {
+    this.scene.remove(this.body);
+    this.body.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+
+    this.scene.remove(this.trail);
+    this.trail.geometry.dispose();
+    (this.trail.material as THREE.Material).dispose();
+
+    if (this.explosion) {
+      this.scene.remove(this.explosion);
+      this.explosion.geometry.dispose();
+      (this.explosion.material as THREE.Material).dispose();
+      this.explosion = null;
+    }
+  }
+
+  private sampleTarget(deltaTime: number, target: THREE.Object3D | null): GuidanceTarget | null {
+    if (!target) {
+      this.hasTargetSample = false;
+      return null;
+    }
+
+    if (this.hasTargetSample && deltaTime > 0) {
+      this.target.velocity.subVectors(target.position, this.target.position).divideScalar(deltaTime);
+    } else {
+      this.target.velocity.set(0, 0, 0);
+    }
+    this.target.position.copy(target.position);
+    this.hasTargetSample = true;
+    return this.target;
+  }
+
+  private pushTrail(position: THREE.Vector3): void {
+    this.trailPositions.copyWithin(3, 0, (TRAIL_POINTS - 1) * 3);
+    position.toArray(this.trailPositions, 0);
+    this.trailCount = Math.min(TRAIL_POINTS, this.trailCount + 1);
+
+    const attribute = this.trail.geometry.getAttribute('position') as THREE.BufferAttribute;
+    attribute.needsUpdate = true;
+    this.trail.geometry.setDrawRange(0, this.trailCount);
+  }
+
+  private updateExplosion(deltaTime: number): boolean {
+    this.explosionAge += deltaTime;
+    const t = Math.min(1, this.explosionAge / EXPLOSION_SECONDS);
+    const explosion = this.explosion!;
+    explosion.scale.setScalar(1 + t * EXPLOSION_RADIUS);
+    (explosion.material as THREE.MeshBasicMaterial).opacity = 0.9 * (1 - t);
+    (this.trail.material as THREE.LineBasicMaterial).opacity = 0.55 * (1 - t);
+    return t < 1;
+  }
+}
@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { MISSILE, closestApproach, isMissileSpent, launchMissile, stepMissile } from './MissileGuidance';
+
+const STEP = 1 / 60;
+
+/** 미사일과 직선 비행하는 목표를 함께 움직여 가장 가까웠던 거리를 돌려준다 */
+function engage(targetStart: THREE.Vector3, targetVelocity: THREE.Vector3, guided: boolean, seconds = 6) {
+  const missile = launchMissile(new THREE.Vector3(0, 500, 0), new THREE.Vector3(0, 0, -1), 400);
+  const target = { position: targetStart.clone(), velocity: targetVelocity.clone() };
+  const missileStart = new THREE.Vector3();
+  const targetPrevious = new THREE.Vector3();
+  let closest = Infinity;
+
+  for (let t = 0; t < seconds; t += STEP) {
+    missileStart.copy(missile.position);
+    targetPrevious.copy(target.position);
+    target.position.addScaledVector(target.velocity, STEP);
+    stepMissile(missile, guided ? target : null, STEP);
+    closest = Math.min(closest, closestApproach(missileStart, missile.position, targetPrevious, target.position));
+  }
+
+  return { closest, missile };
+}
+
+describe('MissileGuidance', () => {
+  it('intercepts a crossing target with proportional navigation', () => {
+    const crossing = engage(new THREE.Vector3(-300, 500, -1200), new THREE.Vector3(400, 0, 0), true);
+    expect(crossing.closest).toBeLessThan(MISSILE.fuseRadius);
+
+    const unguided = engage(new THREE.Vector3(-300, 500, -1200), new THREE.Vector3(400, 0, 0), false);
+    expect(unguided.closest).toBeGreaterThan(MISSILE.fuseRadius * 10);
+  });
+
+  it('burns the motor for a limited time, then coasts until spent', () => {
+    const missile = launchMissile(new THREE.Vector3(), new THREE.Vector3(0, 0, -1), 300);
+    expect(missile.velocity.length()).toBe(300 + MISSILE.launchBoost);
+
+    let peak = 0;
+    let spentAt = 0;
+    for (let t = 0; t < MISSILE.maxLifetime + 1 && !spentAt; t += STEP) {
+      stepMissile(missile, null, STEP);
+      peak = Math.max(peak, missile.velocity.length());
+      if (isMissileSpent(missile)) spentAt = missile.age;
+    }
+
+    expect(peak).toBe(MISSILE.maxSpeed);
+    expect(spentAt).toBeGreaterThan(MISSILE.burnSeconds);
+    expect(spentAt).toBeLessThanOrEqual(MISSILE.maxLifetime + STEP);
+  });
+
+  it('measures the closest approach inside a step', () => {
+    const distance = closestApproach(
+      new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, -40),
+      new THREE.Vector3(5, 0, -20), new THREE.Vector3(5, 0, -20)
+    );
+    expect(distance).toBeCloseTo(5);
+  });
+});
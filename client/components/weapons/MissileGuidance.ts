@@ -0,0 +1,59 @@
+import * as THREE from 'three';
+import * as guidance from '../../../shared/MissileGuidance.js';
+
+/**
+ * 유도 미사일 비행 모델은 shared/MissileGuidance.js 하나를 서버(server/game/MissileSystem.js)와 함께 쓴다.
+ * 서버가 미사일을 날려 근접 신관 명중을 정하고, 클라이언트는 missile-launched부터 missile-detonated까지
+ * 같은 함수로 그리기만 한다. 여기서는 THREE.Vector3 상태를 배열로 넘겨 감싼다.
+ */
+export { MISSILE, MISSILE_LOCK } from '../../../shared/MissileGuidance.js';
+
+export interface MissileState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  /** 발사 후 경과 시간 (s) */
+  age: number;
+}
+
+export interface GuidanceTarget {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+}
+
+/** 발사 상태: 기수 방향으로 기체 속력 + launchBoost */
+export function launchMissile(origin: THREE.Vector3, direction: THREE.Vector3, launcherSpeed: number): MissileState {
+  const state = guidance.launchMissile(origin.toArray(), direction.toArray(), launcherSpeed);
+  return {
+    position: new THREE.Vector3().fromArray(state.position),
+    velocity: new THREE.Vector3().fromArray(state.velocity),
+    age: state.age
+  };
+}
+
+/** 한 스텝 비행 (제자리 수정) - 목표가 없으면 직진 */
+export function stepMissile(state: MissileState, target: GuidanceTarget | null, deltaTime: number): void {
+  const flight = { position: state.position.toArray(), velocity: state.velocity.toArray(), age: state.age };
+  guidance.stepMissile(
+    flight,
+    target && { position: target.position.toArray(), velocity: target.velocity.toArray() },
+    deltaTime
+  );
+  state.position.fromArray(flight.position);
+  state.velocity.fromArray(flight.velocity);
+  state.age = flight.age;
+}
+
+/** 연료를 다 쓰고 너무 느려졌거나 수명이 다했다 */
+export function isMissileSpent(state: MissileState): boolean {
+  return guidance.isMissileSpent({ velocity: state.velocity.toArray(), age: state.age });
+}
+
+/** 한 스텝 동안(미사일 start→end, 기체 start→end) 둘 사이의 최소 거리 */
+export function closestApproach(
+  missileStart: THREE.Vector3,
+  missileEnd: THREE.Vector3,
+  targetStart: THREE.Vector3,
+  targetEnd: THREE.Vector3
+): number {
+  return guidance.closestApproach(missileStart.toArray(), missileEnd.toArray(), targetStart.toArray(), targetEnd.toArray());
+}
@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import { LockOn, LockState } from './LockOn';
+import { LockTone } from './LockTone';
+import { Missile } from './Missile';
+import { MISSILE } from './MissileGuidance';
+
+export interface MissileStatus {
+  missiles: number;
+  maxMissiles: number;
+  cooldownRemaining: number;
+  lock: LockState;
+}
+
+/** 발사 요청 - 서버가 검증하고 missile-launched로 모두에게 알린다 */
+export interface MissileLaunchRequest {
+  origin: THREE.Vector3;
+  direction: THREE.Vector3;
+  /** 락온이 확정된 기체, 아니면 null (무유도) */
+  targetId: string | null;
+}
+
+export type MissileLaunchCallback = (request: MissileLaunchRequest) => void;
+
+/** 서버가 알린 발사 (missile-launched) */
+export interface MissileLaunch {
+  missileId: string;
+  ownerId: string;
+  targetId: string | null;
+  position: number[];
+  velocity: number[];
+  /** 발사 후 이미 지난 시간 (s) - 그만큼 앞당겨 날린다 */
+  ageSeconds: number;
+}
+
+/** playerId → 화면의 기체 (내 기체 포함), 또는 flareId → 화면의 플레어 */
+export type MissileTargetResolver = (id: string) => THREE.Object3D | null;
+
+const SPAWN_STEP = 1 / 60;
+const LAUNCH_OFFSET = new THREE.Vector3(0, -0.6, -2.5);
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+/**
+ * 보조 무장 (유도 미사일): 락온, 발사 요청, 날아가는 미사일 표시.
+ * 미사일의 실제 비행과 명중(근접 신관)은 서버가 판정한다 - 여기서는 서버가 알린 발사를
+ * 같은 유도 모델로 그리고, missile-detonated가 오면 그 자리에서 터뜨린다.
+ */
+export class MissileSystem {
+  private readonly lockOn = new LockOn();
+  private readonly lockTone = new LockTone();
+  private readonly flights = new Map<string, Missile>();
+  private missiles: number = MISSILE.count;
+  private lastLaunchTime = -Infinity;
+
+  constructor(private readonly scene: THREE.Scene, private readonly onLaunch?: MissileLaunchCallback) {}
+
+  /** 락온 상태로 발사한다. 확정된 락이 없으면 무유도로 날아간다. */
+  public launch(aircraft: THREE.Object3D): boolean {
+    const now = performance.now();
+    if (this.missiles <= 0) {
+      console.log('🚫 Cannot launch: no missiles remaining');
+      return false;
+    }
+
+    if (now - this.lastLaunchTime < MISSILE.cooldownMs) {
+      console.log(`🚫 Missile cooldown: ${Math.round(MISSILE.cooldownMs - (now - this.lastLaunchTime))}ms remaining`);
+      return false;
+    }
+
+    const lock = this.lockOn.getState();
+    const targetId = lock.locked ? lock.targetId : null;
+    const origin = LAUNCH_OFFSET.clone().applyQuaternion(aircraft.quaternion).add(aircraft.position);
+    const direction = FORWARD.clone().applyQuaternion(aircraft.quaternion);
+
+    this.lastLaunchTime = now;
+    this.missiles--;
+    this.lockOn.clear();
+    console.log(`🚀 Missile away${targetId ? ` → Player ${targetId}` : ' (unguided)'} - ${this.missiles}/${MISSILE.count} left`);
+
+    this.onLaunch?.({ origin, direction, targetId });
+    return true;
+  }
+
+  /**
+   * 고정 틱마다: 락온 갱신(aircraft가 null이면 락온하지 않는다) + 신호음 + 미사일 비행.
+   * @param targets 락온 후보 (원격 기체)
+   * @param resolveDecoy 플레어에 속은 미사일의 목표
+   */
+  public update(
+    deltaTime: number,
+    aircraft: THREE.Object3D | null,
+    targets: Map<string, THREE.Object3D>,
+    resolveTarget: MissileTargetResolver,
+    resolveDecoy: MissileTargetResolver
+  ): void {
+    if (aircraft && this.missiles > 0) {
+      const lock = this.lockOn.update(deltaTime, aircraft, targets);
+      this.lockTone.update(lock.locked ? 'locked' : lock.targetId ? 'seeking' : 'off');
+    } else {
+      this.lockOn.clear();
+      this.lockTone.update('off');
+    }
+
+    this.flights.forEach((missile, id) => {
+      const target = missile.decoyId
+        ? resolveDecoy(missile.decoyId)
+        : missile.targetId ? resolveTarget(missile.targetId) : null;
+      if (!missile.update(deltaTime, target)) {
+        missile.dispose();
+        this.flights.delete(id);
+      }
+    });
+  }
+
+  /** 서버가 알린 발사를 그린다 (내 미사일 포함) */
+  public spawn(launch: MissileLaunch, resolveTarget: MissileTargetResolver): void {
+    if (this.flights.has(launch.missileId)) {
+      return;
+    }
+
+    const missile = new Missile(this.scene, {
+      id: launch.missileId,
+      ownerId: launch.ownerId,
+      targetId: launch.targetId,
+      state: {
+        position: new THREE.Vector3().fromArray(launch.position),
+        velocity: new THREE.Vector3().fromArray(launch.velocity),
+        age: 0
+      }
+    });
+    this.flights.set(launch.missileId, missile);
+
+    // 전송 지연만큼 앞당긴다
+    const target = launch.targetId ? resolveTarget(launch.targetId) : null;
+    const catchUp = Math.min(launch.ageSeconds, MISSILE.maxLifetime);
+    for (let elapsed = 0; elapsed + SPAWN_STEP <= catchUp; elapsed += SPAWN_STEP) {
+      missile.update(SPAWN_STEP, target);
+    }
+  }
+
+  /** missile-detonated - 서버가 정한 위치에서 폭발 */
+  public detonate(missileId: string, position: number[]): void {
+    this.flights.get(missileId)?.detonate(new THREE.Vector3().fromArray(position));
+  }
+
+  /** missile-decoyed - 서버가 정한 대로 미사일이 플레어를 쫓는다 */
+  public decoy(missileId: string, flareId: string): void {
+    this.flights.get(missileId)?.setDecoy(flareId);
+  }
+
+  /** 리스폰 - 미사일을 다시 채운다 */
+  public refill(): void {
+    this.missiles = MISSILE.count;
+    this.lastLaunchTime = -Infinity;
+    this.lockOn.clear();
+  }
+
+  public getStatus(): MissileStatus {
+    return {
+      missiles: this.missiles,
+      maxMissiles: MISSILE.count,
+      cooldownRemaining: Math.max(0, MISSILE.cooldownMs - (performance.now() - this.lastLaunchTime)),
+      lock: this.lockOn.getState()
+    };
+  }
+
+  /** 날아가는 미사일을 모두 지운다 (로비 복귀) */
+  public clear(): void {
+    this.flights.forEach((missile) => missile.dispose());
+    this.flights.clear();
+    this.lockOn.clear();
+    this.lockTone.update('off');
+  }
+
+  public dispose(): void {
+    this.clear();
+    this.lockTone.dispose();
+  }
+}
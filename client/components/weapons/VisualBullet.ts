@@ -63,6 +63,12 @@ export class VisualBullet {
     return true; // 계속 유지
   }
 
+  /** 탄도 모드 - 위치는 WeaponSystem이 GunBallistics로 직접 진행시키고 여기서는 그리기만 한다 */
+  public moveTo(position: THREE.Vector3): void {
+    this.mesh.position.copy(position);
+    this.updateTrail();
+  }
+
   private updateTrail() {
     // 궤적 위치 업데이트 (뒤에서부터)
     for (let i = this.trail.length - 1; i > 0; i--) {
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { applySpread, damageAtDistance, getWeaponDefinition } from './WeaponDefinitions';
+import { AIRCRAFT_DEFINITIONS } from '../aircraft/AircraftDefinitions';
+
+describe('WeaponDefinitions', () => {
+  it('keeps full damage up close and falls off to the minimum at the end of the curve', () => {
+    const cannon = getWeaponDefinition('cannon');
+    expect(damageAtDistance(cannon, 50)).toBe(10);
+    expect(damageAtDistance(cannon, 700)).toBe(8);
+    expect(damageAtDistance(cannon, 1000)).toBe(5);
+    expect(damageAtDistance(cannon, 5000)).toBe(5);
+    expect(damageAtDistance(getWeaponDefinition('machine-gun'), 1000)).toBe(1);
+  });
+
+  it('falls back to the cannon for unknown ids', () => {
+    expect(getWeaponDefinition('railgun').id).toBe('cannon');
+    expect(getWeaponDefinition(undefined).id).toBe('cannon');
+  });
+
+  it('scatters shots inside the spread cone', () => {
+    const aim = new THREE.Vector3(0, 0, -1);
+    const spread = getWeaponDefinition('machine-gun').spread;
+    let widest = 0;
+    for (let i = 0; i < 200; i++) {
+      const shot = applySpread(aim.clone(), spread);
+      expect(shot.length()).toBeCloseTo(1, 6);
+      widest = Math.max(widest, shot.angleTo(aim));
+    }
+    expect(widest).toBeLessThanOrEqual(spread + 1e-6);
+    expect(widest).toBeGreaterThan(spread / 2);
+
+    const vertical = applySpread(new THREE.Vector3(0, 1, 0), spread, () => 1);
+    expect(vertical.angleTo(new THREE.Vector3(0, 1, 0))).toBeCloseTo(spread, 6);
+  });
+
+  it('gives every aircraft a known primary gun and a secondary to switch to', () => {
+    for (const aircraft of AIRCRAFT_DEFINITIONS) {
+      expect(aircraft.weapons.length).toBeGreaterThan(1);
+      expect(aircraft.weapons.every((id) => getWeaponDefinition(id).id === id)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+
+/**
+ * 무장 정의는 shared/WeaponDefinitions.js 하나를 서버(server/game/WeaponTypes.js)와 함께 읽는다.
+ * 여기서는 클라이언트만 쓰는 산포(applySpread)를 더한다 - 서버는 산포가 적용된 조준 방향을 받는다.
+ */
+export { WEAPON_DEFINITIONS, WEAPON_IDS, damageAtDistance, getWeaponDefinition } from '../../../shared/WeaponDefinitions.js';
+export type {
+  HeatFeed,
+  MagazineFeed,
+  WeaponDefinition,
+  WeaponFalloff,
+  WeaponFeed,
+  WeaponId
+} from '../../../shared/WeaponDefinitions.js';
+
+const _axisA = new THREE.Vector3();
+const _axisB = new THREE.Vector3();
+
+/**
+ * 조준 방향(단위 벡터)을 spread 원뿔 안에서 무작위로 흔든다 (제자리 수정).
+ * 원뿔 면적에 고르게 퍼지도록 반지름에 sqrt를 쓴다.
+ */
+export function applySpread(direction: THREE.Vector3, spread: number, random: () => number = Math.random): THREE.Vector3 {
+  if (spread <= 0) {
+    return direction;
+  }
+
+  _axisA.set(0, 1, 0);
+  if (Math.abs(direction.dot(_axisA)) > 0.99) {
+    _axisA.set(1, 0, 0);
+  }
+  _axisA.cross(direction).normalize();
+  _axisB.crossVectors(direction, _axisA);
+
+  const angle = random() * Math.PI * 2;
+  const radius = Math.tan(spread * Math.sqrt(random()));
+  return direction
+    .addScaledVector(_axisA, Math.cos(angle) * radius)
+    .addScaledVector(_axisB, Math.sin(angle) * radius)
+    .normalize();
+}
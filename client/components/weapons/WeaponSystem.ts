@@ -1,7 +1,19 @@
 import * as THREE from 'three';
 import { VisualBullet } from './VisualBullet';
+import { GunMode, RoundState, isRoundSpent, launchRound, stepRound, sweepRound } from './GunBallistics';
+import { CollisionBody } from '../physics/AircraftCollision';
+import { AircraftDefinition, DEFAULT_AIRCRAFT_TYPE, getAircraftDefinition } from '../aircraft/AircraftDefinitions';
+import { WeaponDefinition, WeaponId, applySpread, getWeaponDefinition } from './WeaponDefinitions';
+import { HeatState, addShotHeat, coolHeat, createHeatState } from './GunHeat';
 
 export interface WeaponStatus {
+  /** 현재 무장 (Q로 순환) */
+  weaponId: WeaponId;
+  weaponName: string;
+  weaponIndex: number;
+  weaponCount: number;
+  /** 탄창식이면 ammo/재장전, 벨트 급탄이면 heat/overheated (탄약 0/0) */
+  feed: 'magazine' | 'heat';
   isReady: boolean;
   cooldownRemaining: number;
   shotsFired: number;
@@ -10,78 +22,133 @@ export interface WeaponStatus {
   isReloading: boolean;
   reloadTimeRemaining: number;
   reloadDuration: number;
+  /** 0..1 */
+  heat: number;
+  overheated: boolean;
+}
+
+/** 발사 시 서버로 보낼 조준 레이 (산포 적용 후). 명중 판정은 서버가 한다 (player-hit로 결과 수신). */
+export type ShotCallback = (origin: THREE.Vector3, direction: THREE.Vector3, weaponId: WeaponId) => void;
+
+/** 기체에 장착된 무장 하나 - 탄창/재장전/열/연사 간격은 무장마다 따로 */
+interface WeaponSlot {
+  definition: WeaponDefinition;
+  ammo: number;
+  isReloading: boolean;
+  reloadStartTime: number;
+  lastShotTime: number;
+  heat: HeatState;
+}
+
+/** 탄도 모드에서 날아가는 탄 한 발 - 예광탄은 탄 위치를 그대로 따라간다 */
+interface BallisticRound {
+  state: RoundState;
+  tracer: VisualBullet;
 }
 
 export class WeaponSystem {
   private raycaster: THREE.Raycaster = new THREE.Raycaster();
-  private lastShotTime = 0;
-  private readonly shotCooldown = 100; // 0.5초 (1초에 2발)
-  private readonly maxShotRange = 1000; // 최대 사격 거리
+  // 기체 무장 (첫 번째가 주무장) - 탄약 시스템도 무장별
+  private slots: WeaponSlot[] = [];
+  private activeIndex = 0;
   private visualBullets: VisualBullet[] = [];
+  // 서버가 정하는 사격 판정 방식 (welcome capabilities.ballisticGun)
+  private gunMode: GunMode = 'hitscan';
+  private rounds: BallisticRound[] = [];
+  private readonly _roundStart = new THREE.Vector3();
   private muzzleFlash: THREE.Mesh | null = null;
   private shotsFired = 0;
-
-  // 탄약 시스템
-  private ammo = 100;
-  private readonly maxAmmo = 100;
-  private isReloading = false;
-  private reloadStartTime = 0;
-  private readonly reloadDuration = 3000; // 3초
   
   // 월드 스페이스 조준점은 CSS 크로스헤어로 대체 (사용 안 함)
   
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
-  private otherPlayers: Map<string, THREE.Group>;
-  private onHitCallback?: (targetId: string, damage: number, hitPoint: THREE.Vector3, distance: number) => void;
+  private onShotCallback?: ShotCallback;
   private readonly timeouts = new Set<number>();
   private readonly transientOverlays = new Set<HTMLElement>();
 
   constructor(
     scene: THREE.Scene,
     camera: THREE.PerspectiveCamera,
-    otherPlayers: Map<string, THREE.Group>,
-    onHitCallback?: (targetId: string, damage: number, hitPoint: THREE.Vector3, distance: number) => void
+    onShotCallback?: ShotCallback,
+    definition: AircraftDefinition = getAircraftDefinition(DEFAULT_AIRCRAFT_TYPE)
   ) {
     this.scene = scene;
     this.camera = camera;
-    this.otherPlayers = otherPlayers;
-    this.onHitCallback = onHitCallback;
+    this.onShotCallback = onShotCallback;
+    this.setDefinition(definition);
 
     // 화면 중앙 CSS 크로스헤어만 사용. 월드 링 조준점은 생성하지 않음.
   }
 
-  // ===== 내부 유틸: 타격 객체 → 플레이어 매핑 강화 =====
-  private getHitPlayerIdFromObject(object: THREE.Object3D): string | null {
-    for (const [playerId, playerRoot] of this.otherPlayers) {
-      let node: THREE.Object3D | null = object;
-      while (node) {
-        if (node === playerRoot) return playerId;
-        node = node.parent;
-      }
-    }
-    return null;
+  /** 기체를 바꾸면 새 무장으로 탄창을 채우고 주무장을 고른다 (진행 중이던 재장전은 취소). */
+  public setDefinition(definition: AircraftDefinition): void {
+    this.slots = definition.weapons.map((id) => {
+      const weapon = getWeaponDefinition(id);
+      return {
+        definition: weapon,
+        ammo: weapon.feed.kind === 'magazine' ? weapon.feed.magazine : 0,
+        isReloading: false,
+        reloadStartTime: 0,
+        lastShotTime: 0,
+        heat: createHeatState()
+      };
+    });
+    this.activeIndex = 0;
+  }
+
+  /** 다음 무장으로 (마지막 다음은 주무장). 무장마다 재장전은 따로 이어진다 */
+  public switchWeapon(): WeaponDefinition {
+    this.activeIndex = (this.activeIndex + 1) % this.slots.length;
+    const weapon = this.getActiveWeapon();
+    console.log(`🔀 Weapon: ${weapon.name}`);
+    return weapon;
+  }
+
+  public getActiveWeapon(): WeaponDefinition {
+    return this.slots[this.activeIndex].definition;
+  }
+
+  /** 히트스캔 ↔ 탄도. 이미 날아가는 탄은 그대로 둔다 */
+  public setGunMode(mode: GunMode): void {
+    this.gunMode = mode;
   }
 
-  public shoot(localPlane?: THREE.Group): boolean {
+  public getGunMode(): GunMode {
+    return this.gunMode;
+  }
+
+  /** @param planeVelocity 탄도 모드에서 탄이 물려받는 기체 속도 */
+  public shoot(localPlane?: THREE.Group, planeVelocity?: THREE.Vector3): boolean {
     console.log('shoot');
     const now = performance.now();
+    const slot = this.slots[this.activeIndex];
+    const weapon = slot.definition;
+    const { feed } = weapon;
 
-    // 재장전 중이면 발사 불가
-    if (this.isReloading) {
-      console.log('🚫 Cannot shoot: reloading in progress');
-      return false;
-    }
+    if (feed.kind === 'heat') {
+      // 과열되면 recoverAt까지 식을 때까지 발사 불가
+      if (coolHeat(slot.heat, feed, now).overheated) {
+        console.log('🚫 Cannot shoot: gun overheated');
+        return false;
+      }
+    } else {
+      // 재장전 중이면 발사 불가
+      if (slot.isReloading) {
+        console.log('🚫 Cannot shoot: reloading in progress');
+        return false;
+      }
 
-    // 탄약 체크
-    if (this.ammo <= 0) {
-      console.log('🚫 Cannot shoot: no ammo remaining');
-      return false;
+      // 탄약 체크
+      if (slot.ammo <= 0) {
+        console.log('🚫 Cannot shoot: no ammo remaining');
+        return false;
+      }
     }
 
-    // 연사 제한 체크 (1초에 2발)
-    if (now - this.lastShotTime < this.shotCooldown) {
-      console.log(`🚫 Shot cooldown: ${Math.round(this.shotCooldown - (now - this.lastShotTime))}ms remaining`);
+    // 연사 제한 체크
+    if (now - slot.lastShotTime < weapon.cooldownMs) {
+      console.log(`🚫 Shot cooldown: ${Math.round(weapon.cooldownMs - (now - slot.lastShotTime))}ms remaining`);
       return false;
     }
 
@@ -97,83 +164,85 @@ export class WeaponSystem {
     
     // 시각적 효과 생성 (레이캐스팅과 독립적)
     this.createMuzzleFlash(localPlane);
-    // 총알 시각 효과도 레이 방향과 일치시키기
+    // 총알 시각 효과도 레이 방향과 일치시키기 (산포를 먼저 적용해 서버로 보내는 방향과 같게)
     const startPos = this.camera.position.clone();
-    const dir = this.raycaster.ray.direction.clone();
-    this.createVisualBullet(startPos, dir);
-    
-    // 다른 플레이어들을 대상으로 raycasting
-    const targets: THREE.Object3D[] = [];
-    this.otherPlayers.forEach((player) => {
-      if (player) targets.push(player);
-    });
-    
-    const intersects = this.raycaster.intersectObjects(targets, true);
+    const dir = applySpread(this.raycaster.ray.direction.clone(), weapon.spread);
+    if (this.gunMode === 'ballistic') {
+      this.createRound(startPos, dir, planeVelocity ?? new THREE.Vector3(), weapon.range);
+    } else {
+      this.createVisualBullet(startPos, dir);
+    }
     
-    this.lastShotTime = now;
+    slot.lastShotTime = now;
     this.shotsFired++;
-    this.ammo--; // 탄약 소모
-    console.log(`🔫 Shooting from position: [${this.camera.position.x.toFixed(2)}, ${this.camera.position.y.toFixed(2)}, ${this.camera.position.z.toFixed(2)}] - Ammo: ${this.ammo}/${this.maxAmmo}`);
-    
-    if (intersects.length > 0) {
-      // 이름표(Sprite) 등은 제외하고 실제 메시만 타격 대상으로 인정
-      const firstValidHit = intersects.find(i => !(i.object instanceof THREE.Sprite));
-      if (!firstValidHit) {
-        console.log('💨 Shot hit non-target (sprite/nameplate) only');
-        return true;
-      }
-      const distance = firstValidHit.distance;
-      
-      if (distance <= this.maxShotRange) {
-        // 타겟이 된 플레이어 찾기 (부모 체인으로 안전 판별)
-        const targetPlayerId = this.getHitPlayerIdFromObject(firstValidHit.object);
-        if (targetPlayerId) {
-          console.log(`🎯 Hit target! Player ID: ${targetPlayerId}, Distance: ${distance.toFixed(2)}m`);
-          
-          // 콜백을 통해 히트 이벤트 전달
-          if (this.onHitCallback) {
-            this.onHitCallback(targetPlayerId, 10, firstValidHit.point, distance);
-          }
-          
-          // 시각적 피드백 (히트 마커)
-          this.showHitMarker(firstValidHit.point);
-          return true;
-        }
-      } else {
-        console.log(`🚫 Target too far: ${distance.toFixed(2)}m (max: ${this.maxShotRange}m)`);
-      }
+    if (feed.kind === 'heat') {
+      addShotHeat(slot.heat, feed, now); // 열 상승
     } else {
-      console.log(`💨 Shot missed - no targets in range`);
+      slot.ammo--; // 탄약 소모
     }
-    
+    const remaining = feed.kind === 'heat' ? `Heat: ${Math.round(slot.heat.heat * 100)}%` : `Ammo: ${slot.ammo}/${feed.magazine}`;
+    console.log(`🔫 Shooting ${weapon.id} from position: [${startPos.x.toFixed(2)}, ${startPos.y.toFixed(2)}, ${startPos.z.toFixed(2)}] - ${remaining}`);
+
+    // 명중 판정은 서버가 지연 보상으로 수행 - 결과는 player-hit → confirmHit()
+    this.onShotCallback?.(startPos, dir, weapon.id);
     return true;
   }
 
+  /** 서버가 확정한 명중 지점에 히트 마커를 표시한다. */
+  public confirmHit(point: THREE.Vector3): void {
+    this.showHitMarker(point);
+  }
+
+  /** 서버가 알려준 무장의 탄약 수로 맞춘다 (재장전 완료/재접속 시). 진행 중이던 재장전은 취소된다. */
+  public syncAmmo(weaponId: string, ammo: number): void {
+    const slot = this.slots.find((candidate) => candidate.definition.id === weaponId);
+    if (!slot || slot.definition.feed.kind !== 'magazine') {
+      return;
+    }
+    slot.ammo = Math.max(0, Math.min(slot.definition.feed.magazine, ammo));
+    slot.isReloading = false;
+  }
+
+  /** welcome의 무장별 탄약 - 기체에 없는 무장은 무시한다 */
+  public syncWeapons(weapons: Record<string, { ammo: number }>): void {
+    Object.entries(weapons).forEach(([weaponId, { ammo }]) => this.syncAmmo(weaponId, ammo));
+  }
+
+  /** 현재 무장을 재장전한다 (벨트 급탄 무장은 재장전 없이 식기를 기다린다) */
   public reload(): boolean {
-    if (this.isReloading) {
+    const slot = this.slots[this.activeIndex];
+    const { feed } = slot.definition;
+    if (feed.kind !== 'magazine') {
+      console.log('🚫 Belt-fed gun has no magazine to reload');
+      return false;
+    }
+
+    if (slot.isReloading) {
       console.log('🚫 Already reloading');
       return false;
     }
 
-    if (this.ammo >= this.maxAmmo) {
+    if (slot.ammo >= feed.magazine) {
       console.log('🚫 Ammo is full');
       return false;
     }
 
-    this.isReloading = true;
-    this.reloadStartTime = performance.now();
-    console.log(`🔄 Reloading... (${this.reloadDuration / 1000}s)`);
+    slot.isReloading = true;
+    slot.reloadStartTime = performance.now();
+    console.log(`🔄 Reloading ${slot.definition.id}... (${feed.reloadMs / 1000}s)`);
     return true;
   }
 
-  public update(deltaTime: number) {
-    // 재장전 상태 업데이트
-    if (this.isReloading) {
-      const now = performance.now();
-      if (now - this.reloadStartTime >= this.reloadDuration) {
-        this.ammo = this.maxAmmo;
-        this.isReloading = false;
-        console.log(`✅ Reload complete! Ammo: ${this.ammo}/${this.maxAmmo}`);
+  /** @param targets 탄도 모드에서 예광탄이 멈출 원격 기체 (명중 판정은 서버) */
+  public update(deltaTime: number, targets: CollisionBody[] = []) {
+    // 재장전 상태 업데이트 (전환해 둔 무장도 계속 재장전된다)
+    const now = performance.now();
+    for (const slot of this.slots) {
+      const { feed } = slot.definition;
+      if (feed.kind === 'magazine' && slot.isReloading && now - slot.reloadStartTime >= feed.reloadMs) {
+        slot.ammo = feed.magazine;
+        slot.isReloading = false;
+        console.log(`✅ Reload complete! ${slot.definition.id} ammo: ${slot.ammo}/${feed.magazine}`);
       }
     }
 
@@ -187,24 +256,82 @@ export class WeaponSystem {
       }
     }
 
+    this.updateRounds(deltaTime, targets);
+
     // 월드 링 조준점은 사용하지 않음
   }
 
+  private updateRounds(deltaTime: number, targets: CollisionBody[]) {
+    for (let i = this.rounds.length - 1; i >= 0; i--) {
+      const round = this.rounds[i];
+      this._roundStart.copy(round.state.position);
+      stepRound(round.state, deltaTime);
+
+      // 원격 기체는 프레임마다 보간 위치로 옮겨지므로 이번 스텝 동안 멈춰 있다고 보고 쓸어 본다
+      let impact: number | null = null;
+      for (const target of targets) {
+        const fraction = sweepRound(this._roundStart, round.state.position, target.position, target.position);
+        if (fraction !== null && (impact === null || fraction < impact)) {
+          impact = fraction;
+        }
+      }
+      if (impact !== null) {
+        round.state.position.lerpVectors(this._roundStart, round.state.position, impact);
+      }
+      round.tracer.moveTo(round.state.position);
+
+      if (impact !== null || isRoundSpent(round.state)) {
+        round.tracer.dispose();
+        this.rounds.splice(i, 1);
+      }
+    }
+  }
+
   public getStatus(): WeaponStatus {
     const now = performance.now();
-    const cooldownRemaining = Math.max(0, this.shotCooldown - (now - this.lastShotTime));
-    const reloadTimeRemaining = this.isReloading ?
-      Math.max(0, this.reloadDuration - (now - this.reloadStartTime)) : 0;
+    const slot = this.slots[this.activeIndex];
+    const weapon = slot.definition;
+    const { feed } = weapon;
+    const cooldownRemaining = Math.max(0, weapon.cooldownMs - (now - slot.lastShotTime));
+    const status = {
+      weaponId: weapon.id,
+      weaponName: weapon.name,
+      weaponIndex: this.activeIndex,
+      weaponCount: this.slots.length,
+      cooldownRemaining,
+      shotsFired: this.shotsFired
+    };
+
+    if (feed.kind === 'heat') {
+      const heat = coolHeat(slot.heat, feed, now);
+      return {
+        ...status,
+        feed: 'heat',
+        isReady: cooldownRemaining === 0 && !heat.overheated,
+        ammo: 0,
+        maxAmmo: 0,
+        isReloading: false,
+        reloadTimeRemaining: 0,
+        reloadDuration: 0,
+        heat: heat.heat,
+        overheated: heat.overheated
+      };
+    }
+
+    const reloadTimeRemaining = slot.isReloading ?
+      Math.max(0, feed.reloadMs - (now - slot.reloadStartTime)) : 0;
 
     return {
-      isReady: cooldownRemaining === 0 && this.ammo > 0 && !this.isReloading,
-      cooldownRemaining,
-      shotsFired: this.shotsFired,
-      ammo: this.ammo,
-      maxAmmo: this.maxAmmo,
-      isReloading: this.isReloading,
+      ...status,
+      feed: 'magazine',
+      isReady: cooldownRemaining === 0 && slot.ammo > 0 && !slot.isReloading,
+      ammo: slot.ammo,
+      maxAmmo: feed.magazine,
+      isReloading: slot.isReloading,
       reloadTimeRemaining,
-      reloadDuration: this.reloadDuration
+      reloadDuration: feed.reloadMs,
+      heat: 0,
+      overheated: false
     };
   }
 
@@ -266,6 +393,11 @@ export class WeaponSystem {
     this.visualBullets.push(bullet);
   }
 
+  private createRound(startPosition: THREE.Vector3, direction: THREE.Vector3, planeVelocity: THREE.Vector3, range: number) {
+    const state = launchRound(startPosition, direction, planeVelocity, range);
+    this.rounds.push({ state, tracer: new VisualBullet(startPosition, direction.clone(), this.scene) });
+  }
+
   private showHitMarker(position: THREE.Vector3) {
     const geometry = new THREE.SphereGeometry(0.5, 8, 8);
     const material = new THREE.MeshBasicMaterial({ color: 0xff0000 });
@@ -304,6 +436,8 @@ export class WeaponSystem {
 
     this.visualBullets.forEach((bullet) => bullet.dispose());
     this.visualBullets = [];
+    this.rounds.forEach((round) => round.tracer.dispose());
+    this.rounds = [];
   }
 
   private scheduleTimeout(callback: () => void, delayMs: number): void {
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { BinaryProtocol } from '../../server/network/BinaryProtocol.js';
+import {
+  DELTA_FIELDS,
+  PACKET_TYPES,
+  PlayerInputFlags,
+  decodePacket,
+  dequantizePlayer
+} from './BinaryProtocol';
+
+// 서버 인코더(server/network/BinaryProtocol.js)로 만든 바이트를 클라이언트 디코더로 읽는다 - 레이아웃이 어긋나면 여기서 깨진다
+
+const NO_INPUT: PlayerInputFlags = { forward: false, backward: false, left: false, right: false, up: false, down: false };
+
+/** 서버 GameState 플레이어 모양 (inputState에 roll 포함) */
+function serverPlayer(overrides: Record<string, unknown> = {}) {
+  return {
+    position: [10.5, -200.25, 3000],
+    rotation: [0, 0.5, 0, 0.75],
+    velocity: [-12.125, 0, 480],
+    inputState: { ...NO_INPUT, forward: true, left: true, roll: 0 },
+    ...overrides
+  };
+}
+
+describe('server encoder → client decoder', () => {
+  it('reads STATE_UPDATE with every player', () => {
+    const players = new Map([[1, serverPlayer()], [2, serverPlayer({ position: [0, 100, -50] })]]);
+    const packet = decodePacket(BinaryProtocol.createStateUpdateBuffer(players, 0x1234));
+
+    expect(packet?.type).toBe(PACKET_TYPES.STATE_UPDATE);
+    if (packet?.type !== PACKET_TYPES.STATE_UPDATE) return;
+    expect(packet.header.sequence).toBe(0x1234);
+    expect(packet.players).toEqual([
+      { id: 1, position: [10.5, -200.25, 3000], rotation: [0, 0.5, 0, 0.75], velocity: [-12.125, 0, 480], input: { ...NO_INPUT, forward: true, left: true } },
+      { id: 2, position: [0, 100, -50], rotation: [0, 0.5, 0, 0.75], velocity: [-12.125, 0, 480], input: { ...NO_INPUT, forward: true, left: true } }
+    ]);
+  });
+
+  it('reads PLAYER_JOINED and PLAYER_LEFT', () => {
+    const joined = decodePacket(BinaryProtocol.createPlayerJoinedBuffer(7, serverPlayer(), 3));
+    expect(joined?.type).toBe(PACKET_TYPES.PLAYER_JOINED);
+    if (joined?.type === PACKET_TYPES.PLAYER_JOINED) {
+      expect(joined.player.id).toBe(7);
+      expect(joined.player.position).toEqual([10.5, -200.25, 3000]);
+    }
+
+    const left = decodePacket(BinaryProtocol.createPlayerLeftBuffer(7, 4));
+    expect(left).toMatchObject({ type: PACKET_TYPES.PLAYER_LEFT, playerId: 7, header: { sequence: 4 } });
+  });
+
+  it('reads DELTA_UPDATE keyframes, changed fields and removals', () => {
+    const first = new Map([[1, BinaryProtocol.quantizePlayer(serverPlayer())], [2, BinaryProtocol.quantizePlayer(serverPlayer())]]);
+    const keyframe = decodePacket(BinaryProtocol.createDeltaUpdateBuffer(first, null, 10));
+    expect(keyframe?.type).toBe(PACKET_TYPES.DELTA_UPDATE);
+    if (keyframe?.type !== PACKET_TYPES.DELTA_UPDATE) return;
+    expect(keyframe.baseline).toBeNull();
+    expect(keyframe.records).toHaveLength(2);
+    expect(keyframe.records[0]).toMatchObject({ id: 1, mask: DELTA_FIELDS.POSITION | DELTA_FIELDS.ROTATION | DELTA_FIELDS.VELOCITY | DELTA_FIELDS.INPUT });
+    expect(dequantizePlayer(1, first.get(1)!).position).toEqual([10.5, -200.25, 3000]);
+
+    const second = new Map([[1, BinaryProtocol.quantizePlayer(serverPlayer({ position: [12, -200.25, 3000] }))]]);
+    const delta = decodePacket(BinaryProtocol.createDeltaUpdateBuffer(second, first, 11, 10));
+    expect(delta?.type).toBe(PACKET_TYPES.DELTA_UPDATE);
+    if (delta?.type !== PACKET_TYPES.DELTA_UPDATE) return;
+    expect(delta.baseline).toBe(10);
+    expect(delta.records).toEqual([
+      { id: 1, mask: DELTA_FIELDS.POSITION, position: [96, -1602, 24000] },
+      { id: 2, mask: DELTA_FIELDS.REMOVED }
+    ]);
+  });
+
+  it('reads INPUT', () => {
+    const input = {
+      position: [10.5, -200.25, 3000],
+      rotation: [0, 0.6, 0, 0.8],
+      speed: 312.5,
+      inputState: { ...NO_INPUT, up: true, roll: -0.5 }
+    };
+    const packet = decodePacket(BinaryProtocol.createInputBuffer(input, 9));
+    expect(packet?.type).toBe(PACKET_TYPES.INPUT);
+    if (packet?.type !== PACKET_TYPES.INPUT) return;
+    expect(packet.input.position).toEqual([10.5, -200.25, 3000]);
+    expect(packet.input.speed).toBe(312.5);
+    expect(packet.input.input).toEqual({ ...NO_INPUT, up: true });
+    expect(packet.input.roll).toBeCloseTo(-0.5, 2);
+    packet.input.rotation.forEach((component, i) => expect(component).toBeCloseTo(input.rotation[i], 2));
+  });
+});
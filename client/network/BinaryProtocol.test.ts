@@ -0,0 +1,285 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DELTA_FIELDS,
+  DELTA_FLAG_KEYFRAME,
+  HEADER_SIZE,
+  INPUT_FLAG_MOVEMENT,
+  INPUT_STATE_SIZE,
+  PACKET_TYPES,
+  PLAYER_STATE_SIZE,
+  POSITION_SCALE,
+  PlayerInputFlags,
+  PlayerRecord,
+  SNAPSHOT_ACK_FLAG_RESET,
+  SequenceTracker,
+  decodeHeader,
+  decodeInputFlags,
+  decodePacket,
+  decodeQuaternion,
+  dequantizePlayer,
+  encodeDeltaUpdate,
+  encodeInput,
+  encodeInputFlags,
+  encodePlayerJoined,
+  encodePlayerLeft,
+  encodeQuaternion,
+  encodeSnapshotAck,
+  encodeStateUpdate,
+  quantizePlayer,
+  sequenceDelta
+} from './BinaryProtocol';
+
+const NO_INPUT: PlayerInputFlags = { forward: false, backward: false, left: false, right: false, up: false, down: false };
+
+function normalize(q: number[]): number[] {
+  const length = Math.hypot(...q);
+  return q.map((component) => component / length);
+}
+
+/** q 와 -q 는 같은 회전이므로 |dot| 으로 비교한다 (0 = 동일) */
+function rotationError(a: number[], b: number[]): number {
+  return 1 - Math.abs(a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3]);
+}
+
+// float32로 정확히 표현되는 값만 써서 왕복 결과를 그대로 비교한다
+function player(id: number, overrides: Partial<PlayerRecord> = {}): PlayerRecord {
+  return {
+    id,
+    position: [10.5, -200.25, 3000],
+    rotation: [0, 0.5, 0, 0.75],
+    velocity: [-12.125, 0, 480],
+    input: { ...NO_INPUT, forward: true, left: true },
+    ...overrides
+  };
+}
+
+describe('header', () => {
+  it('round-trips sequence, type, unsigned timestamp and flags', () => {
+    const bytes = encodeStateUpdate({ sequence: 0xbeef, timestamp: 0xfffffffe, flags: 0x81 }, []);
+    expect(bytes.byteLength).toBe(HEADER_SIZE);
+    expect(decodeHeader(bytes)).toEqual({
+      sequence: 0xbeef,
+      type: PACKET_TYPES.STATE_UPDATE,
+      timestamp: 0xfffffffe,
+      flags: 0x81
+    });
+  });
+
+  it('wraps sequence numbers to 16 bits', () => {
+    const bytes = encodePlayerLeft({ sequence: 0x10001, timestamp: 0 }, 1);
+    expect(decodeHeader(bytes)?.sequence).toBe(1);
+  });
+
+  it('rejects short buffers and unknown packet types', () => {
+    expect(decodeHeader(new Uint8Array(HEADER_SIZE - 1))).toBeNull();
+
+    const bytes = encodePlayerLeft({ sequence: 1, timestamp: 0 }, 1);
+    bytes[2] = 0x7f;
+    expect(decodePacket(bytes)).toBeNull();
+  });
+});
+
+describe('input flags', () => {
+  it('matches the server bit layout', () => {
+    expect(encodeInputFlags({ ...NO_INPUT, forward: true, down: true })).toBe(0x21);
+    expect(decodeInputFlags(0x3f)).toEqual({ forward: true, backward: true, left: true, right: true, up: true, down: true });
+    expect(decodeInputFlags(encodeInputFlags(NO_INPUT))).toEqual(NO_INPUT);
+  });
+});
+
+describe('packets', () => {
+  it('round-trips STATE_UPDATE with several players', () => {
+    const players = [player(1), player(65535, { input: NO_INPUT }), player(42, { velocity: [0, 0, 0] })];
+    const bytes = encodeStateUpdate({ sequence: 7, timestamp: 123456 }, players);
+    expect(bytes.byteLength).toBe(HEADER_SIZE + players.length * PLAYER_STATE_SIZE);
+
+    const packet = decodePacket(bytes);
+    expect(packet?.type).toBe(PACKET_TYPES.STATE_UPDATE);
+    if (packet?.type !== PACKET_TYPES.STATE_UPDATE) return;
+    expect(packet.header.sequence).toBe(7);
+    expect(packet.header.timestamp).toBe(123456);
+    expect(packet.players).toEqual(players);
+  });
+
+  it('ignores a truncated trailing STATE_UPDATE record', () => {
+    const bytes = encodeStateUpdate({ sequence: 1, timestamp: 0 }, [player(1), player(2)]);
+    const packet = decodePacket(bytes.subarray(0, bytes.byteLength - 1));
+    if (packet?.type !== PACKET_TYPES.STATE_UPDATE) throw new Error('expected STATE_UPDATE');
+    expect(packet.players.map((p) => p.id)).toEqual([1]);
+  });
+
+  it('round-trips PLAYER_JOINED', () => {
+    const joined = player(9);
+    const packet = decodePacket(encodePlayerJoined({ sequence: 2, timestamp: 5 }, joined));
+    expect(packet).toEqual({
+      type: PACKET_TYPES.PLAYER_JOINED,
+      header: { sequence: 2, type: PACKET_TYPES.PLAYER_JOINED, timestamp: 5, flags: 0 },
+      player: joined
+    });
+  });
+
+  it('round-trips PLAYER_LEFT', () => {
+    const packet = decodePacket(encodePlayerLeft({ sequence: 3, timestamp: 5 }, 513));
+    if (packet?.type !== PACKET_TYPES.PLAYER_LEFT) throw new Error('expected PLAYER_LEFT');
+    expect(packet.playerId).toBe(513);
+  });
+
+  it('round-trips INPUT within quantization error', () => {
+    const input = {
+      position: [1234.56, -87.3, 3999.9],
+      rotation: normalize([0.1, -0.7, 0.2, 0.65]),
+      speed: 312.57,
+      input: { ...NO_INPUT, up: true, right: true },
+      roll: -0.5
+    };
+    const bytes = encodeInput({ sequence: 4, timestamp: 5, flags: INPUT_FLAG_MOVEMENT }, input);
+    expect(bytes.byteLength).toBe(HEADER_SIZE + INPUT_STATE_SIZE);
+
+    const packet = decodePacket(bytes);
+    if (packet?.type !== PACKET_TYPES.INPUT) throw new Error('expected INPUT');
+    expect(packet.header.flags).toBe(INPUT_FLAG_MOVEMENT);
+    packet.input.position.forEach((value, i) => {
+      expect(Math.abs(value - input.position[i])).toBeLessThanOrEqual(0.5 / POSITION_SCALE);
+    });
+    expect(rotationError(packet.input.rotation, input.rotation)).toBeLessThan(0.005);
+    expect(packet.input.speed).toBeCloseTo(input.speed, 1);
+    expect(packet.input.input).toEqual(input.input);
+    expect(packet.input.roll).toBeCloseTo(-0.5, 2);
+  });
+
+  it('clamps INPUT values outside the quantized range', () => {
+    const packet = decodePacket(encodeInput({ sequence: 1 }, {
+      position: [1e6, -1e6, Number.NaN],
+      rotation: [0, 0, 0, 1],
+      speed: -10,
+      input: NO_INPUT,
+      roll: 3
+    }));
+    if (packet?.type !== PACKET_TYPES.INPUT) throw new Error('expected INPUT');
+    expect(packet.input.position).toEqual([0x7fff / POSITION_SCALE, -0x8000 / POSITION_SCALE, 0]);
+    expect(packet.input.speed).toBe(0);
+    expect(packet.input.roll).toBe(1);
+  });
+
+  it('decodes from a Uint8Array view with a non-zero byte offset', () => {
+    const bytes = encodePlayerJoined({ sequence: 1, timestamp: 0 }, player(3));
+    const padded = new Uint8Array(bytes.byteLength + 5);
+    padded.set(bytes, 5);
+
+    const packet = decodePacket(padded.subarray(5));
+    if (packet?.type !== PACKET_TYPES.PLAYER_JOINED) throw new Error('expected PLAYER_JOINED');
+    expect(packet.player).toEqual(player(3));
+  });
+
+  it('rejects bodies shorter than the packet type requires', () => {
+    const joined = encodePlayerJoined({ sequence: 1, timestamp: 0 }, player(3));
+    expect(decodePacket(joined.subarray(0, joined.byteLength - 1))).toBeNull();
+
+    const left = encodePlayerLeft({ sequence: 1, timestamp: 0 }, 3);
+    expect(decodePacket(left.subarray(0, HEADER_SIZE + 1))).toBeNull();
+  });
+});
+
+describe('delta snapshots', () => {
+  it('round-trips SNAPSHOT_ACK flags', () => {
+    const packet = decodePacket(encodeSnapshotAck({ sequence: 77, flags: SNAPSHOT_ACK_FLAG_RESET }));
+    expect(packet?.type).toBe(PACKET_TYPES.SNAPSHOT_ACK);
+    expect(packet?.header).toMatchObject({ sequence: 77, flags: SNAPSHOT_ACK_FLAG_RESET });
+  });
+
+  it('round-trips DELTA_UPDATE records with partial masks', () => {
+    const full = quantizePlayer(player(1));
+    const records = [
+      { id: 1, mask: DELTA_FIELDS.POSITION | DELTA_FIELDS.ROTATION | DELTA_FIELDS.VELOCITY | DELTA_FIELDS.INPUT, ...full },
+      { id: 2, mask: DELTA_FIELDS.POSITION, position: [-8, 0, 32767] },
+      { id: 3, mask: DELTA_FIELDS.INPUT, input: 0x05 },
+      { id: 4, mask: DELTA_FIELDS.REMOVED }
+    ];
+    const bytes = encodeDeltaUpdate({ sequence: 12, timestamp: 0 }, 9, records);
+    expect(bytes.byteLength).toBe(HEADER_SIZE + 2 + 20 + 9 + 4 + 3);
+
+    const packet = decodePacket(bytes);
+    if (packet?.type !== PACKET_TYPES.DELTA_UPDATE) throw new Error('expected DELTA_UPDATE');
+    expect(packet.baseline).toBe(9);
+    expect(packet.records).toEqual(records);
+  });
+
+  it('marks packets without a baseline as keyframes', () => {
+    const packet = decodePacket(encodeDeltaUpdate({ sequence: 1, timestamp: 0 }, null, []));
+    if (packet?.type !== PACKET_TYPES.DELTA_UPDATE) throw new Error('expected DELTA_UPDATE');
+    expect(packet.header.flags & DELTA_FLAG_KEYFRAME).toBe(DELTA_FLAG_KEYFRAME);
+    expect(packet.baseline).toBeNull();
+  });
+
+  it('rejects a DELTA_UPDATE with a truncated record', () => {
+    const bytes = encodeDeltaUpdate({ sequence: 1, timestamp: 0 }, 0, [
+      { id: 1, mask: DELTA_FIELDS.POSITION, position: [1, 2, 3] }
+    ]);
+    expect(decodePacket(bytes.subarray(0, bytes.byteLength - 1))).toBeNull();
+  });
+
+  it('dequantizes back within one quantization step', () => {
+    const source = player(5, { position: [100.3, -20.01, 7.77], velocity: [250.2, -3.1, 0.04] });
+    const restored = dequantizePlayer(5, quantizePlayer(source));
+    restored.position.forEach((value, i) => {
+      expect(Math.abs(value - source.position[i])).toBeLessThanOrEqual(0.5 / POSITION_SCALE);
+    });
+    restored.velocity.forEach((value, i) => expect(value).toBeCloseTo(source.velocity[i], 1));
+    expect(restored.input).toEqual(source.input);
+  });
+});
+
+describe('smallest-three quaternion', () => {
+  it('round-trips rotations whose largest component is any axis or negative', () => {
+    const samples = [
+      [0, 0, 0, 1],
+      [1, 0, 0, 0],
+      normalize([0.3, 0.9, -0.1, 0.2]),
+      normalize([-0.2, 0.1, -0.95, 0.05]),
+      normalize([-0.5, -0.5, -0.5, -0.5])
+    ];
+    for (const rotation of samples) {
+      const decoded = decodeQuaternion(encodeQuaternion(rotation));
+      expect(Math.hypot(...decoded)).toBeCloseTo(1, 6);
+      expect(rotationError(decoded, rotation)).toBeLessThan(0.005);
+    }
+  });
+});
+
+describe('SequenceTracker', () => {
+  it('computes signed deltas across the 16-bit wrap', () => {
+    expect(sequenceDelta(1, 0xffff)).toBe(2);
+    expect(sequenceDelta(0xffff, 1)).toBe(-2);
+    expect(sequenceDelta(10, 10)).toBe(0);
+  });
+
+  it('classifies in-order, late, duplicate and stale packets', () => {
+    const tracker = new SequenceTracker(16);
+    expect(tracker.accept(100)).toBe('in-order');
+    expect(tracker.accept(103)).toBe('in-order');
+    expect(tracker.accept(101)).toBe('late');
+    expect(tracker.accept(101)).toBe('duplicate');
+    expect(tracker.accept(103)).toBe('duplicate');
+    expect(tracker.accept(103 - 16)).toBe('stale');
+
+    expect(tracker.getLatest()).toBe(103);
+    expect(tracker.getStats()).toEqual({ received: 3, late: 1, duplicates: 2, stale: 1, lost: 1 });
+  });
+
+  it('keeps ordering across the wrap', () => {
+    const tracker = new SequenceTracker();
+    expect(tracker.accept(0xfffe)).toBe('in-order');
+    expect(tracker.accept(0)).toBe('in-order');
+    expect(tracker.accept(0xffff)).toBe('late');
+    expect(tracker.accept(0xfffe)).toBe('duplicate');
+    expect(tracker.getLatest()).toBe(0);
+  });
+
+  it('starts over after reset', () => {
+    const tracker = new SequenceTracker();
+    tracker.accept(5);
+    tracker.reset();
+    expect(tracker.accept(5)).toBe('in-order');
+    expect(tracker.getStats().received).toBe(1);
+  });
+});
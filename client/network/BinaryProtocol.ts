@@ -0,0 +1,639 @@
+// client/network/BinaryProtocol.ts
+//
+// server/network/BinaryProtocol.js 와 같은 바이너리 레이아웃의 인코더/디코더.
+// DOM/WebSocket에 의존하지 않으므로 Node 테스트에서 그대로 불러 쓸 수 있다.
+//
+// 헤더 (8 bytes, big-endian)
+//   seq u16 | type u8 | timestamp u32 (서버 Date.now() % 0xFFFFFFFF) | flags u8
+// 플레이어 레코드 (46 bytes)
+//   id u16 | position 3×f32 | rotation 4×f32 | velocity 3×f32 | input u32
+// 입력 레코드 (14 bytes, INPUT 전용 - 클라이언트 → 서버, 양자화)
+//   position 3×i16 (1/8 unit) | rotation u32 (smallest-three) | speed u16 (1/50 unit/s)
+//   | input u8 | roll i8 (1/127)
+// SNAPSHOT_ACK (헤더만, 클라이언트 → 서버): seq = 복원에 성공한 마지막 DELTA_UPDATE
+// DELTA_UPDATE (서버 → 클라이언트): baseline seq u16 + 델타 레코드 반복
+//   id u16 | mask u8 | [position 3×i16] [rotation u32] [velocity 3×i16 (1/16 unit/s)] [input u8]
+
+export const PACKET_TYPES = {
+  STATE_UPDATE: 0x01,
+  PLAYER_JOINED: 0x02,
+  PLAYER_LEFT: 0x03,
+  INPUT: 0x04,
+  SNAPSHOT_ACK: 0x05,
+  DELTA_UPDATE: 0x06
+} as const;
+
+export type PacketType = typeof PACKET_TYPES[keyof typeof PACKET_TYPES];
+
+export const HEADER_SIZE = 8;
+export const PLAYER_STATE_SIZE = 46; // 2 + 12 + 16 + 12 + 4 bytes
+export const PLAYER_LEFT_SIZE = 2;
+export const INPUT_STATE_SIZE = 14; // 6 + 4 + 2 + 1 + 1 bytes
+
+/** INPUT 헤더 flags: 입력이 바뀌었거나 주기적 movement 이벤트 (서버가 다른 플레이어에게 중계) */
+export const INPUT_FLAG_MOVEMENT = 0x01;
+
+/** SNAPSHOT_ACK flags: 기준 스냅샷을 버리고 키프레임을 요청 (델타 모드 시작/복구) */
+export const SNAPSHOT_ACK_FLAG_RESET = 0x01;
+
+/** DELTA_UPDATE flags: 기준 없이 모든 필드를 담은 키프레임 */
+export const DELTA_FLAG_KEYFRAME = 0x01;
+
+/** 델타 레코드 mask 비트. REMOVED는 기준 스냅샷에 있던 플레이어가 빠졌다는 뜻 */
+export const DELTA_FIELDS = {
+  POSITION: 0x01,
+  ROTATION: 0x02,
+  VELOCITY: 0x04,
+  INPUT: 0x08,
+  REMOVED: 0x80
+} as const;
+
+export const DELTA_BASELINE_SIZE = 2;
+export const DELTA_RECORD_HEADER_SIZE = 3; // id u16 + mask u8
+
+// 양자화 단위. 위치는 ±4096 (월드 4000 안쪽), 속력은 0..1310 unit/s,
+// 속도 벡터는 성분당 ±2048 unit/s 범위를 덮는다
+export const POSITION_SCALE = 8;
+export const SPEED_SCALE = 50;
+export const VELOCITY_SCALE = 16;
+const QUATERNION_COMPONENT_BITS = 10;
+const QUATERNION_COMPONENT_MAX = (1 << QUATERNION_COMPONENT_BITS) - 1;
+const QUATERNION_COMPONENT_RANGE = Math.SQRT1_2; // 가장 큰 성분을 뺀 나머지는 ±1/√2 안에 있다
+
+/** 헤더 타임스탬프는 서버 시계의 하위 32비트 (ServerClock이 복원한다) */
+export const TIMESTAMP_MODULO = 0xffffffff;
+
+export interface PlayerInputFlags {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+}
+
+export interface PacketHeader {
+  sequence: number;
+  type: PacketType;
+  timestamp: number;
+  flags: number;
+}
+
+export interface PlayerRecord {
+  id: number;
+  position: number[]; // [x, y, z]
+  rotation: number[]; // [x, y, z, w] quaternion
+  velocity: number[]; // [x, y, z] units/s
+  input: PlayerInputFlags;
+}
+
+export interface InputRecord {
+  position: number[];
+  rotation: number[];
+  speed: number;
+  input: PlayerInputFlags;
+  roll: number; // -1 to 1
+}
+
+export interface StateUpdatePacket {
+  type: typeof PACKET_TYPES.STATE_UPDATE;
+  header: PacketHeader;
+  players: PlayerRecord[];
+}
+
+export interface PlayerJoinedPacket {
+  type: typeof PACKET_TYPES.PLAYER_JOINED;
+  header: PacketHeader;
+  player: PlayerRecord;
+}
+
+export interface PlayerLeftPacket {
+  type: typeof PACKET_TYPES.PLAYER_LEFT;
+  header: PacketHeader;
+  playerId: number;
+}
+
+export interface InputPacket {
+  type: typeof PACKET_TYPES.INPUT;
+  header: PacketHeader;
+  input: InputRecord;
+}
+
+/**
+ * 델타 스냅샷용 정수 표현. 서버는 이 값끼리 비교해 바뀐 필드만 보내고, 클라이언트는
+ * 같은 정수를 기준 스냅샷으로 보관하므로 누적 오차 없이 복원된다.
+ */
+export interface QuantizedPlayer {
+  position: number[]; // 3×i16, 1/POSITION_SCALE unit
+  rotation: number; // smallest-three u32
+  velocity: number[]; // 3×i16, 1/VELOCITY_SCALE unit/s
+  input: number; // 입력 비트
+}
+
+/** mask에 켜진 필드만 값이 있다 */
+export interface DeltaRecord {
+  id: number;
+  mask: number;
+  position?: number[];
+  rotation?: number;
+  velocity?: number[];
+  input?: number;
+}
+
+export interface SnapshotAckPacket {
+  type: typeof PACKET_TYPES.SNAPSHOT_ACK;
+  header: PacketHeader;
+}
+
+export interface DeltaUpdatePacket {
+  type: typeof PACKET_TYPES.DELTA_UPDATE;
+  header: PacketHeader;
+  /** 기준 스냅샷 시퀀스. 키프레임이면 null */
+  baseline: number | null;
+  records: DeltaRecord[];
+}
+
+export type DecodedPacket =
+  | StateUpdatePacket
+  | PlayerJoinedPacket
+  | PlayerLeftPacket
+  | InputPacket
+  | SnapshotAckPacket
+  | DeltaUpdatePacket;
+
+/** 인코딩 시 헤더에서 생략 가능한 필드. timestamp 기본값은 현재 시각 */
+export interface HeaderOptions {
+  sequence: number;
+  timestamp?: number;
+  flags?: number;
+}
+
+/** server/network/BinaryProtocol.encodeInputState 와 같은 비트 배치 */
+export function encodeInputFlags(input: PlayerInputFlags): number {
+  let encoded = 0;
+  if (input.forward) encoded |= 0x01;
+  if (input.backward) encoded |= 0x02;
+  if (input.left) encoded |= 0x04;
+  if (input.right) encoded |= 0x08;
+  if (input.up) encoded |= 0x10;
+  if (input.down) encoded |= 0x20;
+  return encoded;
+}
+
+export function decodeInputFlags(encoded: number): PlayerInputFlags {
+  return {
+    forward: (encoded & 0x01) !== 0,
+    backward: (encoded & 0x02) !== 0,
+    left: (encoded & 0x04) !== 0,
+    right: (encoded & 0x08) !== 0,
+    up: (encoded & 0x10) !== 0,
+    down: (encoded & 0x20) !== 0
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+export function encodeStateUpdate(header: HeaderOptions, players: PlayerRecord[]): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE + players.length * PLAYER_STATE_SIZE);
+  const view = new DataView(bytes.buffer);
+  writeHeader(view, PACKET_TYPES.STATE_UPDATE, header);
+
+  let offset = HEADER_SIZE;
+  for (const player of players) {
+    offset = writePlayerRecord(view, offset, player);
+  }
+  return bytes;
+}
+
+export function encodePlayerJoined(header: HeaderOptions, player: PlayerRecord): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE + PLAYER_STATE_SIZE);
+  const view = new DataView(bytes.buffer);
+  writeHeader(view, PACKET_TYPES.PLAYER_JOINED, header);
+  writePlayerRecord(view, HEADER_SIZE, player);
+  return bytes;
+}
+
+export function encodePlayerLeft(header: HeaderOptions, playerId: number): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE + PLAYER_LEFT_SIZE);
+  const view = new DataView(bytes.buffer);
+  writeHeader(view, PACKET_TYPES.PLAYER_LEFT, header);
+  view.setUint16(HEADER_SIZE, playerId & 0xffff);
+  return bytes;
+}
+
+export function encodeInput(header: HeaderOptions, input: InputRecord): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE + INPUT_STATE_SIZE);
+  const view = new DataView(bytes.buffer);
+  writeHeader(view, PACKET_TYPES.INPUT, header);
+
+  const offset = HEADER_SIZE;
+  for (let i = 0; i < 3; i++) {
+    view.setInt16(offset + i * 2, quantize(input.position[i] ?? 0, POSITION_SCALE, -0x8000, 0x7fff));
+  }
+  view.setUint32(offset + 6, encodeQuaternion(input.rotation));
+  view.setUint16(offset + 10, quantize(input.speed, SPEED_SCALE, 0, 0xffff));
+  view.setUint8(offset + 12, encodeInputFlags(input.input));
+  view.setInt8(offset + 13, quantize(input.roll, 127, -127, 127));
+  return bytes;
+}
+
+export function encodeSnapshotAck(header: HeaderOptions): Uint8Array {
+  const bytes = new Uint8Array(HEADER_SIZE);
+  writeHeader(new DataView(bytes.buffer), PACKET_TYPES.SNAPSHOT_ACK, header);
+  return bytes;
+}
+
+/** baseline이 null이면 키프레임 플래그를 켠다 */
+export function encodeDeltaUpdate(header: HeaderOptions, baseline: number | null, records: DeltaRecord[]): Uint8Array {
+  const size = records.reduce((total, record) => total + deltaRecordSize(record.mask), HEADER_SIZE + DELTA_BASELINE_SIZE);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  const flags = (header.flags ?? 0) | (baseline === null ? DELTA_FLAG_KEYFRAME : 0);
+  writeHeader(view, PACKET_TYPES.DELTA_UPDATE, { ...header, flags });
+  view.setUint16(HEADER_SIZE, (baseline ?? 0) & 0xffff);
+
+  let offset = HEADER_SIZE + DELTA_BASELINE_SIZE;
+  for (const record of records) {
+    view.setUint16(offset, record.id & 0xffff);
+    view.setUint8(offset + 2, record.mask);
+    offset += DELTA_RECORD_HEADER_SIZE;
+
+    if (record.mask & DELTA_FIELDS.POSITION) {
+      offset = writeInt16s(view, offset, record.position!);
+    }
+    if (record.mask & DELTA_FIELDS.ROTATION) {
+      view.setUint32(offset, record.rotation!);
+      offset += 4;
+    }
+    if (record.mask & DELTA_FIELDS.VELOCITY) {
+      offset = writeInt16s(view, offset, record.velocity!);
+    }
+    if (record.mask & DELTA_FIELDS.INPUT) {
+      view.setUint8(offset, record.input!);
+      offset += 1;
+    }
+  }
+  return bytes;
+}
+
+export function deltaRecordSize(mask: number): number {
+  let size = DELTA_RECORD_HEADER_SIZE;
+  if (mask & DELTA_FIELDS.POSITION) size += 6;
+  if (mask & DELTA_FIELDS.ROTATION) size += 4;
+  if (mask & DELTA_FIELDS.VELOCITY) size += 6;
+  if (mask & DELTA_FIELDS.INPUT) size += 1;
+  return size;
+}
+
+/** server/network/BinaryProtocol.quantizePlayer 와 같은 규칙 */
+export function quantizePlayer(player: Omit<PlayerRecord, 'id'>): QuantizedPlayer {
+  return {
+    position: [0, 1, 2].map((i) => quantize(player.position[i] ?? 0, POSITION_SCALE, -0x8000, 0x7fff)),
+    rotation: encodeQuaternion(player.rotation),
+    velocity: [0, 1, 2].map((i) => quantize(player.velocity[i] ?? 0, VELOCITY_SCALE, -0x8000, 0x7fff)),
+    input: encodeInputFlags(player.input)
+  };
+}
+
+export function dequantizePlayer(id: number, player: QuantizedPlayer): PlayerRecord {
+  return {
+    id,
+    position: player.position.map((value) => value / POSITION_SCALE),
+    rotation: decodeQuaternion(player.rotation),
+    velocity: player.velocity.map((value) => value / VELOCITY_SCALE),
+    input: decodeInputFlags(player.input)
+  };
+}
+
+/**
+ * Smallest-three 쿼터니언 압축: 절댓값이 가장 큰 성분의 인덱스(2비트)와
+ * 나머지 세 성분(각 10비트)만 보낸다. q 와 -q 는 같은 회전이므로 가장 큰
+ * 성분이 양수가 되도록 부호를 맞추고, 복원 시 단위 길이 조건으로 되살린다.
+ */
+export function encodeQuaternion(rotation: number[]): number {
+  let largest = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(rotation[i] ?? 0) > Math.abs(rotation[largest] ?? 0)) {
+      largest = i;
+    }
+  }
+
+  const sign = (rotation[largest] ?? 0) < 0 ? -1 : 1;
+  let packed = largest;
+  for (let i = 0; i < 4; i++) {
+    if (i === largest) continue;
+    const normalized = ((rotation[i] ?? 0) * sign / QUATERNION_COMPONENT_RANGE + 1) / 2;
+    packed = (packed << QUATERNION_COMPONENT_BITS) |
+      Math.round(clamp(normalized, 0, 1) * QUATERNION_COMPONENT_MAX);
+  }
+  return packed >>> 0;
+}
+
+export function decodeQuaternion(packed: number): number[] {
+  const largest = packed >>> (QUATERNION_COMPONENT_BITS * 3);
+  const rotation = [0, 0, 0, 0];
+
+  let shift = QUATERNION_COMPONENT_BITS * 2;
+  let sumSquares = 0;
+  for (let i = 0; i < 4; i++) {
+    if (i === largest) continue;
+    const raw = (packed >>> shift) & QUATERNION_COMPONENT_MAX;
+    const value = (raw / QUATERNION_COMPONENT_MAX * 2 - 1) * QUATERNION_COMPONENT_RANGE;
+    rotation[i] = value;
+    sumSquares += value * value;
+    shift -= QUATERNION_COMPONENT_BITS;
+  }
+  rotation[largest] = Math.sqrt(Math.max(0, 1 - sumSquares));
+
+  const length = Math.hypot(rotation[0], rotation[1], rotation[2], rotation[3]);
+  return rotation.map((component) => component / length);
+}
+
+function quantize(value: number, scale: number, min: number, max: number): number {
+  return clamp(Math.round((Number.isFinite(value) ? value : 0) * scale), min, max);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function writeHeader(view: DataView, type: PacketType, header: HeaderOptions): void {
+  view.setUint16(0, header.sequence & 0xffff);
+  view.setUint8(2, type);
+  view.setUint32(3, (header.timestamp ?? Date.now() % TIMESTAMP_MODULO) >>> 0);
+  view.setUint8(7, (header.flags ?? 0) & 0xff);
+}
+
+function writePlayerRecord(view: DataView, offset: number, player: PlayerRecord): number {
+  view.setUint16(offset, player.id & 0xffff);
+  offset = writeFloats(view, offset + 2, player.position, 3);
+  offset = writeFloats(view, offset, player.rotation, 4);
+  offset = writeFloats(view, offset, player.velocity, 3);
+  view.setUint32(offset, encodeInputFlags(player.input));
+  return offset + 4;
+}
+
+function writeInt16s(view: DataView, offset: number, values: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    view.setInt16(offset + i * 2, values[i] ?? 0);
+  }
+  return offset + 6;
+}
+
+function writeFloats(view: DataView, offset: number, values: number[], count: number): number {
+  for (let i = 0; i < count; i++) {
+    view.setFloat32(offset + i * 4, values[i] ?? 0);
+  }
+  return offset + count * 4;
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+/** 헤더만 읽는다. 8바이트보다 짧거나 알 수 없는 타입이면 null */
+export function decodeHeader(data: ArrayBuffer | Uint8Array): PacketHeader | null {
+  const view = toView(data);
+  if (view.byteLength < HEADER_SIZE) {
+    return null;
+  }
+
+  const type = view.getUint8(2);
+  if (!isPacketType(type)) {
+    return null;
+  }
+
+  return {
+    sequence: view.getUint16(0),
+    type,
+    timestamp: view.getUint32(3),
+    flags: view.getUint8(7)
+  };
+}
+
+/**
+ * 패킷 전체를 디코딩한다. 헤더가 잘못됐거나 본문이 타입별 최소 길이보다
+ * 짧으면 null. STATE_UPDATE 끝에 남는 불완전한 레코드는 무시한다.
+ */
+export function decodePacket(data: ArrayBuffer | Uint8Array): DecodedPacket | null {
+  const header = decodeHeader(data);
+  if (!header) {
+    return null;
+  }
+
+  const view = toView(data);
+  switch (header.type) {
+    case PACKET_TYPES.STATE_UPDATE: {
+      const players: PlayerRecord[] = [];
+      for (let offset = HEADER_SIZE; offset + PLAYER_STATE_SIZE <= view.byteLength; offset += PLAYER_STATE_SIZE) {
+        players.push(readPlayerRecord(view, offset));
+      }
+      return { type: header.type, header, players };
+    }
+    case PACKET_TYPES.PLAYER_JOINED:
+      if (view.byteLength < HEADER_SIZE + PLAYER_STATE_SIZE) {
+        return null;
+      }
+      return { type: header.type, header, player: readPlayerRecord(view, HEADER_SIZE) };
+    case PACKET_TYPES.PLAYER_LEFT:
+      if (view.byteLength < HEADER_SIZE + PLAYER_LEFT_SIZE) {
+        return null;
+      }
+      return { type: header.type, header, playerId: view.getUint16(HEADER_SIZE) };
+    case PACKET_TYPES.INPUT:
+      if (view.byteLength < HEADER_SIZE + INPUT_STATE_SIZE) {
+        return null;
+      }
+      return { type: header.type, header, input: readInputRecord(view, HEADER_SIZE) };
+    case PACKET_TYPES.SNAPSHOT_ACK:
+      return { type: header.type, header };
+    case PACKET_TYPES.DELTA_UPDATE:
+      return decodeDeltaUpdate(view, header);
+  }
+}
+
+/** 델타는 일부만 받으면 복원할 수 없으므로 레코드가 잘려 있으면 패킷 전체를 버린다 */
+function decodeDeltaUpdate(view: DataView, header: PacketHeader): DeltaUpdatePacket | null {
+  if (view.byteLength < HEADER_SIZE + DELTA_BASELINE_SIZE) {
+    return null;
+  }
+
+  const baseline = header.flags & DELTA_FLAG_KEYFRAME ? null : view.getUint16(HEADER_SIZE);
+  const records: DeltaRecord[] = [];
+  let offset = HEADER_SIZE + DELTA_BASELINE_SIZE;
+
+  while (offset < view.byteLength) {
+    if (offset + DELTA_RECORD_HEADER_SIZE > view.byteLength) {
+      return null;
+    }
+    const mask = view.getUint8(offset + 2);
+    if (offset + deltaRecordSize(mask) > view.byteLength) {
+      return null;
+    }
+
+    const record: DeltaRecord = { id: view.getUint16(offset), mask };
+    offset += DELTA_RECORD_HEADER_SIZE;
+
+    if (mask & DELTA_FIELDS.POSITION) {
+      record.position = readInt16s(view, offset);
+      offset += 6;
+    }
+    if (mask & DELTA_FIELDS.ROTATION) {
+      record.rotation = view.getUint32(offset);
+      offset += 4;
+    }
+    if (mask & DELTA_FIELDS.VELOCITY) {
+      record.velocity = readInt16s(view, offset);
+      offset += 6;
+    }
+    if (mask & DELTA_FIELDS.INPUT) {
+      record.input = view.getUint8(offset);
+      offset += 1;
+    }
+    records.push(record);
+  }
+
+  return { type: PACKET_TYPES.DELTA_UPDATE, header, baseline, records };
+}
+
+function readPlayerRecord(view: DataView, offset: number): PlayerRecord {
+  return {
+    id: view.getUint16(offset),
+    position: readFloats(view, offset + 2, 3),
+    rotation: readFloats(view, offset + 14, 4),
+    velocity: readFloats(view, offset + 30, 3),
+    input: decodeInputFlags(view.getUint32(offset + 42))
+  };
+}
+
+function readInputRecord(view: DataView, offset: number): InputRecord {
+  return {
+    position: [0, 2, 4].map((byte) => view.getInt16(offset + byte) / POSITION_SCALE),
+    rotation: decodeQuaternion(view.getUint32(offset + 6)),
+    speed: view.getUint16(offset + 10) / SPEED_SCALE,
+    input: decodeInputFlags(view.getUint8(offset + 12)),
+    roll: view.getInt8(offset + 13) / 127
+  };
+}
+
+function readInt16s(view: DataView, offset: number): number[] {
+  return [view.getInt16(offset), view.getInt16(offset + 2), view.getInt16(offset + 4)];
+}
+
+function readFloats(view: DataView, offset: number, count: number): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    values.push(view.getFloat32(offset + i * 4));
+  }
+  return values;
+}
+
+function toView(data: ArrayBuffer | Uint8Array): DataView {
+  return data instanceof Uint8Array
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+}
+
+function isPacketType(value: number): value is PacketType {
+  return value >= PACKET_TYPES.STATE_UPDATE && value <= PACKET_TYPES.DELTA_UPDATE;
+}
+
+// ---------------------------------------------------------------------------
+// Sequence tracking
+// ---------------------------------------------------------------------------
+
+/**
+ * in-order: 지금까지 본 것보다 새로운 패킷 (사이에 빠진 번호는 lost로 집계)
+ * late:     처음 보지만 더 새로운 패킷 뒤에 도착한 패킷
+ * duplicate: 이미 받은 번호
+ * stale:    추적 창(window)보다 오래된 패킷 - 중복 여부를 알 수 없으므로 버린다
+ */
+export type SequenceVerdict = 'in-order' | 'late' | 'duplicate' | 'stale';
+
+export interface SequenceStats {
+  received: number;
+  late: number;
+  duplicates: number;
+  stale: number;
+  lost: number;
+}
+
+/** 16비트 시퀀스 a - b 를 -32768..32767 범위로 (랩어라운드 고려) */
+export function sequenceDelta(a: number, b: number): number {
+  return ((((a - b) & 0xffff) + 0x8000) & 0xffff) - 0x8000;
+}
+
+/**
+ * 16비트 랩어라운드를 고려해 패킷 순서를 판정한다.
+ * 최근 `windowSize`개 번호를 기억해 중복과 늦게 도착한 패킷을 구분한다.
+ */
+export class SequenceTracker {
+  private latest: number | null = null;
+  private readonly seen = new Set<number>();
+  private stats: SequenceStats = { received: 0, late: 0, duplicates: 0, stale: 0, lost: 0 };
+
+  constructor(private readonly windowSize = 64) {}
+
+  public accept(sequence: number): SequenceVerdict {
+    sequence &= 0xffff;
+
+    if (this.latest === null) {
+      this.latest = sequence;
+      this.seen.add(sequence);
+      this.stats.received++;
+      return 'in-order';
+    }
+
+    const delta = sequenceDelta(sequence, this.latest);
+    if (delta > 0) {
+      this.stats.lost += delta - 1;
+      this.latest = sequence;
+      this.seen.add(sequence);
+      this.trim();
+      this.stats.received++;
+      return 'in-order';
+    }
+
+    if (-delta >= this.windowSize) {
+      this.stats.stale++;
+      return 'stale';
+    }
+
+    if (this.seen.has(sequence)) {
+      this.stats.duplicates++;
+      return 'duplicate';
+    }
+
+    // 앞서 lost로 집계했던 번호가 뒤늦게 도착
+    this.seen.add(sequence);
+    this.stats.lost = Math.max(0, this.stats.lost - 1);
+    this.stats.late++;
+    this.stats.received++;
+    return 'late';
+  }
+
+  public getLatest(): number | null {
+    return this.latest;
+  }
+
+  public getStats(): SequenceStats {
+    return { ...this.stats };
+  }
+
+  public reset(): void {
+    this.latest = null;
+    this.seen.clear();
+    this.stats = { received: 0, late: 0, duplicates: 0, stale: 0, lost: 0 };
+  }
+
+  private trim(): void {
+    const latest = this.latest!;
+    this.seen.forEach((sequence) => {
+      if (sequenceDelta(latest, sequence) >= this.windowSize) {
+        this.seen.delete(sequence);
+      }
+    });
+  }
+}
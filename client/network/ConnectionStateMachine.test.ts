@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConnectionStateChange,
+  ConnectionStateMachine,
+  DEFAULT_RECONNECT_POLICY,
+  ReconnectPolicy,
+  backoffDelay
+} from './ConnectionStateMachine';
+
+const POLICY: ReconnectPolicy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 250, jitter: 0.5 };
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to the cap', () => {
+    const noJitter = { ...POLICY, jitter: 0 };
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, noJitter))).toEqual([100, 200, 250, 250]);
+  });
+
+  it('spreads the delay across the jitter window', () => {
+    expect(backoffDelay(2, POLICY, () => 0)).toBe(100);
+    expect(backoffDelay(2, POLICY, () => 1)).toBe(200);
+  });
+});
+
+describe('ConnectionStateMachine', () => {
+  it('walks the happy path and notifies listeners', () => {
+    const machine = new ConnectionStateMachine(DEFAULT_RECONNECT_POLICY);
+    const changes: ConnectionStateChange[] = [];
+    machine.onChange((change) => changes.push(change));
+
+    expect(machine.transition('connecting')).toBe(true);
+    expect(machine.transition('authenticating')).toBe(true);
+    expect(machine.transition('connected')).toBe(true);
+
+    expect(changes.map((change) => `${change.from}→${change.to}`))
+      .toEqual(['idle→connecting', 'connecting→authenticating', 'authenticating→connected']);
+  });
+
+  it('ignores transitions the graph does not allow', () => {
+    const machine = new ConnectionStateMachine();
+    expect(machine.transition('connected')).toBe(false);
+    expect(machine.transition('reconnecting')).toBe(false);
+    expect(machine.getState()).toBe('idle');
+  });
+
+  it('backs off while reconnecting and fails once attempts run out', () => {
+    const machine = new ConnectionStateMachine(POLICY, () => 1);
+    machine.transition('connecting');
+    machine.transition('authenticating');
+    machine.transition('connected');
+
+    const attempts: number[] = [];
+    machine.onChange((change) => attempts.push(change.attempt));
+
+    expect(machine.scheduleReconnect('code 1006')).toBe(100);
+    expect(machine.getState()).toBe('reconnecting');
+    expect(machine.scheduleReconnect('code 1006')).toBe(200);
+    expect(machine.scheduleReconnect('code 1006')).toBe(250);
+    expect(machine.scheduleReconnect('code 1006')).toBeNull();
+    expect(machine.getState()).toBe('failed');
+    expect(attempts).toEqual([1, 2, 3, 3]);
+  });
+
+  it('resets the attempt counter once reconnected', () => {
+    const machine = new ConnectionStateMachine(POLICY, () => 1);
+    machine.transition('connecting');
+    machine.transition('authenticating');
+    machine.transition('connected');
+    machine.scheduleReconnect();
+    machine.scheduleReconnect();
+    machine.transition('authenticating');
+    machine.transition('connected');
+
+    expect(machine.getAttempt()).toBe(0);
+    expect(machine.scheduleReconnect()).toBe(100);
+  });
+
+  it('stops delivering to unsubscribed listeners', () => {
+    const machine = new ConnectionStateMachine();
+    let calls = 0;
+    const unsubscribe = machine.onChange(() => calls++);
+    machine.transition('connecting');
+    unsubscribe();
+    machine.transition('idle');
+    expect(calls).toBe(1);
+  });
+});
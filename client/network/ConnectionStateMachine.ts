@@ -0,0 +1,114 @@
+// client/network/ConnectionStateMachine.ts
+
+/**
+ * idle → connecting → authenticating(소켓 열림, welcome 대기) → connected
+ * connected/authenticating 중 비정상 종료 → reconnecting → authenticating → ...
+ * 첫 연결 실패, 서버 거부, 재시도 소진 → failed
+ */
+export type ConnectionState = 'idle' | 'connecting' | 'authenticating' | 'connected' | 'reconnecting' | 'failed';
+
+export interface ConnectionStateChange {
+  from: ConnectionState;
+  to: ConnectionState;
+  /** 재연결 시도 횟수 (reconnecting일 때 1부터) */
+  attempt: number;
+  reason?: string;
+}
+
+export type ConnectionStateListener = (change: ConnectionStateChange) => void;
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** 0이면 고정 지연, 0.5이면 지연의 50~100% 사이에서 무작위 */
+  jitter: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 10,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  jitter: 0.5
+};
+
+const TRANSITIONS: Record<ConnectionState, readonly ConnectionState[]> = {
+  idle: ['connecting'],
+  connecting: ['authenticating', 'failed', 'idle'],
+  authenticating: ['connected', 'reconnecting', 'failed', 'idle'],
+  connected: ['reconnecting', 'failed', 'idle'],
+  reconnecting: ['authenticating', 'failed', 'idle'],
+  failed: ['connecting', 'idle']
+};
+
+/** 지수 백오프 + 지터. 여러 클라이언트가 같은 순간에 몰려 재접속하지 않도록 흩뜨린다. */
+export function backoffDelay(attempt: number, policy: ReconnectPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1)));
+  return Math.round(exponential * (1 - policy.jitter + policy.jitter * random()));
+}
+
+export class ConnectionStateMachine {
+  private state: ConnectionState = 'idle';
+  private attempt = 0;
+  private readonly listeners = new Set<ConnectionStateListener>();
+
+  constructor(
+    private readonly policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  public getState(): ConnectionState {
+    return this.state;
+  }
+
+  public getAttempt(): number {
+    return this.attempt;
+  }
+
+  /** 구독 해제 함수를 돌려준다 */
+  public onChange(listener: ConnectionStateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** 허용되지 않은 전이는 무시하고 false를 돌려준다 */
+  public transition(to: ConnectionState, reason?: string): boolean {
+    const from = this.state;
+    if (from === to || !TRANSITIONS[from].includes(to)) {
+      return false;
+    }
+
+    this.state = to;
+    if (to === 'connected' || to === 'idle' || to === 'connecting') {
+      this.attempt = 0;
+    }
+
+    const change: ConnectionStateChange = { from, to, attempt: this.attempt, reason };
+    this.listeners.forEach((listener) => listener(change));
+    return true;
+  }
+
+  /**
+   * 다음 재연결까지의 지연을 정하고 reconnecting으로 전이한다.
+   * 시도가 소진되면 failed로 전이하고 null을 돌려준다.
+   */
+  public scheduleReconnect(reason?: string): number | null {
+    if (this.attempt >= this.policy.maxAttempts) {
+      this.transition('failed', '최대 재연결 시도 횟수를 초과했습니다.');
+      return null;
+    }
+
+    this.attempt++;
+    const delay = backoffDelay(this.attempt, this.policy, this.random);
+    if (this.state === 'reconnecting') {
+      // 재연결 도중 다시 실패 - 상태는 그대로, 시도 횟수만 알린다
+      const change: ConnectionStateChange = { from: this.state, to: this.state, attempt: this.attempt, reason };
+      this.listeners.forEach((listener) => listener(change));
+    } else if (!this.transition('reconnecting', reason)) {
+      this.attempt--;
+      return null;
+    }
+
+    return delay;
+  }
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { encodeClientMessage, parseServerMessage } from './Messages';
+
+const frame = (message: unknown) => JSON.stringify(message);
+
+describe('parseServerMessage', () => {
+  it('accepts well-formed messages and narrows them by type', () => {
+    const result = parseServerMessage(frame({
+      type: 'player-hit',
+      attackerId: 3,
+      victimId: 7,
+      damage: 25,
+      victimHealth: 75,
+      position: [1, 2, 3],
+      timestamp: 1000
+    }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok && result.message.type === 'player-hit') {
+      expect(result.message.victimHealth).toBe(75);
+    }
+  });
+
+  it('accepts catalog types the client previously ignored', () => {
+    expect(parseServerMessage(frame({
+      type: 'match-started', matchId: 1, startedAt: 5, liveAt: 15, endsAt: 315, timestamp: 5
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'match-ended',
+      matchId: 1,
+      reason: 'time-limit',
+      standings: [{ playerId: 42, username: 'ace', kills: 3, deaths: 1, score: 300 }],
+      timestamp: 315
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({ type: 'player-reload', playerId: 2, weaponId: 'cannon', reloadDuration: 2000 })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'match-stats',
+      stats: [
+        { user_id: 42, playerId: 42, username: 'ace', kills: 3, deaths: 1, score: 300, connected: true, ping: 38 },
+        { user_id: 43, playerId: 43, username: 'wing', kills: 0, deaths: 3, score: 0, connected: false, ping: null }
+      ]
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'global-rankings',
+      rankings: [{ user_id: 1, username: 'ace', total_kills: 4, total_deaths: 2, total_score: 400, kd_ratio: '2.00', rank: 11 }],
+      page: 1,
+      pageSize: 10,
+      total: 11
+    })).ok).toBe(true);
+  });
+
+  it('accepts hangar loadouts in welcome and player-joined', () => {
+    expect(parseServerMessage(frame({
+      type: 'welcome',
+      playerId: 7,
+      username: 'ace',
+      matchId: null,
+      loadouts: { 3: { airframe: 'stylized', livery: 'crimson' } }
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'player-joined',
+      id: 3,
+      state: { position: [0, 10, 0], rotation: [0, 0, 0, 1] },
+      loadout: { airframe: 'jet', livery: 'navy' }
+    })).ok).toBe(true);
+
+    expect(parseServerMessage(frame({
+      type: 'welcome',
+      playerId: 7,
+      username: 'ace',
+      matchId: null,
+      loadouts: { 3: { airframe: 'stylized' } }
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'welcome' });
+    expect(parseServerMessage(frame({
+      type: 'player-joined',
+      id: 3,
+      state: { position: [0, 10, 0], rotation: [0, 0, 0, 1] },
+      loadout: 'stylized'
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'player-joined' });
+  });
+
+  it('accepts the terrain seed in welcome and the cause of a death', () => {
+    expect(parseServerMessage(frame({
+      type: 'welcome', playerId: 7, username: 'ace', matchId: 3, terrain: { seed: 1234 }
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'player-death', victimId: 7, attackerId: 7, cause: 'crash', respawnPosition: [0, 10, 0]
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'player-death', victimId: 7, attackerId: 3, respawnPosition: [0, 10, 0]
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'player-death', victimId: 7, attackerId: 3, cause: 'collision', respawnPosition: [0, 10, 0]
+    })).ok).toBe(true);
+
+    expect(parseServerMessage(frame({
+      type: 'welcome', playerId: 7, username: 'ace', matchId: 3, terrain: { seed: '1234' }
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'welcome' });
+    expect(parseServerMessage(frame({
+      type: 'player-death', victimId: 7, attackerId: 7, cause: 'drowned', respawnPosition: [0, 10, 0]
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'player-death' });
+  });
+
+  it('accepts missile launches and detonations', () => {
+    expect(parseServerMessage(frame({
+      type: 'missile-launched', missileId: 12, ownerId: 3, targetId: 7,
+      position: [0, 500, 0], velocity: [0, 0, -480], timestamp: 1000
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'missile-launched', missileId: 13, ownerId: 3, targetId: null,
+      position: [0, 500, 0], velocity: [0, 0, -480], timestamp: 1000
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'missile-detonated', missileId: 12, position: [10, 480, -900], reason: 'proximity', victimId: 7
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({
+      type: 'player-death', victimId: 7, attackerId: 3, cause: 'missile', respawnPosition: [0, 10, 0]
+    })).ok).toBe(true);
+
+    expect(parseServerMessage(frame({
+      type: 'missile-launched', missileId: 12, ownerId: 3, position: [0, 500, 0], velocity: [0, 0, -480], timestamp: 1000
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'missile-launched' });
+    expect(parseServerMessage(frame({
+      type: 'missile-detonated', missileId: 12, position: [10, 480, -900], reason: 'timeout'
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'missile-detonated' });
+  });
+
+  it('accepts flares and decoyed missiles', () => {
+    expect(parseServerMessage(frame({
+      type: 'flare-dispensed', flareId: 4, playerId: 7, position: [0, 499, 2], velocity: [0, -40, -200], timestamp: 1000
+    })).ok).toBe(true);
+    expect(parseServerMessage(frame({ type: 'missile-decoyed', missileId: 12, flareId: 4 })).ok).toBe(true);
+
+    expect(parseServerMessage(frame({
+      type: 'flare-dispensed', flareId: 4, playerId: 7, position: [0, 499, 2], timestamp: 1000
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'flare-dispensed' });
+    expect(parseServerMessage(frame({ type: 'missile-decoyed', missileId: 12 })))
+      .toEqual({ ok: false, reason: 'malformed fields', type: 'missile-decoyed' });
+  });
+
+  it('reports why a frame was rejected', () => {
+    expect(parseServerMessage('{not json')).toEqual({ ok: false, reason: 'invalid JSON' });
+    expect(parseServerMessage(frame({ playerId: 1 }))).toEqual({ ok: false, reason: 'missing type' });
+    expect(parseServerMessage(frame({ type: 'all-players', players: {} })))
+      .toEqual({ ok: false, reason: 'unknown type', type: 'all-players' });
+    expect(parseServerMessage(frame({ type: 'player-hit', attackerId: 3, victimId: 7, damage: '25', victimHealth: 75 })))
+      .toEqual({ ok: false, reason: 'malformed fields', type: 'player-hit' });
+    expect(parseServerMessage(frame({ type: 'match-ended', matchId: 1, reason: 'aborted', standings: [], timestamp: 1 })))
+      .toEqual({ ok: false, reason: 'malformed fields', type: 'match-ended' });
+    expect(parseServerMessage(frame({
+      type: 'match-stats',
+      stats: [{ user_id: 42, username: 'ace', kills: 3, deaths: 1, score: 300 }]
+    }))).toEqual({ ok: false, reason: 'malformed fields', type: 'match-stats' });
+    expect(parseServerMessage(frame({ type: 'global-rankings', rankings: [] })))
+      .toEqual({ ok: false, reason: 'malformed fields', type: 'global-rankings' });
+    expect(parseServerMessage(frame({ type: 'state-ack', sequence: 4, position: [0, 0], rotation: [0, 0, 0, 1] })))
+      .toEqual({ ok: false, reason: 'malformed fields', type: 'state-ack' });
+  });
+
+  it('does not treat inherited object keys as message types', () => {
+    expect(parseServerMessage(frame({ type: 'toString' })).ok).toBe(false);
+  });
+});
+
+describe('encodeClientMessage', () => {
+  it('serializes the message as-is', () => {
+    expect(JSON.parse(encodeClientMessage({ type: 'get-rankings' }))).toEqual({ type: 'get-rankings' });
+  });
+});
@@ -0,0 +1,566 @@
+// client/network/Messages.ts
+import type { MovementEvent, PlayerInputFlags, PlayerState, ShotEvent } from './SocketManager';
+
+/**
+ * JSON 메시지 카탈로그 (양방향).
+ *
+ * `type`으로 구분되는 유니온이라 switch 안에서 필드 타입이 좁혀진다. 서버에서 온
+ * 메시지는 parseServerMessage가 형태를 검증한 뒤에만 이 타입으로 취급한다.
+ * 서버 쪽 정의는 server/README.md의 WebSocket API 절과 맞춘다.
+ */
+
+/** 서버는 playerId를 숫자로, player-joined/left의 id는 문자열로 보낸다 */
+export type PlayerIdLike = number | string;
+
+// ─── 서버 → 클라이언트 ───────────────────────────────────────────────
+
+/** 무장 하나의 탄약 (maxAmmo = 탄창) */
+export interface WeaponAmmo {
+  ammo: number;
+  maxAmmo: number;
+}
+
+export interface SessionStatePayload {
+  position: number[];
+  rotation: number[];
+  health: number;
+  maxHealth: number;
+  /** 탄창식 무장 id → 탄약 (벨트 급탄 무장은 빠진다) */
+  weapons: Record<string, WeaponAmmo>;
+  kills: number;
+  deaths: number;
+}
+
+/** 매치 시간표 (서버 시각, ms). liveAt 전은 워밍업, endsAt에 라운드가 끝난다. */
+export interface MatchSchedule {
+  matchId: number;
+  startedAt: number;
+  liveAt: number;
+  endsAt: number;
+}
+
+export interface MatchStanding {
+  playerId: number;
+  username: string;
+  kills: number;
+  deaths: number;
+  score: number;
+}
+
+export type MatchEndReason = 'time-limit' | 'empty' | 'shutdown';
+
+/** 격납고에서 고른 기체/도색 id (알 수 없는 값은 받는 쪽에서 기본값으로 바꾼다) */
+export interface PlayerLoadout {
+  airframe: string;
+  livery: string;
+}
+
+/** 지형 높이맵 시드 (TerrainHeightmap) - 매치마다 서버가 정한다 */
+export interface TerrainInfo {
+  seed: number;
+}
+
+/**
+ * shot = 다른 플레이어에게 격추, missile = 미사일 격추, crash = 지형 충돌 (attackerId가 자기 자신),
+ * collision = 공중 충돌 (attackerId는 부딪힌 상대, 킬로 치지 않는다)
+ */
+export type DeathCause = 'shot' | 'missile' | 'crash' | 'collision';
+
+/** spent = 연료/속도 소진, ground = 지형 충돌, proximity = 근접 신관 (victimId가 맞은 기체) */
+export type MissileDetonationReason = 'proximity' | 'ground' | 'spent';
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  playerId: number;
+  userId?: number;
+  username: string;
+  matchId: number | null;
+  /** ballisticGun = 서버가 기관포 탄을 직접 날려 판정한다 (GUN_MODE=ballistic, 없으면 히트스캔) */
+  capabilities?: { binaryInput?: boolean; deltaSnapshots?: boolean; ballisticGun?: boolean };
+  match?: MatchSchedule | null;
+  resumeToken?: string;
+  resumed?: boolean;
+  state?: SessionStatePayload;
+  /** 이미 접속해 있는 다른 플레이어들의 기체 (playerId → loadout) */
+  loadouts?: Record<string, PlayerLoadout>;
+  terrain?: TerrainInfo;
+}
+
+export interface ErrorMessage {
+  type: 'error' | 'player-id-conflict';
+  message: string;
+}
+
+export interface PlayerJoinedMessage {
+  type: 'player-joined';
+  id: PlayerIdLike;
+  username?: string;
+  state: PlayerState;
+  loadout?: PlayerLoadout;
+}
+
+export interface PlayerLeftMessage {
+  type: 'player-left';
+  id: PlayerIdLike;
+}
+
+export interface PlayerMovementMessage {
+  type: 'player-movement';
+  playerId: PlayerIdLike;
+  event: MovementEvent;
+  timestamp?: number;
+}
+
+export interface MovementAckMessage {
+  type: 'movement-ack';
+  timestamp: number;
+}
+
+export interface StateAckMessage {
+  type: 'state-ack';
+  sequence: number;
+  position: number[];
+  rotation: number[];
+  corrected?: boolean;
+}
+
+export interface PlayerHitMessage {
+  type: 'player-hit';
+  attackerId: PlayerIdLike;
+  victimId: PlayerIdLike;
+  damage: number;
+  victimHealth: number;
+  position?: number[];
+  distance?: number;
+  timestamp?: number;
+}
+
+export interface PlayerDeathMessage {
+  type: 'player-death';
+  victimId: PlayerIdLike;
+  attackerId: PlayerIdLike;
+  /** 없으면 shot (이전 서버) */
+  cause?: DeathCause;
+  respawnPosition: number[];
+  timestamp?: number;
+}
+
+export interface PlayerReloadMessage {
+  type: 'player-reload';
+  playerId: PlayerIdLike;
+  weaponId: string;
+  reloadDuration: number;
+  timestamp?: number;
+}
+
+export interface PlayerReloadCompleteMessage {
+  type: 'player-reload-complete';
+  playerId: PlayerIdLike;
+  weaponId: string;
+  ammo: number;
+  maxAmmo: number;
+  timestamp?: number;
+}
+
+export interface MatchStartedMessage extends MatchSchedule {
+  type: 'match-started';
+  timestamp: number;
+}
+
+export interface MatchEndedMessage {
+  type: 'match-ended';
+  matchId: number;
+  reason: MatchEndReason;
+  standings: MatchStanding[];
+  timestamp: number;
+}
+
+/** 스코어보드 한 줄 - 킬/데스/점수는 DB(match_players), 접속 여부와 핑은 서버 실시간 값 */
+export interface MatchPlayerStats {
+  user_id: number;
+  playerId: number;
+  username: string;
+  kills: number;
+  deaths: number;
+  score: number;
+  connected: boolean;
+  /** 서버가 잰 왕복 지연 (ms). 측정 전이거나 나간 플레이어면 null */
+  ping: number | null;
+}
+
+export interface MatchStatsMessage {
+  type: 'match-stats';
+  stats: MatchPlayerStats[];
+}
+
+export interface GlobalRanking {
+  user_id: number;
+  username: string;
+  total_kills: number;
+  total_deaths: number;
+  total_score: number;
+  /** Postgres ROUND(numeric) 결과라 문자열로 올 수 있다 */
+  kd_ratio: number | string;
+  /** 전체 순위 (1부터) */
+  rank: number;
+}
+
+/** get-rankings에 대한 한 페이지 - page는 0부터, total은 랭킹에 오른 전체 유저 수 */
+export interface RankingsPage {
+  rankings: GlobalRanking[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface GlobalRankingsMessage extends RankingsPage {
+  type: 'global-rankings';
+}
+
+/** 서버가 검증한 미사일 발사 - 모든 클라이언트가 같은 유도 모델로 그린다 */
+export interface MissileLaunchedMessage {
+  type: 'missile-launched';
+  missileId: number;
+  ownerId: PlayerIdLike;
+  /** 락온된 기체, 없으면 무유도 */
+  targetId: PlayerIdLike | null;
+  position: number[];
+  velocity: number[];
+  timestamp: number;
+}
+
+/** 서버가 판정한 미사일 폭발 - 명중이면 player-hit/player-death가 따로 온다 */
+export interface MissileDetonatedMessage {
+  type: 'missile-detonated';
+  missileId: number;
+  position: number[];
+  reason: MissileDetonationReason;
+  victimId?: PlayerIdLike | null;
+  timestamp?: number;
+}
+
+/** 서버가 검증한 플레어 사출 - 모든 클라이언트가 같은 탄도 모델로 그린다 */
+export interface FlareDispensedMessage {
+  type: 'flare-dispensed';
+  flareId: number;
+  playerId: PlayerIdLike;
+  position: number[];
+  velocity: number[];
+  timestamp: number;
+}
+
+/** 미사일 탐색기가 플레어에 속았다 - 이후 그 플레어를 쫓는다 */
+export interface MissileDecoyedMessage {
+  type: 'missile-decoyed';
+  missileId: number;
+  flareId: number;
+  timestamp?: number;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp: number;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | ErrorMessage
+  | PlayerJoinedMessage
+  | PlayerLeftMessage
+  | PlayerMovementMessage
+  | MovementAckMessage
+  | StateAckMessage
+  | PlayerHitMessage
+  | PlayerDeathMessage
+  | PlayerReloadMessage
+  | PlayerReloadCompleteMessage
+  | MatchStartedMessage
+  | MatchEndedMessage
+  | MatchStatsMessage
+  | GlobalRankingsMessage
+  | MissileLaunchedMessage
+  | MissileDetonatedMessage
+  | FlareDispensedMessage
+  | MissileDecoyedMessage
+  | PongMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+// ─── 클라이언트 → 서버 ───────────────────────────────────────────────
+
+export interface MovementMessage {
+  type: 'movement';
+  event: MovementEvent;
+  playerId: number | null;
+}
+
+export interface UpdateMessage {
+  type: 'update';
+  state: PlayerState;
+  sequence: number;
+  playerId: number | null;
+}
+
+export interface ShotMessage extends ShotEvent {
+  type: 'shot';
+}
+
+/** 현재 무장 재장전 - 없으면 서버가 주무장으로 본다 */
+export interface ReloadMessage {
+  type: 'reload';
+  weaponId?: string;
+}
+
+/** 지형 충돌 보고 - 서버가 자기 높이맵으로 확인한 뒤 player-death(cause: crash)를 보낸다 */
+export interface CrashMessage {
+  type: 'crash';
+  position: number[];
+}
+
+/** 공중 충돌 보고 - 서버가 두 기체 위치로 확인한 뒤 양쪽에 player-hit(필요하면 player-death)을 보낸다 */
+export interface CollisionMessage {
+  type: 'collision';
+  otherId: number;
+  position: number[];
+}
+
+/** 보조 무장 발사 요청 - 서버가 잔탄/쿨다운/위치를 확인한 뒤 missile-launched를 보낸다 */
+export interface MissileLaunchMessage {
+  type: 'missile-launch';
+  origin: number[];
+  direction: number[];
+  /** 락온이 확정된 기체 (없으면 null, 무유도) */
+  targetId: number | null;
+}
+
+/** 플레어 사출 요청 - 서버가 잔량/간격/위치를 확인한 뒤 flare-dispensed를 보낸다 */
+export interface FlareMessage {
+  type: 'flare';
+  position: number[];
+}
+
+export interface PingMessage {
+  type: 'ping';
+}
+
+export interface GetStatsMessage {
+  type: 'get-stats';
+}
+
+export interface GetRankingsMessage {
+  type: 'get-rankings';
+  page?: number;
+  pageSize?: number;
+}
+
+export type ClientMessage =
+  | MovementMessage
+  | UpdateMessage
+  | ShotMessage
+  | ReloadMessage
+  | CrashMessage
+  | CollisionMessage
+  | MissileLaunchMessage
+  | FlareMessage
+  | PingMessage
+  | GetStatsMessage
+  | GetRankingsMessage;
+
+export function encodeClientMessage(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
+
+// ─── 런타임 검증 ─────────────────────────────────────────────────────
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; reason: string; type?: string };
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isId = (value: unknown): value is PlayerIdLike => isNumber(value) || (isString(value) && value.length > 0);
+const isVector = (length: number) => (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every(isNumber);
+const isVector3 = isVector(3);
+const isQuaternion = isVector(4);
+const optional = (check: (value: unknown) => boolean) => (value: unknown) => value === undefined || check(value);
+const nullable = (check: (value: unknown) => boolean) => (value: unknown) => value === null || check(value);
+
+const isInputFlags = (value: unknown): value is PlayerInputFlags =>
+  isObject(value) && ['forward', 'backward', 'left', 'right', 'up', 'down'].every((key) => isBoolean(value[key]));
+
+const isPlayerState = (value: unknown): value is PlayerState =>
+  isObject(value) &&
+  isVector3(value.position) &&
+  isQuaternion(value.rotation) &&
+  optional(isVector3)(value.velocity);
+
+const isMovementEvent = (value: unknown): value is MovementEvent =>
+  isObject(value) &&
+  isObject(value.input) &&
+  isInputFlags(value.input) &&
+  isNumber(value.input.roll) &&
+  isVector3(value.position) &&
+  isQuaternion(value.rotation) &&
+  isNumber(value.speed);
+
+const isWeaponAmmo = (value: unknown): value is WeaponAmmo =>
+  isObject(value) && isNumber(value.ammo) && isNumber(value.maxAmmo);
+
+const isSessionState = (value: unknown): value is SessionStatePayload =>
+  isObject(value) &&
+  isVector3(value.position) &&
+  isQuaternion(value.rotation) &&
+  isObject(value.weapons) &&
+  Object.values(value.weapons).every(isWeaponAmmo) &&
+  ['health', 'maxHealth', 'kills', 'deaths'].every((key) => isNumber(value[key]));
+
+const isLoadout = (value: unknown): value is PlayerLoadout =>
+  isObject(value) && isString(value.airframe) && isString(value.livery);
+
+const isLoadoutMap = (value: unknown): value is Record<string, PlayerLoadout> =>
+  isObject(value) && Object.values(value).every(isLoadout);
+
+const isTerrainInfo = (value: unknown): value is TerrainInfo => isObject(value) && isNumber(value.seed);
+
+const DEATH_CAUSES: readonly string[] = ['shot', 'missile', 'crash', 'collision'];
+
+const MISSILE_DETONATION_REASONS: readonly string[] = ['proximity', 'ground', 'spent'];
+
+const isMatchSchedule = (value: unknown): value is MatchSchedule =>
+  isObject(value) && ['matchId', 'startedAt', 'liveAt', 'endsAt'].every((key) => isNumber(value[key]));
+
+const isMatchStanding = (value: unknown): value is MatchStanding =>
+  isObject(value) &&
+  isNumber(value.playerId) &&
+  isString(value.username) &&
+  isNumber(value.kills) &&
+  isNumber(value.deaths) &&
+  isNumber(value.score);
+
+const MATCH_END_REASONS: readonly string[] = ['time-limit', 'empty', 'shutdown'];
+
+const isMatchPlayerStats = (value: unknown): value is MatchPlayerStats =>
+  isObject(value) &&
+  isNumber(value.user_id) &&
+  isNumber(value.playerId) &&
+  isString(value.username) &&
+  isNumber(value.kills) &&
+  isNumber(value.deaths) &&
+  isNumber(value.score) &&
+  isBoolean(value.connected) &&
+  nullable(isNumber)(value.ping);
+
+const isGlobalRanking = (value: unknown): value is GlobalRanking =>
+  isObject(value) &&
+  isNumber(value.user_id) &&
+  isString(value.username) &&
+  isNumber(value.total_kills) &&
+  isNumber(value.total_deaths) &&
+  isNumber(value.total_score) &&
+  (isNumber(value.kd_ratio) || isString(value.kd_ratio)) &&
+  isNumber(value.rank);
+
+/** 타입별 필수 필드 검사. 새 서버 메시지를 추가하면 여기와 ServerMessage에 함께 넣는다. */
+const SERVER_MESSAGE_VALIDATORS: { [K in ServerMessageType]: (msg: Fields) => boolean } = {
+  'welcome': (msg) =>
+    isNumber(msg.playerId) &&
+    isString(msg.username) &&
+    (msg.matchId === null || isNumber(msg.matchId)) &&
+    optional(isObject)(msg.capabilities) &&
+    (msg.match === undefined || msg.match === null || isMatchSchedule(msg.match)) &&
+    optional(isString)(msg.resumeToken) &&
+    optional(isBoolean)(msg.resumed) &&
+    optional(isSessionState)(msg.state) &&
+    optional(isLoadoutMap)(msg.loadouts) &&
+    optional(isTerrainInfo)(msg.terrain),
+  'error': (msg) => isString(msg.message),
+  'player-id-conflict': (msg) => isString(msg.message),
+  'player-joined': (msg) => isId(msg.id) && isPlayerState(msg.state) && optional(isLoadout)(msg.loadout),
+  'player-left': (msg) => isId(msg.id),
+  'player-movement': (msg) => isId(msg.playerId) && isMovementEvent(msg.event) && optional(isNumber)(msg.timestamp),
+  'movement-ack': (msg) => isNumber(msg.timestamp),
+  'state-ack': (msg) =>
+    isNumber(msg.sequence) && isVector3(msg.position) && isQuaternion(msg.rotation) && optional(isBoolean)(msg.corrected),
+  'player-hit': (msg) =>
+    isId(msg.attackerId) &&
+    isId(msg.victimId) &&
+    isNumber(msg.damage) &&
+    isNumber(msg.victimHealth) &&
+    optional(isVector3)(msg.position),
+  'player-death': (msg) =>
+    isId(msg.victimId) &&
+    isId(msg.attackerId) &&
+    (msg.cause === undefined || (isString(msg.cause) && DEATH_CAUSES.includes(msg.cause))) &&
+    isVector3(msg.respawnPosition),
+  'player-reload': (msg) => isId(msg.playerId) && isString(msg.weaponId) && isNumber(msg.reloadDuration),
+  'player-reload-complete': (msg) =>
+    isId(msg.playerId) && isString(msg.weaponId) && isNumber(msg.ammo) && isNumber(msg.maxAmmo),
+  'match-started': (msg) => isMatchSchedule(msg) && isNumber(msg.timestamp),
+  'match-ended': (msg) =>
+    isNumber(msg.matchId) &&
+    isString(msg.reason) &&
+    MATCH_END_REASONS.includes(msg.reason) &&
+    Array.isArray(msg.standings) &&
+    msg.standings.every(isMatchStanding) &&
+    isNumber(msg.timestamp),
+  'match-stats': (msg) => Array.isArray(msg.stats) && msg.stats.every(isMatchPlayerStats),
+  'global-rankings': (msg) =>
+    Array.isArray(msg.rankings) &&
+    msg.rankings.every(isGlobalRanking) &&
+    ['page', 'pageSize', 'total'].every((key) => isNumber(msg[key])),
+  'missile-launched': (msg) =>
+    isNumber(msg.missileId) &&
+    isId(msg.ownerId) &&
+    nullable(isId)(msg.targetId) &&
+    isVector3(msg.position) &&
+    isVector3(msg.velocity) &&
+    isNumber(msg.timestamp),
+  'missile-detonated': (msg) =>
+    isNumber(msg.missileId) &&
+    isVector3(msg.position) &&
+    isString(msg.reason) &&
+    MISSILE_DETONATION_REASONS.includes(msg.reason) &&
+    optional(nullable(isId))(msg.victimId),
+  'flare-dispensed': (msg) =>
+    isNumber(msg.flareId) &&
+    isId(msg.playerId) &&
+    isVector3(msg.position) &&
+    isVector3(msg.velocity) &&
+    isNumber(msg.timestamp),
+  'missile-decoyed': (msg) => isNumber(msg.missileId) && isNumber(msg.flareId),
+  'pong': (msg) => isNumber(msg.timestamp)
+};
+
+function isServerMessageType(type: string): type is ServerMessageType {
+  return Object.prototype.hasOwnProperty.call(SERVER_MESSAGE_VALIDATORS, type);
+}
+
+/** JSON 텍스트 프레임을 검증해 ServerMessage로 돌려준다. 실패 사유는 그대로 노출한다. */
+export function parseServerMessage(data: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return { ok: false, reason: 'invalid JSON' };
+  }
+
+  if (!isObject(raw) || !isString(raw.type)) {
+    return { ok: false, reason: 'missing type' };
+  }
+
+  if (!isServerMessageType(raw.type)) {
+    return { ok: false, reason: 'unknown type', type: raw.type };
+  }
+
+  if (!SERVER_MESSAGE_VALIDATORS[raw.type](raw)) {
+    return { ok: false, reason: 'malformed fields', type: raw.type };
+  }
+
+  return { ok: true, message: raw as unknown as ServerMessage };
+}
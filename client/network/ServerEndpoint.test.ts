@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ServerEndpointError, normalizeServerUrl, resolveServerEndpoint } from './ServerEndpoint';
+
+describe('normalizeServerUrl', () => {
+  it('adds a scheme matching the page to bare host:port', () => {
+    expect(normalizeServerUrl('game.example.com:8080', false)).toBe('ws://game.example.com:8080/');
+    expect(normalizeServerUrl(' game.example.com ', true)).toBe('wss://game.example.com/');
+  });
+
+  it('maps http(s) to ws(s) and keeps the path', () => {
+    expect(normalizeServerUrl('http://localhost:8080', false)).toBe('ws://localhost:8080/');
+    expect(normalizeServerUrl('https://game.example.com/ws', false)).toBe('wss://game.example.com/ws');
+  });
+
+  it('upgrades ws to wss on https pages', () => {
+    expect(normalizeServerUrl('ws://game.example.com:8080', true)).toBe('wss://game.example.com:8080/');
+    expect(normalizeServerUrl('wss://game.example.com', false)).toBe('wss://game.example.com/');
+  });
+
+  it('rejects empty, malformed and non-websocket addresses', () => {
+    expect(() => normalizeServerUrl('   ', false)).toThrow(ServerEndpointError);
+    expect(() => normalizeServerUrl('ws://', false)).toThrow(ServerEndpointError);
+    expect(() => normalizeServerUrl('ftp://game.example.com', false)).toThrow(ServerEndpointError);
+  });
+});
+
+describe('resolveServerEndpoint', () => {
+  it('prefers the query parameter over env config over the default', () => {
+    expect(resolveServerEndpoint({ query: 'a.example:1', configured: 'wss://b.example', secure: false }))
+      .toEqual({ url: 'ws://a.example:1/', source: 'query' });
+    expect(resolveServerEndpoint({ query: null, configured: 'wss://b.example', secure: false }))
+      .toEqual({ url: 'wss://b.example/', source: 'env' });
+    expect(resolveServerEndpoint({ secure: true }))
+      .toEqual({ url: 'wss://localhost:8080/', source: 'default' });
+  });
+});
@@ -0,0 +1,95 @@
+// client/network/ServerEndpoint.ts
+
+export const DEFAULT_SERVER_URL = 'ws://localhost:8080';
+
+/** 서버 주소가 잘못됐거나 그 주소로 연결할 수 없을 때 */
+export class ServerEndpointError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'ServerEndpointError';
+  }
+}
+
+export type ServerEndpointSource = 'query' | 'env' | 'default';
+
+export interface ServerEndpoint {
+  url: string;
+  source: ServerEndpointSource;
+}
+
+export interface ServerEndpointSources {
+  /** `?server=` 쿼리 파라미터 */
+  query?: string | null;
+  /** VITE_WS_URL */
+  configured?: string;
+  /** 페이지가 https로 서비스되는지 여부 */
+  secure: boolean;
+}
+
+/**
+ * 사용자가 입력한 주소를 WebSocket URL로 정규화한다.
+ * `host:port`처럼 스킴이 없으면 ws(s)://를 붙이고, http(s)는 ws(s)로 바꾼다.
+ * https 페이지에서는 브라우저가 ws:// 혼합 콘텐츠를 막으므로 항상 wss://로 올린다.
+ */
+export function normalizeServerUrl(raw: string, secure: boolean): string {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    throw new ServerEndpointError('서버 주소를 입력해주세요.', raw);
+  }
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+    ? trimmed
+    : `${secure ? 'wss' : 'ws'}://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new ServerEndpointError(`잘못된 서버 주소입니다: ${trimmed}`, raw);
+  }
+
+  switch (url.protocol) {
+    case 'http:':
+    case 'ws:':
+      url.protocol = secure ? 'wss:' : 'ws:';
+      break;
+    case 'https:':
+    case 'wss:':
+      url.protocol = 'wss:';
+      break;
+    default:
+      throw new ServerEndpointError(`지원하지 않는 프로토콜입니다: ${url.protocol}`, raw);
+  }
+
+  if (!url.hostname) {
+    throw new ServerEndpointError(`잘못된 서버 주소입니다: ${trimmed}`, raw);
+  }
+
+  return url.toString();
+}
+
+/** 우선순위: `?server=` > VITE_WS_URL > 기본값(localhost:8080) */
+export function resolveServerEndpoint(sources: ServerEndpointSources): ServerEndpoint {
+  if (sources.query) {
+    return { url: normalizeServerUrl(sources.query, sources.secure), source: 'query' };
+  }
+  if (sources.configured) {
+    return { url: normalizeServerUrl(sources.configured, sources.secure), source: 'env' };
+  }
+  return { url: normalizeServerUrl(DEFAULT_SERVER_URL, sources.secure), source: 'default' };
+}
+
+/** 현재 페이지와 Vite 환경 변수에서 서버 주소 후보를 읽는다 */
+export function readServerEndpointSources(): ServerEndpointSources {
+  return {
+    query: new URLSearchParams(window.location.search).get('server'),
+    configured: import.meta.env.VITE_WS_URL,
+    secure: window.location.protocol === 'https:'
+  };
+}
+
+/** 서버 선택 목록: VITE_WS_URLS (쉼표 구분) */
+export function readServerPresets(): string[] {
+  const raw = import.meta.env.VITE_WS_URLS ?? '';
+  return raw.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DELTA_FIELDS,
+  DeltaRecord,
+  DeltaUpdatePacket,
+  PACKET_TYPES,
+  QuantizedPlayer
+} from './BinaryProtocol';
+import { DeltaSnapshotDecoder } from './SnapshotDelta';
+
+const ALL = DELTA_FIELDS.POSITION | DELTA_FIELDS.ROTATION | DELTA_FIELDS.VELOCITY | DELTA_FIELDS.INPUT;
+
+const IDENTITY = (0xc0000000 | (512 << 20) | (512 << 10) | 512) >>> 0; // w가 가장 큰 성분, 나머지 ≈ 0
+
+function quantized(x: number): QuantizedPlayer {
+  return { position: [x, 0, 0], rotation: IDENTITY, velocity: [0, 0, 16], input: 0x01 };
+}
+
+function delta(sequence: number, baseline: number | null, records: DeltaRecord[]): DeltaUpdatePacket {
+  return {
+    type: PACKET_TYPES.DELTA_UPDATE,
+    header: { sequence, type: PACKET_TYPES.DELTA_UPDATE, timestamp: 0, flags: 0 },
+    baseline,
+    records
+  };
+}
+
+describe('DeltaSnapshotDecoder', () => {
+  it('applies deltas on top of an acked keyframe', () => {
+    const decoder = new DeltaSnapshotDecoder();
+    decoder.decode(delta(1, null, [
+      { id: 1, mask: ALL, ...quantized(8) },
+      { id: 2, mask: ALL, ...quantized(16) }
+    ]));
+
+    const players = decoder.decode(delta(2, 1, [
+      { id: 1, mask: DELTA_FIELDS.POSITION, position: [24, 0, 0] },
+      { id: 2, mask: DELTA_FIELDS.REMOVED },
+      { id: 3, mask: ALL, ...quantized(40) }
+    ]));
+
+    expect(players?.map((p) => [p.id, p.position[0]])).toEqual([[1, 3], [3, 5]]);
+    expect(players?.[0].velocity).toEqual([0, 0, 1]);
+    expect(players?.[0].input.forward).toBe(true);
+  });
+
+  it('keeps unchanged players from the baseline', () => {
+    const decoder = new DeltaSnapshotDecoder();
+    decoder.decode(delta(1, null, [{ id: 1, mask: ALL, ...quantized(8) }]));
+    const players = decoder.decode(delta(2, 1, []));
+    expect(players?.map((p) => p.id)).toEqual([1]);
+  });
+
+  it('decodes against any remembered baseline, not just the newest', () => {
+    const decoder = new DeltaSnapshotDecoder();
+    decoder.decode(delta(1, null, [{ id: 1, mask: ALL, ...quantized(8) }]));
+    decoder.decode(delta(2, 1, [{ id: 1, mask: DELTA_FIELDS.POSITION, position: [16, 0, 0] }]));
+
+    const players = decoder.decode(delta(3, 1, [{ id: 1, mask: DELTA_FIELDS.INPUT, input: 0 }]));
+    expect(players?.[0].position[0]).toBe(1);
+    expect(players?.[0].input.forward).toBe(false);
+  });
+
+  it('returns null when the baseline is unknown or a new player is incomplete', () => {
+    const decoder = new DeltaSnapshotDecoder(2);
+    expect(decoder.decode(delta(5, 4, []))).toBeNull();
+    expect(decoder.decode(delta(6, null, [{ id: 1, mask: DELTA_FIELDS.POSITION, position: [0, 0, 0] }]))).toBeNull();
+
+    decoder.decode(delta(7, null, []));
+    decoder.decode(delta(8, 7, []));
+    decoder.decode(delta(9, 8, []));
+    expect(decoder.decode(delta(10, 7, []))).toBeNull(); // 이력에서 밀려남
+  });
+});
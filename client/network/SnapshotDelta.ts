@@ -0,0 +1,80 @@
+// client/network/SnapshotDelta.ts
+import {
+  DELTA_FIELDS,
+  DeltaUpdatePacket,
+  PlayerRecord,
+  QuantizedPlayer,
+  dequantizePlayer
+} from './BinaryProtocol';
+
+type QuantizedSnapshot = Map<number, QuantizedPlayer>;
+
+const ALL_FIELDS = DELTA_FIELDS.POSITION | DELTA_FIELDS.ROTATION | DELTA_FIELDS.VELOCITY | DELTA_FIELDS.INPUT;
+
+/**
+ * DELTA_UPDATE 패킷을 기준 스냅샷에 적용해 전체 플레이어 상태로 복원한다.
+ *
+ * 복원 결과는 양자화된 정수 그대로 시퀀스별로 보관한다. 서버도 같은 정수를
+ * 기준으로 바뀐 필드를 고르므로, 클라이언트가 ack한 스냅샷과 서버의 기준이
+ * 비트 단위로 일치하고 델타를 거듭 적용해도 오차가 쌓이지 않는다.
+ */
+export class DeltaSnapshotDecoder {
+  private readonly history = new Map<number, QuantizedSnapshot>();
+
+  /** 서버 기준 이력(기본 32틱)보다 넉넉하게 보관한다 */
+  constructor(private readonly historySize = 64) {}
+
+  /**
+   * 복원된 전체 플레이어 목록을 돌려준다. 기준 스냅샷을 갖고 있지 않거나
+   * 새 플레이어의 필드가 빠져 있으면 null - 호출 측은 키프레임을 다시 요청해야 한다.
+   */
+  public decode(packet: DeltaUpdatePacket): PlayerRecord[] | null {
+    let snapshot: QuantizedSnapshot;
+    if (packet.baseline === null) {
+      snapshot = new Map();
+    } else {
+      const baseline = this.history.get(packet.baseline);
+      if (!baseline) {
+        return null;
+      }
+      snapshot = new Map(baseline);
+    }
+
+    for (const record of packet.records) {
+      if (record.mask & DELTA_FIELDS.REMOVED) {
+        snapshot.delete(record.id);
+        continue;
+      }
+
+      const previous = snapshot.get(record.id);
+      if (!previous && (record.mask & ALL_FIELDS) !== ALL_FIELDS) {
+        return null; // 기준에 없던 플레이어는 모든 필드가 와야 한다
+      }
+
+      snapshot.set(record.id, {
+        position: record.position ?? previous!.position,
+        rotation: record.rotation ?? previous!.rotation,
+        velocity: record.velocity ?? previous!.velocity,
+        input: record.input ?? previous!.input
+      });
+    }
+
+    this.remember(packet.header.sequence, snapshot);
+    return Array.from(snapshot, ([id, player]) => dequantizePlayer(id, player));
+  }
+
+  public reset(): void {
+    this.history.clear();
+  }
+
+  private remember(sequence: number, snapshot: QuantizedSnapshot): void {
+    // 16비트 시퀀스가 한 바퀴 돌아 같은 키가 오면 삽입 순서를 갱신하기 위해 먼저 지운다
+    this.history.delete(sequence);
+    this.history.set(sequence, snapshot);
+
+    while (this.history.size > this.historySize) {
+      const oldest = this.history.keys().next().value as number;
+      this.history.delete(oldest);
+    }
+  }
+}
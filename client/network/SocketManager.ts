@@ -1,8 +1,46 @@
 // client/network/SocketManager.ts
+import {
+  DecodedPacket,
+  INPUT_FLAG_MOVEMENT,
+  InputRecord,
+  PACKET_TYPES,
+  PlayerInputFlags,
+  PlayerRecord,
+  SNAPSHOT_ACK_FLAG_RESET,
+  SequenceTracker,
+  decodePacket,
+  encodeInput,
+  encodeSnapshotAck,
+  sequenceDelta
+} from './BinaryProtocol';
+import { ConnectionState, ConnectionStateChange, ConnectionStateMachine } from './ConnectionStateMachine';
+import {
+  ClientMessage,
+  DeathCause,
+  MatchEndReason,
+  MatchPlayerStats,
+  MatchSchedule,
+  MatchStanding,
+  MissileDetonationReason,
+  PlayerLoadout,
+  RankingsPage,
+  ServerMessage,
+  TerrainInfo,
+  WeaponAmmo,
+  encodeClientMessage,
+  parseServerMessage
+} from './Messages';
+import { DEFAULT_SERVER_URL } from './ServerEndpoint';
+import { DeltaSnapshotDecoder } from './SnapshotDelta';
+import { TypedEmitter } from './TypedEmitter';
+
+export type { PlayerInputFlags } from './BinaryProtocol';
 
 export interface PlayerState {
   position: number[]; // [x, y, z]
   rotation: number[]; // [x, y, z, w] quaternion
+  velocity?: number[]; // [x, y, z] units/s (바이너리 STATE_UPDATE에만 포함)
+  input?: PlayerInputFlags; // 마지막으로 알려진 입력 상태
 }
 
 export interface MovementEvent {
@@ -21,85 +59,225 @@ export interface MovementEvent {
   speed: number;
 }
 
-export type PlayerUpdateCallback = (id: string, state: PlayerState) => void;
-export type PlayerLeaveCallback = (id: string) => void;
-export type PlayerMovementCallback = (id: string, event: MovementEvent) => void;
-export type PlayerHitCallback = (attackerId: string, victimId: string, damage: number, victimHealth: number) => void;
-export type PlayerDeathCallback = (victimId: string, attackerId: string, respawnPosition: number[]) => void;
-export type DisconnectCallback = (info: { code: number; reason: string; wasClean: boolean }) => void;
+/** Server acknowledgement of the last processed local state update (client prediction). */
+export interface StateAck {
+  sequence: number;
+  position: number[];
+  rotation: number[];
+  corrected: boolean;
+}
+
+/** 사격 요청. 명중 판정은 서버가 clientTime 시점으로 되감아 직접 한다. */
+export interface ShotEvent {
+  weaponId: string; // 쏜 무장 (WeaponDefinitions id)
+  origin: number[]; // [x, y, z]
+  direction: number[]; // [x, y, z] 단위 벡터
+  clientTime: number; // 발사 순간 원격 플레이어를 렌더링하던 서버 시각 (ms)
+  snapshotSequence: number | null; // 마지막으로 받은 스냅샷 시퀀스
+}
+
+/** welcome에 실려 오는 서버 기준 내 상태. 재접속이면 resumed=true로 이전 값을 이어받는다. */
+export interface SessionState {
+  resumed: boolean;
+  position: number[];
+  rotation: number[];
+  health: number;
+  maxHealth: number;
+  weapons: Record<string, WeaponAmmo>;
+  kills: number;
+  deaths: number;
+}
+
+export interface PlayerHit {
+  attackerId: string;
+  victimId: string;
+  damage: number;
+  victimHealth: number;
+  /** 서버가 판정한 명중 지점 */
+  position?: number[];
+}
+
+export interface PlayerDeath {
+  victimId: string;
+  attackerId: string;
+  cause: DeathCause;
+  respawnPosition: number[];
+}
+
+export interface MissileLaunched {
+  missileId: string;
+  ownerId: string;
+  targetId: string | null;
+  position: number[];
+  velocity: number[];
+  serverTime: number;
+}
+
+export interface MissileDetonated {
+  missileId: string;
+  position: number[];
+  reason: MissileDetonationReason;
+  victimId: string | null;
+}
+
+export interface FlareDispensed {
+  flareId: string;
+  playerId: string;
+  position: number[];
+  velocity: number[];
+  serverTime: number;
+}
+
+export interface DisconnectInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+/**
+ * SocketManager.events 로 내보내는 이벤트. `serverTime`은 메시지에 서버 타임스탬프가 있을 때만 채운다.
+ * 서버 JSON 메시지는 모두 여기 중 하나로 전달되거나(movement-ack/pong처럼) 내부에서 소비된다.
+ */
+export interface SocketEvents {
+  'player-joined': { id: string; state: PlayerState; username?: string; loadout?: PlayerLoadout; serverTime?: number };
+  /** welcome에 실린, 이미 접속해 있던 플레이어들의 기체 (all-players보다 먼저 온다) */
+  'loadouts': Record<string, PlayerLoadout>;
+  /** welcome에 실린 이번 매치의 지형 시드 */
+  'terrain': TerrainInfo;
+  /** welcome capabilities로 정해지는 기관포 판정 방식 (연결할 때마다 다시 알린다) */
+  'gun-mode': { ballistic: boolean };
+  'player-update': { id: string; state: PlayerState; serverTime?: number };
+  'player-left': { id: string };
+  /** welcome 이후 첫 스냅샷 (자기 자신 제외) */
+  'all-players': Record<string, PlayerState>;
+  'player-movement': { id: string; event: MovementEvent; serverTime?: number };
+  'player-hit': PlayerHit;
+  'player-death': PlayerDeath;
+  'player-reload': { id: string; weaponId: string; reloadDuration: number };
+  'missile-launched': MissileLaunched;
+  'missile-detonated': MissileDetonated;
+  'flare-dispensed': FlareDispensed;
+  'missile-decoyed': { missileId: string; flareId: string };
+  'player-reload-complete': { id: string; weaponId: string; ammo: number; maxAmmo: number };
+  /** match-started 또는 welcome(진행 중인 매치에 입장)에 실린 시간표 */
+  'match-started': MatchSchedule;
+  'match-ended': { matchId: number; reason: MatchEndReason; standings: MatchStanding[]; serverTime: number };
+  'match-stats': MatchPlayerStats[];
+  'global-rankings': RankingsPage;
+  'state-ack': StateAck;
+  'session': SessionState;
+  'disconnected': DisconnectInfo;
+  'connection-state': ConnectionStateChange;
+  /** 서버가 error/player-id-conflict로 연결을 거부함 */
+  'server-error': { message: string };
+  /** 검증에 실패해 버린 메시지 */
+  'invalid-message': { reason: string; type?: string };
+}
 
 export class SocketManager {
   private socket: WebSocket | null = null;
+  private serverUrl = DEFAULT_SERVER_URL;
+  private readonly connection = new ConnectionStateMachine();
+  private hasConnected = false; // welcome까지 받은 적 없는 연결이 닫히면 재연결 대신 실패로 처리
+  private resumeToken: string | null = null; // 재연결 시 같은 playerId/상태로 복원받기 위한 토큰
+  private reconnectTimer: number | null = null;
   private playerId: number | null = null;
   private username: string | null = null;
+  private loadout: PlayerLoadout | null = null; // 재연결에도 같은 기체로 입장
   private lastSentState: PlayerState | null = null;
   private readonly stateThreshold = 0.1; // 위치 변화 임계값
   private readonly rotationThreshold = 0.01; // 회전 변화 임계값
   
-  // 연결 안정성을 위한 변수들
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 10;
-  private reconnectDelay = 500;
+  // 연결 안정성을 위한 변수들 (재연결 백오프는 ConnectionStateMachine이 담당)
   private keepAliveInterval: number | null = null;
   private keepAliveTimeout: number | null = null;
   private readonly keepAliveIntervalMs = 120000; // 2분마다 ping
   private readonly keepAliveTimeoutMs = 10000;   // 10초 타임아웃
   
-  // 연속 ping 실패 카운트 (1번 실패하면 재연결)
+  // 연속 ping 실패 카운트 - 한 번 놓치면 즉시 다시 ping, 두 번 연속이면 연결을 끊고 재연결
   private consecutivePingFailures = 0;
-  private readonly maxConsecutivePingFailures = 1; // 1번 실패 시 재연결
+  private readonly maxConsecutivePingFailures = 2;
 
   // 로그 제어를 위한 변수들 추가
   private lastLogTime = 0;
   private readonly logInterval = 5000; // 5초마다만 로그 출력
   private binaryPacketCount = 0;
   private lastBinaryLogTime = 0;
+
+  // 패킷 타입별 시퀀스 추적 (중복/오래된 패킷 폐기)
+  private readonly sequenceTrackers = new Map<number, SequenceTracker>();
+
+  // 델타 스냅샷: welcome의 capabilities.deltaSnapshots 가 true이면 SNAPSHOT_ACK로 구독한다
+  private deltaSnapshots = false;
+  private readonly deltaDecoder = new DeltaSnapshotDecoder();
+  // 사격 시 서버가 되감기 기준으로 쓰는 마지막 스냅샷 시퀀스
+  private lastSnapshotSequence: number | null = null;
+
+  // 업스트림 프로토콜: welcome의 capabilities.binaryInput 이 true일 때만 바이너리 INPUT 사용
+  private binaryInput = false;
+  private lastSentSequence = 0;
+  // 바이너리 INPUT은 매 패킷에 입력/속력을 담으므로 마지막 movement 이벤트 값을 기억해 둔다
+  private lastMovementInput: Pick<InputRecord, 'input' | 'speed' | 'roll'> = {
+    input: { forward: false, backward: false, left: false, right: false, up: false, down: false },
+    speed: 0,
+    roll: 0
+  };
   
   // 초기 스냅샷 처리 상태
   private initialStateBuffered: Record<string, PlayerState> | null = null;
   private initialStateProcessed = false;
 
-  constructor(
-    private onJoin: PlayerUpdateCallback,
-    private onUpdate: PlayerUpdateCallback,
-    private onLeave: PlayerLeaveCallback,
-    private onInitAll: (players: Record<string, PlayerState>) => void,
-    private onMovement: PlayerMovementCallback,
-    private onHit?: PlayerHitCallback,
-    private onDeath?: PlayerDeathCallback,
-    private onDisconnect?: DisconnectCallback
-  ) {
+  public readonly events = new TypedEmitter<SocketEvents>();
+
+  constructor() {
     // 생성자에서는 연결하지 않음
+    this.connection.onChange((change) => this.events.emit('connection-state', change));
   }
 
   /**
    * Connect with username only - server will assign player ID based on user ID
    */
-  public connectWithUsername(username: string) {
+  public connectWithUsername(username: string, serverUrl: string = DEFAULT_SERVER_URL, loadout: PlayerLoadout | null = null) {
     this.username = username;
+    this.loadout = loadout;
+    this.serverUrl = serverUrl;
+    this.hasConnected = false;
+    this.resumeToken = null; // 새 입장
     this.playerId = null; // 서버에서 할당받을 예정
-    console.log('🎯 Connecting with Username:', username);
+    console.log('🎯 Connecting with Username:', username, 'to', serverUrl);
+    this.cancelReconnect();
+    this.connection.transition('connecting');
     this.connect();
   }
 
   private connect() {
     try {
-      console.log('🔌 Attempting to connect to server...');
+      console.log('🔌 Attempting to connect to server...', this.serverUrl);
       
       // 사용자명만 쿼리 파라미터로 전달
-      const params = new URLSearchParams();
+      const wsUrl = new URL(this.serverUrl);
       if (this.username) {
-        params.append('username', this.username);
+        wsUrl.searchParams.set('username', this.username);
+      }
+      if (this.resumeToken) {
+        wsUrl.searchParams.set('resume', this.resumeToken);
+      }
+      if (this.loadout) {
+        wsUrl.searchParams.set('airframe', this.loadout.airframe);
+        wsUrl.searchParams.set('livery', this.loadout.livery);
       }
       
-      const wsUrl = `ws://localhost:8080?${params.toString()}`;
       this.socket = new WebSocket(wsUrl);
       
       this.socket.binaryType = 'arraybuffer';
       this.bindEvents();
     } catch (error) {
       console.error('❌ Failed to create WebSocket connection:', error);
-      this.scheduleReconnect();
+      if (!this.hasConnected) {
+        this.connection.transition('failed', `잘못된 서버 주소입니다: ${this.serverUrl}`);
+        return;
+      }
+      this.scheduleReconnect('socket creation failed');
     }
   }
 
@@ -108,8 +286,12 @@ export class SocketManager {
 
     this.socket.onopen = () => {
       console.log('✅ Connected to server');
-      this.reconnectAttempts = 0;
+      this.connection.transition('authenticating'); // welcome 대기
       this.consecutivePingFailures = 0; // 연결 성공 시 ping 실패 카운트 리셋
+      this.sequenceTrackers.clear(); // 새 연결은 서버 시퀀스를 처음부터 다시 따라간다
+      this.binaryInput = false; // welcome에서 다시 협상
+      this.deltaSnapshots = false;
+      this.deltaDecoder.reset();
       this.startKeepAlive();
     };
 
@@ -126,7 +308,6 @@ export class SocketManager {
       if (typeof event.data === 'string') {
         this.handleTextMessage(event.data);
       } else if (event.data instanceof ArrayBuffer) {
-        console.log('📦 Received binary data, length:', event.data.byteLength);
         this.handleBinaryMessage(event.data);
       } else {
         console.log('❓ Unknown message type:', typeof event.data, event.data);
@@ -137,15 +318,30 @@ export class SocketManager {
       console.log(`❌ Disconnected from server. Code: ${event.code}, Reason: ${event.reason}`);
       this.stopKeepAlive();
 
-      this.onDisconnect?.({
-        code: event.code,
-        reason: event.reason,
-        wasClean: event.wasClean
-      });
+      if (this.hasConnected) {
+        this.events.emit('disconnected', {
+          code: event.code,
+          reason: event.reason,
+          wasClean: event.wasClean
+        });
+      }
+
+      const state = this.connection.getState();
+      if (state === 'idle' || state === 'failed') {
+        return; // disconnect() 또는 서버 거부로 이미 정리됨
+      }
+
+      if (!this.hasConnected) {
+        // 첫 연결이 실패하면 조용히 재시도하지 않고 호출 측에 알린다
+        this.connection.transition('failed', `서버에 연결할 수 없습니다: ${this.serverUrl}`);
+        return;
+      }
 
       // 정상적인 종료가 아닌 경우 재연결 시도
-      if (event.code !== 1000 && event.code !== 1001) {
-        this.scheduleReconnect();
+      if (event.code === 1000 || event.code === 1001) {
+        this.connection.transition('idle', event.reason || 'server closed');
+      } else {
+        this.scheduleReconnect(event.reason || `code ${event.code}`);
       }
     };
 
@@ -156,69 +352,197 @@ export class SocketManager {
   }
 
   private handleTextMessage(data: string) {
-    try {
-      const msg = JSON.parse(data);
-      
-      // 로그 빈도 줄이기 - 5초마다만 출력
-      const now = Date.now();
-      if (!this.lastLogTime || now - this.lastLogTime > this.logInterval) {
-        console.log('🔌 Received JSON message:', msg.type);
-        this.lastLogTime = now;
-      }
-      
-      switch (msg.type) {
-        case 'welcome':
-          // 서버에서 할당받은 플레이어 ID 저장
-          this.playerId = msg.playerId;
-          console.log('🎯 Connected successfully with Player ID:', this.playerId, 'Username:', msg.username);
-          // welcome 수신 후, 버퍼링된 초기 스냅샷이 있으면 플러시
-          this.flushInitialSnapshot();
-          break;
-        case 'player-id-conflict':
-        case 'error':
-          // 에러 메시지 처리
-          console.error('❌ Connection error:', msg.message);
-          alert(msg.message);
-          this.disconnect();
-          break;
-        case 'player-joined':
-          console.log('socket-manager-player-joined', msg);
-          this.onJoin(msg.id, msg.state);
-          break;
-        case 'player-update':
-          this.onUpdate(msg.id, msg.state);
-          break;
-        case 'player-left':
-          this.onLeave(msg.id);
-          break;
-        case 'all-players':
-          this.onInitAll(msg.players);
-          break;
-        case 'player-movement':
-          this.onMovement(msg.playerId, msg.event);
-          break;
-        case 'movement-ack':
-          // 로그 제거 - 너무 자주 발생
-          break;
-        case 'player-hit':
-          // 피격 이벤트 처리
-          if (this.onHit) {
-            this.onHit(msg.attackerId.toString(), msg.victimId.toString(), msg.damage, msg.victimHealth);
-          }
-          break;
-        case 'player-death':
-          // 사망 이벤트 처리
-          if (this.onDeath) {
-            this.onDeath(msg.victimId.toString(), msg.attackerId.toString(), msg.respawnPosition);
-          }
-          break;
-        default:
-          if (!this.lastLogTime || now - this.lastLogTime > this.logInterval) {
-            console.log('Unknown JSON message type:', msg.type);
+    const result = parseServerMessage(data);
+    if (!result.ok) {
+      console.warn(`⚠️ Dropped server message (${result.reason}):`, result.type ?? data.slice(0, 80));
+      this.events.emit('invalid-message', { reason: result.reason, type: result.type });
+      return;
+    }
+
+    const msg = result.message;
+
+    // 로그 빈도 줄이기 - 5초마다만 출력
+    const now = Date.now();
+    if (!this.lastLogTime || now - this.lastLogTime > this.logInterval) {
+      console.log('🔌 Received JSON message:', msg.type);
+      this.lastLogTime = now;
+    }
+
+    this.dispatchServerMessage(msg);
+  }
+
+  private dispatchServerMessage(msg: ServerMessage) {
+    switch (msg.type) {
+      case 'welcome':
+        // 서버에서 할당받은 플레이어 ID 저장
+        this.playerId = msg.playerId;
+        this.hasConnected = true;
+        console.log('🎯 Connected successfully with Player ID:', this.playerId, 'Username:', msg.username);
+        // 서버가 바이너리 INPUT을 지원하면 업스트림을 바이너리로, 아니면 JSON 유지
+        this.binaryInput = Boolean(msg.capabilities?.binaryInput);
+        console.log(`📡 Upstream protocol: ${this.binaryInput ? 'binary INPUT' : 'JSON'}`);
+        // 델타 스냅샷을 지원하면 키프레임 요청으로 구독 시작 (그 전까지는 전체 STATE_UPDATE)
+        this.deltaSnapshots = Boolean(msg.capabilities?.deltaSnapshots);
+        if (this.deltaSnapshots) {
+          this.requestKeyframe();
+        }
+        // 기체 정보를 먼저 알려야 초기 스냅샷의 원격 플레이어가 처음부터 제 기체로 그려진다
+        if (msg.loadouts) {
+          this.events.emit('loadouts', msg.loadouts);
+        }
+        if (msg.terrain) {
+          this.events.emit('terrain', msg.terrain);
+        }
+        this.events.emit('gun-mode', { ballistic: Boolean(msg.capabilities?.ballisticGun) });
+        // welcome 수신 후, 버퍼링된 초기 스냅샷이 있으면 플러시
+        this.flushInitialSnapshot();
+        this.resumeToken = msg.resumeToken ?? null;
+        if (msg.state) {
+          if (msg.resumed) {
+            console.log('♻️ Session resumed');
           }
+          this.events.emit('session', { resumed: Boolean(msg.resumed), ...msg.state });
+        }
+        if (msg.match) {
+          this.events.emit('match-started', msg.match);
+        }
+        this.connection.transition('connected');
+        break;
+      case 'player-id-conflict':
+      case 'error':
+        // 에러 메시지 처리 - 표시는 구독하는 쪽(UI)이 한다
+        console.error('❌ Connection error:', msg.message);
+        this.events.emit('server-error', { message: msg.message });
+        // 서버가 거부한 연결은 재시도하지 않는다
+        this.resumeToken = null;
+        this.cancelReconnect();
+        this.stopKeepAlive();
+        this.connection.transition('failed', msg.message);
+        this.socket?.close(1000, 'Rejected by server');
+        break;
+      case 'player-joined':
+        console.log('socket-manager-player-joined', msg);
+        this.events.emit('player-joined', { id: String(msg.id), state: msg.state, username: msg.username, loadout: msg.loadout });
+        break;
+      case 'player-left':
+        this.events.emit('player-left', { id: String(msg.id) });
+        break;
+      case 'player-movement':
+        this.events.emit('player-movement', { id: String(msg.playerId), event: msg.event, serverTime: msg.timestamp });
+        break;
+      case 'movement-ack':
+        // 로그 제거 - 너무 자주 발생
+        break;
+      case 'pong':
+        // JSON ping 응답 - 텍스트 'pong'과 같게 keep-alive 성공으로 친다
+        this.consecutivePingFailures = 0;
+        this.resetKeepAliveTimeout();
+        break;
+      case 'state-ack':
+        // 서버가 마지막으로 처리한 입력 시퀀스와 권위 있는 위치
+        this.events.emit('state-ack', {
+          sequence: this.unwrapAckSequence(msg.sequence),
+          position: msg.position,
+          rotation: msg.rotation,
+          corrected: Boolean(msg.corrected)
+        });
+        break;
+      case 'player-hit':
+        this.events.emit('player-hit', {
+          attackerId: String(msg.attackerId),
+          victimId: String(msg.victimId),
+          damage: msg.damage,
+          victimHealth: msg.victimHealth,
+          position: msg.position
+        });
+        break;
+      case 'player-death':
+        this.events.emit('player-death', {
+          victimId: String(msg.victimId),
+          attackerId: String(msg.attackerId),
+          cause: msg.cause ?? 'shot',
+          respawnPosition: msg.respawnPosition
+        });
+        break;
+      case 'player-reload':
+        this.events.emit('player-reload', {
+          id: String(msg.playerId),
+          weaponId: msg.weaponId,
+          reloadDuration: msg.reloadDuration
+        });
+        break;
+      case 'player-reload-complete':
+        this.events.emit('player-reload-complete', {
+          id: String(msg.playerId),
+          weaponId: msg.weaponId,
+          ammo: msg.ammo,
+          maxAmmo: msg.maxAmmo
+        });
+        break;
+      case 'missile-launched':
+        this.events.emit('missile-launched', {
+          missileId: String(msg.missileId),
+          ownerId: String(msg.ownerId),
+          targetId: msg.targetId === null ? null : String(msg.targetId),
+          position: msg.position,
+          velocity: msg.velocity,
+          serverTime: msg.timestamp
+        });
+        break;
+      case 'missile-detonated':
+        this.events.emit('missile-detonated', {
+          missileId: String(msg.missileId),
+          position: msg.position,
+          reason: msg.reason,
+          victimId: msg.victimId === undefined || msg.victimId === null ? null : String(msg.victimId)
+        });
+        break;
+      case 'flare-dispensed':
+        this.events.emit('flare-dispensed', {
+          flareId: String(msg.flareId),
+          playerId: String(msg.playerId),
+          position: msg.position,
+          velocity: msg.velocity,
+          serverTime: msg.timestamp
+        });
+        break;
+      case 'missile-decoyed':
+        this.events.emit('missile-decoyed', { missileId: String(msg.missileId), flareId: String(msg.flareId) });
+        break;
+      case 'match-started':
+        console.log('🏁 Match started:', msg.matchId);
+        this.events.emit('match-started', {
+          matchId: msg.matchId,
+          startedAt: msg.startedAt,
+          liveAt: msg.liveAt,
+          endsAt: msg.endsAt
+        });
+        break;
+      case 'match-ended':
+        console.log('🏁 Match ended:', msg.matchId);
+        this.events.emit('match-ended', {
+          matchId: msg.matchId,
+          reason: msg.reason,
+          standings: msg.standings,
+          serverTime: msg.timestamp
+        });
+        break;
+      case 'match-stats':
+        this.events.emit('match-stats', msg.stats);
+        break;
+      case 'global-rankings':
+        this.events.emit('global-rankings', {
+          rankings: msg.rankings,
+          page: msg.page,
+          pageSize: msg.pageSize,
+          total: msg.total
+        });
+        break;
+      default: {
+        // 카탈로그에 타입을 추가하고 여기서 처리하지 않으면 컴파일 오류가 난다
+        const unhandled: never = msg;
+        console.log('Unhandled JSON message:', unhandled);
       }
-    } catch (e) {
-      console.error('JSON Parse error:', e, data);
     }
   }
 
@@ -233,69 +557,93 @@ export class SocketManager {
 
   private processBinaryBuffer(buffer: Uint8Array) {
     try {
-      if (buffer.length < 8) {
+      const packet = decodePacket(buffer);
+      if (!packet) {
         return; // 로그 제거
       }
 
-      const sequence = (buffer[0] << 8) | buffer[1];
-      const packetType = buffer[2];
-      const timestamp = (buffer[3] << 24) | (buffer[4] << 16) | (buffer[5] << 8) | buffer[6];
-      const flags = buffer[7];
-
       // 바이너리 패킷 로그 빈도 줄이기 - 10초마다만 출력
       this.binaryPacketCount++;
       const now = Date.now();
       if (!this.lastBinaryLogTime || now - this.lastBinaryLogTime > 10000) {
-        console.log(`📦 Binary packets received: ${this.binaryPacketCount} (type=${packetType}, size=${buffer.length})`);
+        console.log(`📦 Binary packets received: ${this.binaryPacketCount} (type=${packet.type}, size=${buffer.length})`);
         this.binaryPacketCount = 0;
         this.lastBinaryLogTime = now;
       }
 
-      if (packetType === 0x01) { // STATE_UPDATE
-        this.processStateUpdate(buffer);
+      if (!this.acceptSequence(packet)) {
+        return;
+      }
+
+      switch (packet.type) {
+        case PACKET_TYPES.STATE_UPDATE:
+          this.lastSnapshotSequence = packet.header.sequence;
+          this.processStateUpdate(packet.players, packet.header.timestamp);
+          break;
+        case PACKET_TYPES.DELTA_UPDATE: {
+          const players = this.deltaDecoder.decode(packet);
+          if (!players) {
+            // 기준 스냅샷을 잃었음 - 키프레임부터 다시
+            this.requestKeyframe();
+            break;
+          }
+          this.sendSnapshotAck(packet.header.sequence);
+          this.lastSnapshotSequence = packet.header.sequence;
+          this.processStateUpdate(players, packet.header.timestamp);
+          break;
+        }
+        case PACKET_TYPES.PLAYER_JOINED:
+          if (String(packet.player.id) !== this.playerId?.toString()) {
+            this.events.emit('player-joined', {
+              id: String(packet.player.id),
+              state: toPlayerState(packet.player),
+              serverTime: packet.header.timestamp
+            });
+          }
+          break;
+        case PACKET_TYPES.PLAYER_LEFT:
+          this.events.emit('player-left', { id: String(packet.playerId) });
+          break;
+        case PACKET_TYPES.INPUT:
+        case PACKET_TYPES.SNAPSHOT_ACK:
+          // 클라이언트 → 서버 전용 패킷
+          break;
       }
     } catch (error) {
       console.error('Error processing binary buffer:', error);
     }
   }
 
-  private processStateUpdate(buffer: Uint8Array) {
-    const HEADER_SIZE = 8;
-    const PLAYER_STATE_SIZE = 46;
-    let offset = HEADER_SIZE;
-    
+  /** 서버는 ack한 시퀀스를 다음 델타의 기준으로 삼는다 */
+  private sendSnapshotAck(sequence: number, flags = 0) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(encodeSnapshotAck({ sequence, flags }));
+    }
+  }
+
+  private requestKeyframe() {
+    this.sendSnapshotAck(0, SNAPSHOT_ACK_FLAG_RESET);
+  }
+
+  /** 중복이거나 추적 창보다 오래된 패킷은 버린다. 늦게 온 스냅샷은 보간 버퍼가 정렬해 쓴다. */
+  private acceptSequence(packet: DecodedPacket): boolean {
+    let tracker = this.sequenceTrackers.get(packet.type);
+    if (!tracker) {
+      tracker = new SequenceTracker();
+      this.sequenceTrackers.set(packet.type, tracker);
+    }
+
+    const verdict = tracker.accept(packet.header.sequence);
+    return verdict === 'in-order' || verdict === 'late';
+  }
+
+  private processStateUpdate(records: PlayerRecord[], timestamp: number) {
     // 전체 스냅샷을 누적
     const players: Record<string, PlayerState> = {};
     const parsedIds: number[] = [];
-    while (offset + PLAYER_STATE_SIZE <= buffer.length) {
-      const parsedPlayerId = (buffer[offset] << 8) | buffer[offset + 1];
-      offset += 2;
-
-      // Position (3x float32)
-      const position = [
-        this.readFloatBE(buffer, offset),
-        this.readFloatBE(buffer, offset + 4),
-        this.readFloatBE(buffer, offset + 8)
-      ];
-      offset += 12;
-
-      // Rotation (4x float32)
-      const rotation = [
-        this.readFloatBE(buffer, offset),
-        this.readFloatBE(buffer, offset + 4),
-        this.readFloatBE(buffer, offset + 8),
-        this.readFloatBE(buffer, offset + 12)
-      ];
-      offset += 16;
-
-      // Velocity (3x float32) - 사용하지 않음
-      offset += 12;
-
-      // Input state (4 bytes) - 사용하지 않음
-      offset += 4;
-
-      players[parsedPlayerId.toString()] = { position, rotation };
-      parsedIds.push(parsedPlayerId);
+    for (const record of records) {
+      players[record.id.toString()] = toPlayerState(record);
+      parsedIds.push(record.id);
     }
 
     // welcome 전이면 버퍼링
@@ -314,7 +662,7 @@ export class SocketManager {
         if (id !== selfId) filtered[id] = state;
       }
       console.log('📋 Initial snapshot -> onAllPlayers. self=', selfId, 'ids=', parsedIds);
-      this.onInitAll(filtered);
+      this.events.emit('all-players', filtered);
       this.initialStateProcessed = true;
       this.initialStateBuffered = null;
       return;
@@ -323,15 +671,10 @@ export class SocketManager {
     // 이후에는 개별 업데이트로 처리(자기 자신 제외)
     const selfId = this.playerId?.toString();
     for (const [id, state] of Object.entries(players)) {
-      if (id !== selfId) this.onUpdate(id, state);
+      if (id !== selfId) this.events.emit('player-update', { id, state, serverTime: timestamp });
     }
   }
 
-  private readFloatBE(buffer: Uint8Array, offset: number): number {
-    const view = new DataView(buffer.buffer, buffer.byteOffset + offset, 4);
-    return view.getFloat32(0, false); // big-endian
-  }
-
   private flushInitialSnapshot() {
     if (this.initialStateProcessed) return;
     const buffered = this.initialStateBuffered || {};
@@ -344,25 +687,32 @@ export class SocketManager {
       if (id !== selfId) filtered[id] = state;
     }
     console.log('📋 Flushing buffered initial snapshot. self=', selfId, 'count=', Object.keys(filtered).length);
-    this.onInitAll(filtered);
+    this.events.emit('all-players', filtered);
     this.initialStateProcessed = true;
     this.initialStateBuffered = null;
   }
 
-  private scheduleReconnect() {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+  private scheduleReconnect(reason: string) {
+    const delay = this.connection.scheduleReconnect(reason);
+    if (delay === null) {
       console.error('❌ Max reconnection attempts reached');
       return;
     }
 
-    this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-    
-    console.log(`🔄 Scheduling reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms`);
-    
-    setTimeout(() => {
+    console.log(`🔄 Scheduling reconnection attempt ${this.connection.getAttempt()} in ${delay}ms (${reason})`);
+
+    this.cancelReconnect();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect();
-    }, delay);
+    }, delay) as any;
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
   }
 
   private startKeepAlive() {
@@ -404,39 +754,57 @@ export class SocketManager {
       
       if (this.consecutivePingFailures >= this.maxConsecutivePingFailures) {
         console.log('❌ Too many consecutive ping failures - reconnecting');
-        this.consecutivePingFailures = 0; // 리셋
-        this.reconnect();
-      } else {
-        console.log('⏳ Waiting for next ping cycle...');
+        this.dropConnection('keep-alive timeout');
+      } else if (this.socket?.readyState === WebSocket.OPEN) {
+        console.log('🏓 Retrying ping...');
+        this.socket.send('ping');
+        this.resetKeepAliveTimeout();
       }
     }, this.keepAliveTimeoutMs) as any;
   }
 
-  private reconnect() {
-    console.log('🔄 Attempting to reconnect...');
+  /** 응답 없는 소켓을 버리고 상태 기계의 백오프로 재연결한다 */
+  private dropConnection(reason: string) {
+    console.log('🔄 Dropping connection:', reason);
+    this.stopKeepAlive();
     if (this.socket) {
       // Detach handlers so closing the stale socket doesn't trigger a second
-      // reconnect via onclose → scheduleReconnect(). connect() below is the
-      // single reconnection path.
+      // reconnect via onclose → scheduleReconnect().
       this.socket.onopen = null;
       this.socket.onmessage = null;
       this.socket.onerror = null;
       this.socket.onclose = null;
-      this.socket.close(1000, 'reconnect');
+      this.socket.close(4000, reason);
+      this.socket = null;
     }
-    this.connect();
+
+    this.events.emit('disconnected', { code: 4000, reason, wasClean: false });
+    this.scheduleReconnect(reason);
   }
 
-  public sendState(state: PlayerState) {
+  public sendState(state: PlayerState, sequence: number) {
     if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
       return; // 로그 제거
     }
 
     if (this.hasStateChanged(state)) {
-      const message = { 
-        type: 'update', 
+      this.lastSentSequence = sequence;
+
+      if (this.binaryInput) {
+        this.socket.send(encodeInput({ sequence }, {
+          position: state.position,
+          rotation: state.rotation,
+          ...this.lastMovementInput
+        }));
+        this.lastSentState = { ...state };
+        return;
+      }
+
+      const message: ClientMessage = {
+        type: 'update',
         state,
-        playerId: this.playerId 
+        sequence, // 서버가 state-ack로 되돌려주는 입력 시퀀스
+        playerId: this.playerId
       };
       
       // 로그 빈도 줄이기 - 5초마다만 출력
@@ -446,7 +814,7 @@ export class SocketManager {
         this.lastLogTime = now;
       }
       
-      this.socket.send(JSON.stringify(message));
+      this.socket.send(encodeClientMessage(message));
       this.lastSentState = { ...state };
     }
   }
@@ -463,32 +831,89 @@ export class SocketManager {
       this.lastLogTime = now;
     }
     // console.log('socket-manager-sendMovementEvent', event);
+
+    this.lastMovementInput = { input: event.input, speed: event.speed, roll: event.input.roll };
+    if (this.binaryInput) {
+      // 헤더 시퀀스는 마지막 state 시퀀스 (movement 이벤트는 ack 대상이 아님)
+      this.socket.send(encodeInput({ sequence: this.lastSentSequence, flags: INPUT_FLAG_MOVEMENT }, {
+        position: event.position,
+        rotation: event.rotation,
+        ...this.lastMovementInput
+      }));
+      return;
+    }
     
     // Send only movement event - server handles state updates internally
-    this.socket.send(JSON.stringify({ 
+    this.socket.send(encodeClientMessage({
       type: 'movement',
       event,
       playerId: this.playerId
     }));
   }
 
-  public sendHit(victimId: number, damage: number, position: number[], distance: number) {
+  public sendShot(shot: ShotEvent) {
     if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-      console.log('❌ Cannot send hit: socket not connected');
+      console.log('❌ Cannot send shot: socket not connected');
       return;
     }
 
-    const hitData = {
-      type: 'hit',
-      victimId: victimId,
-      damage: damage,
-      position: position,
-      distance: distance,
-      timestamp: Date.now()
-    };
+    this.socket.send(encodeClientMessage({
+      type: 'shot',
+      ...shot
+    }));
+  }
+
+  /** 재장전 시작 알림 - 서버가 탄창을 채우면 player-reload-complete가 온다 */
+  public sendReload(weaponId: string) {
+    this.sendRequest({ type: 'reload', weaponId });
+  }
+
+  /** 지형 충돌 보고 - 서버가 확인하면 player-death(cause: crash)가 온다 */
+  public sendCrash(position: number[]) {
+    this.sendRequest({ type: 'crash', position });
+  }
+
+  /** 공중 충돌 보고 - 서버가 확인하면 양쪽에 player-hit이 온다 */
+  public sendCollision(otherId: number, position: number[]) {
+    this.sendRequest({ type: 'collision', otherId, position });
+  }
+
+  /** 미사일 발사 요청 - 서버가 받아들이면 모두에게 missile-launched가 온다 */
+  public sendMissileLaunch(origin: number[], direction: number[], targetId: number | null) {
+    this.sendRequest({ type: 'missile-launch', origin, direction, targetId });
+  }
+
+  /** 플레어 사출 요청 - 서버가 받아들이면 모두에게 flare-dispensed가 온다 */
+  public sendFlare(position: number[]) {
+    this.sendRequest({ type: 'flare', position });
+  }
+
+  /** 응답은 'match-stats' 이벤트로 온다 */
+  public requestMatchStats() {
+    this.sendRequest({ type: 'get-stats' });
+  }
+
+  /** 응답은 'global-rankings' 이벤트로 온다 (page는 0부터) */
+  public requestRankings(page = 0, pageSize = 10) {
+    this.sendRequest({ type: 'get-rankings', page, pageSize });
+  }
 
-    console.log('🔫 Sending hit event:', hitData);
-    this.socket.send(JSON.stringify(hitData));
+  private sendRequest(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(encodeClientMessage(message));
+    }
+  }
+
+  public getLastSnapshotSequence(): number | null {
+    return this.lastSnapshotSequence;
+  }
+
+  /**
+   * 바이너리 INPUT 헤더는 하위 16비트 시퀀스만 담으므로 서버 ack도 16비트로 돌아온다.
+   * 마지막으로 보낸 전체 시퀀스 기준으로 복원한다 (JSON ack는 그대로 유지됨).
+   */
+  private unwrapAckSequence(sequence: number): number {
+    return this.lastSentSequence + sequenceDelta(sequence, this.lastSentSequence);
   }
 
   private hasStateChanged(newState: PlayerState): boolean {
@@ -525,7 +950,10 @@ export class SocketManager {
   }
 
   public disconnect() {
+    this.resumeToken = null; // 스스로 나간 세션은 이어받지 않는다
+    this.cancelReconnect();
     this.stopKeepAlive();
+    this.connection.transition('idle', 'client disconnect');
     if (this.socket) {
       this.socket.close(1000, 'Client disconnect');
     }
@@ -534,4 +962,23 @@ export class SocketManager {
   public getUsername(): string | null {
     return this.username;
   }
+
+  public getServerUrl(): string {
+    return this.serverUrl;
+  }
+
+  public getConnectionState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+}
+
+/** 바이너리 플레이어 레코드 → 콜백용 PlayerState (속도/입력은 원격 기체 데드 레커닝용) */
+function toPlayerState(record: PlayerRecord): PlayerState {
+  return {
+    position: record.position,
+    rotation: record.rotation,
+    velocity: record.velocity,
+    input: record.input
+  };
 }
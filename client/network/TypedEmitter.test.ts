@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TypedEmitter } from './TypedEmitter';
+
+interface TestEvents {
+  ping: { at: number };
+  leave: { id: string };
+}
+
+describe('TypedEmitter', () => {
+  it('delivers payloads until the listener unsubscribes', () => {
+    const emitter = new TypedEmitter<TestEvents>();
+    const listener = vi.fn();
+    const unsubscribe = emitter.on('ping', listener);
+
+    emitter.emit('ping', { at: 1 });
+    unsubscribe();
+    emitter.emit('ping', { at: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ at: 1 });
+  });
+
+  it('fires once listeners a single time and isolates throwing listeners', () => {
+    const emitter = new TypedEmitter<TestEvents>();
+    const once = vi.fn();
+    const after = vi.fn();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    emitter.once('leave', once);
+    emitter.on('leave', () => { throw new Error('boom'); });
+    emitter.on('leave', after);
+    emitter.emit('leave', { id: 'a' });
+    emitter.emit('leave', { id: 'b' });
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(after).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+
+  it('forwards events to piped emitters until unpiped', () => {
+    const source = new TypedEmitter<TestEvents>();
+    const target = new TypedEmitter<TestEvents>();
+    const listener = vi.fn();
+    target.on('ping', listener);
+
+    const unpipe = source.pipe(target);
+    source.emit('ping', { at: 1 });
+    unpipe();
+    source.emit('ping', { at: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,61 @@
+// client/network/TypedEmitter.ts
+
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * 이벤트 이름 → 페이로드 타입 맵으로 타입이 정해지는 작은 이벤트 이미터.
+ * 리스너 하나가 던져도 나머지 리스너는 계속 호출된다.
+ */
+export class TypedEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<EventListener<any>>>();
+  private readonly targets = new Set<TypedEmitter<Events>>();
+
+  /** 구독 해제 함수를 돌려준다 */
+  public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (set) {
+      for (const listener of Array.from(set)) {
+        try {
+          listener(payload);
+        } catch (error) {
+          console.error(`Error in '${String(event)}' listener:`, error);
+        }
+      }
+    }
+
+    this.targets.forEach((target) => target.emit(event, payload));
+  }
+
+  /** 모든 이벤트를 target으로도 내보낸다. 되돌리는 함수를 돌려준다. */
+  public pipe(target: TypedEmitter<Events>): () => void {
+    this.targets.add(target);
+    return () => this.targets.delete(target);
+  }
+
+  public clear(): void {
+    this.listeners.clear();
+    this.targets.clear();
+  }
+}
@@ -7,13 +7,16 @@
  * preview.html, and drives the real components / GameHud / Environment with
  * sample data.
  *
- * Usage:  /preview.html?screen=menu | login | hud | gameover | scene
+ * Usage:  /preview.html?screen=menu | login | hud | gameover | rankings | hangar | scene
  *         /preview.html?screen=scene&plane=fallback   (procedural jet)
  */
 import * as THREE from 'three';
 import { MainMenu } from './components/ui/MainMenu';
 import { PlayerIdInput } from './components/PlayerIdInput';
+import { DEFAULT_SERVER_URL, normalizeServerUrl } from './network/ServerEndpoint';
 import { GameOverOverlay } from './components/ui/GameOverOverlay';
+import { RankingsScreen } from './components/ui/RankingsScreen';
+import { HangarScreen } from './components/ui/HangarScreen';
 import { GameHud } from './components/ui/GameHud';
 import { Environment } from './components/environment/Environment';
 import { ModelCache } from './components/assets/ModelCache';
@@ -34,14 +37,21 @@ function showHud(): void {
   hud.updateScore(7, 3, 700);
 
   const weapon: WeaponStatus = {
+    weaponId: 'cannon',
+    weaponName: 'M61 20MM',
+    weaponIndex: 0,
+    weaponCount: 2,
+    feed: 'magazine',
     isReady: true,
     cooldownRemaining: 0,
     shotsFired: 12,
     ammo: 18,
-    maxAmmo: 30,
+    maxAmmo: 100,
     isReloading: false,
     reloadTimeRemaining: 0,
-    reloadDuration: 2000
+    reloadDuration: 3000,
+    heat: 0,
+    overheated: false
   };
   hud.updateWeapon(weapon);
   hud.ensureCrosshair();
@@ -105,7 +115,10 @@ switch (screen) {
       onAuthentication: async () => ({ success: true, playerId: 77 }),
       onError: () => {
         /* preview: no-op */
-      }
+      },
+      serverUrl: DEFAULT_SERVER_URL,
+      serverPresets: ['wss://kr.dogfight.example', 'wss://us.dogfight.example'],
+      normalizeServerUrl: (raw) => normalizeServerUrl(raw, false)
     });
     break;
 
@@ -126,6 +139,43 @@ switch (screen) {
     break;
   }
 
+  case 'rankings': {
+    const rankings = new RankingsScreen({
+      onPageRequest: () => {
+        /* preview: no-op */
+      },
+      onClose: () => {
+        /* preview: no-op */
+      }
+    });
+    const pilots = ['VIPER_77', 'GHOST', 'MAVERICK', 'ICEMAN', 'ROOSTER', 'PHOENIX', 'HANGMAN', 'BOB', 'PAYBACK', 'FANBOY'];
+    rankings.setPage({
+      rankings: pilots.map((username, index) => ({
+        user_id: index + 1,
+        username,
+        total_kills: 140 - index * 12,
+        total_deaths: 60 + index * 3,
+        total_score: (140 - index * 12) * 100,
+        kd_ratio: ((140 - index * 12) / (60 + index * 3)).toFixed(2),
+        rank: index + 1
+      })),
+      page: 0,
+      pageSize: 10,
+      total: 37
+    }, 'ICEMAN');
+    rankings.show();
+    break;
+  }
+
+  case 'hangar':
+    new HangarScreen({
+      modelCache: new ModelCache(),
+      onSave: () => {
+        /* preview: no-op */
+      }
+    }).show({ airframe: 'interceptor', livery: 'crimson' });
+    break;
+
   case 'scene':
     void showScene();
     break;
@@ -135,6 +185,12 @@ switch (screen) {
     new MainMenu({
       onStart: () => {
         /* preview: no-op */
+      },
+      onRankings: () => {
+        /* preview: no-op */
+      },
+      onHangar: () => {
+        /* preview: no-op */
       }
     });
     break;
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** 기본 게임 서버 주소 (예: wss://game.example.com). 없으면 ws://localhost:8080 */
+  readonly VITE_WS_URL?: string;
+  /** 로그인 화면 서버 선택 목록, 쉼표로 구분 */
+  readonly VITE_WS_URLS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
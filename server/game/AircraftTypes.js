@@ -0,0 +1,28 @@
+// server/game/AircraftTypes.js
+import { getAircraftDefinition } from '../../shared/AircraftDefinitions.js';
+import { createWeaponStates } from './WeaponTypes.js';
+
+/**
+ * 기체 정의는 shared/AircraftDefinitions.js 하나를 클라이언트와 함께 읽는다.
+ * 서버는 비행 물리를 돌리지 않으므로 이동 검증(최대 속력)과 전투 판정(체력/무장/충돌 반지름)에
+ * 필요한 값만 쓴다.
+ */
+export {
+  AIRCRAFT_IDS as AIRCRAFT_TYPE_IDS,
+  DEFAULT_AIRCRAFT_TYPE,
+  getAircraftDefinition as getAircraftType
+} from '../../shared/AircraftDefinitions.js';
+
+/** GameState 플레이어 필드로 펼칠 기체 능력치 (addPlayer의 playerData) */
+export function aircraftPlayerStats(id) {
+  const type = getAircraftDefinition(id);
+  return {
+    maxSpeed: type.maxSpeed,
+    health: type.health,
+    maxHealth: type.health,
+    collisionRadius: type.collisionRadius,
+    weapons: createWeaponStates(type.weapons)
+  };
+}
+
+export default { aircraftPlayerStats };
@@ -1,85 +1,394 @@
 // server/game/CombatSystem.js
+import { isRoundSpent, launchRound, stepRound, sweepRound } from '../../shared/GunBallistics.js';
+import { addShotHeat, coolHeat } from '../../shared/GunHeat.js';
 import GameEventService from '../services/GameEventService.js';
+import { DEFAULT_MAX_SPEED, DIVE_ALLOWANCE } from './MovementValidator.js';
+import { damageAtDistance, getWeaponType } from './WeaponTypes.js';
+
+const STEP_SECONDS = 1 / 60; // 탄도 탄을 클라이언트 고정 틱과 같은 간격으로 적분한다
 
 export class CombatSystem {
-  constructor(gameState, webSocketManager, matchManager) {
+  constructor(gameState, webSocketManager, matchManager, lagCompensation, options = {}) {
     this.gameState = gameState;
     this.webSocketManager = webSocketManager;
     this.matchManager = matchManager;
+    this.lagCompensation = lagCompensation;
+    this.maxOriginOffset = 25;     // 3인칭 카메라 오프셋(약 8)에 여유를 둔 사격 원점 허용 거리
+    this.cooldownTolerance = 0.75; // 패킷 몰림(지터) 허용 비율
+    this.overheatMargin = 0.1;     // 과열 판정 여유 - 도착 간격이 흔들려 덜 식은 만큼 (약 0.33초, 기관총 3발)
+    this.maxCrashOffset = 150;     // 추락 지점과 마지막 보고 위치 사이 허용 거리 (보고 주기 + 지터)
+    this.crashAltitudeTolerance = 15; // 지면 위 이 높이까지는 충돌로 인정 (FlightPhysics MIN_ALTITUDE + 보간 오차)
+    this.collisionRadius = 2.4;       // 기체 정보가 없을 때의 충돌 반지름 (플레이어별 값은 AircraftTypes)
+    this.maxCollisionOffset = 20;     // 최근 이력상 최근접 거리가 반지름 합보다 이만큼까지 멀어도 인정 (틱 사이 곡선 비행 + 지터)
+    this.collisionHistoryMs = 400;    // 충돌을 찾아볼 이력 폭 - 보고자 화면의 상대는 보간 지연 + 핑만큼 과거
+    this.collisionCooldownMs = 1000;  // 같은 두 기체의 충돌은 이 간격에 한 번만 (양쪽이 모두 보고한다)
+    this.minCollisionDamage = 20;
+    this.collisionDamagePerSpeed = 0.2; // 상대 속력(units/s)당 피해 - 정면 충돌(약 1000)이면 둘 다 격추
+    this.recentCollisions = new Map();  // 'a:b' -> 마지막으로 처리한 시각
+    // 'hitscan' = 사격 순간 레이 판정, 'ballistic' = 탄을 직접 날려 스텝마다 판정 (GunBallistics)
+    this.gunMode = options.gunMode ?? (process.env.GUN_MODE === 'ballistic' ? 'ballistic' : 'hitscan');
+    this.rounds = new Map();       // roundId -> { id, ownerId, weapon, origin, time, state }
+    this.nextRoundId = 1;
+    this.lastRoundTickTime = null;
+    this.roundAccumulator = 0;
+    this.tickingRounds = false;    // 명중 처리(DB 기록)가 다음 tick보다 오래 걸려도 겹쳐 돌지 않게
   }
 
-  async handlePlayerHit(attackerId, victimId, damage, position, distance) {
-    const matchId = this.gameState.getCurrentMatch();
-    console.log('matchId', matchId);
-    // 매치가 없더라도 기본 전투 로직은 진행 (개발/로컬 환경 호환)
-
+  /**
+   * 클라이언트가 보낸 사격(무장/원점/방향/렌더링 시각/마지막 스냅샷 시퀀스)을 서버가 직접 판정한다.
+   * 그 무장의 탄약·재장전·연사 제한을 검증한 뒤, 위치 이력을 클라이언트가 보던 시각으로 되감아
+   * 무장 사거리 안에서 레이 판정을 하고 맞았으면 거리별 피해로 player-hit을 브로드캐스트한다.
+   */
+  async handlePlayerShot(attackerId, shot) {
     try {
       const attacker = this.gameState.getPlayer(attackerId);
-      const victim = this.gameState.getPlayer(victimId);
+      if (!attacker) {
+        console.log(`⚠️ Player not found: attacker=${attackerId}`);
+        return;
+      }
+
+      const direction = normalize(shot?.direction);
+      if (!isVector(shot?.origin) || !direction) {
+        console.log(`🚫 Shot rejected: Player ${attackerId} sent malformed shot`);
+        return;
+      }
+
+      const weaponId = resolveWeaponId(attacker, shot.weaponId);
+      const weapon = getWeaponType(weaponId);
+      const weaponState = attacker.weapons[weaponId];
+      const now = Date.now();
+      if (this.rejectShot(attackerId, weapon, weaponState, now)) {
+        return;
+      }
+
+      weaponState.lastShotTime = now;
+      if (weapon.feed.kind === 'heat') {
+        // 열 상승 (빗나가도) - 한 발의 열은 그대로, 도착 간격 흔들림은 과열 판정 여유로 흡수한다
+        addShotHeat(weaponState.heat, weapon.feed, now, this.overheatMargin);
+      } else {
+        weaponState.ammo--; // 탄약 소모 (빗나가도 소모)
+      }
+
+      if (distanceBetween(shot.origin, attacker.position) > this.maxOriginOffset) {
+        console.log(`🚫 Shot rejected: Player ${attackerId} fired from too far off their aircraft`);
+        return;
+      }
+
+      const rewindTime = this.lagCompensation.resolveRewindTime(shot.clientTime, shot.snapshotSequence, now);
+      if (this.gunMode === 'ballistic') {
+        this.fireRound(attackerId, attacker, weapon, shot.origin, direction, rewindTime, now);
+        return;
+      }
+
+      const hit = this.lagCompensation.raycast(shot.origin, direction, {
+        players: this.gameState.getAllPlayers(),
+        time: rewindTime,
+        maxRange: weapon.range,
+        excludeId: attackerId
+      });
+
+      if (!hit) {
+        return;
+      }
+
+      console.log(`⏪ Shot by Player ${attackerId} rewound ${now - rewindTime}ms`);
+      await this.applyHit(attackerId, hit.playerId, damageAtDistance(weapon, hit.distance), hit.point, hit.distance, now);
+    } catch (error) {
+      console.error('Error handling player shot:', error);
+    }
+  }
+
+  /**
+   * 탄도 모드: 판정 없이 탄을 띄운다. 탄은 쏜 사람이 보던 시각(rewindTime)의 시간축을 따라
+   * 날아가며, 스텝마다 그 시각으로 되감은 기체 위치와 쓸어 보기 판정을 한다 (tickRounds).
+   * 탄이 물려받는 기체 속도는 GameState가 최대 속력 × 급강하 한계로 자른 속력에서 만든다.
+   */
+  fireRound(attackerId, attacker, weapon, origin, direction, rewindTime, now) {
+    const round = {
+      id: this.nextRoundId++,
+      ownerId: attackerId,
+      weapon,
+      origin: [...origin],
+      time: rewindTime,
+      state: launchRound(origin, direction, attacker.velocity ?? [0, 0, 0], weapon.range)
+    };
+    this.rounds.set(round.id, round);
+    this.lastRoundTickTime ??= now;
+    return round;
+  }
 
-      if (!attacker || !victim) {
-        console.log(`⚠️ Player not found: attacker=${attackerId}, victim=${victimId}`);
+  /** 주기적으로 호출 - 지난 시간만큼 STEP_SECONDS 단위로 날아가는 탄을 모두 진행시킨다 */
+  async tickRounds(now = Date.now()) {
+    if (this.tickingRounds) {
+      return;
+    }
+
+    if (this.rounds.size === 0) {
+      this.lastRoundTickTime = null;
+      this.roundAccumulator = 0;
+      return;
+    }
+
+    this.roundAccumulator = Math.min(this.roundAccumulator + (now - (this.lastRoundTickTime ?? now)) / 1000, 0.25);
+    this.lastRoundTickTime = now;
+
+    this.tickingRounds = true;
+    try {
+      while (this.roundAccumulator >= STEP_SECONDS) {
+        this.roundAccumulator -= STEP_SECONDS;
+        for (const round of [...this.rounds.values()]) {
+          await this.stepRound(round, now);
+        }
+      }
+    } finally {
+      this.tickingRounds = false;
+    }
+  }
+
+  async stepRound(round, now) {
+    const start = round.state.position;
+    const startTime = round.time;
+    stepRound(round.state, STEP_SECONDS);
+    round.time += STEP_SECONDS * 1000;
+    const end = round.state.position;
+
+    const hit = this.findRoundVictim(round, start, end, startTime);
+    if (hit) {
+      this.rounds.delete(round.id);
+      const point = start.map((component, i) => component + (end[i] - component) * hit.fraction);
+      const distance = distanceBetween(round.origin, point);
+      if (!this.matchManager || this.matchManager.isCombatAllowed(now)) {
+        await this.applyHit(round.ownerId, hit.playerId, damageAtDistance(round.weapon, distance), point, distance, now);
+      }
+      return;
+    }
+
+    if (isRoundSpent(round.state) || end[1] <= this.gameState.getTerrain().heightAt(end[0], end[2])) {
+      this.rounds.delete(round.id);
+    }
+  }
+
+  /** 이번 스텝 동안 탄이 가장 먼저 닿은 (쏜 사람 외의) 기체 - 위치는 탄의 시간축으로 되감는다 */
+  findRoundVictim(round, start, end, startTime) {
+    let first = null;
+    this.gameState.getAllPlayers().forEach((player, playerId) => {
+      if (playerId === round.ownerId || player.health <= 0) {
         return;
       }
 
+      const previous = this.lagCompensation.samplePosition(playerId, startTime) ?? player.position;
+      const current = this.lagCompensation.samplePosition(playerId, round.time) ?? player.position;
+      const fraction = sweepRound(start, end, previous, current, this.lagCompensation.hitRadius);
+      if (fraction !== null && (!first || fraction < first.fraction)) {
+        first = { playerId, fraction };
+      }
+    });
+    return first;
+  }
+
+  rejectShot(attackerId, weapon, weaponState, now) {
+    // 워밍업/라운드 종료 후에는 판정하지 않는다
+    if (this.matchManager && !this.matchManager.isCombatAllowed(now)) {
+      console.log(`🚫 Shot rejected: Player ${attackerId} fired outside the live round`);
+      return true;
+    }
+
+    if (weapon.feed.kind === 'heat') {
+      // 과열 체크 - 식어서 풀릴 때까지 거부
+      if (coolHeat(weaponState.heat, weapon.feed, now).overheated) {
+        console.log(`🚫 Shot rejected: Player ${attackerId} gun is overheated`);
+        return true;
+      }
+    } else {
       // 탄약 체크
-      if (attacker.ammo <= 0) {
+      if (weaponState.ammo <= 0) {
         console.log(`🚫 Shot rejected: Player ${attackerId} has no ammo`);
-        return;
+        return true;
       }
 
       // 재장전 중 체크
-      if (attacker.isReloading) {
+      if (weaponState.isReloading) {
         console.log(`🚫 Shot rejected: Player ${attackerId} is reloading`);
-        return;
+        return true;
+      }
+    }
+
+    // 연사 제한 검증
+    if (now - weaponState.lastShotTime < weapon.cooldownMs * this.cooldownTolerance) {
+      console.log(`🚫 Shot rejected: Player ${attackerId} shooting too fast`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /** @param cause 체력이 0이 되면 handlePlayerDeath로 넘길 사망 원인 */
+  async applyHit(attackerId, victimId, damage, position, distance, now, cause = 'shot') {
+    const victim = this.gameState.getPlayer(victimId);
+    if (!victim) {
+      return;
+    }
+
+    // 피해자 체력 감소
+    victim.health = Math.max(0, victim.health - damage);
+
+    console.log(cause === 'collision'
+      ? `💥 Player ${victimId} collided with Player ${attackerId} for ${damage} damage! Health: ${victim.health}/${victim.maxHealth}`
+      : cause === 'missile'
+        ? `🚀 Missile from Player ${attackerId} hit Player ${victimId} for ${damage} damage! Victim health: ${victim.health}/${victim.maxHealth}`
+        : `🎯 Player ${attackerId} hit Player ${victimId} for ${damage} damage! Victim health: ${victim.health}/${victim.maxHealth}`);
+
+    // 모든 클라이언트에게 피격 이벤트 브로드캐스트
+    const hitMessage = JSON.stringify({
+      type: 'player-hit',
+      attackerId: attackerId,
+      victimId: victimId,
+      damage: damage,
+      victimHealth: victim.health,
+      position: position,
+      distance: distance,
+      timestamp: now
+    });
+
+    this.webSocketManager.broadcast(hitMessage);
+
+    // 사망 처리
+    if (victim.health <= 0) {
+      await this.handlePlayerDeath(attackerId, victimId, cause);
+    }
+  }
+
+  /**
+   * 클라이언트가 보고한 지형 충돌. 보고 위치가 마지막으로 받은 위치 근처이고 서버 높이맵의
+   * 지면에 닿아 있을 때만 사망 처리한다 - 가해자 없이 데스만 오른다.
+   */
+  async handlePlayerCrash(playerId, position) {
+    try {
+      const player = this.gameState.getPlayer(playerId);
+      if (!player) {
+        console.log(`⚠️ Player not found: ${playerId}`);
+        return false;
+      }
+
+      if (!isVector(position)) {
+        console.log(`🚫 Crash rejected: Player ${playerId} sent malformed position`);
+        return false;
+      }
+
+      if (distanceBetween(position, player.position) > this.maxCrashOffset) {
+        console.log(`🚫 Crash rejected: Player ${playerId} reported a crash away from their aircraft`);
+        return false;
+      }
+
+      const ground = this.gameState.getTerrain().heightAt(position[0], position[2]);
+      if (position[1] - ground > this.crashAltitudeTolerance) {
+        console.log(`🚫 Crash rejected: Player ${playerId} is ${Math.round(position[1] - ground)} above terrain`);
+        return false;
+      }
+
+      await this.handlePlayerDeath(playerId, playerId, 'crash');
+      return true;
+    } catch (error) {
+      console.error('Error handling player crash:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 클라이언트가 보고한 공중 충돌. 최근 collisionHistoryMs 동안 두 기체의 서버 위치가 충돌 반지름 합
+   * 근처까지 다가왔을 때만 인정하고, 그 위치 이력으로 잰 상대 속력에 비례한 피해를 양쪽에 준다
+   * (클라이언트가 보고한 속력은 쓰지 않는다). 두 조종사가 같은 충돌을 모두 보고하므로
+   * 같은 쌍은 collisionCooldownMs 안에 한 번만 처리한다.
+   */
+  async handlePlayerCollision(playerId, otherId, position) {
+    try {
+      const player = this.gameState.getPlayer(playerId);
+      const other = this.gameState.getPlayer(otherId);
+      if (!player || !other || playerId === otherId) {
+        console.log(`⚠️ Collision ignored: Player ${playerId} with ${otherId}`);
+        return false;
+      }
+
+      if (!isVector(position)) {
+        console.log(`🚫 Collision rejected: Player ${playerId} sent malformed position`);
+        return false;
       }
 
-      // 연사 제한 검증
       const now = Date.now();
-      if (now - attacker.lastShotTime < attacker.shotCooldown) {
-        console.log(`🚫 Shot rejected: Player ${attackerId} shooting too fast`);
-        return;
+      if (this.matchManager && !this.matchManager.isCombatAllowed(now)) {
+        console.log(`🚫 Collision rejected: Player ${playerId} collided outside the live round`);
+        return false;
       }
 
-      attacker.lastShotTime = now;
-      attacker.ammo--; // 탄약 소모
-      
-      // 피해자 체력 감소
-      victim.health = Math.max(0, victim.health - damage);
-      
-      console.log(`🎯 Player ${attackerId} hit Player ${victimId} for ${damage} damage! Victim health: ${victim.health}/${victim.maxHealth}`);
-      
-      // 모든 클라이언트에게 피격 이벤트 브로드캐스트
-      const hitMessage = JSON.stringify({
-        type: 'player-hit',
-        attackerId: attackerId,
-        victimId: victimId,
-        damage: damage,
-        victimHealth: victim.health,
-        position: position,
-        distance: distance,
-        timestamp: now
-      });
-      
-      this.webSocketManager.broadcast(hitMessage);
-      
-      // 사망 처리
-      if (victim.health <= 0) {
-        await this.handlePlayerDeath(attackerId, victimId);
+      if (distanceBetween(position, player.position) > this.maxCrashOffset) {
+        console.log(`🚫 Collision rejected: Player ${playerId} reported a collision away from their aircraft`);
+        return false;
+      }
+
+      const reach = (player.collisionRadius ?? this.collisionRadius) +
+        (other.collisionRadius ?? this.collisionRadius) +
+        this.maxCollisionOffset;
+      const players = this.gameState.getAllPlayers();
+      if (this.lagCompensation.closestApproachSince(playerId, otherId, now - this.collisionHistoryMs, players) > reach) {
+        console.log(`🚫 Collision rejected: Players ${playerId} and ${otherId} are too far apart`);
+        return false;
+      }
+
+      const pairKey = playerId < otherId ? `${playerId}:${otherId}` : `${otherId}:${playerId}`;
+      this.pruneCollisions(now);
+      if (this.recentCollisions.has(pairKey)) {
+        return false; // 상대가 먼저 보고한 같은 충돌
       }
+      this.recentCollisions.set(pairKey, now);
+
+      // 이동 검증을 거친 위치 이력의 속도 - 검증 허용치만큼 넘칠 수 있어 두 기체 최고 속력 합으로 자른다
+      const maxClosingSpeed = ((player.maxSpeed ?? DEFAULT_MAX_SPEED) + (other.maxSpeed ?? DEFAULT_MAX_SPEED)) * DIVE_ALLOWANCE;
+      const closingSpeed = Math.min(maxClosingSpeed, distanceBetween(
+        this.lagCompensation.velocityOf(playerId),
+        this.lagCompensation.velocityOf(otherId)
+      ));
+      const damage = Math.round(Math.max(this.minCollisionDamage, closingSpeed * this.collisionDamagePerSpeed));
+      const distance = distanceBetween(player.position, other.position);
+
+      await this.applyHit(otherId, playerId, damage, position, distance, now, 'collision');
+      await this.applyHit(playerId, otherId, damage, position, distance, now, 'collision');
+      return true;
     } catch (error) {
-      console.error('Error handling player hit:', error);
+      console.error('Error handling player collision:', error);
+      return false;
     }
   }
 
-  async handlePlayerDeath(attackerId, victimId) {
-    console.log(`💀 Player ${victimId} was killed by Player ${attackerId}`);
+  pruneCollisions(now) {
+    this.recentCollisions.forEach((time, key) => {
+      if (now - time >= this.collisionCooldownMs) {
+        this.recentCollisions.delete(key);
+      }
+    });
+  }
+
+  /**
+   * @param cause 'shot' (피격) | 'missile' (미사일 명중) | 'crash' (지형 충돌, attackerId = victimId)
+   *   | 'collision' (공중 충돌, attackerId = 부딪힌 상대 - 킬로 치지 않는다)
+   */
+  async handlePlayerDeath(attackerId, victimId, cause = 'shot') {
+    console.log(cause === 'crash'
+      ? `💥 Player ${victimId} crashed into terrain`
+      : cause === 'collision'
+        ? `💥 Player ${victimId} went down colliding with Player ${attackerId}`
+        : cause === 'missile'
+          ? `🚀 Player ${victimId} was shot down by a missile from Player ${attackerId}`
+          : `💀 Player ${victimId} was killed by Player ${attackerId}`);
     
     // 킬/데스 이벤트를 Redis에 저장
     const attackerUserId = this.gameState.getUserForPlayer(attackerId);
     const victimUserId = this.gameState.getUserForPlayer(victimId);
     
-    if (attackerUserId && victimUserId) {
+    if (cause === 'crash' && victimUserId) {
+      await GameEventService.handlePlayerCrash(this.gameState.getCurrentMatch(), victimUserId);
+    } else if (cause === 'collision' && victimUserId) {
+      await GameEventService.handlePlayerCollision(this.gameState.getCurrentMatch(), attackerUserId ?? victimUserId, victimUserId);
+    } else if (attackerUserId && victimUserId) {
       await GameEventService.handlePlayerKill(
         this.gameState.getCurrentMatch(),
         attackerUserId,
@@ -88,9 +397,17 @@ export class CombatSystem {
       );
     }
     
+    const attacker = this.gameState.getPlayer(attackerId);
+    if (attacker && (cause === 'shot' || cause === 'missile')) {
+      attacker.kills++;
+    }
+
     // 플레이어 리스폰
     const victim = this.gameState.getPlayer(victimId);
+    victim.deaths++;
     victim.health = victim.maxHealth;
+    victim.missiles = victim.maxMissiles;
+    victim.flares = victim.maxFlares;
     victim.position = [0, 10, 0]; // 리스폰 위치
     victim.rotation = [0, 0, 0, 1];
     
@@ -99,6 +416,7 @@ export class CombatSystem {
       type: 'player-death',
       victimId: victimId,
       attackerId: attackerId,
+      cause,
       respawnPosition: victim.position,
       timestamp: Date.now()
     });
@@ -106,56 +424,68 @@ export class CombatSystem {
     this.webSocketManager.broadcast(deathMessage);
   }
 
-  handlePlayerReload(playerId) {
+  handlePlayerReload(playerId, requestedWeaponId) {
     const player = this.gameState.getPlayer(playerId);
     if (!player) {
       console.log(`⚠️ Player not found: ${playerId}`);
       return false;
     }
 
+    const weaponId = resolveWeaponId(player, requestedWeaponId);
+    const { feed } = getWeaponType(weaponId);
+    const weaponState = player.weapons[weaponId];
+
+    // 벨트 급탄 무장은 재장전이 없다 (과열만 식힌다)
+    if (feed.kind !== 'magazine') {
+      console.log(`🚫 Reload rejected: Player ${playerId} ${weaponId} is belt-fed`);
+      return false;
+    }
+
     // 이미 재장전 중이면 거부
-    if (player.isReloading) {
-      console.log(`🚫 Reload rejected: Player ${playerId} already reloading`);
+    if (weaponState.isReloading) {
+      console.log(`🚫 Reload rejected: Player ${playerId} already reloading ${weaponId}`);
       return false;
     }
 
     // 탄약이 가득 차면 거부
-    if (player.ammo >= player.maxAmmo) {
-      console.log(`🚫 Reload rejected: Player ${playerId} ammo is full`);
+    if (weaponState.ammo >= feed.magazine) {
+      console.log(`🚫 Reload rejected: Player ${playerId} ${weaponId} ammo is full`);
       return false;
     }
 
     // 재장전 시작
-    player.isReloading = true;
-    player.reloadStartTime = Date.now();
+    weaponState.isReloading = true;
+    weaponState.reloadStartTime = Date.now();
 
-    console.log(`🔄 Player ${playerId} started reloading`);
+    console.log(`🔄 Player ${playerId} started reloading ${weaponId}`);
 
     // 재장전 완료 타이머 설정
     setTimeout(() => {
-      if (player.isReloading) {
-        player.ammo = player.maxAmmo;
-        player.isReloading = false;
-        console.log(`✅ Player ${playerId} reload complete! Ammo: ${player.ammo}/${player.maxAmmo}`);
+      if (weaponState.isReloading) {
+        weaponState.ammo = feed.magazine;
+        weaponState.isReloading = false;
+        console.log(`✅ Player ${playerId} reload complete! ${weaponId} ammo: ${weaponState.ammo}/${feed.magazine}`);
 
         // 재장전 완료 이벤트 브로드캐스트
         const reloadCompleteMessage = JSON.stringify({
           type: 'player-reload-complete',
           playerId: playerId,
-          ammo: player.ammo,
-          maxAmmo: player.maxAmmo,
+          weaponId,
+          ammo: weaponState.ammo,
+          maxAmmo: feed.magazine,
           timestamp: Date.now()
         });
 
         this.webSocketManager.broadcast(reloadCompleteMessage);
       }
-    }, player.reloadDuration);
+    }, feed.reloadMs);
 
     // 재장전 시작 이벤트 브로드캐스트
     const reloadMessage = JSON.stringify({
       type: 'player-reload',
       playerId: playerId,
-      reloadDuration: player.reloadDuration,
+      weaponId,
+      reloadDuration: feed.reloadMs,
       timestamp: Date.now()
     });
 
@@ -163,28 +493,57 @@ export class CombatSystem {
     return true;
   }
 
-  updateReloadStatus(playerId) {
+  updateReloadStatus(playerId, requestedWeaponId) {
     const player = this.gameState.getPlayer(playerId);
-    if (!player || !player.isReloading) return null;
+    if (!player) return null;
+
+    const weaponId = resolveWeaponId(player, requestedWeaponId);
+    const { feed } = getWeaponType(weaponId);
+    const weaponState = player.weapons[weaponId];
+    if (feed.kind !== 'magazine' || !weaponState.isReloading) return null;
 
     const now = Date.now();
-    const elapsed = now - player.reloadStartTime;
-    const remaining = Math.max(0, player.reloadDuration - elapsed);
+    const elapsed = now - weaponState.reloadStartTime;
+    const remaining = Math.max(0, feed.reloadMs - elapsed);
 
-    if (remaining === 0 && player.isReloading) {
+    if (remaining === 0 && weaponState.isReloading) {
       // 재장전 완료
-      player.ammo = player.maxAmmo;
-      player.isReloading = false;
-      console.log(`✅ Player ${playerId} reload complete (update)! Ammo: ${player.ammo}/${player.maxAmmo}`);
+      weaponState.ammo = feed.magazine;
+      weaponState.isReloading = false;
+      console.log(`✅ Player ${playerId} reload complete (update)! ${weaponId} ammo: ${weaponState.ammo}/${feed.magazine}`);
     }
 
     return {
-      isReloading: player.isReloading,
+      weaponId,
+      isReloading: weaponState.isReloading,
       reloadTimeRemaining: remaining,
-      ammo: player.ammo,
-      maxAmmo: player.maxAmmo
+      ammo: weaponState.ammo,
+      maxAmmo: feed.magazine
     };
   }
 }
 
+/** 기체에 없는 무장이면 첫 번째(주무장)로 처리한다 - weaponId를 보내지 않는 예전 클라이언트 포함 */
+function resolveWeaponId(player, weaponId) {
+  return Object.hasOwn(player.weapons, weaponId) ? weaponId : Object.keys(player.weapons)[0];
+}
+
+function isVector(value) {
+  return Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((component) => typeof component === 'number' && Number.isFinite(component));
+}
+
+function normalize(value) {
+  if (!isVector(value)) {
+    return null;
+  }
+  const length = Math.hypot(value[0], value[1], value[2]);
+  return length > 1e-6 ? value.map((component) => component / length) : null;
+}
+
+function distanceBetween(a, b) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
 export default CombatSystem; 
@@ -1,10 +1,17 @@
 // server/game/GameState.js
+import { FLARE } from '../../shared/Countermeasures.js';
+import { MISSILE } from '../../shared/MissileGuidance.js';
+import { DEFAULT_AIRCRAFT_TYPE, getAircraftType } from './AircraftTypes.js';
+import { DEFAULT_MAX_SPEED, DIVE_ALLOWANCE } from './MovementValidator.js';
+import { Terrain, pickTerrainSeed } from './Terrain.js';
+import { createWeaponStates } from './WeaponTypes.js';
 
 export class GameState {
   constructor() {
     this.players = new Map();
     this.currentMatchId = null;
     this.playerUserMap = new Map(); // playerId -> userId 매핑
+    this.terrain = new Terrain(pickTerrainSeed()); // 매치마다 새 시드 (MatchManager.startMatch)
     this.lastUpdate = Date.now();
     this.tickRate = 60;
     this.tickInterval = 1000 / 60;
@@ -35,14 +42,19 @@ export class GameState {
       // 체력 시스템
       health: 100,
       maxHealth: 100,
-      lastShotTime: 0,
-      shotCooldown: 500, // 0.5초
-      // 탄약 시스템
-      ammo: 30,
-      maxAmmo: 30,
-      isReloading: false,
-      reloadStartTime: 0,
-      reloadDuration: 3000, // 3초
+      // 무장별 탄창/연사/재장전 상태 (weaponId -> 상태, 정의는 WeaponTypes) - 기체에 따라 바뀐다
+      weapons: createWeaponStates(getAircraftType(DEFAULT_AIRCRAFT_TYPE).weapons),
+      // 보조 무장 (유도 미사일) - 리스폰하면 다시 채운다
+      missiles: MISSILE.count,
+      maxMissiles: MISSILE.count,
+      lastMissileTime: 0,
+      // 플레어 (방어 수단) - 리스폰하면 다시 채운다
+      flares: FLARE.count,
+      maxFlares: FLARE.count,
+      lastFlareTime: 0,
+      // 점수 (재접속 시 그대로 복원)
+      kills: 0,
+      deaths: 0,
       ...playerData
     });
   }
@@ -86,6 +98,7 @@ export class GameState {
     if (player) {
       player.position = position;
       player.rotation = rotation;
+      player.velocity = computeVelocity(rotation, player.speed);
       player.lastActivity = Date.now();
     }
   }
@@ -94,7 +107,8 @@ export class GameState {
     const player = this.players.get(playerId);
     if (player) {
       player.inputState = inputState;
-      player.speed = speed || 0;
+      player.speed = clampSpeed(speed, player.maxSpeed);
+      player.velocity = computeVelocity(player.rotation, player.speed);
       player.lastActivity = Date.now();
     }
   }
@@ -107,6 +121,23 @@ export class GameState {
     return this.currentMatchId;
   }
 
+  /** 지형 높이맵 - 시드는 welcome의 terrain.seed로 클라이언트에 알린다 */
+  getTerrain() {
+    return this.terrain;
+  }
+
+  setTerrainSeed(seed) {
+    this.terrain = new Terrain(seed);
+  }
+
+  /** 새 매치 시작 - 결과 화면에 남아 있던 플레이어의 지난 매치 킬/데스를 지운다 */
+  resetScores() {
+    for (const player of this.players.values()) {
+      player.kills = 0;
+      player.deaths = 0;
+    }
+  }
+
   mapPlayerToUser(playerId, userId) {
     this.playerUserMap.set(playerId, userId);
   }
@@ -122,4 +153,32 @@ export class GameState {
   }
 }
 
-export default GameState; 
\ No newline at end of file
+/**
+ * 클라이언트가 보고한 속력 - 숫자가 아니면 0, 기체 최대 속력 × 급강하 한계를 넘으면 자른다.
+ * 이 속력으로 만든 velocity를 탄/플레어가 물려받으므로 조작된 값이 그대로 들어오면 안 된다.
+ */
+function clampSpeed(speed, maxSpeed = DEFAULT_MAX_SPEED) {
+  if (typeof speed !== 'number' || !Number.isFinite(speed)) {
+    return 0;
+  }
+  return Math.min(Math.max(speed, 0), maxSpeed * DIVE_ALLOWANCE);
+}
+
+/**
+ * 기체 진행 방향(-Z)을 회전 쿼터니언 [x, y, z, w]로 돌린 뒤 속력을 곱한다.
+ * 클라이언트는 STATE_UPDATE의 속도로 원격 기체를 추측 항법(dead reckoning)한다.
+ */
+function computeVelocity(rotation, speed) {
+  if (!Array.isArray(rotation) || rotation.length !== 4 || !speed) {
+    return [0, 0, 0];
+  }
+
+  const [x, y, z, w] = rotation;
+  return [
+    -2 * (x * z + w * y) * speed,
+    -2 * (y * z - w * x) * speed,
+    -(1 - 2 * (x * x + y * y)) * speed
+  ];
+}
+
+export default GameState; 
@@ -0,0 +1,192 @@
+// server/game/LagCompensation.js
+import { closestApproach } from '../../shared/MissileGuidance.js';
+
+/**
+ * 지연 보상(lag compensation)용 위치 이력.
+ *
+ * 스냅샷 틱마다 모든 플레이어 위치를 서버 시각과 함께 기록해 두고, 사격 판정 시
+ * 클라이언트가 화면에서 보고 있던 시각(보간 지연이 반영된 서버 시각)으로 되감아
+ * 레이-구 교차 검사를 한다. 되감기 폭은 maxRewindMs로 제한해 높은 핑이나 조작된
+ * 타임스탬프로 먼 과거를 쏘는 것을 막는다.
+ */
+export class LagCompensation {
+  constructor(options = {}) {
+    this.historyMs = options.historyMs ?? 1000;
+    this.maxRewindMs = options.maxRewindMs ?? 400;
+    this.maxExtrapolationMs = options.maxExtrapolationMs ?? 250; // 클라이언트 SnapshotBuffer와 동일
+    this.hitRadius = options.hitRadius ?? 4; // 기체 판정 구 반지름
+    this.samples = []; // { sequence, time, positions: Map<playerId, number[]> }
+  }
+
+  record(sequence, players, now = Date.now()) {
+    const positions = new Map();
+    for (const [id, player] of players) {
+      positions.set(id, [...player.position]);
+    }
+    this.samples.push({ sequence, time: now, positions });
+
+    while (this.samples.length > 0 && now - this.samples[0].time > this.historyMs) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * 판정 시각을 정한다. clientTime(클라이언트가 렌더링하던 서버 시각)을 쓰되,
+   * 클라이언트가 마지막으로 받았다고 밝힌 스냅샷 이후로는 외삽 한도까지만 허용하고
+   * 과거로는 maxRewindMs까지만 되감는다.
+   */
+  resolveRewindTime(clientTime, snapshotSequence, now = Date.now()) {
+    let upper = now;
+    const seen = this.findSample(snapshotSequence);
+    if (seen) {
+      upper = Math.min(now, seen.time + this.maxExtrapolationMs);
+    }
+
+    const lower = now - this.maxRewindMs;
+    const requested = Number.isFinite(clientTime) ? clientTime : upper;
+    return Math.min(upper, Math.max(lower, requested));
+  }
+
+  /**
+   * time 시점의 플레이어 위치를 기록 사이에서 선형 보간해 돌려준다.
+   * 기록이 없는 플레이어(방금 접속)는 현재 위치를 쓴다.
+   */
+  getPositionsAt(time, players) {
+    const positions = new Map();
+    for (const [id, player] of players) {
+      positions.set(id, this.samplePosition(id, time) ?? player.position);
+    }
+    return positions;
+  }
+
+  /**
+   * origin에서 direction 방향 레이에 처음 맞는 플레이어.
+   * @returns {{ playerId: number, distance: number, point: number[] } | null}
+   */
+  raycast(origin, direction, { players, time, maxRange, excludeId }) {
+    const positions = this.getPositionsAt(time, players);
+    let closest = null;
+
+    for (const [id, center] of positions) {
+      if (id === excludeId) continue;
+
+      const distance = intersectRaySphere(origin, direction, center, this.hitRadius);
+      if (distance === null || distance > maxRange) continue;
+
+      if (!closest || distance < closest.distance) {
+        closest = {
+          playerId: id,
+          distance,
+          point: [
+            origin[0] + direction[0] * distance,
+            origin[1] + direction[1] * distance,
+            origin[2] + direction[2] * distance
+          ]
+        };
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * since 이후 기록(과 현재 위치)으로 본 두 플레이어의 최근접 거리. 틱 사이는 직선 이동으로 보고 잰다.
+   * 기록이 없으면 현재 위치 사이 거리.
+   */
+  closestApproachSince(idA, idB, since, players) {
+    const path = this.samples
+      .filter((sample) => sample.time >= since && sample.positions.has(idA) && sample.positions.has(idB))
+      .map((sample) => [sample.positions.get(idA), sample.positions.get(idB)]);
+    path.push([players.get(idA).position, players.get(idB).position]);
+
+    let closest = Infinity;
+    for (let i = 0; i < path.length; i++) {
+      const [a0, b0] = path[Math.max(0, i - 1)];
+      const [a1, b1] = path[i];
+      closest = Math.min(closest, closestApproach(a0, a1, b0, b1));
+    }
+    return closest;
+  }
+
+  /**
+   * 기록된 위치 변화로 구한 속도 (units/s) - 최근 windowMs 동안의 평균.
+   * 클라이언트가 보고한 속력 대신 이동 검증을 거친 위치만 쓴다. 기록이 모자라면 [0, 0, 0].
+   */
+  velocityOf(id, windowMs = 200) {
+    const latest = this.samples.findLast((sample) => sample.positions.has(id));
+    const earliest = latest && this.samples.find((sample) => sample.positions.has(id) && latest.time - sample.time <= windowMs);
+    if (!latest || earliest === latest) {
+      return [0, 0, 0];
+    }
+
+    const elapsed = (latest.time - earliest.time) / 1000;
+    const from = earliest.positions.get(id);
+    const to = latest.positions.get(id);
+    return to.map((component, i) => (component - from[i]) / elapsed);
+  }
+
+  samplePosition(id, time) {
+    let before = null;
+    let after = null;
+    for (const sample of this.samples) {
+      if (!sample.positions.has(id)) continue;
+      if (sample.time <= time) {
+        before = sample;
+      } else {
+        after = sample;
+        break;
+      }
+    }
+
+    if (before && after) {
+      const t = (time - before.time) / Math.max(1, after.time - before.time);
+      const a = before.positions.get(id);
+      const b = after.positions.get(id);
+      return [
+        a[0] + (b[0] - a[0]) * t,
+        a[1] + (b[1] - a[1]) * t,
+        a[2] + (b[2] - a[2]) * t
+      ];
+    }
+
+    return (before ?? after)?.positions.get(id) ?? null;
+  }
+
+  findSample(sequence) {
+    if (!Number.isInteger(sequence)) {
+      return null;
+    }
+    for (let i = this.samples.length - 1; i >= 0; i--) {
+      if (this.samples[i].sequence === sequence) {
+        return this.samples[i];
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * 정규화된 direction 기준 레이-구 교차 거리. 교차하지 않거나 구가 레이 뒤에 있으면 null
+ */
+function intersectRaySphere(origin, direction, center, radius) {
+  const ox = origin[0] - center[0];
+  const oy = origin[1] - center[1];
+  const oz = origin[2] - center[2];
+
+  const b = ox * direction[0] + oy * direction[1] + oz * direction[2];
+  const c = ox * ox + oy * oy + oz * oz - radius * radius;
+  const discriminant = b * b - c;
+  if (discriminant < 0) {
+    return null;
+  }
+
+  const root = Math.sqrt(discriminant);
+  const near = -b - root;
+  if (near >= 0) {
+    return near;
+  }
+  // 레이 시작점이 구 안쪽
+  return -b + root >= 0 ? 0 : null;
+}
+
+export default LagCompensation;
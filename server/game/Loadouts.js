@@ -0,0 +1,21 @@
+// server/game/Loadouts.js
+import { AIRCRAFT_TYPE_IDS, DEFAULT_AIRCRAFT_TYPE } from './AircraftTypes.js';
+
+/**
+ * 격납고 기체/도색 id 목록 (client/components/assets/Loadout.ts와 동일하게 유지).
+ * 기체(airframe)는 AircraftTypes의 기체 종류, 도색은 id만 검증해 다른 클라이언트에 전달한다.
+ */
+export const AIRFRAME_IDS = AIRCRAFT_TYPE_IDS;
+export const LIVERY_IDS = ['stock', 'navy', 'crimson', 'desert', 'arctic', 'olive', 'phantom'];
+
+export const DEFAULT_LOADOUT = Object.freeze({ airframe: DEFAULT_AIRCRAFT_TYPE, livery: 'stock' });
+
+/** 접속 쿼리의 airframe/livery - 목록에 없는 값은 기본값으로 바꾼다 */
+export function sanitizeLoadout(airframe, livery) {
+  return {
+    airframe: AIRFRAME_IDS.includes(airframe) ? airframe : DEFAULT_LOADOUT.airframe,
+    livery: LIVERY_IDS.includes(livery) ? livery : DEFAULT_LOADOUT.livery
+  };
+}
+
+export default { AIRFRAME_IDS, LIVERY_IDS, DEFAULT_LOADOUT, sanitizeLoadout };
@@ -0,0 +1,362 @@
+// server/game/MissileSystem.js
+import { FLARE, FLARE_SEEKER, isFlareBurnedOut, isInSeekerCone, launchFlare, stepFlare } from '../../shared/Countermeasures.js';
+import { MISSILE, MISSILE_LOCK, closestApproach, isInLockCone, isMissileSpent, launchMissile, stepMissile } from '../../shared/MissileGuidance.js';
+
+const STEP_SECONDS = 1 / 60; // 클라이언트 고정 틱과 같은 간격으로 적분한다
+
+/**
+ * 유도 미사일의 서버 판정. 발사 요청을 검증해 missile-launched를 브로드캐스트하고,
+ * 락온은 서버가 기록한 위치/자세로 다시 확인한다 (updateLocks - 원뿔·사거리 안에 lockSeconds 동안).
+ * 주기적인 tick()에서 미사일을 직접 날려 근접 신관(fuseRadius)·지형·연료 소진으로
+ * 폭발시킨다. 명중 피해는 CombatSystem.applyHit(cause: 'missile')로 넘긴다.
+ * 플레어도 여기서 떨어뜨린다 - 사출 순간 그 기체를 쫓는 미사일의 탐색기에 보이면
+ * decoyChance 확률로 속아(missile-decoyed) 목표 대신 플레어를 쫓는다.
+ */
+export class MissileSystem {
+  constructor(gameState, webSocketManager, matchManager, combatSystem) {
+    this.gameState = gameState;
+    this.webSocketManager = webSocketManager;
+    this.matchManager = matchManager;
+    this.combatSystem = combatSystem;
+    this.maxOriginOffset = 25;     // CombatSystem 사격 원점과 같은 허용 거리
+    this.cooldownTolerance = 0.75; // 패킷 몰림(지터) 허용 비율
+    this.lockTolerance = 1.25;     // 락온 원뿔/사거리 여유 배수 (클라이언트는 보간 지연된 위치를 조준한다)
+    this.locks = new Map();        // 쏘는 playerId -> Map<목표 playerId, 원뿔에 들어온 시각>
+    this.missiles = new Map();     // missileId -> { id, ownerId, targetId, decoy, state }
+    this.flares = new Map();       // flareId -> { id, ownerId, state }
+    this.nextMissileId = 1;
+    this.nextFlareId = 1;
+    this.random = Math.random;
+    this.lastTickTime = null;
+    this.accumulator = 0;
+    this.ticking = false; // 명중 처리(DB 기록)가 다음 tick보다 오래 걸려도 겹쳐 돌지 않게
+  }
+
+  /**
+   * 보조 무장 발사 요청. 잔탄/쿨다운/발사 위치를 확인하고, 락온 목표가 서버 위치 기준으로도
+   * 원뿔·사거리 안에 락온 시간만큼 있었던 다른 플레이어일 때만 유도한다 (아니면 무유도).
+   */
+  handleLaunch(playerId, launch) {
+    const player = this.gameState.getPlayer(playerId);
+    if (!player) {
+      console.log(`⚠️ Player not found: ${playerId}`);
+      return null;
+    }
+
+    const direction = normalize(launch?.direction);
+    if (!isVector(launch?.origin) || !direction) {
+      console.log(`🚫 Missile rejected: Player ${playerId} sent malformed launch`);
+      return null;
+    }
+
+    const now = Date.now();
+    if (this.matchManager && !this.matchManager.isCombatAllowed(now)) {
+      console.log(`🚫 Missile rejected: Player ${playerId} fired outside the live round`);
+      return null;
+    }
+
+    if (player.missiles <= 0) {
+      console.log(`🚫 Missile rejected: Player ${playerId} has no missiles`);
+      return null;
+    }
+
+    if (now - player.lastMissileTime < MISSILE.cooldownMs * this.cooldownTolerance) {
+      console.log(`🚫 Missile rejected: Player ${playerId} launching too fast`);
+      return null;
+    }
+
+    if (distanceBetween(launch.origin, player.position) > this.maxOriginOffset) {
+      console.log(`🚫 Missile rejected: Player ${playerId} launched from too far off their aircraft`);
+      return null;
+    }
+
+    const targetId = this.resolveLockTarget(playerId, player, launch.targetId, now);
+
+    player.missiles--;
+    player.lastMissileTime = now;
+
+    const missile = {
+      id: this.nextMissileId++,
+      ownerId: playerId,
+      targetId,
+      decoy: null, // 속았을 때 쫓는 플레어
+      state: launchMissile(launch.origin, direction, player.speed ?? 0)
+    };
+    this.missiles.set(missile.id, missile);
+    this.lastTickTime ??= now;
+
+    console.log(`🚀 Player ${playerId} launched missile ${missile.id}${targetId !== null ? ` at Player ${targetId}` : ' (unguided)'} - ${player.missiles}/${player.maxMissiles} left`);
+
+    this.webSocketManager.broadcast(JSON.stringify({
+      type: 'missile-launched',
+      missileId: missile.id,
+      ownerId: playerId,
+      targetId,
+      position: missile.state.position,
+      velocity: missile.state.velocity,
+      timestamp: now
+    }));
+
+    return missile;
+  }
+
+  /**
+   * 플레어 사출 요청. 잔량/간격/사출 위치를 확인해 flare-dispensed를 브로드캐스트하고,
+   * 이 기체를 쫓는 미사일마다 탐색기에 보이면 decoyChance로 속는지 정한다.
+   */
+  handleFlare(playerId, dispense) {
+    const player = this.gameState.getPlayer(playerId);
+    if (!player) {
+      console.log(`⚠️ Player not found: ${playerId}`);
+      return null;
+    }
+
+    if (!isVector(dispense?.position)) {
+      console.log(`🚫 Flare rejected: Player ${playerId} sent malformed position`);
+      return null;
+    }
+
+    const now = Date.now();
+    if (this.matchManager && !this.matchManager.isCombatAllowed(now)) {
+      console.log(`🚫 Flare rejected: Player ${playerId} dispensed outside the live round`);
+      return null;
+    }
+
+    if (player.flares <= 0) {
+      console.log(`🚫 Flare rejected: Player ${playerId} has no flares`);
+      return null;
+    }
+
+    if (now - player.lastFlareTime < FLARE.cooldownMs * this.cooldownTolerance) {
+      console.log(`🚫 Flare rejected: Player ${playerId} dispensing too fast`);
+      return null;
+    }
+
+    if (distanceBetween(dispense.position, player.position) > this.maxOriginOffset) {
+      console.log(`🚫 Flare rejected: Player ${playerId} dispensed too far off their aircraft`);
+      return null;
+    }
+
+    player.flares--;
+    player.lastFlareTime = now;
+
+    // 기체 속도는 GameState가 최대 속력 × 급강하 한계로 자른 속력에서 만든다 - 조작된 속력으로 멀리 던질 수 없다
+    const flare = {
+      id: this.nextFlareId++,
+      ownerId: playerId,
+      state: launchFlare(dispense.position, player.velocity ?? [0, 0, 0])
+    };
+    this.flares.set(flare.id, flare);
+    this.lastTickTime ??= now;
+
+    console.log(`🎇 Player ${playerId} dispensed flare ${flare.id} - ${player.flares}/${player.maxFlares} left`);
+
+    this.webSocketManager.broadcast(JSON.stringify({
+      type: 'flare-dispensed',
+      flareId: flare.id,
+      playerId,
+      position: flare.state.position,
+      velocity: flare.state.velocity,
+      timestamp: now
+    }));
+
+    this.missiles.forEach((missile) => {
+      if (missile.targetId !== playerId || !isInSeekerCone(missile.state.position, missile.state.velocity, flare.state.position)) {
+        return;
+      }
+      if (this.random() >= FLARE_SEEKER.decoyChance) {
+        return;
+      }
+
+      missile.targetId = null;
+      missile.decoy = flare;
+      console.log(`🎇 Missile ${missile.id} decoyed by flare ${flare.id}`);
+      this.webSocketManager.broadcast(JSON.stringify({
+        type: 'missile-decoyed',
+        missileId: missile.id,
+        flareId: flare.id,
+        timestamp: now
+      }));
+    });
+
+    return flare;
+  }
+
+  /**
+   * 스냅샷 틱마다 호출 - 플레이어마다 서버 위치/자세 기준 락온 원뿔 안의 기체와 들어온 시각을 기록한다.
+   * 원뿔을 벗어나면 기록을 지워 다시 처음부터 잰다.
+   */
+  updateLocks(now = Date.now()) {
+    const players = this.gameState.getAllPlayers();
+    const locks = new Map();
+    players.forEach((player, playerId) => {
+      const previous = this.locks.get(playerId);
+      const inCone = new Map();
+      players.forEach((target, targetId) => {
+        if (targetId === playerId || target.health <= 0 ||
+          !isInLockCone(player.position, player.rotation, target.position, this.lockTolerance)) {
+          return;
+        }
+        inCone.set(targetId, previous?.get(targetId) ?? now);
+      });
+      locks.set(playerId, inCone);
+    });
+    this.locks = locks;
+  }
+
+  /** 요청한 락온 목표가 지금 원뿔 안에 있고 락온 시간(지터 허용)만큼 머물렀으면 그 id, 아니면 null (무유도) */
+  resolveLockTarget(playerId, player, targetId, now) {
+    if (!Number.isInteger(targetId) || targetId === playerId) {
+      return null;
+    }
+
+    const target = this.gameState.getPlayer(targetId);
+    if (!target) {
+      return null;
+    }
+
+    if (!isInLockCone(player.position, player.rotation, target.position, this.lockTolerance)) {
+      console.log(`🚫 Lock rejected: Player ${targetId} is outside Player ${playerId}'s lock cone`);
+      return null;
+    }
+
+    const since = this.locks.get(playerId)?.get(targetId);
+    if (since === undefined || now - since < MISSILE_LOCK.lockSeconds * 1000 * this.cooldownTolerance) {
+      console.log(`🚫 Lock rejected: Player ${playerId} has not held Player ${targetId} long enough`);
+      return null;
+    }
+
+    return targetId;
+  }
+
+  /** 주기적으로 호출 - 지난 시간만큼 STEP_SECONDS 단위로 모든 미사일을 진행시킨다 */
+  async tick(now = Date.now()) {
+    if (this.ticking) {
+      return;
+    }
+
+    if (this.missiles.size === 0 && this.flares.size === 0) {
+      this.lastTickTime = null;
+      this.accumulator = 0;
+      return;
+    }
+
+    this.accumulator = Math.min(this.accumulator + (now - (this.lastTickTime ?? now)) / 1000, 0.25);
+    this.lastTickTime = now;
+
+    this.ticking = true;
+    try {
+      while (this.accumulator >= STEP_SECONDS) {
+        this.accumulator -= STEP_SECONDS;
+        this.stepFlares();
+        for (const missile of [...this.missiles.values()]) {
+          await this.stepMissile(missile, now);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  stepFlares() {
+    this.flares.forEach((flare, id) => {
+      stepFlare(flare.state, STEP_SECONDS);
+      if (isFlareBurnedOut(flare.state)) {
+        this.flares.delete(id);
+      }
+    });
+  }
+
+  async stepMissile(missile, now) {
+    if (missile.decoy && isFlareBurnedOut(missile.decoy.state)) {
+      missile.decoy = null; // 다 탄 플레어 - 이후 직진
+    }
+
+    const player = missile.targetId !== null ? this.gameState.getPlayer(missile.targetId) : null;
+    const target = missile.decoy
+      ? missile.decoy.state
+      : player ? { position: player.position, velocity: player.velocity ?? [0, 0, 0] } : null;
+    const start = missile.state.position;
+    stepMissile(missile.state, target, STEP_SECONDS);
+    const end = missile.state.position;
+
+    if (missile.state.age >= MISSILE.armSeconds) {
+      const victim = this.findFuseVictim(missile, start, end);
+      if (victim) {
+        this.detonate(missile, 'proximity', victim.playerId);
+        if (!this.matchManager || this.matchManager.isCombatAllowed(now)) {
+          await this.combatSystem.applyHit(
+            missile.ownerId,
+            victim.playerId,
+            MISSILE.damage,
+            end,
+            victim.distance,
+            now,
+            'missile'
+          );
+        }
+        return;
+      }
+    }
+
+    if (end[1] <= this.gameState.getTerrain().heightAt(end[0], end[2])) {
+      this.detonate(missile, 'ground', null);
+    } else if (isMissileSpent(missile.state)) {
+      this.detonate(missile, 'spent', null);
+    }
+  }
+
+  /** 이번 스텝 동안 신관 반경 안에 들어온 (발사한 사람 외의) 가장 가까운 기체 */
+  findFuseVictim(missile, start, end) {
+    let closest = null;
+    this.gameState.getAllPlayers().forEach((player, playerId) => {
+      if (playerId === missile.ownerId || player.health <= 0) {
+        return;
+      }
+
+      const velocity = player.velocity ?? [0, 0, 0];
+      const previous = player.position.map((component, i) => component - velocity[i] * STEP_SECONDS);
+      const distance = closestApproach(start, end, previous, player.position);
+      if (distance <= MISSILE.fuseRadius && (!closest || distance < closest.distance)) {
+        closest = { playerId, distance };
+      }
+    });
+    return closest;
+  }
+
+  detonate(missile, reason, victimId) {
+    this.missiles.delete(missile.id);
+    this.webSocketManager.broadcast(JSON.stringify({
+      type: 'missile-detonated',
+      missileId: missile.id,
+      position: missile.state.position,
+      reason,
+      victimId,
+      timestamp: Date.now()
+    }));
+  }
+
+  getActiveCount() {
+    return this.missiles.size;
+  }
+}
+
+function isVector(value) {
+  return Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((component) => typeof component === 'number' && Number.isFinite(component));
+}
+
+function normalize(value) {
+  if (!isVector(value)) {
+    return null;
+  }
+  const length = Math.hypot(value[0], value[1], value[2]);
+  return length > 1e-6 ? value.map((component) => component / length) : null;
+}
+
+function distanceBetween(a, b) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+export default MissileSystem;
@@ -0,0 +1,70 @@
+// server/game/MovementValidator.js
+
+/**
+ * 클라이언트가 보고한 위치를 서버 권위 상태에 반영하기 전에 검증한다.
+ * 서버는 아직 비행 물리를 직접 돌리지 않으므로, 마지막으로 승인한 위치에서
+ * 경과 시간 동안 최대 속도로 갈 수 있는 거리를 넘는 이동은 그 한도로 잘라낸다.
+ * 잘린 경우 클라이언트는 state-ack를 받아 서버 위치로 되감고 입력을 재생한다.
+ */
+export const DEFAULT_MAX_SPEED = 500; // 기체 정보가 없을 때 (fighter 최대 속력)
+export const DIVE_ALLOWANCE = 1.2;    // 급강하 한계 (FlightPhysics NEVER_EXCEED_RATIO)
+
+export class MovementValidator {
+  constructor(options = {}) {
+    this.maxSpeed = options.maxSpeed ?? DEFAULT_MAX_SPEED;
+    this.diveAllowance = options.diveAllowance ?? DIVE_ALLOWANCE;
+    this.tolerance = options.tolerance ?? 1.25;    // 네트워크 지터 허용 배수
+    this.slack = options.slack ?? 5;               // 프레임 경계 오차 허용 거리
+    this.maxElapsedMs = options.maxElapsedMs ?? 1000;
+  }
+
+  /**
+   * @returns {{ position: number[], corrected: boolean }}
+   */
+  validate(player, position, now = Date.now()) {
+    if (!isVector(position, 3)) {
+      return { position: player.position, corrected: true };
+    }
+
+    const previous = player.position;
+    const last = player.lastValidatedTime;
+    player.lastValidatedTime = now;
+
+    // 첫 보고는 기준점이 없으므로 그대로 수용
+    if (!last || !isVector(previous, 3)) {
+      return { position, corrected: false };
+    }
+
+    const elapsedSec = Math.min(now - last, this.maxElapsedMs) / 1000;
+    // 기체 종류별 최대 속력 (AircraftTypes) - 급강하하면 그보다 빨라질 수 있다
+    const maxSpeed = (player.maxSpeed ?? this.maxSpeed) * this.diveAllowance;
+    const allowed = maxSpeed * elapsedSec * this.tolerance + this.slack;
+
+    const dx = position[0] - previous[0];
+    const dy = position[1] - previous[1];
+    const dz = position[2] - previous[2];
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+    if (distance <= allowed) {
+      return { position, corrected: false };
+    }
+
+    const scale = allowed / distance;
+    return {
+      position: [
+        previous[0] + dx * scale,
+        previous[1] + dy * scale,
+        previous[2] + dz * scale
+      ],
+      corrected: true
+    };
+  }
+}
+
+function isVector(value, length) {
+  return Array.isArray(value) &&
+    value.length === length &&
+    value.every((component) => typeof component === 'number' && Number.isFinite(component));
+}
+
+export default MovementValidator;
@@ -0,0 +1,20 @@
+// server/game/Terrain.js
+import { TerrainHeightmap } from '../../shared/TerrainHeightmap.js';
+
+/**
+ * 시드로 만드는 절차 지형 높이맵 - shared/TerrainHeightmap.js 하나를 클라이언트와 함께 쓴다
+ * (같은 시드면 같은 높이가 나와야 추락 보고를 검증할 수 있다).
+ * 시드는 매치마다 새로 뽑아 welcome의 terrain.seed로 알린다 (TERRAIN_SEED로 고정 가능).
+ */
+export { TerrainHeightmap as Terrain };
+
+/** 매치용 시드 - TERRAIN_SEED가 있으면 항상 그 값 (테스트/재현용) */
+export function pickTerrainSeed() {
+  const fixed = Number(process.env.TERRAIN_SEED);
+  if (Number.isInteger(fixed)) {
+    return fixed | 0;
+  }
+  return (Math.random() * 0x7fffffff) | 0;
+}
+
+export default TerrainHeightmap;
@@ -0,0 +1,33 @@
+// server/game/WeaponTypes.js
+import { getWeaponDefinition } from '../../shared/WeaponDefinitions.js';
+import { createHeatState } from '../../shared/GunHeat.js';
+
+/**
+ * 기관총/기관포 정의는 shared/WeaponDefinitions.js 하나를 클라이언트와 함께 읽는다.
+ * 서버는 연사 간격·탄창·재장전·과열 검증과 사거리/거리별 피해 판정에 쓴다.
+ * 여기에는 서버만 쓰는 플레이어별 무장 상태를 둔다.
+ */
+export { damageAtDistance, getWeaponDefinition as getWeaponType } from '../../shared/WeaponDefinitions.js';
+
+/** GameState 플레이어의 무장별 상태 (탄창은 가득 채워, 열은 식은 채로 시작) */
+export function createWeaponStates(weaponIds) {
+  return Object.fromEntries(weaponIds.map((id) => {
+    const { feed } = getWeaponDefinition(id);
+    return [id, {
+      ammo: feed.kind === 'magazine' ? feed.magazine : 0,
+      lastShotTime: 0,
+      isReloading: false,
+      reloadStartTime: 0,
+      heat: createHeatState()
+    }];
+  }));
+}
+
+/** 탄창식 무장만 [id, 상태, feed] - 재접속 탄약 복원/welcome 탄약에 쓴다 */
+export function magazineWeapons(weaponStates) {
+  return Object.entries(weaponStates)
+    .map(([id, state]) => [id, state, getWeaponDefinition(id).feed])
+    .filter(([, , feed]) => feed.kind === 'magazine');
+}
+
+export default { createWeaponStates, magazineWeapons };
@@ -1,12 +1,50 @@
 // server/handlers/MessageHandler.js
 import { redisClient } from '../config/database.js';
+import MovementValidator from '../game/MovementValidator.js';
+import BinaryProtocol, {
+  INPUT_FLAG_MOVEMENT,
+  PACKET_TYPES,
+  SNAPSHOT_ACK_FLAG_RESET
+} from '../network/BinaryProtocol.js';
 
 export class MessageHandler {
-  constructor(gameState, combatSystem, webSocketManager, redisManager) {
+  constructor(gameState, combatSystem, webSocketManager, redisManager, missileSystem) {
     this.gameState = gameState;
     this.combatSystem = combatSystem;
+    this.missileSystem = missileSystem;
     this.webSocketManager = webSocketManager;
     this.redisManager = redisManager;
+    this.movementValidator = new MovementValidator();
+    this.stateAckIntervalMs = 100; // 보정이 없을 때 state-ack 최대 전송 주기
+  }
+
+  /**
+   * 클라이언트 예측 상태를 검증해 서버 권위 상태로 반영하고, 마지막으로 처리한
+   * 입력 시퀀스를 state-ack로 돌려준다. 위치가 잘렸다면 즉시 ack를 보내 클라이언트가
+   * 되감기/재생(reconciliation)하도록 한다.
+   */
+  applyClientState(playerId, player, state, sequence, ws) {
+    const now = Date.now();
+    const { position, corrected } = this.movementValidator.validate(player, state.position, now);
+    this.gameState.updatePlayerPosition(playerId, position, state.rotation);
+
+    if (!Number.isInteger(sequence)) {
+      return { position, corrected };
+    }
+    player.lastInputSequence = sequence;
+
+    if (corrected || !player.lastAckTime || now - player.lastAckTime >= this.stateAckIntervalMs) {
+      player.lastAckTime = now;
+      ws.send(JSON.stringify({
+        type: 'state-ack',
+        sequence,
+        position,
+        rotation: player.rotation,
+        corrected
+      }));
+    }
+
+    return { position, corrected };
   }
 
   async handleMovementEvent(playerId, event, ws) {
@@ -35,10 +73,11 @@ export class MessageHandler {
     // 게임 상태 업데이트
     this.gameState.updatePlayerInput(playerId, inputState, event.speed);
 
-    // 위치와 회전 업데이트 - 안전한 접근
+    // 위치와 회전 업데이트 - 안전한 접근 (이동 한도 검증 포함)
     if (event.position && Array.isArray(event.position) && 
         event.rotation && Array.isArray(event.rotation)) {
-      this.gameState.updatePlayerPosition(playerId, event.position, event.rotation);
+      const { position } = this.movementValidator.validate(player, event.position);
+      this.gameState.updatePlayerPosition(playerId, position, event.rotation);
     }
 
     // Redis에 플레이어 상태 저장 (논블로킹)
@@ -59,7 +98,8 @@ export class MessageHandler {
     const movementMessage = JSON.stringify({
       type: 'player-movement',
       playerId: playerId,
-      event: event
+      event: event,
+      timestamp: Date.now() // 수신 측 스냅샷 보간 버퍼의 시간 기준
     });
 
     const broadcastCount = this.webSocketManager.broadcast(movementMessage, ws);
@@ -71,11 +111,67 @@ export class MessageHandler {
     }));
   }
 
-  async handleMessage(ws, message) {
+  async handleBinaryMessage(ws, message) {
+    const header = BinaryProtocol.parseHeader(message);
+    if (header?.type === PACKET_TYPES.SNAPSHOT_ACK) {
+      this.handleSnapshotAck(ws, header);
+    } else if (header?.type === PACKET_TYPES.INPUT) {
+      await this.handleInputPacket(ws, message);
+    }
+  }
+
+  /**
+   * 델타 스냅샷 구독/ack. 이후 SnapshotBroadcaster가 이 시퀀스를 기준으로 델타를 만든다.
+   * RESET 플래그면 기준을 비워 다음 틱에 키프레임을 보낸다.
+   */
+  handleSnapshotAck(ws, header) {
+    ws.deltaSnapshots = true;
+    ws.snapshotBaseline = (header.flags & SNAPSHOT_ACK_FLAG_RESET) ? null : header.sequence;
+  }
+
+  /**
+   * 바이너리 INPUT 패킷 처리. 헤더 flags에 movement 표시가 있으면 JSON 'movement'와,
+   * 없으면 JSON 'update'와 같은 경로를 탄다. 시퀀스는 하위 16비트만 ack로 돌려준다.
+   */
+  async handleInputPacket(ws, message) {
+    const packet = BinaryProtocol.parseInputBuffer(message);
+    if (!packet) {
+      return;
+    }
+
+    const playerId = ws.playerId;
+    const player = this.gameState.getPlayer(playerId);
+    if (!player) {
+      return;
+    }
+
+    const { header, position, rotation, speed, inputState } = packet;
+    if (header.flags & INPUT_FLAG_MOVEMENT) {
+      await this.handleMovementEvent(playerId, {
+        type: 'movement',
+        input: inputState,
+        position,
+        rotation,
+        speed
+      }, ws);
+      return;
+    }
+
+    // 일반 상태 패킷도 입력/속력을 담고 있으므로 함께 반영 (스냅샷 속도 계산용)
+    this.gameState.updatePlayerInput(playerId, inputState, speed);
+    this.applyClientState(playerId, player, { position, rotation }, header.sequence, ws);
+  }
+
+  async handleMessage(ws, message, isBinary = false) {
     try {
       const playerId = ws.playerId;
       const userId = ws.userId;
 
+      if (isBinary) {
+        await this.handleBinaryMessage(ws, message);
+        return;
+      }
+
       // ping 메시지는 JSON이 아닐 수 있으므로 먼저 확인
       if (message.toString() === 'ping') {
         ws.send('pong');
@@ -92,16 +188,20 @@ export class MessageHandler {
           await this.handleMovementEvent(playerId, data.event, ws);
           break;
           
+        case 'shot':
+          // 명중 여부는 서버가 지연 보상 레이 판정으로 결정한다
+          await this.combatSystem.handlePlayerShot(playerId, {
+            weaponId: data.weaponId,
+            origin: data.origin,
+            direction: data.direction,
+            clientTime: data.clientTime,
+            snapshotSequence: data.snapshotSequence
+          });
+          break;
+
         case 'hit':
-          if (data.victimId && data.victimId !== playerId) {
-            await this.combatSystem.handlePlayerHit(
-              playerId, 
-              data.victimId, 
-              data.damage, 
-              data.position, 
-              data.distance
-            );
-          }
+          // 클라이언트 판정 히트는 더 이상 신뢰하지 않는다 ('shot' 사용)
+          console.log(`🚫 Ignored client-side hit report from Player ${playerId}`);
           break;
           
         case 'kill':
@@ -111,9 +211,33 @@ export class MessageHandler {
           break;
 
         case 'reload':
-          this.combatSystem.handlePlayerReload(playerId);
+          this.combatSystem.handlePlayerReload(playerId, data.weaponId);
+          break;
+
+        case 'crash':
+          // 지형 충돌은 클라이언트가 감지하고, 서버가 자기 높이맵으로 확인한다
+          await this.combatSystem.handlePlayerCrash(playerId, data.position);
+          break;
+
+        case 'collision':
+          // 공중 충돌도 클라이언트가 감지하고, 서버가 두 기체의 위치로 확인한다
+          await this.combatSystem.handlePlayerCollision(playerId, Number(data.otherId), data.position);
           break;
           
+        case 'missile-launch':
+          // 비행과 근접 신관 명중은 서버가 MissileSystem에서 직접 판정한다
+          this.missileSystem.handleLaunch(playerId, {
+            origin: data.origin,
+            direction: data.direction,
+            targetId: data.targetId
+          });
+          break;
+
+        case 'flare':
+          // 미사일이 플레어에 속는지도 서버가 MissileSystem에서 정한다
+          this.missileSystem.handleFlare(playerId, { position: data.position });
+          break;
+
         case 'damage':
           if (data.victimId && data.victimId !== playerId) {
             await this.combatSystem.handlePlayerDamage(playerId, data.victimId, data.damage);
@@ -124,17 +248,9 @@ export class MessageHandler {
           if (data.state && data.state.position && data.state.rotation) {
             const player = this.gameState.getPlayer(playerId);
             if (player) {
-              // 플레이어 상태 업데이트
-              this.gameState.updatePlayerPosition(playerId, data.state.position, data.state.rotation);
-              
-              // 다른 플레이어들에게 브로드캐스트
-              const updateMessage = JSON.stringify({
-                type: 'player-update',
-                id: playerId.toString(),
-                state: data.state
-              });
-              
-              this.webSocketManager.broadcast(updateMessage, ws);
+              // 플레이어 상태 검증/업데이트 + 입력 시퀀스 ack
+              // 다른 플레이어들에게는 주기적인 바이너리 스냅샷(index.js)으로 전달된다.
+              this.applyClientState(playerId, player, data.state, data.sequence, ws);
             }
           }
           break;
@@ -151,7 +267,7 @@ export class MessageHandler {
           break;
           
         case 'get-rankings':
-          await this.handleGetRankings(ws);
+          await this.handleGetRankings(ws, data);
           break;
 
         default:
@@ -167,10 +283,10 @@ export class MessageHandler {
       const matchId = this.gameState.getCurrentMatch();
       if (matchId) {
         const GameEventService = (await import('../services/GameEventService.js')).default;
-        const stats = await GameEventService.getMatchPlayerStats(matchId);
+        const rows = await GameEventService.getMatchPlayerStats(matchId);
         ws.send(JSON.stringify({
           type: 'match-stats',
-          stats: stats
+          stats: this.buildScoreboard(rows)
         }));
       }
     } catch (error) {
@@ -178,13 +294,53 @@ export class MessageHandler {
     }
   }
 
-  async handleGetRankings(ws) {
+  /**
+   * 스코어보드 행: DB의 매치 통계(킬/데스/점수)에 접속 여부와 서버가 잰 핑을 붙인다.
+   * 재접속(resume 없이)하면 match_players 행이 하나 더 생기므로 유저당 점수가 가장 높은 행만 남긴다.
+   */
+  buildScoreboard(rows) {
+    const byUser = new Map();
+    for (const row of rows) {
+      const existing = byUser.get(row.user_id);
+      if (!existing || row.score > existing.score) {
+        byUser.set(row.user_id, row);
+      }
+    }
+
+    return Array.from(byUser.values()).map((row) => {
+      const playerId = row.user_id; // users.id를 playerId로 사용한다 (index.js)
+      const connected = Boolean(this.gameState.getPlayer(playerId));
+      return {
+        user_id: row.user_id,
+        playerId,
+        username: row.username,
+        kills: row.kills,
+        deaths: row.deaths,
+        score: row.score,
+        connected,
+        ping: connected ? this.webSocketManager.getLatency(playerId) : null
+      };
+    });
+  }
+
+  /** 랭킹 한 페이지 - page는 0부터, pageSize는 1~50 (기본 10). 행마다 전체 순위(rank)를 붙인다 */
+  async handleGetRankings(ws, data = {}) {
     try {
+      const page = Math.max(0, Math.floor(Number(data.page)) || 0);
+      const pageSize = Math.min(50, Math.max(1, Math.floor(Number(data.pageSize)) || 10));
+      const offset = page * pageSize;
+
       const GameEventService = (await import('../services/GameEventService.js')).default;
-      const rankings = await GameEventService.getGlobalRankings();
+      const [rankings, total] = await Promise.all([
+        GameEventService.getGlobalRankings(pageSize, offset),
+        GameEventService.countRankings()
+      ]);
       ws.send(JSON.stringify({
         type: 'global-rankings',
-        rankings: rankings
+        rankings: rankings.map((row, index) => ({ ...row, rank: offset + index + 1 })),
+        page,
+        pageSize,
+        total
       }));
     } catch (error) {
       console.error('Error getting rankings:', error);
@@ -13,10 +13,16 @@ import RedisManager from './services/RedisManager.js';
 import GameState from './game/GameState.js';
 import MatchManager from './services/MatchManager.js';
 import CombatSystem from './game/CombatSystem.js';
+import MissileSystem from './game/MissileSystem.js';
+import LagCompensation from './game/LagCompensation.js';
 import ConnectionManager from './services/ConnectionManager.js';
+import SessionManager from './services/SessionManager.js';
 import WebSocketManager from './network/WebSocketManager.js';
 import MessageHandler from './handlers/MessageHandler.js';
-import BinaryProtocol from './network/BinaryProtocol.js';
+import SnapshotBroadcaster from './network/SnapshotBroadcaster.js';
+import { sanitizeLoadout } from './game/Loadouts.js';
+import { aircraftPlayerStats } from './game/AircraftTypes.js';
+import { magazineWeapons } from './game/WeaponTypes.js';
 import Debug from './utils/Debug.js';
 
 dotenv.config();
@@ -34,10 +40,14 @@ const wss = new WebSocketServer({ server: httpServer });
 const gameState = new GameState();
 const redisManager = new RedisManager(SERVER_ID);
 const connectionManager = new ConnectionManager();
+const sessionManager = new SessionManager();
 const webSocketManager = new WebSocketManager(wss);
-const matchManager = new MatchManager(gameState, webSocketManager);
-const combatSystem = new CombatSystem(gameState, webSocketManager);
-const messageHandler = new MessageHandler(gameState, combatSystem, webSocketManager, redisManager);
+const matchManager = new MatchManager(gameState, webSocketManager, sessionManager);
+const lagCompensation = new LagCompensation();
+const combatSystem = new CombatSystem(gameState, webSocketManager, matchManager, lagCompensation);
+const missileSystem = new MissileSystem(gameState, webSocketManager, matchManager, combatSystem);
+console.log(`🔫 Gun mode: ${combatSystem.gunMode}`);
+const messageHandler = new MessageHandler(gameState, combatSystem, webSocketManager, redisManager, missileSystem);
 
 // 디버그 헬퍼 설정
 const debugHelpers = Debug.createDebugHelpers(redisManager, gameState, connectionManager);
@@ -84,14 +94,44 @@ if (process.env.NODE_ENV === 'development') {
   }, 300000); // 5분마다
 }
 
+// 원격 플레이어 보간용 주기적 스냅샷 브로드캐스트.
+// 헤더의 시퀀스는 패킷마다 증가하고, 타임스탬프는 클라이언트 보간 버퍼의 시간 기준이 된다.
+// 델타를 구독한 클라이언트는 ack한 스냅샷 대비 바뀐 필드만 받는다 (SnapshotBroadcaster).
+const SNAPSHOT_INTERVAL_MS = Number(process.env.SNAPSHOT_INTERVAL_MS) || 50; // 20Hz
+const snapshotBroadcaster = new SnapshotBroadcaster(gameState, webSocketManager);
+// 같은 틱의 위치를 지연 보상 이력에도 남겨, 사격 판정 시 클라이언트가 보던 시각으로 되감는다.
+// 미사일 락온도 같은 틱의 위치/자세로 잰다 (발사 요청의 targetId 검증).
+const snapshotInterval = setInterval(() => {
+  snapshotBroadcaster.tick();
+  if (gameState.getPlayerCount() > 0) {
+    lagCompensation.record(snapshotBroadcaster.getSequence(), gameState.getAllPlayers());
+    missileSystem.updateLocks();
+  }
+}, SNAPSHOT_INTERVAL_MS);
+
+// 유도 미사일 비행/근접 신관 판정과 탄도 기관포 탄 (날아가는 것이 없으면 바로 반환)
+const PROJECTILE_TICK_INTERVAL_MS = 1000 / 30;
+const projectileInterval = setInterval(() => {
+  missileSystem.tick().catch((error) => console.error('Error in missile tick:', error));
+  combatSystem.tickRounds().catch((error) => console.error('Error in gun round tick:', error));
+}, PROJECTILE_TICK_INTERVAL_MS);
+
+// 스코어보드 핑 표시용 왕복 지연 측정 (ws 프로토콜 ping/pong)
+const LATENCY_PROBE_INTERVAL_MS = 2000;
+const latencyInterval = setInterval(() => webSocketManager.probeLatency(), LATENCY_PROBE_INTERVAL_MS);
+
 // WebSocket 연결 처리
 /**
  * 플레이어 연결 종료 시 모든 상태(게임 상태/연결/Redis/매치)를 정리하고 다른
  * 플레이어에게 퇴장을 알린다. 'close' 이벤트와 비활성 타임아웃 양쪽에서 호출되며,
  * gameState 존재 여부로 멱등성을 보장한다(먼저 도달한 호출만 실제 정리를 수행).
+ *
+ * resumable이면 상태를 SessionManager에 보관하고 매치 참가는 유지한다 - 재접속 창 안에
+ * resume 토큰으로 돌아오면 그대로 복원되고, 아니면 만료 시 매치에서 빠진다.
  */
-async function cleanupPlayer(playerId, userId, reason = 'disconnect') {
-  if (!gameState.getPlayer(playerId)) {
+async function cleanupPlayer(playerId, userId, reason = 'disconnect', resumable = false) {
+  const player = gameState.getPlayer(playerId);
+  if (!player) {
     return; // 이미 다른 경로에서 정리됨
   }
 
@@ -101,16 +141,23 @@ async function cleanupPlayer(playerId, userId, reason = 'disconnect') {
   gameState.removePlayer(playerId);
   connectionManager.removeConnection(playerId);
 
+  const suspended = resumable && sessionManager.suspend(playerId, player);
+  if (!suspended) {
+    sessionManager.revoke(playerId);
+  }
+
   // 외부 상태 정리는 best-effort (하나가 실패해도 나머지는 진행)
   try {
     await redisManager.clearPlayerConnectionState(playerId, userId, gameState.getCurrentMatch());
   } catch (error) {
     console.error(`Error clearing Redis state for Player ${playerId}:`, error);
   }
-  try {
-    await matchManager.removePlayerFromMatch(playerId, userId);
-  } catch (error) {
-    console.error(`Error removing Player ${playerId} from match:`, error);
+  if (!suspended) {
+    try {
+      await matchManager.removePlayerFromMatch(playerId, userId);
+    } catch (error) {
+      console.error(`Error removing Player ${playerId} from match:`, error);
+    }
   }
 
   // 다른 플레이어들에게 퇴장 알림
@@ -123,6 +170,36 @@ async function cleanupPlayer(playerId, userId, reason = 'disconnect') {
 // 비활성 타임아웃 정리도 동일한 로직을 재사용 (죽은 소켓의 유령 플레이어 방지)
 connectionManager.onInactiveDisconnect = cleanupPlayer;
 
+// 재접속 창이 지나면 매치에서 뺀다 (퇴장 알림은 보류 시점에 이미 보냈다)
+sessionManager.onExpire = (playerId, userId) => matchManager.removePlayerFromMatch(playerId, userId);
+
+/** 재접속 시 이어받는 상태 - 위치/체력/탄약/점수 */
+function pickResumableState(player) {
+  return {
+    position: player.position,
+    rotation: player.rotation,
+    health: player.health,
+    // 탄창식 무장의 탄약 - 재장전 중이었다면 완료된 것으로 본다 (열은 끊긴 동안 식는다)
+    weaponAmmo: Object.fromEntries(magazineWeapons(player.weapons).map(([id, weapon, feed]) => [
+      id,
+      weapon.isReloading ? feed.magazine : weapon.ammo
+    ])),
+    kills: player.kills,
+    deaths: player.deaths
+  };
+}
+
+/** 이미 접속해 있는 다른 플레이어들의 기체 (welcome에 실어 보낸다) */
+function collectLoadouts(exceptPlayerId) {
+  const loadouts = {};
+  gameState.getAllPlayers().forEach((player, id) => {
+    if (id !== exceptPlayerId && player.loadout) {
+      loadouts[id] = player.loadout;
+    }
+  });
+  return loadouts;
+}
+
 wss.on('connection', async (ws, req) => {
   console.log('🔥 New connection');
   
@@ -130,6 +207,9 @@ wss.on('connection', async (ws, req) => {
   const url = new URL(req.url, 'http://localhost');
   console.log('url', url);
   const username = url.searchParams.get('username');
+  const resumeToken = url.searchParams.get('resume');
+  // 격납고에서 고른 기체/도색 - 다른 클라이언트가 이 기체로 그린다
+  const loadout = sanitizeLoadout(url.searchParams.get('airframe'), url.searchParams.get('livery'));
   console.log('username', username);
   
   if (!username) {
@@ -144,6 +224,7 @@ wss.on('connection', async (ws, req) => {
   
   let userId;
   let playerId;
+  let resumed = null; // { token, state } - resume 토큰이 유효할 때만
   
   try {
     // 유저 생성 또는 가져오기
@@ -151,6 +232,18 @@ wss.on('connection', async (ws, req) => {
     playerId = userId; // users.id를 playerId로 사용
     
     console.log(`🎯 Username: ${username}, Assigned Player ID: ${playerId} (User ID: ${userId})`);
+
+    // 재접속: 보류 중이면 보관된 상태를, 이전 소켓이 아직 살아 있으면 현재 상태를 이어받는다
+    if (resumeToken) {
+      resumed = sessionManager.resume(resumeToken, playerId, gameState.getCurrentMatch());
+      if (resumed) {
+        const live = gameState.getPlayer(playerId);
+        resumed.state = resumed.state ? pickResumableState(resumed.state) : live ? pickResumableState(live) : null;
+        console.log(`♻️ Player ${playerId} (${username}) resuming session`);
+      } else {
+        console.log(`⚠️ Player ${playerId} (${username}) presented an invalid resume token - joining fresh`);
+      }
+    }
     
     // Redis 기반 중복 연결 체크 및 강제 재연결 처리
     try {
@@ -175,13 +268,13 @@ wss.on('connection', async (ws, req) => {
       console.error('Error checking/cleaning existing connection:', error);
     }
     
-    // 매치 관리
-    const matchId = await matchManager.addPlayerToMatch(userId);
+    // 매치 관리 - 재접속이면 이미 참가 중인 매치를 그대로 쓴다
+    const matchId = resumed ? gameState.getCurrentMatch() : await matchManager.addPlayerToMatch(userId);
     if (matchId) {
       gameState.mapPlayerToUser(playerId, userId);
     }
     
-    console.log(`✅ Player ${playerId} (${username}) joined match ${matchId}`);
+    console.log(`✅ Player ${playerId} (${username}) ${resumed ? 'resumed' : 'joined'} match ${matchId}`);
   } catch (error) {
     console.error('Error setting up player:', error);
     ws.send(JSON.stringify({
@@ -198,6 +291,7 @@ wss.on('connection', async (ws, req) => {
   ws.userId = userId;
   ws.username = username;
   ws.wsId = wsId;
+  webSocketManager.trackLatency(ws);
   
   // Redis에 연결 상태 저장
   await redisManager.setPlayerConnectionState(playerId, userId, username, gameState.getCurrentMatch(), wsId);
@@ -205,13 +299,23 @@ wss.on('connection', async (ws, req) => {
   // 연결 관리자에 추가
   connectionManager.addConnection(playerId, ws, userId, username);
   
-  // 게임 상태에 플레이어 추가
-  gameState.addPlayer(playerId);
+  // 게임 상태에 플레이어 추가 (재접속이면 이전 상태 복원) - 체력/무장/최대 속력은 기체 종류에서
+  const { weaponAmmo, ...resumedState } = resumed?.state ?? {};
+  gameState.addPlayer(playerId, { ...aircraftPlayerStats(loadout.airframe), ...resumedState, loadout });
+  const player = gameState.getPlayer(playerId);
+  // 재접속하며 기체를 바꿨다면 이전 체력이 새 기체 한도를 넘지 않게, 탄약은 새 기체에도 있는 무장만 이어받는다
+  player.health = Math.min(player.health, player.maxHealth);
+  for (const [id, weapon, feed] of magazineWeapons(player.weapons)) {
+    if (weaponAmmo?.[id] !== undefined) {
+      weapon.ammo = Math.min(weaponAmmo[id], feed.magazine);
+    }
+  }
+  const sessionToken = resumed?.token ?? sessionManager.issue(playerId, userId, username, gameState.getCurrentMatch());
 
   // 클라이언트가 셋업 도중 끊겼을 수 있으므로 초기 전송 전에 연결 상태 확인
   if (ws.readyState === WebSocket.OPEN) {
     // Send initial state
-    ws.send(BinaryProtocol.createStateUpdateBuffer(gameState.getAllPlayers()));
+    ws.send(snapshotBroadcaster.createFullSnapshot());
 
     // Send welcome message
     ws.send(JSON.stringify({
@@ -219,7 +323,31 @@ wss.on('connection', async (ws, req) => {
       playerId: playerId,
       userId: userId,
       username: username,
-      matchId: gameState.getCurrentMatch()
+      matchId: gameState.getCurrentMatch(),
+      // 매치 시간표 (워밍업 종료/라운드 종료 시각) - 중간 입장해도 시계를 맞출 수 있도록
+      match: matchManager.getSchedule(),
+      // 클라이언트는 이 플래그를 보고 업스트림을 바이너리 INPUT으로 전환한다 (없으면 JSON)
+      // ballisticGun이면 기관포 탄을 서버가 날려 판정한다 (GUN_MODE=ballistic) - 클라이언트는 예광탄과 리드 핍을 쓴다
+      capabilities: { binaryInput: true, deltaSnapshots: true, ballisticGun: combatSystem.gunMode === 'ballistic' },
+      // 재연결 시 ?resume=으로 제시하면 같은 playerId/상태로 복원된다
+      resumeToken: sessionToken,
+      resumed: Boolean(resumed),
+      loadouts: collectLoadouts(playerId),
+      // 지형 시드 - 클라이언트가 같은 높이맵을 만들어 지형/충돌에 쓴다 (game/Terrain.js)
+      terrain: { seed: gameState.getTerrain().seed },
+      state: {
+        position: player.position,
+        rotation: player.rotation,
+        health: player.health,
+        maxHealth: player.maxHealth,
+        // 탄창식 무장의 탄약 (벨트 급탄 무장은 탄약 제한이 없어 빠진다)
+        weapons: Object.fromEntries(magazineWeapons(player.weapons).map(([id, weapon, feed]) => [
+          id,
+          { ammo: weapon.ammo, maxAmmo: feed.magazine }
+        ])),
+        kills: player.kills,
+        deaths: player.deaths
+      }
     }));
   }
   
@@ -228,24 +356,30 @@ wss.on('connection', async (ws, req) => {
     type: 'player-joined',
     id: playerId.toString(),
     username: username,
+    loadout,
     state: gameState.getPlayer(playerId)
   });
   
   webSocketManager.broadcast(joinMessage, ws);
   
   // 메시지 처리
-  ws.on('message', async (message) => {
+  ws.on('message', async (message, isBinary) => {
     // 활동 시간 업데이트
     connectionManager.updateActivity(playerId);
     await redisManager.updatePlayerActivity(playerId, userId);
     
     // 메시지 핸들러에 위임
-    await messageHandler.handleMessage(ws, message);
+    await messageHandler.handleMessage(ws, message, isBinary);
   });
   
   // 연결 종료 처리
-  ws.on('close', async () => {
-    await cleanupPlayer(playerId, userId, 'connection closed');
+  ws.on('close', async (code) => {
+    // 재접속으로 이미 새 소켓이 자리를 넘겨받았다면 그쪽 상태를 건드리지 않는다
+    if (connectionManager.getConnection(playerId)?.ws !== ws) {
+      return;
+    }
+    // 클라이언트가 스스로 끊은 경우(1000)가 아니면 재접속을 기다린다
+    await cleanupPlayer(playerId, userId, `connection closed (${code})`, code !== 1000);
   });
   
   // 에러 처리
@@ -265,12 +399,17 @@ httpServer.listen(PORT, () => {
 process.on('SIGINT', async () => {
   console.log('Shutting down server...');
   
+  clearInterval(snapshotInterval);
+  clearInterval(latencyInterval);
+  clearInterval(projectileInterval);
+
   try {
     // 현재 매치 종료
-    await matchManager.endMatch();
+    await matchManager.endMatch('shutdown');
     
     // 모든 매니저들 정리
     connectionManager.cleanup();
+    sessionManager.cleanup();
     await redisManager.cleanup();
     
     // 데이터베이스 연결 종료
@@ -5,7 +5,9 @@ export const PACKET_TYPES = {
   STATE_UPDATE: 0x01,
   PLAYER_JOINED: 0x02,
   PLAYER_LEFT: 0x03,
-  INPUT: 0x04
+  INPUT: 0x04,
+  SNAPSHOT_ACK: 0x05,  // 클라이언트 → 서버: 복원한 마지막 델타 시퀀스
+  DELTA_UPDATE: 0x06   // 서버 → 클라이언트: ack된 기준 대비 바뀐 필드만
 };
 
 // Packet header size
@@ -14,50 +16,265 @@ export const HEADER_SIZE = 8;
 // Player state size
 export const PLAYER_STATE_SIZE = 46; // 2 + 12 + 16 + 12 + 4 bytes
 
+// Player left payload (player id)
+export const PLAYER_LEFT_SIZE = 2;
+
+// Input payload size (client → server, quantized)
+// position 3×int16 | rotation uint32 (smallest-three) | speed uint16 | input uint8 | roll int8
+export const INPUT_STATE_SIZE = 14;
+
+// INPUT header flags: movement 이벤트(입력 변경/주기)면 다른 플레이어에게 중계한다
+export const INPUT_FLAG_MOVEMENT = 0x01;
+
+// SNAPSHOT_ACK flags: 기준을 버리고 키프레임 요청 (델타 구독 시작/복구)
+export const SNAPSHOT_ACK_FLAG_RESET = 0x01;
+
+// DELTA_UPDATE flags: 기준 없이 모든 필드를 담은 키프레임
+export const DELTA_FLAG_KEYFRAME = 0x01;
+
+// 델타 레코드 mask 비트
+export const DELTA_FIELDS = {
+  POSITION: 0x01,
+  ROTATION: 0x02,
+  VELOCITY: 0x04,
+  INPUT: 0x08,
+  REMOVED: 0x80
+};
+
+// 델타 레코드 최대 크기: id 2 + mask 1 + position 6 + rotation 4 + velocity 6 + input 1
+const DELTA_RECORD_MAX_SIZE = 20;
+
+// 양자화 단위 (client/network/BinaryProtocol.ts 와 동일)
+export const POSITION_SCALE = 8;
+export const SPEED_SCALE = 50;
+export const VELOCITY_SCALE = 16;
+const QUATERNION_COMPONENT_BITS = 10;
+const QUATERNION_COMPONENT_MAX = (1 << QUATERNION_COMPONENT_BITS) - 1;
+
+// 레이아웃은 client/network/BinaryProtocol.ts 와 반드시 같아야 한다 (client/network/BinaryProtocol.server.test.ts가 이 인코더로 만든 패킷을 클라이언트 디코더로 검증)
 export class BinaryProtocol {
-  static createStateUpdateBuffer(players) {
+  static createStateUpdateBuffer(players, sequence = 0) {
     const buffer = Buffer.alloc(HEADER_SIZE + (players.size * PLAYER_STATE_SIZE));
+    this.writeHeader(buffer, PACKET_TYPES.STATE_UPDATE, sequence);
+
     let offset = HEADER_SIZE;
-    
-    // Write header
-    buffer.writeUInt16BE(0, 0); // Sequence number
-    buffer.writeUInt8(PACKET_TYPES.STATE_UPDATE, 2);
-    buffer.writeUInt32BE(Date.now() % 0xFFFFFFFF, 3); // 32비트 범위로 제한
-    buffer.writeUInt8(0, 7); // Flags
-    
-    // Write player states
     for (const [id, player] of players) {
-      buffer.writeUInt16BE(id, offset);
-      offset += 2;
-      
-      // Position (3x float32)
-      buffer.writeFloatBE(player.position[0], offset);
-      buffer.writeFloatBE(player.position[1], offset + 4);
-      buffer.writeFloatBE(player.position[2], offset + 8);
-      offset += 12;
-      
-      // Rotation (4x float32)
-      buffer.writeFloatBE(player.rotation[0], offset);
-      buffer.writeFloatBE(player.rotation[1], offset + 4);
-      buffer.writeFloatBE(player.rotation[2], offset + 8);
-      buffer.writeFloatBE(player.rotation[3], offset + 12);
-      offset += 16;
-      
-      // Velocity (3x float32)
-      buffer.writeFloatBE(player.velocity[0], offset);
-      buffer.writeFloatBE(player.velocity[1], offset + 4);
-      buffer.writeFloatBE(player.velocity[2], offset + 8);
-      offset += 12;
-      
-      // Input state (4 bytes)
-      const inputState = this.encodeInputState(player.inputState);
-      buffer.writeUInt32BE(inputState, offset);
-      offset += 4;
+      offset = this.writePlayerState(buffer, offset, id, player);
+    }
+
+    return buffer;
+  }
+
+  static createPlayerJoinedBuffer(id, player, sequence = 0) {
+    const buffer = Buffer.alloc(HEADER_SIZE + PLAYER_STATE_SIZE);
+    this.writeHeader(buffer, PACKET_TYPES.PLAYER_JOINED, sequence);
+    this.writePlayerState(buffer, HEADER_SIZE, id, player);
+    return buffer;
+  }
+
+  static createPlayerLeftBuffer(id, sequence = 0) {
+    const buffer = Buffer.alloc(HEADER_SIZE + PLAYER_LEFT_SIZE);
+    this.writeHeader(buffer, PACKET_TYPES.PLAYER_LEFT, sequence);
+    buffer.writeUInt16BE(id & 0xFFFF, HEADER_SIZE);
+    return buffer;
+  }
+
+  static createInputBuffer(input, sequence = 0, flags = 0) {
+    const buffer = Buffer.alloc(HEADER_SIZE + INPUT_STATE_SIZE);
+    this.writeHeader(buffer, PACKET_TYPES.INPUT, sequence, flags);
+
+    const offset = HEADER_SIZE;
+    for (let i = 0; i < 3; i++) {
+      buffer.writeInt16BE(quantize(input.position[i], POSITION_SCALE, -0x8000, 0x7FFF), offset + i * 2);
     }
-    
+    buffer.writeUInt32BE(this.encodeQuaternion(input.rotation), offset + 6);
+    buffer.writeUInt16BE(quantize(input.speed, SPEED_SCALE, 0, 0xFFFF), offset + 10);
+    buffer.writeUInt8(this.encodeInputState(input.inputState), offset + 12);
+    buffer.writeInt8(quantize(input.inputState.roll, 127, -127, 127), offset + 13);
     return buffer;
   }
 
+  /**
+   * 플레이어 상태를 델타 비교용 정수 표현으로 바꾼다.
+   * 클라이언트도 같은 정수를 기준으로 보관하므로 델타가 누적 오차 없이 적용된다.
+   */
+  static quantizePlayer(player) {
+    return {
+      position: [0, 1, 2].map((i) => quantize(player.position?.[i], POSITION_SCALE, -0x8000, 0x7FFF)),
+      rotation: this.encodeQuaternion(player.rotation),
+      velocity: [0, 1, 2].map((i) => quantize(player.velocity?.[i], VELOCITY_SCALE, -0x8000, 0x7FFF)),
+      input: this.encodeInputState(player.inputState)
+    };
+  }
+
+  /**
+   * current(Map<id, quantized>)를 baseline 대비 델타로 인코딩한다.
+   * baseline이 null이면 모든 플레이어의 모든 필드를 담은 키프레임.
+   * 바뀐 필드가 없는 플레이어는 생략하고, 기준에만 있는 플레이어는 REMOVED로 표시한다.
+   */
+  static createDeltaUpdateBuffer(current, baseline, sequence, baselineSequence = 0) {
+    const maxSize = HEADER_SIZE + 2 + (current.size + (baseline?.size ?? 0)) * DELTA_RECORD_MAX_SIZE;
+    const buffer = Buffer.alloc(maxSize);
+    this.writeHeader(buffer, PACKET_TYPES.DELTA_UPDATE, sequence, baseline ? 0 : DELTA_FLAG_KEYFRAME);
+    buffer.writeUInt16BE(baseline ? baselineSequence & 0xFFFF : 0, HEADER_SIZE);
+
+    let offset = HEADER_SIZE + 2;
+    for (const [id, player] of current) {
+      const previous = baseline?.get(id);
+      let mask = 0;
+      if (!previous || !sameVector(previous.position, player.position)) mask |= DELTA_FIELDS.POSITION;
+      if (!previous || previous.rotation !== player.rotation) mask |= DELTA_FIELDS.ROTATION;
+      if (!previous || !sameVector(previous.velocity, player.velocity)) mask |= DELTA_FIELDS.VELOCITY;
+      if (!previous || previous.input !== player.input) mask |= DELTA_FIELDS.INPUT;
+      if (mask === 0) {
+        continue;
+      }
+
+      buffer.writeUInt16BE(id, offset);
+      buffer.writeUInt8(mask, offset + 2);
+      offset += 3;
+
+      if (mask & DELTA_FIELDS.POSITION) {
+        offset = writeInt16s(buffer, offset, player.position);
+      }
+      if (mask & DELTA_FIELDS.ROTATION) {
+        buffer.writeUInt32BE(player.rotation, offset);
+        offset += 4;
+      }
+      if (mask & DELTA_FIELDS.VELOCITY) {
+        offset = writeInt16s(buffer, offset, player.velocity);
+      }
+      if (mask & DELTA_FIELDS.INPUT) {
+        buffer.writeUInt8(player.input, offset);
+        offset += 1;
+      }
+    }
+
+    if (baseline) {
+      for (const id of baseline.keys()) {
+        if (!current.has(id)) {
+          buffer.writeUInt16BE(id, offset);
+          buffer.writeUInt8(DELTA_FIELDS.REMOVED, offset + 2);
+          offset += 3;
+        }
+      }
+    }
+
+    return buffer.subarray(0, offset);
+  }
+
+  /**
+   * 헤더만 읽는다. 길이가 부족하면 null
+   */
+  static parseHeader(buffer) {
+    if (buffer.length < HEADER_SIZE) {
+      return null;
+    }
+
+    return {
+      sequence: buffer.readUInt16BE(0),
+      type: buffer.readUInt8(2),
+      timestamp: buffer.readUInt32BE(3),
+      flags: buffer.readUInt8(7)
+    };
+  }
+
+  /**
+   * INPUT 패킷을 읽는다. 타입이 다르거나 길이가 부족하면 null
+   */
+  static parseInputBuffer(buffer) {
+    const header = this.parseHeader(buffer);
+    if (!header || header.type !== PACKET_TYPES.INPUT || buffer.length < HEADER_SIZE + INPUT_STATE_SIZE) {
+      return null;
+    }
+
+    const offset = HEADER_SIZE;
+    const inputState = this.decodeInputState(buffer.readUInt8(offset + 12));
+    inputState.roll = buffer.readInt8(offset + 13) / 127;
+
+    return {
+      header,
+      position: [0, 2, 4].map((byte) => buffer.readInt16BE(offset + byte) / POSITION_SCALE),
+      rotation: this.decodeQuaternion(buffer.readUInt32BE(offset + 6)),
+      speed: buffer.readUInt16BE(offset + 10) / SPEED_SCALE,
+      inputState
+    };
+  }
+
+  /**
+   * Smallest-three 압축: 가장 큰 성분의 인덱스(2비트) + 나머지 세 성분(각 10비트, ±1/√2)
+   */
+  static encodeQuaternion(rotation) {
+    let largest = 0;
+    for (let i = 1; i < 4; i++) {
+      if (Math.abs(rotation[i]) > Math.abs(rotation[largest])) {
+        largest = i;
+      }
+    }
+
+    const sign = rotation[largest] < 0 ? -1 : 1;
+    let packed = largest;
+    for (let i = 0; i < 4; i++) {
+      if (i === largest) continue;
+      const normalized = (rotation[i] * sign / Math.SQRT1_2 + 1) / 2;
+      packed = (packed << QUATERNION_COMPONENT_BITS) |
+        Math.round(Math.min(1, Math.max(0, normalized)) * QUATERNION_COMPONENT_MAX);
+    }
+    return packed >>> 0;
+  }
+
+  static decodeQuaternion(packed) {
+    const largest = packed >>> (QUATERNION_COMPONENT_BITS * 3);
+    const rotation = [0, 0, 0, 0];
+
+    let shift = QUATERNION_COMPONENT_BITS * 2;
+    let sumSquares = 0;
+    for (let i = 0; i < 4; i++) {
+      if (i === largest) continue;
+      const raw = (packed >>> shift) & QUATERNION_COMPONENT_MAX;
+      rotation[i] = (raw / QUATERNION_COMPONENT_MAX * 2 - 1) * Math.SQRT1_2;
+      sumSquares += rotation[i] * rotation[i];
+      shift -= QUATERNION_COMPONENT_BITS;
+    }
+    rotation[largest] = Math.sqrt(Math.max(0, 1 - sumSquares));
+
+    const length = Math.hypot(...rotation);
+    return rotation.map((component) => component / length);
+  }
+
+  static writeHeader(buffer, type, sequence, flags = 0) {
+    buffer.writeUInt16BE(sequence & 0xFFFF, 0); // Sequence number
+    buffer.writeUInt8(type, 2);
+    buffer.writeUInt32BE(Date.now() % 0xFFFFFFFF, 3); // 32비트 범위로 제한
+    buffer.writeUInt8(flags & 0xFF, 7); // Flags
+  }
+
+  static writePlayerState(buffer, offset, id, player) {
+    buffer.writeUInt16BE(id, offset);
+    offset += 2;
+
+    // Position (3x float32)
+    offset = this.writeFloats(buffer, offset, player.position, 3);
+
+    // Rotation (4x float32)
+    offset = this.writeFloats(buffer, offset, player.rotation, 4);
+
+    // Velocity (3x float32)
+    offset = this.writeFloats(buffer, offset, player.velocity, 3);
+
+    // Input state (4 bytes)
+    const inputState = this.encodeInputState(player.inputState);
+    buffer.writeUInt32BE(inputState, offset);
+    return offset + 4;
+  }
+
+  static writeFloats(buffer, offset, values, count) {
+    for (let i = 0; i < count; i++) {
+      buffer.writeFloatBE(values?.[i] ?? 0, offset + i * 4);
+    }
+    return offset + count * 4;
+  }
+
   static encodeInputState(inputState) {
     let encoded = 0;
     if (inputState.forward) encoded |= 0x01;
@@ -83,4 +300,20 @@ export class BinaryProtocol {
   }
 }
 
+function writeInt16s(buffer, offset, values) {
+  for (let i = 0; i < 3; i++) {
+    buffer.writeInt16BE(values[i], offset + i * 2);
+  }
+  return offset + 6;
+}
+
+function sameVector(a, b) {
+  return a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+}
+
+function quantize(value, scale, min, max) {
+  const scaled = Math.round((Number.isFinite(value) ? value : 0) * scale);
+  return Math.min(max, Math.max(min, scaled));
+}
+
 export default BinaryProtocol; 
\ No newline at end of file
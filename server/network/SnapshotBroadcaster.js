@@ -0,0 +1,78 @@
+// server/network/SnapshotBroadcaster.js
+import BinaryProtocol from './BinaryProtocol.js';
+
+/**
+ * 주기적인 상태 스냅샷 전송을 담당한다.
+ *
+ * 매 틱의 양자화된 스냅샷을 시퀀스별로 historySize 만큼 보관한다. SNAPSHOT_ACK로
+ * 델타를 구독한 클라이언트(ws.deltaSnapshots)에게는 마지막으로 ack한 스냅샷
+ * (ws.snapshotBaseline) 대비 바뀐 필드만 DELTA_UPDATE로 보내고, 기준이 없거나 이력에서
+ * 밀려났으면 키프레임을 보낸다. 구독하지 않은 클라이언트는 기존 STATE_UPDATE를 받는다.
+ */
+export class SnapshotBroadcaster {
+  constructor(gameState, webSocketManager, options = {}) {
+    this.gameState = gameState;
+    this.webSocketManager = webSocketManager;
+    this.historySize = options.historySize ?? 32; // 20Hz 기준 1.6초
+    this.sequence = 0;
+    this.history = new Map(); // sequence -> Map<playerId, quantized>
+  }
+
+  getSequence() {
+    return this.sequence;
+  }
+
+  /** 새 연결에 보내는 초기 전체 스냅샷 (현재 시퀀스) */
+  createFullSnapshot() {
+    return BinaryProtocol.createStateUpdateBuffer(this.gameState.getAllPlayers(), this.sequence);
+  }
+
+  tick() {
+    if (this.gameState.getPlayerCount() === 0) {
+      return;
+    }
+
+    this.sequence = (this.sequence + 1) & 0xFFFF;
+    const players = this.gameState.getAllPlayers();
+    const current = new Map();
+    for (const [id, player] of players) {
+      current.set(id, BinaryProtocol.quantizePlayer(player));
+    }
+    this.remember(this.sequence, current);
+
+    // 같은 기준을 ack한 클라이언트끼리는 인코딩 결과를 공유한다
+    let fullSnapshot = null;
+    const deltas = new Map();
+
+    this.webSocketManager.forEachOpenClient((client) => {
+      if (!client.deltaSnapshots) {
+        fullSnapshot ??= BinaryProtocol.createStateUpdateBuffer(players, this.sequence);
+        client.send(fullSnapshot);
+        return;
+      }
+
+      const baselineSequence = client.snapshotBaseline;
+      const baseline = baselineSequence == null ? undefined : this.history.get(baselineSequence);
+      const key = baseline ? baselineSequence : 'keyframe';
+
+      let delta = deltas.get(key);
+      if (!delta) {
+        delta = BinaryProtocol.createDeltaUpdateBuffer(current, baseline ?? null, this.sequence, baselineSequence);
+        deltas.set(key, delta);
+      }
+      client.send(delta);
+    });
+  }
+
+  remember(sequence, snapshot) {
+    // 시퀀스가 한 바퀴 돌아 같은 키가 다시 오면 가장 최근 항목이 되도록 지웠다가 넣는다
+    this.history.delete(sequence);
+    this.history.set(sequence, snapshot);
+
+    while (this.history.size > this.historySize) {
+      this.history.delete(this.history.keys().next().value);
+    }
+  }
+}
+
+export default SnapshotBroadcaster;
@@ -18,6 +18,49 @@ export class WebSocketManager {
       return sentCount;
     }
   
+    // 클라이언트마다 내용이 다른 메시지(델타 스냅샷 등)를 보낼 때 사용
+    forEachOpenClient(callback) {
+      this.wss.clients.forEach(client => {
+        if (client.readyState === 1) { // WebSocket.OPEN
+          callback(client);
+        }
+      });
+    }
+  
+    // 왕복 지연 측정: 프로토콜 ping 프레임에 대한 pong(브라우저가 자동 응답)까지 걸린 시간.
+    // 지수 평활한 값을 ws.latency(ms)에 남기고, 스코어보드(match-stats)에 실린다.
+    trackLatency(ws) {
+      ws.latency = null;
+      ws.pingSentAt = 0;
+      ws.on('pong', () => {
+        if (!ws.pingSentAt) {
+          return;
+        }
+        const sample = Date.now() - ws.pingSentAt;
+        ws.pingSentAt = 0;
+        ws.latency = ws.latency === null ? sample : Math.round(ws.latency * 0.7 + sample * 0.3);
+      });
+    }
+  
+    probeLatency() {
+      this.forEachOpenClient(client => {
+        if (client.pingSentAt) {
+          return; // 이전 ping의 pong을 아직 기다리는 중
+        }
+        client.pingSentAt = Date.now();
+        client.ping();
+      });
+    }
+  
+    getLatency(playerId) {
+      for (const client of this.wss.clients) {
+        if (client.readyState === 1 && client.playerId === playerId) {
+          return client.latency ?? null;
+        }
+      }
+      return null;
+    }
+  
     broadcastToPlayers(message, playerIds, gameState) {
       let sentCount = 0;
       
@@ -131,8 +131,8 @@ class GameEventService {
     return result.rows;
   }
 
-  // 전체 랭킹 조회
-  async getGlobalRankings(limit = 10) {
+  // 전체 랭킹 조회 (offset부터 limit개 - 랭킹 화면 페이지)
+  async getGlobalRankings(limit = 10, offset = 0) {
     const result = await pgPool.query(`
       SELECT 
         r.*,
@@ -143,13 +143,19 @@ class GameEventService {
         END as kd_ratio
       FROM rankings r
       JOIN users u ON r.user_id = u.id
-      ORDER BY r.total_score DESC
-      LIMIT $1
-    `, [limit]);
+      ORDER BY r.total_score DESC, r.user_id
+      LIMIT $1 OFFSET $2
+    `, [limit, offset]);
     
     return result.rows;
   }
 
+  // 랭킹에 오른 전체 유저 수 (페이지 수 계산용)
+  async countRankings() {
+    const result = await pgPool.query('SELECT COUNT(*) AS total FROM rankings');
+    return Number(result.rows[0].total);
+  }
+
   // 매치 히트 로그 조회
   async getMatchHitLog(matchId) {
     const result = await pgPool.query(`
@@ -204,6 +210,44 @@ class GameEventService {
     }
   }
 
+  // 지형 충돌 사망 처리 (가해자 없음 - 데스만 기록)
+  async handlePlayerCrash(matchId, userId) {
+    await this.recordDeathWithoutKill(matchId, userId, userId, 'crash');
+  }
+
+  // 공중 충돌 사망 처리 (부딪힌 상대를 기록하지만 킬은 주지 않는다)
+  async handlePlayerCollision(matchId, otherUserId, victimUserId) {
+    await this.recordDeathWithoutKill(matchId, otherUserId, victimUserId, 'collision');
+  }
+
+  async recordDeathWithoutKill(matchId, attackerId, victimId, eventType) {
+    const client = await pgPool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await this.processHitEvent({
+        matchId,
+        attackerId,
+        victimId,
+        damage: 0,
+        eventType
+      });
+
+      await client.query(`
+        UPDATE match_players 
+        SET deaths = deaths + 1
+        WHERE match_id = $1 AND user_id = $2
+      `, [matchId, victimId]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   // 플레이어 데미지 이벤트 처리
   async handlePlayerDamage(matchId, attackerId, victimId, damage) {
     await this.processHitEvent({
@@ -1,23 +1,52 @@
 // server/services/MatchManager.js
 import GameEventService from './GameEventService.js';
+import { pickTerrainSeed } from '../game/Terrain.js';
 
+/**
+ * 매치 진행: 시작 → 워밍업(warmupMs, 사격 판정 없음) → 라운드(durationMs) → 종료.
+ * 시간표는 match-started와 welcome으로 알리고, 클라이언트가 카운트다운/시계를 그린다.
+ * 라운드 시간이 다 되거나 모두 나가면 match-ended에 최종 순위를 담아 보낸다.
+ */
 export class MatchManager {
-  constructor(gameState, webSocketManager) {
+  constructor(gameState, webSocketManager, sessionManager = null, options = {}) {
     this.gameState = gameState;
     this.webSocketManager = webSocketManager;
+    this.sessionManager = sessionManager;
+    this.warmupMs = options.warmupMs ?? (Number(process.env.MATCH_WARMUP) || 15000);
+    this.durationMs = options.durationMs ?? (Number(process.env.MATCH_DURATION) || 300000);
+    this.schedule = null; // { matchId, startedAt, liveAt, endsAt }
+    this.endTimer = null;
+    this.ended = false; // 매치가 끝나고 다음 매치가 아직 없다 (결과 화면 중)
   }
 
   async startMatch() {
+    // 새 매치를 만들지 못하면 ended를 풀어 기존처럼 제한 없이 돈다
+    this.ended = false;
     try {
       const matchId = await GameEventService.createMatch();
       this.gameState.setCurrentMatch(matchId);
-      console.log(`🎮 New match started with ID: ${matchId}`);
+      this.gameState.resetScores();
+      // 매치마다 새 지형 - 이 매치에 들어오는 플레이어는 welcome으로 시드를 받는다
+      this.gameState.setTerrainSeed(pickTerrainSeed());
+
+      const startedAt = Date.now();
+      this.schedule = {
+        matchId,
+        startedAt,
+        liveAt: startedAt + this.warmupMs,
+        endsAt: startedAt + this.warmupMs + this.durationMs
+      };
+      this.endTimer = setTimeout(() => {
+        this.endTimer = null;
+        void this.endMatch('time-limit');
+      }, this.schedule.endsAt - startedAt);
+      console.log(`🎮 New match started with ID: ${matchId} (warmup ${this.warmupMs}ms, round ${this.durationMs}ms, terrain seed ${this.gameState.getTerrain().seed})`);
       
       // 브로드캐스트 매치 시작
       const matchStartMessage = JSON.stringify({
         type: 'match-started',
-        matchId: matchId,
-        timestamp: Date.now()
+        ...this.schedule,
+        timestamp: startedAt
       });
       
       this.webSocketManager.broadcast(matchStartMessage);
@@ -29,24 +58,43 @@ export class MatchManager {
     }
   }
 
-  async endMatch() {
+  async endMatch(reason = 'empty') {
     const matchId = this.gameState.getCurrentMatch();
     if (!matchId) return;
+
+    if (this.endTimer) {
+      clearTimeout(this.endTimer);
+      this.endTimer = null;
+    }
+    this.schedule = null;
+    this.ended = true;
+
+    // 세션 정리 전에 순위를 확정해 둔다 (재접속 대기 중인 플레이어의 기록은 세션에만 있다)
+    const standings = this.buildStandings();
     
     try {
       await GameEventService.endMatch(matchId);
-      console.log(`🏁 Match ${matchId} ended`);
+      console.log(`🏁 Match ${matchId} ended (${reason})`);
       
       // 브로드캐스트 매치 종료
       const matchEndMessage = JSON.stringify({
         type: 'match-ended',
         matchId: matchId,
+        reason,
+        standings,
         timestamp: Date.now()
       });
       
       this.webSocketManager.broadcast(matchEndMessage);
       
-      this.gameState.clear();
+      // 시간 종료 시 접속 중인 플레이어는 남겨 둔다 - 클라이언트가 결과 화면 뒤 스스로 나가며
+      // cleanupPlayer로 정상 정리된다 (여기서 비우면 연결/Redis 정리가 건너뛰어진다)
+      if (this.gameState.getPlayerCount() === 0) {
+        this.gameState.clear();
+      } else {
+        this.gameState.setCurrentMatch(null);
+      }
+      this.sessionManager?.cleanup(); // 끝난 매치로는 재접속할 수 없다
     } catch (error) {
       console.error('Error ending match:', error);
     }
@@ -82,8 +130,9 @@ export class MatchManager {
       // GameEventService에서 플레이어 제거 로직이 있다면 호출
       console.log(`👤 User ${userId} (Player ${playerId}) removed from match ${matchId}`);
       
-      // 플레이어가 모두 나가면 매치 종료
-      if (this.gameState.getPlayerCount() === 0) {
+      // 플레이어가 모두 나가면 매치 종료 (재접속 대기 중인 플레이어가 있으면 유지)
+      const suspended = this.sessionManager?.getSuspendedCount() ?? 0;
+      if (this.gameState.getPlayerCount() === 0 && suspended === 0) {
         await this.endMatch();
       }
     } catch (error) {
@@ -91,6 +140,38 @@ export class MatchManager {
     }
   }
 
+  /**
+   * 최종 순위 - 접속 중인 플레이어와 재접속 대기 중인 플레이어의 킬/데스.
+   * 점수는 킬당 100점 (GameEventService의 match_players.score와 같은 기준).
+   */
+  buildStandings() {
+    const participants = this.sessionManager?.getParticipants()
+      ?? Array.from(this.gameState.getAllPlayers().keys()).map((playerId) => ({ playerId, username: null, state: null }));
+
+    return participants
+      .map(({ playerId, username, state }) => {
+        const player = this.gameState.getPlayer(playerId) ?? state;
+        const kills = player?.kills ?? 0;
+        const deaths = player?.deaths ?? 0;
+        return { playerId, username: username ?? `Player ${playerId}`, kills, deaths, score: kills * 100 };
+      })
+      .sort((a, b) => b.score - a.score || a.deaths - b.deaths);
+  }
+
+  /** 진행 중인 매치의 시간표 (welcome에 실린다). 매치가 없으면 null */
+  getSchedule() {
+    return this.schedule;
+  }
+
+  /** 워밍업 중이거나 라운드 시간이 지났거나 매치가 끝났으면 사격을 판정하지 않는다 */
+  isCombatAllowed(now = Date.now()) {
+    if (!this.schedule) {
+      // 끝난 매치의 결과 화면 중에는 막고, 매치를 만들지 못한 경우(DB 장애 등)만 기존처럼 제한 없음
+      return !this.ended;
+    }
+    return now >= this.schedule.liveAt && now < this.schedule.endsAt;
+  }
+
   getCurrentMatchId() {
     return this.gameState.getCurrentMatch();
   }
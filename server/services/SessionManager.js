@@ -0,0 +1,126 @@
+// server/services/SessionManager.js
+import { randomBytes } from 'crypto';
+
+/**
+ * 재접속용 세션(resume 토큰)을 관리한다.
+ *
+ * welcome 메시지로 발급한 토큰을 클라이언트가 재연결 시 `?resume=`으로 제시하면 같은
+ * playerId와 체력/탄약/점수, 매치 참가 상태를 그대로 이어받는다. 비정상 종료된 플레이어는
+ * resumeWindowMs 동안 보류(suspend)되며, 그 사이 돌아오지 않으면 onExpire로 매치에서 뺀다.
+ */
+export class SessionManager {
+  constructor(options = {}) {
+    this.resumeWindowMs = options.resumeWindowMs ?? (Number(process.env.RESUME_WINDOW_MS) || 30000);
+    this.sessions = new Map(); // playerId -> { token, userId, username, matchId, suspended }
+    this.tokens = new Map();   // token -> playerId
+
+    // 보류 기간이 끝난 플레이어를 최종 정리하기 위한 콜백 (index.js에서 주입)
+    this.onExpire = null;
+  }
+
+  /** 새 입장마다 토큰을 발급한다 (이전 토큰은 폐기) */
+  issue(playerId, userId, username, matchId) {
+    this.revoke(playerId);
+
+    const token = randomBytes(24).toString('base64url');
+    this.sessions.set(playerId, { token, userId, username, matchId, suspended: null });
+    this.tokens.set(token, playerId);
+    return token;
+  }
+
+  /**
+   * 토큰이 이 플레이어의 것이고 같은 매치가 진행 중이면 세션을 되살린다.
+   * 보류 중이었다면 저장해 둔 상태를, 아직 이전 연결이 살아 있으면 null 상태를 돌려준다
+   * (호출 측이 gameState의 현재 값을 쓴다). 유효하지 않으면 null.
+   */
+  resume(token, playerId, matchId) {
+    if (!token || this.tokens.get(token) !== playerId) {
+      return null;
+    }
+
+    const session = this.sessions.get(playerId);
+    if (!session || session.matchId !== matchId) {
+      this.revoke(playerId);
+      return null;
+    }
+
+    const state = session.suspended?.state ?? null;
+    if (session.suspended) {
+      clearTimeout(session.suspended.timer);
+      session.suspended = null;
+    }
+
+    return { token: session.token, state };
+  }
+
+  /** 비정상 종료 - 상태를 보관하고 보류 기간 타이머를 건다 */
+  suspend(playerId, state) {
+    const session = this.sessions.get(playerId);
+    if (!session) {
+      return false;
+    }
+
+    if (session.suspended) {
+      clearTimeout(session.suspended.timer);
+    }
+
+    const timer = setTimeout(() => {
+      this.revoke(playerId);
+      console.log(`⌛ Resume window expired for Player ${playerId}`);
+      if (this.onExpire) {
+        Promise.resolve(this.onExpire(playerId, session.userId))
+          .catch((err) => console.error(`Error expiring session for Player ${playerId}:`, err));
+      }
+    }, this.resumeWindowMs);
+
+    session.suspended = { state, timer, since: Date.now() };
+    console.log(`⏸️ Player ${playerId} suspended for ${this.resumeWindowMs}ms`);
+    return true;
+  }
+
+  revoke(playerId) {
+    const session = this.sessions.get(playerId);
+    if (!session) {
+      return;
+    }
+
+    if (session.suspended) {
+      clearTimeout(session.suspended.timer);
+    }
+    this.tokens.delete(session.token);
+    this.sessions.delete(playerId);
+  }
+
+  isSuspended(playerId) {
+    return Boolean(this.sessions.get(playerId)?.suspended);
+  }
+
+  /** 매치 참가자 목록 - 보류 중이면 보관된 상태를 함께 돌려준다 */
+  getParticipants() {
+    return Array.from(this.sessions.entries()).map(([playerId, session]) => ({
+      playerId,
+      userId: session.userId,
+      username: session.username,
+      state: session.suspended?.state ?? null
+    }));
+  }
+
+  /** 매치 종료 판단 시 보류 중인 플레이어도 참가자로 센다 */
+  getSuspendedCount() {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.suspended) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  cleanup() {
+    for (const playerId of Array.from(this.sessions.keys())) {
+      this.revoke(playerId);
+    }
+  }
+}
+
+export default SessionManager;
@@ -11,10 +11,23 @@
 //   node test-client.js --scenario reload         # 재장전 테스트
 //   node test-client.js --scenario multi          # 다중 클라이언트 동시 접속
 //   node test-client.js --scenario stress         # 스트레스 테스트 (빠른 메시지 전송)
+//   node test-client.js --scenario resume         # 비정상 종료 후 resume 토큰으로 재접속
+//   node test-client.js --scenario match          # 매치 시간표/워밍업/종료 순위
+//   node test-client.js --scenario scoreboard     # 스코어보드 통계 (킬/데스/점수/핑)
+//   node test-client.js --scenario rankings       # 글로벌 랭킹 페이지
+//   node test-client.js --scenario loadout        # 격납고 기체/도색 전달
+//   node test-client.js --scenario crash          # 지형 시드 / 지형 충돌 사망
+//   node test-client.js --scenario collision      # 공중 충돌 (양쪽 피해, 중복 보고 무시)
+//   node test-client.js --scenario missile        # 유도 미사일 (발사/락온 검증, 근접 신관 명중)
+//   node test-client.js --scenario flare          # 플레어 (사출 브로드캐스트, 잔량 제한, 미사일 기만)
+//   node test-client.js --scenario ballistic      # 탄도 기관포 (GUN_MODE=ballistic 서버 - 비행 시간, 사거리)
+//   node test-client.js --scenario weapons        # 무장 정의 (기체별 무장, 무장별 피해/사거리/재장전)
+//   node test-client.js --scenario overheat       # 기관총 과열 (연사하면 잠기고, 식으면 풀림, 재장전 없음)
 //   node test-client.js --scenario full           # 전체 게임 라이프사이클
 //   node test-client.js --url ws://host:port      # 커스텀 서버 주소
 
 import WebSocket from 'ws';
+import { MISSILE, MISSILE_LOCK } from '../shared/MissileGuidance.js';
 
 // ─── Configuration ──────────────────────────────────────────────────────────
 
@@ -27,6 +40,8 @@ const SERVER_URL = urlFlag !== -1 ? args[urlFlag + 1] : 'ws://localhost:8080';
 
 const HEADER_SIZE = 8;
 const PLAYER_STATE_SIZE = 46;
+// 서버가 락온을 인정하는 데 필요한 조준 유지 시간 + 스냅샷 틱 여유
+const LOCK_HOLD_MS = MISSILE_LOCK.lockSeconds * 1000 + 200;
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
@@ -86,18 +101,25 @@ class TestClient {
     this.playerId = null;
     this.userId = null;
     this.matchId = null;
+    this.match = null;        // welcome의 매치 시간표
+    this.resumeToken = null;
+    this.session = null;      // welcome의 resumed/state
     this.connected = false;
     this.messages = [];       // 수신 JSON 메시지 기록
     this.binaryMessages = []; // 수신 바이너리 메시지 기록
     this.messageHandlers = new Map();
   }
 
-  // 서버 접속 후 welcome 메시지 수신까지 대기
-  connect(url = SERVER_URL) {
+  // 서버 접속 후 welcome 메시지 수신까지 대기 (params: 추가 쿼리, 예: airframe/livery)
+  connect(url = SERVER_URL, resumeToken = null, params = {}) {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => reject(new Error('Connection timeout')), 5000);
 
-      this.ws = new WebSocket(`${url}?username=${this.username}`);
+      const query = new URLSearchParams({ ...params, username: this.username });
+      if (resumeToken) {
+        query.set('resume', resumeToken);
+      }
+      this.ws = new WebSocket(`${url}?${query}`);
       this.ws.binaryType = 'arraybuffer';
 
       this.ws.on('open', () => {
@@ -134,6 +156,10 @@ class TestClient {
             this.playerId = msg.playerId;
             this.userId = msg.userId;
             this.matchId = msg.matchId;
+            this.match = msg.match ?? null;
+            this.capabilities = msg.capabilities ?? {};
+            this.resumeToken = msg.resumeToken;
+            this.session = { resumed: msg.resumed, ...msg.state };
             this.connected = true;
             clearTimeout(timeout);
             resolve(this);
@@ -208,21 +234,21 @@ class TestClient {
     });
   }
 
-  // 히트 이벤트 전송
-  sendHit(victimId, damage = 10, position = [0, 0, 0], distance = 50) {
+  // 사격 이벤트 전송 (명중 판정은 서버가 지연 보상 레이캐스트로 수행, weaponId가 없으면 주무장)
+  sendShot(origin, direction, snapshotSequence = null, weaponId = undefined) {
     this.send({
-      type: 'hit',
-      victimId,
-      damage,
-      position,
-      distance,
-      timestamp: Date.now(),
+      type: 'shot',
+      weaponId,
+      origin,
+      direction,
+      clientTime: Date.now(),
+      snapshotSequence,
     });
   }
 
-  // 재장전 이벤트 전송
-  sendReload() {
-    this.send({ type: 'reload' });
+  // 재장전 이벤트 전송 (weaponId가 없으면 주무장)
+  sendReload(weaponId = undefined) {
+    this.send({ type: 'reload', weaponId });
   }
 
   // 핑 전송 (텍스트)
@@ -239,6 +265,22 @@ class TestClient {
     });
   }
 
+  // 비정상 종료 (close 핸드셰이크 없이 끊김 → 서버는 1006으로 보고 재접속을 기다린다)
+  // 워밍업 중에는 사격이 판정되지 않으므로 라운드 시작까지 기다린다
+  async waitForLive() {
+    const remaining = this.match ? this.match.liveAt - Date.now() : 0;
+    if (remaining > 0) {
+      log(this.username, `워밍업 종료까지 ${remaining}ms 대기`);
+      await sleep(remaining + 50);
+    }
+  }
+
+  drop() {
+    if (this.ws) {
+      this.ws.terminate();
+    }
+  }
+
   // 연결 종료
   disconnect() {
     if (this.ws) {
@@ -353,29 +395,42 @@ scenarios.combat = async () => {
 
   // victim이 player-joined 수신 확인
   assert(attacker.playerId !== victim.playerId, '서로 다른 playerId 할당');
+  await attacker.waitForLive();
 
-  // 공격자가 피해자를 공격
+  // 피해자 정면 40m 뒤에 공격자 배치 (위치 이력에 기록될 시간을 준다)
+  attacker.sendUpdate([0, 10, 40], [0, 0, 0, 1]);
+  victim.sendUpdate([0, 10, 0], [0, 0, 0, 1]);
+  await sleep(300);
+
+  // 공격자가 피해자를 조준해 사격 (-Z 방향)
   let hitReceived = false;
   victim.on('player-hit', (msg) => {
     hitReceived = true;
     log('TEST', `피격 이벤트 수신: 공격자=${msg.attackerId} 피해자=${msg.victimId} 데미지=${msg.damage} 남은체력=${msg.victimHealth}`);
   });
 
-  attacker.sendHit(victim.playerId, 25, [5, 10, 3], 30);
+  attacker.sendShot([0, 10, 40], [0, 0, -1]);
   await sleep(500);
   assert(hitReceived, '피격 이벤트 수신됨');
 
-  // 연속 공격으로 사망 유도 (체력 100, 25씩 4번 = 사망)
+  // 빗나간 사격은 피격 이벤트가 없어야 함
+  hitReceived = false;
+  await sleep(150);
+  attacker.sendShot([0, 10, 40], [0, 1, 0]);
+  await sleep(300);
+  assert(!hitReceived, '빗나간 사격은 피격 없음');
+
+  // 연속 공격으로 사망 유도 (체력 100, 10씩 - 남은 9발)
   let deathReceived = false;
   victim.on('player-death', (msg) => {
     deathReceived = true;
     log('TEST', `사망 이벤트 수신: 리스폰 위치=${JSON.stringify(msg.respawnPosition)}`);
   });
 
-  // 연사 제한(500ms) 고려하여 간격을 두고 공격
-  for (let i = 0; i < 3; i++) {
-    await sleep(550);
-    attacker.sendHit(victim.playerId, 25, [5, 10, 3], 30);
+  // 연사 제한(100ms) 고려하여 간격을 두고 공격
+  for (let i = 0; i < 9; i++) {
+    await sleep(150);
+    attacker.sendShot([0, 10, 40], [0, 0, -1]);
   }
 
   await sleep(500);
@@ -397,10 +452,10 @@ scenarios.reload = async () => {
   await client.connect();
   await dummy.connect();
 
-  // 탄약 소모 (히트 전송으로 서버 측 ammo 감소)
+  // 탄약 소모 (사격마다 서버 측 ammo 감소)
   for (let i = 0; i < 3; i++) {
-    client.sendHit(dummy.playerId, 5, [0, 0, 0], 10);
-    await sleep(550);
+    client.sendShot([0, 0, 0], [0, 0, -1]);
+    await sleep(150);
   }
 
   // 재장전 시작
@@ -409,12 +464,12 @@ scenarios.reload = async () => {
 
   client.on('player-reload', (msg) => {
     reloadStarted = true;
-    log('TEST', `재장전 시작: duration=${msg.reloadDuration}ms`);
+    log('TEST', `재장전 시작: weapon=${msg.weaponId} duration=${msg.reloadDuration}ms`);
   });
 
   client.on('player-reload-complete', (msg) => {
     reloadCompleted = true;
-    log('TEST', `재장전 완료: ammo=${msg.ammo}/${msg.maxAmmo}`);
+    log('TEST', `재장전 완료: weapon=${msg.weaponId} ammo=${msg.ammo}/${msg.maxAmmo}`);
   });
 
   client.sendReload();
@@ -518,7 +573,534 @@ scenarios.stress = async () => {
   log('TEST', '스트레스 테스트 통과 ✓');
 };
 
-// 7) 전체 게임 라이프사이클
+// 7) 세션 재접속 테스트
+scenarios.resume = async () => {
+  console.log('\n=== 시나리오: 세션 재접속 테스트 ===\n');
+
+  const client = new TestClient('test-pilot-resume');
+  const observer = new TestClient('test-observer-resume');
+  await client.connect();
+  await observer.connect();
+
+  assert(typeof client.resumeToken === 'string', 'welcome에 resume 토큰 포함');
+  assert(client.session.resumed === false, '첫 입장은 resumed=false');
+
+  // 탄약을 소모해 복원 여부를 확인할 수 있게 한다
+  client.sendUpdate([0, 10, 0], [0, 0, 0, 1]);
+  await sleep(100);
+  for (let i = 0; i < 3; i++) {
+    client.sendShot([0, 10, 0], [0, 1, 0]);
+    await sleep(150);
+  }
+
+  const playerId = client.playerId;
+  const token = client.resumeToken;
+  const leftPromise = observer.waitFor('player-left', 3000);
+  client.drop();
+  await leftPromise;
+  log('TEST', '비정상 종료 → 다른 플레이어에게 player-left 전달');
+
+  const joinedPromise = observer.waitFor('player-joined', 3000);
+  await client.connect(SERVER_URL, token);
+  await joinedPromise;
+
+  assert(client.session.resumed === true, '재접속은 resumed=true');
+  assert(client.playerId === playerId, `같은 playerId 유지: ${client.playerId}`);
+  const resumedGun = client.session.weapons.cannon;
+  assert(resumedGun.ammo === resumedGun.maxAmmo - 3, `탄약 복원: ${resumedGun.ammo}/${resumedGun.maxAmmo}`);
+  assert(client.resumeToken === token, '같은 세션 토큰 유지');
+
+  // 잘못된 토큰은 새 입장으로 처리
+  client.disconnect();
+  await sleep(300);
+  await client.connect(SERVER_URL, 'not-a-valid-token');
+  assert(client.session.resumed === false, '잘못된 토큰은 새 입장');
+  const freshGun = client.session.weapons.cannon;
+  assert(freshGun.ammo === freshGun.maxAmmo, '새 입장은 탄약 초기화');
+
+  client.disconnect();
+  observer.disconnect();
+  await sleep(500);
+  log('TEST', '세션 재접속 테스트 통과 ✓');
+};
+
+// 8) 매치 라이프사이클 (서버를 MATCH_WARMUP/MATCH_DURATION을 짧게 해서 띄우면 종료까지 검증)
+scenarios.match = async () => {
+  console.log('\n=== 시나리오: 매치 라이프사이클 ===\n');
+
+  const attacker = new TestClient('match-attacker');
+  const victim = new TestClient('match-victim');
+  await attacker.connect();
+  await victim.connect();
+
+  const schedule = attacker.match;
+  assert(schedule && schedule.matchId === attacker.matchId, 'welcome에 매치 시간표 포함');
+  assert(schedule && schedule.startedAt <= schedule.liveAt && schedule.liveAt < schedule.endsAt, '시간표 순서: 시작 ≤ 라운드 시작 < 종료');
+
+  attacker.sendUpdate([0, 10, 40], [0, 0, 0, 1]);
+  victim.sendUpdate([0, 10, 0], [0, 0, 0, 1]);
+  await sleep(300);
+
+  let hits = 0;
+  victim.on('player-hit', () => { hits++; });
+
+  if (schedule.liveAt - Date.now() > 500) {
+    attacker.sendShot([0, 10, 40], [0, 0, -1]);
+    await sleep(300);
+    assert(hits === 0, '워밍업 중 사격은 판정하지 않음');
+  } else {
+    log('TEST', '워밍업이 이미 끝나 워밍업 검증 생략');
+  }
+
+  await attacker.waitForLive();
+  attacker.sendShot([0, 10, 40], [0, 0, -1]);
+  await sleep(300);
+  assert(hits === 1, '라운드 중 사격은 판정됨');
+
+  const untilEnd = schedule.endsAt - Date.now();
+  if (untilEnd > 60000) {
+    log('TEST', `라운드가 ${untilEnd}ms 남아 종료 검증 생략 (MATCH_DURATION을 짧게 설정)`);
+  } else {
+    const ended = await victim.waitFor('match-ended', untilEnd + 5000);
+    assert(ended.reason === 'time-limit', `종료 사유: ${ended.reason}`);
+    const top = ended.standings[0];
+    assert(top && top.playerId === attacker.playerId, '최종 순위 1위는 공격자');
+    assert(ended.standings.length === 2, '참가자 전원이 순위에 포함');
+  }
+
+  attacker.disconnect();
+  victim.disconnect();
+  await sleep(500);
+  log('TEST', '매치 라이프사이클 테스트 통과 ✓');
+};
+
+// 9) 스코어보드 - match-stats에 킬/데스/점수와 서버가 잰 핑이 실린다
+scenarios.scoreboard = async () => {
+  console.log('\n=== 시나리오: 스코어보드 ===\n');
+
+  const attacker = new TestClient('board-attacker');
+  const victim = new TestClient('board-victim');
+  await attacker.connect();
+  await victim.connect();
+  await attacker.waitForLive();
+
+  attacker.sendUpdate([0, 10, 40], [0, 0, 0, 1]);
+  victim.sendUpdate([0, 10, 0], [0, 0, 0, 1]);
+  await sleep(300);
+
+  // 10발(발당 10 데미지)로 한 번 격추
+  for (let i = 0; i < 10; i++) {
+    attacker.sendShot([0, 10, 40], [0, 0, -1]);
+    await sleep(150);
+  }
+  await victim.waitFor('player-death', 3000);
+
+  // 핑 측정 주기(2초)가 한 번 이상 돌도록 기다린 뒤 요청
+  await sleep(2500);
+  const response = attacker.waitFor('match-stats', 3000);
+  attacker.send({ type: 'get-stats' });
+  const { stats } = await response;
+
+  const attackerRow = stats.find((row) => row.playerId === attacker.playerId);
+  const victimRow = stats.find((row) => row.playerId === victim.playerId);
+  assert(attackerRow && victimRow, '두 플레이어 모두 스코어보드에 포함');
+  assert(attackerRow.kills === 1 && attackerRow.score === 100, `공격자 K${attackerRow?.kills} / ${attackerRow?.score}점`);
+  assert(victimRow.deaths === 1, `피격자 D${victimRow?.deaths}`);
+  assert(attackerRow.connected && typeof attackerRow.ping === 'number', `공격자 핑 ${attackerRow?.ping}ms`);
+
+  attacker.disconnect();
+  victim.disconnect();
+  await sleep(500);
+  log('TEST', '스코어보드 테스트 통과 ✓');
+};
+
+// 10) 글로벌 랭킹 - 페이지 크기/순위 번호/전체 수
+scenarios.rankings = async () => {
+  console.log('\n=== 시나리오: 글로벌 랭킹 ===\n');
+
+  const client = new TestClient('rank-viewer');
+  await client.connect();
+
+  const first = client.waitFor('global-rankings', 3000);
+  client.send({ type: 'get-rankings', page: 0, pageSize: 2 });
+  const page0 = await first;
+  assert(page0.page === 0 && page0.pageSize === 2, `첫 페이지 응답 (page ${page0.page}, size ${page0.pageSize})`);
+  assert(page0.rankings.length <= 2, `페이지 크기 이하 (${page0.rankings.length}개)`);
+  assert(page0.rankings.every((row, index) => row.rank === index + 1), '순위 번호 1부터');
+
+  if (page0.total > 2) {
+    const second = client.waitFor('global-rankings', 3000);
+    client.send({ type: 'get-rankings', page: 1, pageSize: 2 });
+    const page1 = await second;
+    assert(page1.rankings[0]?.rank === 3, '두 번째 페이지는 3위부터');
+  } else {
+    log('TEST', `랭킹이 ${page0.total}명뿐이라 다음 페이지 검증 생략`);
+  }
+
+  const clamped = client.waitFor('global-rankings', 3000);
+  client.send({ type: 'get-rankings', page: -5, pageSize: 500 });
+  const clampedPage = await clamped;
+  assert(clampedPage.page === 0 && clampedPage.pageSize === 50, '잘못된 page/pageSize는 범위로 보정');
+
+  client.disconnect();
+  await sleep(500);
+  log('TEST', '글로벌 랭킹 테스트 통과 ✓');
+};
+
+// 11) 격납고 loadout - 기체 종류별 능력치, 기존 접속자는 welcome.loadouts로, 새 접속자는 player-joined로 받는다
+scenarios.loadout = async () => {
+  console.log('\n=== 시나리오: 격납고 loadout ===\n');
+
+  const first = new TestClient('hangar-1');
+  await first.connect(SERVER_URL, null, { airframe: 'heavy', livery: 'crimson' });
+
+  assert(first.session?.maxHealth === 160, `heavy 기체 체력 적용 (${first.session?.maxHealth})`);
+
+  const joined = first.waitFor('player-joined', 3000);
+  const second = new TestClient('hangar-2');
+  await second.connect(SERVER_URL, null, { airframe: 'bogus', livery: 'navy' });
+
+  const joinMessage = await joined;
+  assert(
+    joinMessage.loadout?.airframe === 'fighter' && joinMessage.loadout?.livery === 'navy',
+    `알 수 없는 기체는 기본값으로 (${JSON.stringify(joinMessage.loadout)})`
+  );
+
+  const welcome = second.getMessages('welcome')[0];
+  const firstLoadout = welcome?.loadouts?.[first.playerId];
+  assert(
+    firstLoadout?.airframe === 'heavy' && firstLoadout?.livery === 'crimson',
+    `welcome.loadouts에 기존 접속자 기체 (${JSON.stringify(firstLoadout)})`
+  );
+
+  first.disconnect();
+  second.disconnect();
+  await sleep(500);
+  log('TEST', '격납고 loadout 테스트 통과 ✓');
+};
+
+// 12) 지형 - welcome의 시드, 지면에서 보고한 추락만 사망(cause: crash)으로 처리
+scenarios.crash = async () => {
+  console.log('\n=== 시나리오: 지형 충돌 ===\n');
+
+  const client = new TestClient('crash-pilot');
+  await client.connect();
+
+  const welcome = client.getMessages('welcome')[0];
+  assert(Number.isInteger(welcome?.terrain?.seed), `welcome에 지형 시드 (${welcome?.terrain?.seed})`);
+
+  // 리스폰 지점 주변은 평지(높이 0) - 공중에서의 추락 보고는 거부된다
+  client.sendUpdate([0, 200, 0], [0, 0, 0, 1]);
+  await sleep(300);
+  let rejectedDeath = false;
+  client.on('player-death', () => { rejectedDeath = true; });
+  client.send({ type: 'crash', position: [0, 200, 0] });
+  await sleep(500);
+  assert(!rejectedDeath, '지면에서 먼 추락 보고는 무시');
+
+  client.sendUpdate([0, 3, 0], [0, 0, 0, 1]);
+  await sleep(300);
+  const death = client.waitFor('player-death', 3000);
+  client.send({ type: 'crash', position: [0, 2, 0] });
+  const deathMessage = await death;
+  assert(
+    deathMessage.cause === 'crash' && String(deathMessage.victimId) === String(client.playerId),
+    `지면 추락은 사망 처리 (cause ${deathMessage.cause})`
+  );
+  assert(String(deathMessage.attackerId) === String(deathMessage.victimId), '추락은 가해자 없이 자기 자신');
+
+  client.disconnect();
+  await sleep(500);
+  log('TEST', '지형 충돌 테스트 통과 ✓');
+};
+
+// 13) 공중 충돌 - 양쪽 모두 피해, 상대가 같은 충돌을 다시 보고해도 한 번만, 멀리 떨어진 보고는 거부, 보고 속력은 피해와 무관
+scenarios.collision = async () => {
+  console.log('\n=== 시나리오: 공중 충돌 ===\n');
+
+  const first = new TestClient('midair-1');
+  const second = new TestClient('midair-2');
+  await first.connect();
+  await second.connect();
+  await first.waitForLive();
+
+  first.sendUpdate([0, 100, 0], [0, 0, 0, 1]);
+  second.sendUpdate([0, 100, -3], [0, 0, 0, 1]);
+  await sleep(300);
+
+  // 조작된 속력 보고 - 피해는 서버 위치 이력의 상대 속력으로만 정한다
+  first.send({ type: 'movement', input: {}, speed: 1e9, position: [0, 100, 0], rotation: [0, 0, 0, 1] });
+  await sleep(100);
+
+  const hits = [];
+  first.on('player-hit', (message) => hits.push(message));
+  first.send({ type: 'collision', otherId: second.playerId, position: [0, 100, -1] });
+  second.send({ type: 'collision', otherId: first.playerId, position: [0, 100, -2] });
+  await sleep(500);
+
+  const victims = hits.map((hit) => String(hit.victimId)).sort();
+  assert(
+    hits.length === 2 && victims.includes(String(first.playerId)) && victims.includes(String(second.playerId)),
+    `두 기체 모두 한 번씩 피해 (${hits.length}건)`
+  );
+  assert(hits.every((hit) => hit.damage > 0), `충돌 피해 ${hits[0]?.damage}`);
+  assert(hits.every((hit) => hit.damage < 100), `멈춰 있는 기체끼리는 보고 속력과 관계없이 격추되지 않음 (${hits[0]?.damage})`);
+
+  second.sendUpdate([0, 100, -900], [0, 0, 0, 1]);
+  await sleep(1300); // 같은 쌍의 충돌 간격이 지나도록
+  hits.length = 0;
+  first.send({ type: 'collision', otherId: second.playerId, position: [0, 100, 0] });
+  await sleep(500);
+  assert(hits.length === 0, '멀리 떨어진 기체와의 충돌 보고는 무시');
+
+  first.disconnect();
+  second.disconnect();
+  await sleep(500);
+  log('TEST', '공중 충돌 테스트 통과 ✓');
+};
+
+// 14) 유도 미사일 - 서버가 날려 근접 신관으로 명중 판정, 쿨다운 안의 재발사는 거부
+scenarios.missile = async () => {
+  console.log('\n=== 시나리오: 유도 미사일 ===\n');
+
+  const shooter = new TestClient('missile-shooter');
+  const target = new TestClient('missile-target');
+  await shooter.connect();
+  await target.connect();
+  await shooter.waitForLive();
+
+  // 목표는 -Z 600m, 지형보다 충분히 높게. 먼저 등을 돌린 채(+Z를 보며) 쏘면 락온 원뿔 밖이라 무유도로 날아간다
+  shooter.sendUpdate([0, 400, 0], [0, 1, 0, 0]);
+  target.sendUpdate([0, 400, -600], [0, 0, 0, 1]);
+  await sleep(LOCK_HOLD_MS);
+
+  const unguided = target.waitFor('missile-launched', 3000);
+  shooter.send({ type: 'missile-launch', origin: [0, 400, 2], direction: [0, 0, 1], targetId: target.playerId });
+  const away = await unguided;
+  assert(away.targetId === null, '서버 기준 락온 원뿔 밖의 목표로는 유도하지 않는다');
+
+  // 정면으로 돌아 락온 시간만큼 조준을 유지한다 (그동안 발사 간격도 지나간다)
+  shooter.sendUpdate([0, 400, 0], [0, 0, 0, 1]);
+  await sleep(Math.max(LOCK_HOLD_MS, MISSILE.cooldownMs));
+
+  const launched = target.waitFor('missile-launched', 3000);
+  shooter.send({ type: 'missile-launch', origin: [0, 400, -2], direction: [0, 0, -1], targetId: target.playerId });
+  const launch = await launched;
+  assert(
+    String(launch.ownerId) === String(shooter.playerId) && String(launch.targetId) === String(target.playerId),
+    `missile-launched 수신 (미사일 ${launch.missileId})`
+  );
+
+  let relaunched = false;
+  shooter.on('missile-launched', () => { relaunched = true; });
+  shooter.send({ type: 'missile-launch', origin: [0, 400, -2], direction: [0, 0, -1], targetId: target.playerId });
+
+  const hit = target.waitFor('player-hit', 5000);
+  const detonation = await shooter.waitFor('missile-detonated', 5000);
+  assert(
+    detonation.missileId === launch.missileId && detonation.reason === 'proximity' &&
+      String(detonation.victimId) === String(target.playerId),
+    `근접 신관 폭발 (${detonation.reason})`
+  );
+  const hitMessage = await hit;
+  assert(hitMessage.damage > 0 && String(hitMessage.attackerId) === String(shooter.playerId), `미사일 피해 ${hitMessage.damage}`);
+  assert(!relaunched, '쿨다운 안의 재발사는 거부');
+
+  shooter.disconnect();
+  target.disconnect();
+  await sleep(500);
+  log('TEST', '유도 미사일 테스트 통과 ✓');
+};
+
+// 15) 플레어 - 사출은 모두에게 보이고, 목숨당 6발, 쫓아오는 미사일은 확률로 속는다
+scenarios.flare = async () => {
+  console.log('\n=== 시나리오: 플레어 ===\n');
+
+  const shooter = new TestClient('flare-shooter');
+  const target = new TestClient('flare-target');
+  await shooter.connect();
+  await target.connect();
+  await shooter.waitForLive();
+
+  shooter.sendUpdate([0, 400, 0], [0, 0, 0, 1]);
+  target.sendUpdate([0, 400, -1200], [0, 0, 0, 1]);
+  await sleep(LOCK_HOLD_MS);
+
+  const launched = target.waitFor('missile-launched', 3000);
+  shooter.send({ type: 'missile-launch', origin: [0, 400, -2], direction: [0, 0, -1], targetId: target.playerId });
+  const launch = await launched;
+
+  const decoys = [];
+  const dispensed = [];
+  shooter.on('missile-decoyed', (message) => decoys.push(message));
+  shooter.on('flare-dispensed', (message) => dispensed.push(message));
+
+  // 미사일이 오는 동안 전부 사출 + 한 발 더 (간격 400ms)
+  for (let i = 0; i < 7; i++) {
+    target.send({ type: 'flare', position: [0, 400, -1200] });
+    await sleep(450);
+  }
+
+  assert(dispensed.length === 6, `사출 6발만 브로드캐스트 (${dispensed.length}건)`);
+  assert(
+    dispensed.every((flare) => String(flare.playerId) === String(target.playerId) && flare.velocity[1] < 0),
+    '플레어는 사출한 기체에서 아래로 떨어진다'
+  );
+  // 속는지는 확률(65%)이라 기록만 확인한다
+  assert(
+    decoys.every((decoy) => decoy.missileId === launch.missileId && dispensed.some((flare) => flare.flareId === decoy.flareId)),
+    `미사일 기만 ${decoys.length}건`
+  );
+
+  shooter.disconnect();
+  target.disconnect();
+  await sleep(500);
+  log('TEST', '플레어 테스트 통과 ✓');
+};
+
+// 16) 탄도 기관포 - 서버를 GUN_MODE=ballistic으로 띄워야 한다. 탄이 날아간 뒤에 맞고, 사거리 밖은 맞지 않는다
+scenarios.ballistic = async () => {
+  console.log('\n=== 시나리오: 탄도 기관포 ===\n');
+
+  const shooter = new TestClient('ballistic-shooter');
+  const target = new TestClient('ballistic-target');
+  const distant = new TestClient('ballistic-distant');
+  await shooter.connect();
+  await target.connect();
+  await distant.connect();
+  assert(shooter.capabilities.ballisticGun === true, 'welcome capabilities.ballisticGun (GUN_MODE=ballistic)');
+  await shooter.waitForLive();
+
+  // 정지한 목표 정면(-Z) 500m - 탄속 1000이면 약 0.5초 뒤에 맞는다
+  shooter.sendUpdate([0, 400, 0], [0, 0, 0, 1]);
+  target.sendUpdate([0, 400, -500], [0, 0, 0, 1]);
+  distant.sendUpdate([200, 400, -1300], [0, 0, 0, 1]);
+  await sleep(300);
+
+  const hit = target.waitFor('player-hit', 3000);
+  const firedAt = Date.now();
+  shooter.sendShot([0, 400, -2], [0, 0, -1]);
+  const hitMessage = await hit;
+  const travelMs = Date.now() - firedAt;
+  assert(String(hitMessage.attackerId) === String(shooter.playerId), `탄 명중 (거리 ${Math.round(hitMessage.distance)})`);
+  assert(travelMs >= 350, `비행 시간 뒤에 판정 (${travelMs}ms)`);
+
+  // 사거리(1000) 밖의 목표는 맞지 않는다
+  let farHit = false;
+  distant.on('player-hit', () => { farHit = true; });
+  shooter.sendShot([0, 400, -2], [200, 0, -1302]);
+  await sleep(1500);
+  assert(!farHit, '사거리 밖은 명중 없음');
+
+  shooter.disconnect();
+  target.disconnect();
+  distant.disconnect();
+  await sleep(500);
+  log('TEST', '탄도 기관포 테스트 통과 ✓');
+};
+
+// 17) 무장 정의 - 기체별 무장 목록, 무장마다 다른 피해/사거리, 무장별 재장전
+scenarios.weapons = async () => {
+  console.log('\n=== 시나리오: 무장 정의 ===\n');
+
+  const attacker = new TestClient('weapons-attacker');
+  const victim = new TestClient('weapons-victim');
+  await attacker.connect(SERVER_URL, null, { airframe: 'heavy', livery: 'crimson' });
+  await victim.connect();
+
+  const weaponIds = Object.keys(attacker.session.weapons ?? {});
+  assert(weaponIds.join(',') === 'heavy-cannon,machine-gun', `heavy 기체 무장 (${weaponIds.join(', ')})`);
+  await attacker.waitForLive();
+
+  attacker.sendUpdate([0, 10, 40], [0, 0, 0, 1]);
+  victim.sendUpdate([0, 10, 0], [0, 0, 0, 1]);
+  await sleep(300);
+
+  // 같은 거리에서도 무장마다 피해가 다르다 (weaponId 없이 보내면 주무장)
+  let hit = victim.waitFor('player-hit', 3000);
+  attacker.sendShot([0, 10, 40], [0, 0, -1]);
+  const heavyHit = await hit;
+  assert(heavyHit.damage === 18, `주무장(heavy-cannon) 피해 ${heavyHit.damage}`);
+
+  await sleep(250);
+  hit = victim.waitFor('player-hit', 3000);
+  attacker.sendShot([0, 10, 40], [0, 0, -1], null, 'machine-gun');
+  const gunHit = await hit;
+  assert(gunHit.damage === 4, `보조 무장(machine-gun) 피해 ${gunHit.damage}`);
+
+  // 기관총 사거리(600) 밖은 맞지 않는다
+  let farHit = false;
+  victim.on('player-hit', () => { farHit = true; });
+  attacker.sendUpdate([0, 10, 800], [0, 0, 0, 1]);
+  await sleep(300);
+  attacker.sendShot([0, 10, 800], [0, 0, -1], null, 'machine-gun');
+  await sleep(500);
+  assert(!farHit, '무장 사거리 밖은 명중 없음');
+
+  // 재장전은 요청한 무장만
+  const reload = attacker.waitFor('player-reload', 3000);
+  attacker.sendReload('heavy-cannon');
+  const reloadMessage = await reload;
+  assert(
+    reloadMessage.weaponId === 'heavy-cannon' && reloadMessage.reloadDuration === 3500,
+    `무장별 재장전 (${reloadMessage.weaponId}, ${reloadMessage.reloadDuration}ms)`
+  );
+  const complete = await attacker.waitFor('player-reload-complete', 5000);
+  assert(complete.weaponId === 'heavy-cannon' && complete.ammo === complete.maxAmmo, `재장전 완료 ${complete.ammo}/${complete.maxAmmo}`);
+
+  attacker.disconnect();
+  victim.disconnect();
+  await sleep(500);
+  log('TEST', '무장 정의 테스트 통과 ✓');
+};
+
+// 18) 기관총 과열 - 탄창 대신 열: 연사하면 잠기고 recoverAt까지 식어야 풀린다, 재장전은 거부
+scenarios.overheat = async () => {
+  console.log('\n=== 시나리오: 기관총 과열 ===\n');
+
+  const gunner = new TestClient('overheat-gunner');
+  const target = new TestClient('overheat-target');
+  await gunner.connect();
+  await target.connect(SERVER_URL, null, { airframe: 'heavy', livery: 'stock' });
+  assert(gunner.session.weapons['machine-gun'] === undefined, '벨트 급탄 무장은 welcome 탄약 목록에 없음');
+  await gunner.waitForLive();
+
+  gunner.sendUpdate([0, 10, 40], [0, 0, 0, 1]);
+  target.sendUpdate([0, 10, 0], [0, 0, 0, 1]);
+  await sleep(300);
+
+  let hits = 0;
+  target.on('player-hit', () => { hits++; });
+
+  // 허공에 연사해 열을 올린다 - 서버는 1.1까지 여유를 둬도 40ms 간격이면 약 48발에 과열되고,
+  // 남은 발은 거부되는 동안 열이 식는다 (100발이면 마지막 발이 잠금 2.5초 안에 들어온다)
+  for (let i = 0; i < 100; i++) {
+    gunner.sendShot([0, 10, 40], [0, 1, 0], null, 'machine-gun');
+    await sleep(40);
+  }
+  gunner.sendShot([0, 10, 40], [0, 0, -1], null, 'machine-gun');
+  await sleep(300);
+  assert(hits === 0, '과열된 기관총은 명중 판정 없음');
+
+  let reloadStarted = false;
+  gunner.on('player-reload', () => { reloadStarted = true; });
+  gunner.sendReload('machine-gun');
+  await sleep(300);
+  assert(!reloadStarted, '벨트 급탄 무장은 재장전 거부');
+
+  // 1 → 0.25까지 0.3/s - 2.5초 뒤 다시 쏠 수 있다
+  await sleep(2600);
+  gunner.sendShot([0, 10, 40], [0, 0, -1], null, 'machine-gun');
+  await sleep(300);
+  assert(hits === 1, '식은 뒤 다시 명중');
+
+  gunner.disconnect();
+  target.disconnect();
+  await sleep(500);
+  log('TEST', '기관총 과열 테스트 통과 ✓');
+};
+
+// 19) 전체 게임 라이프사이클
 scenarios.full = async () => {
   console.log('\n=== 시나리오: 전체 게임 라이프사이클 ===\n');
 
@@ -542,10 +1124,14 @@ scenarios.full = async () => {
 
   // Phase 3: 전투
   log('PHASE', '3/5 - 전투');
+  await player1.waitForLive();
   let combatHit = false;
   player2.on('player-hit', () => { combatHit = true; });
 
-  player1.sendHit(player2.playerId, 20, [10, 15, 5], 25);
+  player1.sendUpdate([10, 15, 5], [0, 0, 0, 1]);
+  player2.sendUpdate([10, 15, -25], [0, 0, 0, 1]);
+  await sleep(300);
+  player1.sendShot([10, 15, 5], [0, 0, -1]);
   await sleep(300);
   assert(combatHit, '전투 히트 이벤트 확인');
 
@@ -556,8 +1142,8 @@ scenarios.full = async () => {
 
   // 탄약 소모를 위한 추가 공격
   for (let i = 0; i < 5; i++) {
-    player1.sendHit(player2.playerId, 5, [10, 15, 5], 25);
-    await sleep(550);
+    player1.sendShot([10, 15, 5], [0, 1, 0]);
+    await sleep(150);
   }
   player1.sendReload();
   await sleep(4000);
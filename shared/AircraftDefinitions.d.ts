@@ -0,0 +1,44 @@
+// shared/AircraftDefinitions.js의 타입 (클라이언트 TypeScript용)
+import type { WeaponId } from './WeaponDefinitions.js';
+
+export type AircraftTypeId = 'interceptor' | 'fighter' | 'heavy';
+
+/** 'jet' = Jet.glb, 'stylized' = PlaneFactory 절차 생성 모델 */
+export type AircraftModelAsset = 'jet' | 'stylized';
+
+export interface AircraftDefinition {
+  readonly id: AircraftTypeId;
+  readonly name: string;
+  readonly role: string;
+  readonly model: { readonly asset: AircraftModelAsset; readonly scale: number };
+  /** 질량 (t) - 추력/질량이 가속도 (units/s²) */
+  readonly mass: number;
+  /** 최대 추력 (t·units/s²) */
+  readonly thrust: number;
+  /** S를 누르는 동안 에어브레이크 감속 (units/s²) */
+  readonly brake: number;
+  /** 최대 추력 수평 비행의 최고 속력 (units/s) - 항력 계수가 여기서 정해진다 */
+  readonly maxSpeed: number;
+  /** 이보다 느리면 실속 (units/s) - 양력 계수가 여기서 정해진다 */
+  readonly stallSpeed: number;
+  /** 피치/요 선회율 (rad/s) */
+  readonly turnRate: number;
+  /** 최대 롤 속도 (rad/s) */
+  readonly rollRate: number;
+  /** 목표 자세를 따라가는 비율 (60fps 프레임당 lerp, 느리면 줄어든다) */
+  readonly response: number;
+  /** 공중 충돌 판정 구 반지름 (units) - 모델 크기 기준 */
+  readonly collisionRadius: number;
+  readonly health: number;
+  /** 장착 무장 - 첫 번째가 주무장, Q로 순환 */
+  readonly weapons: readonly WeaponId[];
+}
+
+export const AIRCRAFT_DEFINITIONS: readonly AircraftDefinition[];
+export const AIRCRAFT_IDS: readonly AircraftTypeId[];
+export const DEFAULT_AIRCRAFT_TYPE: AircraftTypeId;
+
+export function isAircraftTypeId(value: unknown): value is AircraftTypeId;
+
+/** 알 수 없는 id는 기본 기체(fighter)로 */
+export function getAircraftDefinition(id: string | null | undefined): AircraftDefinition;
@@ -0,0 +1,74 @@
+// shared/AircraftDefinitions.js
+
+/**
+ * 기체 정의 - 클라이언트(client/components/aircraft/AircraftDefinitions.ts)와 서버(server/game/AircraftTypes.js)가
+ * 이 표 하나를 함께 읽는다. 격납고에서 고르고, 클라이언트는 비행 물리/선회율/무장/체력 HUD에,
+ * 서버는 이동 검증(최대 속력)과 전투 판정(체력/무장/충돌 반지름)에 쓴다.
+ * weapons는 WeaponDefinitions.js의 id (첫 번째가 주무장).
+ */
+export const AIRCRAFT_DEFINITIONS = Object.freeze([
+  Object.freeze({
+    id: 'interceptor',
+    name: 'DELTA-7',
+    role: '요격기 · 빠르고 가볍지만 장갑이 얇다',
+    model: Object.freeze({ asset: 'stylized', scale: 0.9 }),
+    mass: 9,
+    thrust: 7200,
+    brake: 220,
+    maxSpeed: 620,
+    stallSpeed: 150,
+    turnRate: 1.5,
+    rollRate: 4.2,
+    response: 0.55,
+    collisionRadius: 2.2,
+    health: 70,
+    weapons: Object.freeze(['light-cannon', 'machine-gun'])
+  }),
+  Object.freeze({
+    id: 'fighter',
+    name: 'F-X STRIKE',
+    role: '전투기 · 속도와 선회의 균형',
+    model: Object.freeze({ asset: 'jet', scale: 1 }),
+    mass: 12,
+    thrust: 7200,
+    brake: 180,
+    maxSpeed: 500,
+    stallSpeed: 120,
+    turnRate: 1.8,
+    rollRate: 3.6,
+    response: 0.5,
+    collisionRadius: 2.4,
+    health: 100,
+    weapons: Object.freeze(['cannon', 'machine-gun'])
+  }),
+  Object.freeze({
+    id: 'heavy',
+    name: 'HX-9 BASTION',
+    role: '중전투기 · 느리지만 튼튼하고 화력이 강하다',
+    model: Object.freeze({ asset: 'jet', scale: 1.35 }),
+    mass: 20,
+    thrust: 8000,
+    brake: 120,
+    maxSpeed: 380,
+    stallSpeed: 115,
+    turnRate: 1.2,
+    rollRate: 2.4,
+    response: 0.35,
+    collisionRadius: 3.2,
+    health: 160,
+    weapons: Object.freeze(['heavy-cannon', 'machine-gun'])
+  })
+]);
+
+export const AIRCRAFT_IDS = Object.freeze(AIRCRAFT_DEFINITIONS.map((definition) => definition.id));
+export const DEFAULT_AIRCRAFT_TYPE = 'fighter';
+
+export function isAircraftTypeId(value) {
+  return AIRCRAFT_IDS.includes(value);
+}
+
+/** 알 수 없는 id는 기본 기체(fighter)로 */
+export function getAircraftDefinition(id) {
+  return AIRCRAFT_DEFINITIONS.find((definition) => definition.id === id)
+    ?? AIRCRAFT_DEFINITIONS.find((definition) => definition.id === DEFAULT_AIRCRAFT_TYPE);
+}
@@ -0,0 +1,34 @@
+// shared/Countermeasures.js의 타입 (클라이언트 TypeScript용)
+
+export const FLARE: {
+  readonly count: number;
+  readonly cooldownMs: number;
+  readonly inheritVelocity: number;
+  readonly ejectSpeed: number;
+  readonly drag: number;
+  readonly gravity: number;
+  readonly burnSeconds: number;
+};
+
+export const FLARE_SEEKER: {
+  readonly cone: number;
+  readonly range: number;
+  readonly decoyChance: number;
+};
+
+/** 비행 상태 - 벡터는 [x, y, z] */
+export interface FlareFlightState {
+  position: number[];
+  velocity: number[];
+  /** 사출 후 경과 시간 (s) */
+  age: number;
+}
+
+export function launchFlare(origin: readonly number[], launcherVelocity: readonly number[]): FlareFlightState;
+export function stepFlare(state: FlareFlightState, deltaTime: number): void;
+export function isFlareBurnedOut(state: Pick<FlareFlightState, 'age'>): boolean;
+export function isInSeekerCone(
+  missilePosition: readonly number[],
+  missileVelocity: readonly number[],
+  flarePosition: readonly number[]
+): boolean;
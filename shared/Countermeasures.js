@@ -0,0 +1,67 @@
+// shared/Countermeasures.js
+import { dot, length, subtract } from './VectorMath.js';
+
+/**
+ * 플레어: 기체에서 떨어져 나가며 쫓아오는 미사일의 탐색기를 끌어당기는 기만체.
+ * 서버(server/game/MissileSystem.js)가 이 모델로 플레어를 떨어뜨리고 탐색기 원뿔에 보이는 미사일마다
+ * 속는지 정한다 - 클라이언트(client/components/weapons/Countermeasures.ts)는 같은 함수로 그리기만 한다.
+ * 벡터는 [x, y, z] 배열.
+ */
+export const FLARE = Object.freeze({
+  /** 목숨당 플레어 수 (리스폰하면 다시 채운다) */
+  count: 6,
+  /** 사출 간격 (ms) */
+  cooldownMs: 400,
+  /** 기체 속도 중 플레어가 물려받는 비율 */
+  inheritVelocity: 0.5,
+  /** 아래로 사출되는 속력 (units/s) */
+  ejectSpeed: 40,
+  /** 공기 저항 (1/s)과 중력 (units/s²) */
+  drag: 1.2,
+  gravity: 30,
+  /** 연소 시간 (s) - 이후에는 미사일을 끌어당기지 못한다 */
+  burnSeconds: 3
+});
+
+/** 미사일 탐색기가 플레어를 보는 조건 - 원뿔 안, 거리 안이면 decoyChance로 속는다 */
+export const FLARE_SEEKER = Object.freeze({
+  /** 탐색기 원뿔 반각 (rad, 약 30°) */
+  cone: 0.52,
+  range: 1500,
+  decoyChance: 0.65
+});
+
+/** 사출 상태: 기체 속도의 일부 + 아래로 ejectSpeed */
+export function launchFlare(origin, launcherVelocity) {
+  const velocity = launcherVelocity.map((component) => component * FLARE.inheritVelocity);
+  velocity[1] -= FLARE.ejectSpeed;
+  return { position: [...origin], velocity, age: 0 };
+}
+
+export function stepFlare(state, deltaTime) {
+  const damping = Math.max(0, 1 - FLARE.drag * deltaTime);
+  state.velocity = state.velocity.map((component) => component * damping);
+  state.velocity[1] -= FLARE.gravity * deltaTime;
+  state.position = state.position.map((component, i) => component + state.velocity[i] * deltaTime);
+  state.age += deltaTime;
+}
+
+export function isFlareBurnedOut(state) {
+  return state.age >= FLARE.burnSeconds;
+}
+
+/** 미사일 탐색기(진행 방향 원뿔) 안에 플레어가 보이는가 */
+export function isInSeekerCone(missilePosition, missileVelocity, flarePosition) {
+  const toFlare = subtract(flarePosition, missilePosition);
+  const distance = length(toFlare);
+  const speed = length(missileVelocity);
+  if (distance > FLARE_SEEKER.range || speed < 1e-6) {
+    return false;
+  }
+  if (distance < 1e-6) {
+    return true;
+  }
+
+  const cosine = dot(toFlare, missileVelocity) / (distance * speed);
+  return Math.acos(Math.min(1, Math.max(-1, cosine))) <= FLARE_SEEKER.cone;
+}
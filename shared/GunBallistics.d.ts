@@ -0,0 +1,33 @@
+// shared/GunBallistics.js의 타입 (클라이언트 TypeScript용)
+
+export const GUN_BALLISTICS: {
+  readonly muzzleSpeed: number;
+  readonly lifeSeconds: number;
+  readonly hitRadius: number;
+};
+
+/** 비행 상태 - 벡터는 [x, y, z] */
+export interface RoundFlightState {
+  position: number[];
+  velocity: number[];
+  /** 발사 후 경과 시간 (s) */
+  age: number;
+  /** 수명 (s) - 무장 사거리 / muzzleSpeed */
+  life: number;
+}
+
+export function launchRound(
+  origin: readonly number[],
+  direction: readonly number[],
+  shooterVelocity: readonly number[],
+  range?: number
+): RoundFlightState;
+export function stepRound(state: RoundFlightState, deltaTime: number): void;
+export function isRoundSpent(state: Pick<RoundFlightState, 'age' | 'life'>): boolean;
+export function sweepRound(
+  start: readonly number[],
+  end: readonly number[],
+  targetStart: readonly number[],
+  targetEnd: readonly number[],
+  radius?: number
+): number | null;
@@ -0,0 +1,66 @@
+// shared/GunBallistics.js
+import { dot, length, subtract } from './VectorMath.js';
+
+/**
+ * 탄도 기관포: 즉시 판정하는 레이 대신 비행 시간이 있는 직선 탄 (중력/저항 없음).
+ * GUN_MODE=ballistic이면 서버(server/game/CombatSystem.js)가 지연 보상 이력에 대고 이 모델로 탄을 날려
+ * 명중을 정하고, 클라이언트(client/components/weapons/GunBallistics.ts)는 같은 함수로 예광탄을 그린다.
+ * 벡터는 [x, y, z] 배열.
+ */
+export const GUN_BALLISTICS = Object.freeze({
+  /** 총구 속력 (units/s) - 여기에 쏜 기체의 속도가 더해진다 */
+  muzzleSpeed: 1000,
+  /** 기본 탄 수명 (s) - 무장 사거리가 주어지면 range / muzzleSpeed를 쓴다 */
+  lifeSeconds: 1,
+  /** 판정 구 반지름 (units) - LagCompensation.hitRadius와 같다 */
+  hitRadius: 4
+});
+
+/** 발사 상태: 조준 방향으로 muzzleSpeed + 쏜 기체의 속도, 수명은 무장 사거리 / muzzleSpeed */
+export function launchRound(origin, direction, shooterVelocity, range = GUN_BALLISTICS.muzzleSpeed * GUN_BALLISTICS.lifeSeconds) {
+  const speed = GUN_BALLISTICS.muzzleSpeed / (length(direction) || 1);
+  return {
+    position: [...origin],
+    velocity: direction.map((component, i) => component * speed + shooterVelocity[i]),
+    age: 0,
+    life: range / GUN_BALLISTICS.muzzleSpeed
+  };
+}
+
+export function stepRound(state, deltaTime) {
+  state.position = state.position.map((component, i) => component + state.velocity[i] * deltaTime);
+  state.age += deltaTime;
+}
+
+export function isRoundSpent(state) {
+  return state.age >= state.life;
+}
+
+/**
+ * 이번 스텝에 탄(start → end)이 목표 구(targetStart → targetEnd)에 처음 닿는 비율 (0..1).
+ * 한 스텝에 17 units 가까이 날아가므로 끝 위치만 보면 기체를 뚫고 지나간다 - 상대 운동으로 쓸어 본다.
+ * 처음부터 겹쳐 있으면 0, 닿지 않으면 null.
+ */
+export function sweepRound(start, end, targetStart, targetEnd, radius = GUN_BALLISTICS.hitRadius) {
+  const offset = subtract(start, targetStart);
+  const motion = subtract(subtract(end, start), subtract(targetEnd, targetStart));
+
+  const c = dot(offset, offset) - radius * radius;
+  if (c <= 0) {
+    return 0;
+  }
+
+  const a = dot(motion, motion);
+  if (a < 1e-9) {
+    return null;
+  }
+
+  const b = 2 * dot(offset, motion);
+  const discriminant = b * b - 4 * a * c;
+  if (b >= 0 || discriminant < 0) {
+    return null;
+  }
+
+  const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return time <= 1 ? time : null;
+}
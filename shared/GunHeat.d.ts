@@ -0,0 +1,18 @@
+// shared/GunHeat.js의 타입 (클라이언트 TypeScript용)
+import type { HeatFeed } from './WeaponDefinitions.js';
+
+export interface HeatState {
+  /** 0..1 (서버는 margin만큼 넘을 수 있다) */
+  heat: number;
+  /** 마지막으로 열을 계산한 시각 (ms) */
+  updatedAt: number;
+  overheated: boolean;
+}
+
+export function createHeatState(): HeatState;
+
+/** now까지 식힌다 (제자리 수정). 과열 중이면 recoverAt 아래로 내려온 순간 풀린다 */
+export function coolHeat(state: HeatState, feed: HeatFeed, now: number): HeatState;
+
+/** 한 발의 열을 더한다 - 1 + margin에 닿으면 과열 (열은 1로 맞춘다) */
+export function addShotHeat(state: HeatState, feed: HeatFeed, now: number, margin?: number): void;
@@ -0,0 +1,36 @@
+// shared/GunHeat.js
+
+/**
+ * 기관총 과열 모델 - 벨트 급탄 무장(feed.kind === 'heat')은 탄창 대신 열로 제한한다.
+ * 한 발마다 열이 오르고 계속 식으며, 1에 닿으면 recoverAt까지 식을 때까지 잠긴다.
+ * 클라이언트(client/components/weapons/GunHeat.ts)는 발사를 막고 게이지를 그리며,
+ * 서버(server/game/CombatSystem.js)는 자기 시계로 같은 열을 계산해 과열된 무장의 shot을 거부한다.
+ * 숫자는 shared/WeaponDefinitions.js의 feed에 있다.
+ */
+export function createHeatState() {
+  return { heat: 0, updatedAt: 0, overheated: false };
+}
+
+/** now까지 식힌다 (제자리 수정). 과열 중이면 recoverAt 아래로 내려온 순간 풀린다 */
+export function coolHeat(state, feed, now) {
+  const elapsed = Math.max(0, now - state.updatedAt) / 1000;
+  state.heat = Math.max(0, state.heat - feed.coolPerSecond * elapsed);
+  state.updatedAt = now;
+  if (state.overheated && state.heat <= feed.recoverAt) {
+    state.overheated = false;
+  }
+  return state;
+}
+
+/**
+ * 한 발의 열을 더한다 - 1 + margin에 닿으면 과열.
+ * 서버는 도착 간격 흔들림만큼 margin을 두고, 과열되면 열을 1로 맞춰 클라이언트와 같은 시간 동안 잠근다.
+ */
+export function addShotHeat(state, feed, now, margin = 0) {
+  coolHeat(state, feed, now);
+  state.heat += feed.perShot;
+  if (state.heat >= 1 + margin) {
+    state.heat = 1;
+    state.overheated = true;
+  }
+}
@@ -0,0 +1,54 @@
+// shared/MissileGuidance.js의 타입 (클라이언트 TypeScript용)
+
+export const MISSILE: {
+  readonly count: number;
+  readonly cooldownMs: number;
+  readonly damage: number;
+  readonly launchBoost: number;
+  readonly maxSpeed: number;
+  readonly motorAccel: number;
+  readonly burnSeconds: number;
+  readonly coastDecel: number;
+  readonly navigationGain: number;
+  readonly maxTurnAccel: number;
+  readonly minSpeed: number;
+  readonly maxLifetime: number;
+  readonly armSeconds: number;
+  readonly fuseRadius: number;
+};
+
+export const MISSILE_LOCK: {
+  readonly range: number;
+  readonly cone: number;
+  readonly lockSeconds: number;
+};
+
+/** 비행 상태 - 벡터는 [x, y, z] */
+export interface MissileFlightState {
+  position: number[];
+  velocity: number[];
+  /** 발사 후 경과 시간 (s) */
+  age: number;
+}
+
+export interface MissileGuidanceTarget {
+  position: readonly number[];
+  velocity: readonly number[];
+}
+
+export function launchMissile(origin: readonly number[], direction: readonly number[], launcherSpeed: number): MissileFlightState;
+export function stepMissile(state: MissileFlightState, target: MissileGuidanceTarget | null, deltaTime: number): void;
+export function isMissileSpent(state: Pick<MissileFlightState, 'velocity' | 'age'>): boolean;
+export function closestApproach(
+  missileStart: readonly number[],
+  missileEnd: readonly number[],
+  targetStart: readonly number[],
+  targetEnd: readonly number[]
+): number;
+/** rotation은 쿼터니언 [x, y, z, w] */
+export function isInLockCone(
+  position: readonly number[],
+  rotation: readonly number[],
+  targetPosition: readonly number[],
+  tolerance?: number
+): boolean;
@@ -0,0 +1,124 @@
+// shared/MissileGuidance.js
+import { cross, dot, length, scale, subtract } from './VectorMath.js';
+
+/**
+ * 유도 미사일 비행 모델: 연소 시간이 정해진 로켓 모터로 가속한 뒤 활공하고, 비례 항법으로 락온 목표를 쫓는다.
+ * 서버(server/game/MissileSystem.js)가 이 모델로 미사일을 날려 근접 신관 명중과 락온을 판정하고,
+ * 클라이언트(client/components/weapons/MissileGuidance.ts)는 같은 함수로 그리기만 한다. 벡터는 [x, y, z] 배열.
+ */
+export const MISSILE = Object.freeze({
+  /** 기체당 탑재 수 (리스폰하면 다시 채운다) */
+  count: 4,
+  /** 발사 간격 (ms) */
+  cooldownMs: 1500,
+  damage: 50,
+  /** 발사 순간 기체 속력에 더해지는 속력 (units/s) */
+  launchBoost: 80,
+  maxSpeed: 900,
+  /** 모터 가속 (units/s²)과 연소 시간 (s) - 연료가 떨어지면 활공하며 느려진다 */
+  motorAccel: 500,
+  burnSeconds: 4,
+  coastDecel: 120,
+  /** 비례 항법 상수 N */
+  navigationGain: 4,
+  /** 최대 선회 가속 (units/s²) */
+  maxTurnAccel: 1500,
+  /** 활공 중 이보다 느려지거나 수명이 다하면 자폭 */
+  minSpeed: 250,
+  maxLifetime: 10,
+  /** 발사 직후 이 시간 동안은 신관이 작동하지 않는다 (s) */
+  armSeconds: 0.25,
+  /** 근접 신관 반경 (units) */
+  fuseRadius: 15
+});
+
+/** 락온 조건 - 기수 방향 원뿔 안, 사거리 안의 기체에 lockSeconds 동안 조준을 유지 (서버도 같은 조건으로 검증) */
+export const MISSILE_LOCK = Object.freeze({
+  range: 1800,
+  /** 원뿔 반각 (rad, 약 12°) */
+  cone: 0.21,
+  lockSeconds: 1.2
+});
+
+/** 발사 상태: 기수 방향으로 기체 속력 + launchBoost */
+export function launchMissile(origin, direction, launcherSpeed) {
+  const speed = Math.max(0, launcherSpeed) + MISSILE.launchBoost;
+  return {
+    position: [...origin],
+    velocity: scale(direction, speed / (length(direction) || 1)),
+    age: 0
+  };
+}
+
+/**
+ * 한 스텝 비행. 연소 중에는 maxSpeed까지 가속, 이후 감속한다.
+ * 목표가 있으면 비례 항법 a = N · (Ω × V), Ω = (R × Vr) / |R|² 로 방향을 튼다 (maxTurnAccel로 제한).
+ * @param target { position, velocity } 또는 null (직진)
+ */
+export function stepMissile(state, target, deltaTime) {
+  let speed = length(state.velocity);
+  let direction = speed > 1e-6 ? scale(state.velocity, 1 / speed) : [0, 0, -1];
+
+  speed = state.age < MISSILE.burnSeconds
+    ? Math.min(MISSILE.maxSpeed, speed + MISSILE.motorAccel * deltaTime)
+    : Math.max(0, speed - MISSILE.coastDecel * deltaTime);
+
+  if (target && speed > 1e-6) {
+    const range = subtract(target.position, state.position);
+    const rangeSq = dot(range, range);
+    if (rangeSq > 1) {
+      const closing = subtract(target.velocity, state.velocity);
+      const omega = scale(cross(range, closing), 1 / rangeSq);
+      let accel = scale(cross(omega, state.velocity), MISSILE.navigationGain);
+      const accelLength = length(accel);
+      if (accelLength > MISSILE.maxTurnAccel) {
+        accel = scale(accel, MISSILE.maxTurnAccel / accelLength);
+      }
+      direction = direction.map((component, i) => component + accel[i] * deltaTime / speed);
+      direction = scale(direction, 1 / (length(direction) || 1));
+    }
+  }
+
+  state.velocity = scale(direction, speed);
+  state.position = state.position.map((component, i) => component + state.velocity[i] * deltaTime);
+  state.age += deltaTime;
+}
+
+/** 연료를 다 쓰고 너무 느려졌거나 수명이 다했다 */
+export function isMissileSpent(state) {
+  return state.age >= MISSILE.maxLifetime ||
+    (state.age >= MISSILE.burnSeconds && length(state.velocity) < MISSILE.minSpeed);
+}
+
+/**
+ * 한 스텝 동안(미사일 start→end, 기체 start→end) 둘 사이의 최소 거리.
+ * 미사일이 한 스텝에 15 units 넘게 움직이므로 끝 위치만 보면 신관이 스쳐 지나간다.
+ */
+export function closestApproach(missileStart, missileEnd, targetStart, targetEnd) {
+  const offset = subtract(missileStart, targetStart);
+  const motion = subtract(subtract(missileEnd, missileStart), subtract(targetEnd, targetStart));
+  const motionSq = dot(motion, motion);
+  const time = motionSq > 1e-9 ? Math.min(1, Math.max(0, -dot(offset, motion) / motionSq)) : 0;
+  return length(offset.map((component, i) => component + motion[i] * time));
+}
+
+/**
+ * 기체(위치, 회전 쿼터니언 [x, y, z, w])의 기수 방향 락온 원뿔과 사거리 안에 목표가 있는가.
+ * tolerance는 서버 위치가 클라이언트 화면(보간 지연)과 어긋나는 만큼 원뿔과 사거리를 넓히는 배수.
+ */
+export function isInLockCone(position, rotation, targetPosition, tolerance = 1) {
+  const toTarget = subtract(targetPosition, position);
+  const distance = length(toTarget);
+  if (distance < 1e-6 || distance > MISSILE_LOCK.range * tolerance) {
+    return false;
+  }
+
+  const cosine = dot(forwardOf(rotation), toTarget) / distance;
+  return Math.acos(Math.min(1, Math.max(-1, cosine))) <= MISSILE_LOCK.cone * tolerance;
+}
+
+/** 회전 쿼터니언으로 돌린 기수 방향(-Z) */
+function forwardOf(rotation) {
+  const [x, y, z, w] = rotation;
+  return [-2 * (x * z + w * y), -2 * (y * z - w * x), -(1 - 2 * (x * x + y * y))];
+}
@@ -0,0 +1,8 @@
+// shared/TerrainHeightmap.js의 타입 (클라이언트 TypeScript용)
+
+export class TerrainHeightmap {
+  readonly seed: number;
+  constructor(seed: number);
+  /** 월드 좌표 (x, z)의 지면 높이 (units, 0 이상) */
+  heightAt(x: number, z: number): number;
+}
@@ -0,0 +1,73 @@
+// shared/TerrainHeightmap.js
+
+/**
+ * 시드로 만드는 절차 지형 높이맵 - 클라이언트(client/components/environment/TerrainHeightmap.ts)와
+ * 서버(server/game/Terrain.js)가 이 구현 하나를 함께 쓴다.
+ * 같은 시드면 같은 높이가 나와야 서버가 추락 보고를 검증할 수 있으므로 정수 해시(Math.imul)와 단순한 실수 연산만 쓴다.
+ * 시드는 서버가 매치마다 뽑아 welcome의 terrain.seed로 알린다.
+ */
+
+/** 가장 큰 지형 굴곡의 크기 (units) */
+const BASE_CELL = 420;
+const OCTAVES = 4;
+/** 봉우리 최고 높이 (units) */
+const MAX_HEIGHT = 280;
+/** 높이 분포를 골짜기 쪽으로 - 넓은 평지와 솟은 산 */
+const RIDGE_EXPONENT = 1.8;
+/** 리스폰 지점 (0, 0) 주변은 평지 - 이 반경 밖에서부터 서서히 솟는다 */
+const SPAWN_FLAT_RADIUS = 200;
+const SPAWN_BLEND = 400;
+
+/** (ix, iz, seed) → 0..1 */
+function hash(ix, iz, seed) {
+  let h = Math.imul(ix, 374761393) ^ Math.imul(iz, 668265263) ^ Math.imul(seed, 1274126177);
+  h = Math.imul(h ^ (h >>> 13), 1103515245);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+function smooth(t) {
+  return t * t * (3 - 2 * t);
+}
+
+/** 격자점 값 보간 노이즈 (0..1) */
+function valueNoise(x, z, seed) {
+  const ix = Math.floor(x);
+  const iz = Math.floor(z);
+  const fx = smooth(x - ix);
+  const fz = smooth(z - iz);
+
+  const a = hash(ix, iz, seed);
+  const b = hash(ix + 1, iz, seed);
+  const c = hash(ix, iz + 1, seed);
+  const d = hash(ix + 1, iz + 1, seed);
+
+  const top = a + (b - a) * fx;
+  const bottom = c + (d - c) * fx;
+  return top + (bottom - top) * fz;
+}
+
+export class TerrainHeightmap {
+  constructor(seed) {
+    this.seed = seed | 0;
+  }
+
+  /** 월드 좌표 (x, z)의 지면 높이 (units, 0 이상) */
+  heightAt(x, z) {
+    let amplitude = 1;
+    let frequency = 1 / BASE_CELL;
+    let sum = 0;
+    let norm = 0;
+
+    for (let octave = 0; octave < OCTAVES; octave++) {
+      sum += valueNoise(x * frequency, z * frequency, this.seed + octave * 7919) * amplitude;
+      norm += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+
+    const distance = Math.sqrt(x * x + z * z);
+    const spawnBlend = Math.min(1, Math.max(0, (distance - SPAWN_FLAT_RADIUS) / SPAWN_BLEND));
+    return Math.pow(sum / norm, RIDGE_EXPONENT) * MAX_HEIGHT * smooth(spawnBlend);
+  }
+}
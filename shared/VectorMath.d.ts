@@ -0,0 +1,7 @@
+// shared/VectorMath.js의 타입 (클라이언트 TypeScript용)
+
+export function subtract(a: readonly number[], b: readonly number[]): number[];
+export function scale(a: readonly number[], s: number): number[];
+export function dot(a: readonly number[], b: readonly number[]): number;
+export function cross(a: readonly number[], b: readonly number[]): number[];
+export function length(a: readonly number[]): number;
@@ -0,0 +1,22 @@
+// shared/VectorMath.js
+
+/** shared/ 비행 모델이 쓰는 [x, y, z] 배열 벡터 연산 (클라이언트는 THREE.Vector3에서 toArray로 넘긴다) */
+export function subtract(a, b) {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function scale(a, s) {
+  return [a[0] * s, a[1] * s, a[2] * s];
+}
+
+export function dot(a, b) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function cross(a, b) {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+export function length(a) {
+  return Math.hypot(a[0], a[1], a[2]);
+}
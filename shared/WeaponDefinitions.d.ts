@@ -0,0 +1,57 @@
+// shared/WeaponDefinitions.js의 타입 (클라이언트 TypeScript용)
+
+export type WeaponId = 'light-cannon' | 'cannon' | 'heavy-cannon' | 'machine-gun';
+
+export interface WeaponFalloff {
+  /** 이 거리까지는 피해 그대로 (units) */
+  readonly start: number;
+  /** 이 거리에서 minScale까지 줄어든다 (units) */
+  readonly end: number;
+  readonly minScale: number;
+}
+
+/** 탄창식 - 다 쏘면 R로 재장전 */
+export interface MagazineFeed {
+  readonly kind: 'magazine';
+  /** 탄창 (발) */
+  readonly magazine: number;
+  readonly reloadMs: number;
+}
+
+/** 벨트 급탄 - 탄약 제한 없이 과열로 제한 (GunHeat) */
+export interface HeatFeed {
+  readonly kind: 'heat';
+  /** 한 발에 오르는 열 (0..1, 1이면 과열) */
+  readonly perShot: number;
+  /** 초당 식는 양 */
+  readonly coolPerSecond: number;
+  /** 과열되면 이 값까지 식어야 다시 쏠 수 있다 */
+  readonly recoverAt: number;
+}
+
+export type WeaponFeed = MagazineFeed | HeatFeed;
+
+export interface WeaponDefinition {
+  readonly id: WeaponId;
+  /** HUD/격납고 표시 이름 */
+  readonly name: string;
+  /** 연사 간격 (ms) */
+  readonly cooldownMs: number;
+  /** 한 발 피해량 (서버가 판정) */
+  readonly damage: number;
+  readonly falloff: WeaponFalloff;
+  /** 산포 - 조준 방향에서 벗어나는 최대 각 (rad) */
+  readonly spread: number;
+  readonly feed: WeaponFeed;
+  /** 사거리 (units) - 히트스캔 레이 길이, 탄도 모드에서는 탄 수명 × 탄속 */
+  readonly range: number;
+}
+
+export const WEAPON_DEFINITIONS: readonly WeaponDefinition[];
+export const WEAPON_IDS: readonly WeaponId[];
+
+/** 알 수 없는 id는 기본 무장(cannon)으로 */
+export function getWeaponDefinition(id: string | null | undefined): WeaponDefinition;
+
+/** 거리별 피해 - falloff.start까지 그대로, end까지 minScale로 선형 감소, 그 뒤로는 minScale */
+export function damageAtDistance(weapon: WeaponDefinition, distance: number): number;
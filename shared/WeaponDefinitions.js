@@ -0,0 +1,68 @@
+// shared/WeaponDefinitions.js
+
+/**
+ * 기관총/기관포 정의 - 클라이언트(client/components/weapons/WeaponDefinitions.ts)와
+ * 서버(server/game/WeaponTypes.js)가 이 표 하나를 함께 읽는다.
+ * 클라이언트는 연사/탄창/과열/산포를 돌리고 HUD에 보여 주고, 서버는 같은 값으로 연사 간격·탄창·재장전·과열을
+ * 검증하고 사거리/거리별 피해를 판정한다. 산포는 클라이언트가 조준 방향에 적용해 보내므로 서버는 쓰지 않는다.
+ * 기체별 장착 무장은 AircraftDefinitions.js의 weapons (첫 번째가 주무장).
+ */
+export const WEAPON_DEFINITIONS = Object.freeze([
+  Object.freeze({
+    id: 'light-cannon',
+    name: 'GSh-23 23MM',
+    cooldownMs: 80,
+    damage: 8,
+    falloff: Object.freeze({ start: 300, end: 900, minScale: 0.4 }),
+    spread: 0.006,
+    feed: Object.freeze({ kind: 'magazine', magazine: 120, reloadMs: 2500 }),
+    range: 900
+  }),
+  Object.freeze({
+    id: 'cannon',
+    name: 'M61 20MM',
+    cooldownMs: 100,
+    damage: 10,
+    falloff: Object.freeze({ start: 400, end: 1000, minScale: 0.5 }),
+    spread: 0.004,
+    feed: Object.freeze({ kind: 'magazine', magazine: 100, reloadMs: 3000 }),
+    range: 1000
+  }),
+  Object.freeze({
+    id: 'heavy-cannon',
+    name: 'GAU-8 30MM',
+    cooldownMs: 180,
+    damage: 18,
+    falloff: Object.freeze({ start: 500, end: 1000, minScale: 0.6 }),
+    spread: 0.003,
+    feed: Object.freeze({ kind: 'magazine', magazine: 80, reloadMs: 3500 }),
+    range: 1000
+  }),
+  Object.freeze({
+    id: 'machine-gun',
+    name: 'M3 12.7MM',
+    cooldownMs: 50,
+    damage: 4,
+    falloff: Object.freeze({ start: 150, end: 600, minScale: 0.3 }),
+    spread: 0.015,
+    feed: Object.freeze({ kind: 'heat', perShot: 0.035, coolPerSecond: 0.3, recoverAt: 0.25 }),
+    range: 600
+  })
+]);
+
+export const WEAPON_IDS = Object.freeze(WEAPON_DEFINITIONS.map((definition) => definition.id));
+
+const DEFAULT_WEAPON = 'cannon';
+
+/** 알 수 없는 id는 기본 무장(cannon)으로 */
+export function getWeaponDefinition(id) {
+  return WEAPON_DEFINITIONS.find((definition) => definition.id === id)
+    ?? WEAPON_DEFINITIONS.find((definition) => definition.id === DEFAULT_WEAPON);
+}
+
+/** 거리별 피해 - falloff.start까지 그대로, end까지 minScale로 선형 감소, 그 뒤로는 minScale */
+export function damageAtDistance(weapon, distance) {
+  const { start, end, minScale } = weapon.falloff;
+  const t = Math.min(1, Math.max(0, (distance - start) / Math.max(1, end - start)));
+  return Math.max(1, Math.round(weapon.damage * (1 - (1 - minScale) * t)));
+}